@@ -6,12 +6,15 @@ import StatusBar from "./components/StatusBar.js";
 import StaticMessage, { type Message } from "./components/StaticMessage.js";
 import StreamingMessage from "./components/StreamingMessage.js";
 import { AskUserMenu } from "./components/AskUserMenu.js";
+import { PermissionMenu } from "./components/PermissionMenu.js";
 import useTerminalWidth from "./hooks/useTerminalWidth.js";
 import { useSessionManager } from "./hooks/useSessionManager.js";
 import { useAskUser } from "./hooks/useAskUser.js";
+import { usePermissionRequest } from "./hooks/usePermissionRequest.js";
 import { useMessageQueue } from "./hooks/useMessageQueue.js";
 import { SLASH_COMMANDS } from "./constants/commands.js";
 import { VERSION, APP_NAME } from "./constants/meta.js";
+import { COMPACT_PROMPT } from "./constants/prompts.js";
 import {
 	type UserInput,
 	type FileReference,
@@ -44,13 +47,6 @@ type Props = {
 	initResult: InitResult;
 };
 
-// Compact prompt (English) - defined outside component to avoid recreation
-const COMPACT_PROMPT =
-	"Summarize our conversation so far in a concise but comprehensive way. " +
-	"Include key decisions, code changes discussed, important context, and any unresolved questions. " +
-	"This summary will become the context for our continued discussion. " +
-	"Respond with only the summary, no additional commentary.";
-
 // 为 Static 组件的 items 添加唯一 ID
 type MessageWithId = Message & { _staticId: string };
 
@@ -73,6 +69,16 @@ export default function App({ initResult }: Props) {
 		askUserReasoningOffsetRef,
 	} = useAskUser();
 
+	const {
+		pendingPermission,
+		handlePermissionSelect,
+		handlePermissionCancel,
+		createPermissionCallback,
+	} = usePermissionRequest();
+
+	// 是否有等待用户交互的菜单（ask_user 或权限确认）
+	const isAwaitingUser = pendingAskUser !== null || pendingPermission !== null;
+
 	// AI 加载状态（将来用于显示加载指示器）
 	const [, setIsLoading] = useState(false);
 
@@ -83,6 +89,8 @@ export default function App({ initResult }: Props) {
 		usagePercent: number;
 		isNearLimit: boolean;
 		isFull: boolean;
+		subAgentTokens: number;
+		cacheHitRate?: number;
 	} | null>(null);
 
 	// AI 服务实例（从初始化结果获取）
@@ -108,6 +116,8 @@ export default function App({ initResult }: Props) {
 				usagePercent: status.usagePercent,
 				isNearLimit: status.isNearLimit,
 				isFull: status.isFull,
+				subAgentTokens: status.subAgentTokens,
+				cacheHitRate: status.cacheHitRate,
 			});
 		} else {
 			setUsageStatus(null);
@@ -128,6 +138,8 @@ export default function App({ initResult }: Props) {
 		sessionSwitch,
 		sessionDelete,
 		sessionClear,
+		sessionExport,
+		sessionImport,
 		saveCurrentSession,
 	} = useSessionManager({
 		aiServiceRef,
@@ -148,6 +160,7 @@ export default function App({ initResult }: Props) {
 		askUserReasoningOffsetRef,
 		updateUsageStatus,
 		createAskUserCallback,
+		createPermissionCallback,
 	});
 
 	// 组件挂载后恢复 stdin 输入（之前在 cli.tsx 中被暂停）
@@ -155,6 +168,24 @@ export default function App({ initResult }: Props) {
 		resumeInput();
 	}, []);
 
+	// 后台进程数（StatusBar 显示）
+	// 重建 AI 服务时沿用同一个进程管理器，只有首次配置模型后才会变化
+	const processManager = aiServiceRef.current?.getProcessManager();
+	const [jobCount, setJobCount] = useState(0);
+	useEffect(() => {
+		if (!processManager) return;
+		const update = () => setJobCount(processManager.getRunningCount());
+		update();
+		return processManager.onChange(update);
+	}, [processManager]);
+
+	// 退出时停止所有后台进程（dev server 等不应在退出后继续运行）
+	useEffect(() => {
+		return () => {
+			aiServiceRef.current?.getProcessManager().stopAll();
+		};
+	}, []);
+
 	// 发送消息给 AI（支持文件附件）
 	const sendToAI = useCallback(
 		(content: string, files: FileReference[] = [], isUserMessage = true) => {
@@ -266,7 +297,9 @@ export default function App({ initResult }: Props) {
 	// 重建 AI 服务（模型切换后需要）
 	const recreateAIService = useCallback(() => {
 		const registry = getToolRegistry();
-		aiServiceRef.current = createAIServiceFromConfig(registry);
+		aiServiceRef.current = createAIServiceFromConfig(registry, undefined, {
+			processManager: aiServiceRef.current?.getProcessManager(),
+		});
 		// 模型切换后更新 usage 状态
 		updateUsageStatus();
 	}, [updateUsageStatus]);
@@ -335,7 +368,9 @@ export default function App({ initResult }: Props) {
 
 				// 重建 AI 服务
 				const registry = getToolRegistry();
-				aiServiceRef.current = createAIServiceFromConfig(registry);
+				aiServiceRef.current = createAIServiceFromConfig(registry, undefined, {
+					processManager: aiService.getProcessManager(),
+				});
 
 				// 使用总结初始化新 session
 				aiServiceRef.current?.compactWith(summary);
@@ -414,6 +449,9 @@ export default function App({ initResult }: Props) {
 			sessionSwitch,
 			sessionDelete,
 			sessionClear,
+			sessionExport,
+			sessionImport,
+			listJobs: () => aiServiceRef.current?.getProcessManager().list() ?? [],
 		}),
 		[
 			showMessage,
@@ -427,6 +465,8 @@ export default function App({ initResult }: Props) {
 			sessionSwitch,
 			sessionDelete,
 			sessionClear,
+			sessionExport,
+			sessionImport,
 		],
 	);
 
@@ -516,8 +556,8 @@ export default function App({ initResult }: Props) {
 					<StreamingMessage message={streamingMessage} width={terminalWidth} />
 				)}
 
-				{/* 输出区域与输入框分隔线（无 ask_user 菜单时显示） */}
-				{!pendingAskUser && (
+				{/* 输出区域与输入框分隔线（无交互菜单时显示） */}
+				{!isAwaitingUser && (
 					<Box flexShrink={0}>
 						<Divider />
 					</Box>
@@ -536,13 +576,25 @@ export default function App({ initResult }: Props) {
 					</Box>
 				)}
 
+				{/* 权限确认菜单（工具调用等待用户授权时显示） */}
+				{pendingPermission && (
+					<Box flexShrink={0}>
+						<PermissionMenu
+							request={pendingPermission.request}
+							onSelect={handlePermissionSelect}
+							onCancel={handlePermissionCancel}
+							columns={terminalWidth}
+						/>
+					</Box>
+				)}
+
 				{/* 输入框区域 */}
 			{/* minHeight=1 确保输入框始终占据至少一行，避免布局跳动 */}
 				<Box
 					flexShrink={0}
 					flexGrow={0}
 					minHeight={1}
-					display={!pendingAskUser ? "flex" : "none"}
+					display={!isAwaitingUser ? "flex" : "none"}
 				>
 					<AutocompleteInput
 						prompt="> "
@@ -550,7 +602,7 @@ export default function App({ initResult }: Props) {
 						onClear={handleClear}
 						onExit={clearAndExit}
 						slashCommands={SLASH_COMMANDS}
-						isActive={!pendingAskUser}
+						isActive={!isAwaitingUser}
 					/>
 				</Box>
 
@@ -569,6 +621,9 @@ export default function App({ initResult }: Props) {
 						isNearLimit={usageStatus?.isNearLimit}
 						isFull={usageStatus?.isFull}
 						isWorking={!!streamingMessage}
+						jobCount={jobCount}
+						subAgentTokens={usageStatus?.subAgentTokens}
+						cacheHitRate={usageStatus?.cacheHitRate}
 					/>
 				</Box>
 			</Box>
@@ -1,4 +1,5 @@
 #!/usr/bin/env node
+import * as os from "node:os";
 import { render } from "ink";
 import meow from "meow";
 import App from "./app.js";
@@ -10,9 +11,16 @@ import { initLocalSettings } from "./utils/localsettings.js";
 import { initPlatform, clearScreen } from "./utils/platform.js";
 import { initApp, type InitResult } from "./utils/init.js";
 import { initI18n } from "./i18n/index.js";
-
-// 清屏（跨平台）
-clearScreen();
+import { getMcpClientManager } from "./services/tools/mcp/client.js";
+import { getProcessManager } from "./services/tools/processManager.js";
+import { stopRunningCommands } from "./services/tools/executorUtils.js";
+import { runPrintMode } from "./utils/printMode.js";
+import {
+	applySessionStartup,
+	parseSessionStartup,
+	runSessionsCommand,
+} from "./utils/sessionArgs.js";
+import { initSessionStore } from "./services/ai/sessionStore.js";
 
 // 同步初始化（配置文件等）
 initConfig();
@@ -34,12 +42,70 @@ const cli = meow({
 			type: "boolean",
 			shortFlag: "v",
 		},
+		print: {
+			type: "boolean",
+			shortFlag: "p",
+		},
+		outputFormat: {
+			type: "string",
+			default: "text",
+		},
+		maxRounds: {
+			type: "number",
+		},
+		model: {
+			type: "string",
+		},
+		plan: {
+			type: "boolean",
+		},
+		allowedTools: {
+			type: "string",
+			isMultiple: true,
+		},
+		continue: {
+			type: "boolean",
+			shortFlag: "c",
+		},
+		resume: {
+			type: "string",
+			shortFlag: "r",
+		},
+		newSession: {
+			type: "string",
+		},
+		json: {
+			type: "boolean",
+		},
+		all: {
+			type: "boolean",
+		},
+		format: {
+			type: "string",
+		},
+		output: {
+			type: "string",
+			shortFlag: "o",
+		},
 	},
 });
 
 // 设置命令行参数
 setFlags(cli.flags);
 
+// 退出时停止子进程：后台进程和执行中的命令都在独立进程组中，不会随本进程结束
+function stopChildProcesses() {
+	getProcessManager().stopAll();
+	stopRunningCommands();
+}
+process.on("exit", stopChildProcesses);
+for (const signal of ["SIGHUP", "SIGTERM"] as const) {
+	process.on(signal, () => {
+		stopChildProcesses();
+		process.exit(128 + os.constants.signals[signal]);
+	});
+}
+
 // 如果用户请求帮助，输出帮助信息后退出
 if (cli.flags.help) {
 	console.log(`
@@ -47,14 +113,77 @@ axiomate - A terminal-based CLI application
 
 Usage:
   axiomate [options]
+  axiomate -p [options] "prompt"
+  cat file | axiomate -p [options] ["prompt"]
+  axiomate sessions list [--json] [--all]
+  axiomate sessions export <id|name> [--format md|json|html] [--output <path|->]
+  axiomate sessions import <file>
 
 Options:
   -h, --help       Show this help message and exit
   -v, --verbose    Enable verbose logging (trace level)
+
+Sessions:
+  -c, --continue            Resume the most recent session in this directory
+  -r, --resume <id|name>    Resume a saved session by ID, ID prefix or name
+  --new-session [name]      Start with a new session
+  sessions list             List sessions of this directory
+                            (--all for every project, --json for JSON output)
+  sessions export           Export a session as a transcript (default: md,
+                            written to .axiomate/exports; "-o -" for stdout)
+  sessions import           Import a session exported as JSON
+
+Print mode (non-interactive):
+  -p, --print               Answer the prompt, write the result to stdout and exit
+  --output-format <format>  text (default), json or stream-json
+  --max-rounds <n>          Maximum tool call rounds (default 40)
+  --model <id>              Model to use for this run
+  --plan                    Run in plan mode (read-only)
+  --allowed-tools <list>    Tool calls allowed without confirmation,
+                            comma-separated, * wildcards (e.g. "a-c-git_*")
 `);
 	process.exit(0);
 }
 
+// sessions 子命令：输出 session 列表后退出
+if (!cli.flags.print && cli.input[0] === "sessions") {
+	process.exit(
+		await runSessionsCommand(cli.input.slice(1), {
+			json: cli.flags.json,
+			all: cli.flags.all,
+			format: cli.flags.format,
+			output: cli.flags.output,
+			cwd: process.cwd(),
+		}),
+	);
+}
+
+// print 模式：不渲染 UI，输出到 stdout 后以退出码结束
+if (cli.flags.print) {
+	const exitCode = await runPrintMode({
+		prompt: cli.input.join(" "),
+		outputFormat: cli.flags.outputFormat,
+		maxRounds: cli.flags.maxRounds,
+		model: cli.flags.model,
+		planMode: cli.flags.plan,
+		allowedTools: cli.flags.allowedTools,
+	});
+	// 关闭外部 MCP Server 连接（stdio 子进程会阻止进程退出）
+	await getMcpClientManager().closeAll();
+	process.exit(exitCode);
+}
+
+// 启动时使用的 session（--continue / --resume / --new-session）
+const parsedStartup = parseSessionStartup(cli.flags);
+if (!parsedStartup.success) {
+	console.error(parsedStartup.error);
+	process.exit(2);
+}
+const sessionStartup = parsedStartup.startup;
+
+// 清屏（跨平台）
+clearScreen();
+
 async function main() {
 	// 快速初始化（内置工具 + AI 服务）
 	let initResult: InitResult;
@@ -94,6 +223,19 @@ async function main() {
 		clearScreen();
 	}
 
+	// 在 App 加载活跃 session 之前切换到命令行指定的 session
+	if (sessionStartup) {
+		const store = await initSessionStore(
+			initResult.aiService?.getContextWindow() ?? 32768,
+		);
+		const applied = applySessionStartup(store, sessionStartup, process.cwd());
+		if (!applied.success) {
+			console.error(applied.error);
+			await getMcpClientManager().closeAll();
+			process.exit(2);
+		}
+	}
+
 	// 正常启动 App
 	// 注意：incrementalRendering 会导致长输出后的渲染残留问题，暂时关闭
 	const { waitUntilExit } = render(<App initResult={initResult} />, {
@@ -101,6 +243,8 @@ async function main() {
 		incrementalRendering: false,
 	});
 	await waitUntilExit();
+	// 关闭外部 MCP Server 连接（stdio 子进程会阻止进程退出）
+	await getMcpClientManager().closeAll();
 	clearScreen();
 }
 
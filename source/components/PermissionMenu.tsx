@@ -0,0 +1,172 @@
+/**
+ * PermissionMenu component
+ * Asks the user to confirm a tool call before it is executed
+ * Used when the permission manager returns "ask" for a tool call
+ */
+
+import { useState } from "react";
+import { Box, Text, useInput } from "ink";
+import { t } from "../i18n/index.js";
+import type {
+	PermissionDecision,
+	PermissionRequest,
+	RiskLevel,
+} from "../services/permissions/types.js";
+
+type PermissionMenuProps = {
+	/** The tool call waiting for confirmation */
+	request: PermissionRequest;
+	/** Callback when user selects a decision */
+	onSelect: (decision: PermissionDecision) => void;
+	/** Callback when user cancels (Escape) */
+	onCancel?: () => void;
+	/** Terminal width */
+	columns: number;
+	/** Maximum lines of argument preview (default: 8) */
+	maxPreviewLines?: number;
+};
+
+const DECISIONS: PermissionDecision[] = [
+	"allow_once",
+	"allow_session",
+	"allow_always",
+	"deny",
+];
+
+// Dangerous commands can only be approved one call at a time
+const DANGEROUS_DECISIONS: PermissionDecision[] = ["allow_once", "deny"];
+
+const RISK_COLORS: Record<RiskLevel, string> = {
+	safe: "green",
+	moderate: "yellow",
+	dangerous: "red",
+};
+
+/**
+ * 格式化参数预览（每个参数 key: value，多行值展开，超出限制截断）
+ */
+function formatArgsPreview(
+	args: Record<string, unknown>,
+	maxLines: number,
+	columns: number,
+): string[] {
+	const lines: string[] = [];
+	for (const [key, value] of Object.entries(args)) {
+		const text = typeof value === "string" ? value : JSON.stringify(value);
+		const valueLines = (text ?? "").split(/\r?\n/);
+		lines.push(`${key}: ${valueLines[0] ?? ""}`);
+		for (const line of valueLines.slice(1)) {
+			lines.push(`  ${line}`);
+		}
+	}
+
+	const maxWidth = Math.max(columns - 4, 20);
+	const truncated = lines
+		.slice(0, maxLines)
+		.map((line) =>
+			line.length > maxWidth ? `${line.slice(0, maxWidth - 1)}…` : line,
+		);
+	if (lines.length > maxLines) {
+		truncated.push(
+			t("permission.moreLines", { count: lines.length - maxLines }),
+		);
+	}
+	return truncated;
+}
+
+export function PermissionMenu({
+	request,
+	onSelect,
+	onCancel,
+	columns,
+	maxPreviewLines = 8,
+}: PermissionMenuProps) {
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const preview = formatArgsPreview(request.args, maxPreviewLines, columns);
+	const risk = request.risk;
+	const decisions =
+		risk?.level === "dangerous" ? DANGEROUS_DECISIONS : DECISIONS;
+
+	useInput(
+		(_input, key) => {
+			if (key.upArrow) {
+				setSelectedIndex((i) => (i === 0 ? decisions.length - 1 : i - 1));
+			} else if (key.downArrow) {
+				setSelectedIndex((i) => (i === decisions.length - 1 ? 0 : i + 1));
+			} else if (key.return) {
+				onSelect(decisions[selectedIndex] ?? "deny");
+			} else if (key.escape) {
+				onCancel?.();
+			}
+		},
+		{ isActive: true },
+	);
+
+	return (
+		<Box flexDirection="column">
+			{/* Divider */}
+			<Text color="gray">{"─".repeat(columns)}</Text>
+
+			{/* Question */}
+			<Box>
+				<Text color="yellow" bold>
+					?{" "}
+					{t("permission.question", {
+						tool: `${request.toolName}:${request.actionName}`,
+					})}
+				</Text>
+			</Box>
+			<Box>
+				<Text color="gray">
+					{"  "}
+					{request.callName}
+				</Text>
+			</Box>
+
+			{/* Arguments preview */}
+			{preview.map((line, index) => (
+				<Box key={`arg-${index}`}>
+					<Text dimColor>
+						{"    "}
+						{line}
+					</Text>
+				</Box>
+			))}
+
+			{/* Risk assessment */}
+			{risk && (
+				<Box>
+					<Text color={RISK_COLORS[risk.level]}>
+						{"  "}
+						{t("permission.riskLabel", {
+							level: t(`permission.riskLevel.${risk.level}`),
+						})}
+						{risk.reasons.length > 0 ? ` · ${risk.reasons.join("; ")}` : ""}
+					</Text>
+				</Box>
+			)}
+
+			{/* Options */}
+			{decisions.map((decision, index) => {
+				const isSelected = index === selectedIndex;
+				return (
+					<Box key={decision}>
+						<Text
+							backgroundColor={isSelected ? "blue" : undefined}
+							color={isSelected ? "white" : undefined}
+						>
+							{"  "}
+							{isSelected ? "▸ " : "  "}
+							{t(`permission.${decision}`)}
+						</Text>
+					</Box>
+				);
+			})}
+
+			{/* Hints */}
+			<Box>
+				<Text dimColor>{t("permission.navigationHint")}</Text>
+			</Box>
+		</Box>
+	);
+}
@@ -2,6 +2,7 @@ import { Box, Text } from "ink";
 import { useCallback, useEffect } from "react";
 import { THEME_PINK, THEME_LIGHT_YELLOW } from "../constants/colors.js";
 import { useTranslation } from "../hooks/useTranslation.js";
+import ToolCallBlock, { type ToolCallInfo } from "./ToolCallBlock.js";
 
 /**
  * ask_user 问答对
@@ -18,6 +19,8 @@ export type Message = {
 	reasoningCollapsed?: boolean;
 	askUserQA?: AskUserQA;
 	askUserCollapsed?: boolean;
+	toolCalls?: ToolCallInfo[];
+	toolCallsCollapsed?: boolean;
 	type?: "user" | "system" | "welcome" | "user-answer";
 	streaming?: boolean;
 	queued?: boolean;
@@ -182,7 +185,7 @@ export default function StaticMessage({ message, width }: Props) {
 				);
 			}
 		});
-	} else if (!message.reasoning && !message.askUserQA) {
+	} else if (!message.reasoning && !message.askUserQA && !message.toolCalls) {
 		// 空消息
 		const content = renderContent(message);
 		const msgLines = content.split("\n");
@@ -237,5 +240,16 @@ export default function StaticMessage({ message, width }: Props) {
 		);
 	}
 
+	// 4. 渲染工具调用（如果有）
+	message.toolCalls?.forEach((call) => {
+		rows.push(
+			<ToolCallBlock
+				key={`tool-${call.id}`}
+				call={call}
+				collapsed={message.toolCallsCollapsed}
+			/>,
+		);
+	});
+
 	return <Box flexDirection="column">{rows}</Box>;
 }
@@ -10,6 +10,12 @@ type Props = {
 	isNearLimit?: boolean;
 	isFull?: boolean;
 	isWorking?: boolean;
+	/** Number of running background processes */
+	jobCount?: number;
+	/** Tokens used by sub-agents (not part of the context usage) */
+	subAgentTokens?: number;
+	/** Prompt cache hit rate (0-100), undefined when the provider reports no cache info */
+	cacheHitRate?: number;
 };
 
 // 脉动点的不同大小状态
@@ -66,6 +72,9 @@ export default function StatusBar({
 	isNearLimit,
 	isFull,
 	isWorking = false,
+	jobCount = 0,
+	subAgentTokens = 0,
+	cacheHitRate,
 }: Props) {
 	const { t } = useTranslation();
 
@@ -102,12 +111,29 @@ export default function StatusBar({
 		);
 	};
 
+	const subAgentLabel = t("statusBar.subAgents", {
+		tokens: formatTokens(subAgentTokens),
+	});
+
 	return (
 		<Box flexShrink={0} justifyContent="flex-end" width="100%">
 			{/* 脉动点 - 工作状态指示器 */}
 			<PulseDot isWorking={isWorking} />
+			{/* 后台进程数 */}
+			{jobCount > 0 && (
+				<Text color="cyan">[{t("statusBar.jobs", { count: jobCount })}] </Text>
+			)}
 			{/* Plan/Action 模式指示器 */}
 			{renderPlanMode()}
+			{/* 子代理 token 使用（单独统计） */}
+			{subAgentTokens > 0 && <Text color="gray">[{subAgentLabel}] </Text>}
+			{/* 缓存命中率 */}
+			{cacheHitRate !== undefined && (
+				<Text color="gray">
+					[{t("statusBar.cacheHitRate", { percent: Math.round(cacheHitRate) })}
+					]{" "}
+				</Text>
+			)}
 			{/* Usage 指示器 */}
 			{renderUsage()}
 		</Box>
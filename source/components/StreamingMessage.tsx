@@ -3,6 +3,7 @@ import { useEffect, useMemo } from "react";
 import { THEME_PINK, THEME_LIGHT_YELLOW } from "../constants/colors.js";
 import { useTranslation } from "../hooks/useTranslation.js";
 import type { Message } from "./StaticMessage.js";
+import ToolCallBlock from "./ToolCallBlock.js";
 
 type Props = {
 	message: Message;
@@ -103,7 +104,7 @@ export default function StreamingMessage({ message, width }: Props) {
 				);
 			}
 		});
-	} else if (!message.reasoning) {
+	} else if (!message.reasoning && !message.toolCalls) {
 		// 没有内容也没有思考（空消息或仅有 queued 状态）
 		if (message.queued) {
 			rows.push(
@@ -155,5 +156,16 @@ export default function StreamingMessage({ message, width }: Props) {
 		);
 	}
 
+	// 4. 渲染工具调用（如果有）
+	message.toolCalls?.forEach((call) => {
+		rows.push(
+			<ToolCallBlock
+				key={`tool-${call.id}`}
+				call={call}
+				collapsed={message.toolCallsCollapsed}
+			/>,
+		);
+	});
+
 	return <Box flexDirection="column">{rows}</Box>;
 }
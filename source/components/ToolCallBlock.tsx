@@ -0,0 +1,122 @@
+import { Box, Text } from "ink";
+import { useState, useEffect } from "react";
+import { useTranslation } from "../hooks/useTranslation.js";
+
+export type ToolCallStatus =
+	"pending" | "awaiting_permission" | "running" | "success" | "error";
+
+/**
+ * Tool call shown in the message stream
+ */
+export type ToolCallInfo = {
+	/** tool_call_id */
+	id: string;
+	toolId: string;
+	action: string;
+	argsSummary: string;
+	status: ToolCallStatus;
+	/** Start timestamp, only set for live calls (drives the elapsed timer) */
+	startedAt?: number;
+	durationMs?: number;
+	/** Truncated output (error message when failed, last lines while running) */
+	outputPreview?: string;
+};
+
+type Props = {
+	call: ToolCallInfo;
+	/** Collapsed blocks only show the header line (errors are always shown) */
+	collapsed?: boolean;
+};
+
+const SPINNER_FRAMES = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+const SPINNER_INTERVAL = 100; // ms
+
+/**
+ * Format a duration, e.g. 120 -> "120ms", 3400 -> "3.4s", 65000 -> "1m 5s"
+ */
+export function formatDuration(ms: number): string {
+	if (ms < 1000) {
+		return `${Math.max(0, Math.round(ms))}ms`;
+	}
+	if (ms < 60000) {
+		return `${(ms / 1000).toFixed(1)}s`;
+	}
+	const seconds = Math.floor(ms / 1000);
+	return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Spinner with elapsed time for a running tool call
+ */
+function Elapsed({ startedAt }: { startedAt: number }) {
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		const timer = setInterval(() => {
+			setNow(Date.now());
+		}, SPINNER_INTERVAL);
+		return () => clearInterval(timer);
+	}, []);
+
+	const frame =
+		SPINNER_FRAMES[Math.floor(now / SPINNER_INTERVAL) % SPINNER_FRAMES.length];
+
+	return (
+		<>
+			<Text color="cyan">{frame} </Text>
+			<Text dimColor>{formatDuration(now - startedAt)}</Text>
+		</>
+	);
+}
+
+/**
+ * ToolCallBlock - one tool call in the activity timeline
+ */
+export default function ToolCallBlock({ call, collapsed = false }: Props) {
+	const { t } = useTranslation();
+
+	const isDone = call.status === "success" || call.status === "error";
+	const isError = call.status === "error";
+	const isRunning = call.status === "running";
+	const showOutput =
+		!!call.outputPreview &&
+		((isDone && (!collapsed || isError)) || (isRunning && !collapsed));
+
+	return (
+		<Box flexDirection="column">
+			<Box>
+				<Text wrap="truncate-end">
+					{isDone ? (
+						<Text color={isError ? "red" : "green"}>
+							{isError ? "✗" : "✓"}{" "}
+						</Text>
+					) : (
+						<Text color="cyan">{"⏺"} </Text>
+					)}
+					<Text color={isError ? "red" : undefined} bold>
+						{call.toolId}:{call.action}
+					</Text>
+					{call.argsSummary && <Text dimColor> {call.argsSummary}</Text>}
+				</Text>
+				<Text> </Text>
+				{isDone ? (
+					call.durationMs !== undefined && (
+						<Text dimColor>{formatDuration(call.durationMs)}</Text>
+					)
+				) : call.status === "awaiting_permission" ? (
+					<Text color="yellow">{t("message.toolAwaitingPermission")}</Text>
+				) : (
+					call.startedAt !== undefined && <Elapsed startedAt={call.startedAt} />
+				)}
+			</Box>
+			{showOutput &&
+				call.outputPreview!.split("\n").map((line, idx) => (
+					<Box key={idx}>
+						<Text dimColor={!isError} color={isError ? "red" : undefined}>
+							{"  │ " + line}
+						</Text>
+					</Box>
+				))}
+		</Box>
+	);
+}
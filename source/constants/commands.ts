@@ -10,6 +10,11 @@ import {
 } from "../utils/config.js";
 import { t, addLocaleChangeListener } from "../i18n/index.js";
 import { getSessionStore } from "../services/ai/sessionStore.js";
+import {
+	TRANSCRIPT_FORMATS,
+	listExportFiles,
+} from "../services/ai/sessionTranscript.js";
+import { getMcpClientManager } from "../services/tools/mcp/client.js";
 
 /**
  * 根据模型配置生成模型选择命令
@@ -111,6 +116,39 @@ function generateSessionDeleteCommands(): SlashCommand[] {
 		}));
 }
 
+/**
+ * 生成 session 导入子命令（项目导出目录中的 JSON 文件）
+ */
+function generateSessionImportCommands(): SlashCommand[] {
+	return listExportFiles(process.cwd()).map((file) => ({
+		name: file,
+		description: t("commands.session.importFileDesc"),
+		action: { type: "internal" as const, handler: "session_import" },
+	}));
+}
+
+/**
+ * 生成 MCP Server 启用 / 禁用子命令
+ * enable 列出未连接的 Server（包括连接失败的，用于重试），disable 列出未禁用的 Server
+ */
+function generateMcpServerCommands(enable: boolean): SlashCommand[] {
+	return getMcpClientManager()
+		.listServers()
+		.filter((server) =>
+			enable
+				? server.status === "disabled" || server.status === "error"
+				: server.status !== "disabled",
+		)
+		.map((server) => ({
+			name: server.name,
+			description: `${server.toolId} [${t(`mcp.status.${server.status}`)}]`,
+			action: {
+				type: "internal" as const,
+				handler: enable ? "mcp_enable" : "mcp_disable",
+			},
+		}));
+}
+
 /**
  * 获取斜杠命令列表（使用当前语言）
  * 这个函数在运行时调用，使用当前激活的语言
@@ -203,6 +241,22 @@ export function getSlashCommands(): SlashCommand[] {
 					// 当没有可删除的 session 时，使用 action 显示提示信息
 					action: { type: "internal", handler: "session_delete_empty" },
 				},
+				{
+					name: "export",
+					description: t("commands.session.exportDesc"),
+					children: TRANSCRIPT_FORMATS.map((format) => ({
+						name: format,
+						description: t(`commands.session.exportFormats.${format}`),
+						action: { type: "internal" as const, handler: "session_export" },
+					})),
+				},
+				{
+					name: "import",
+					description: t("commands.session.importDesc"),
+					children: generateSessionImportCommands(),
+					// 当没有可导入的文件时，使用 action 显示提示信息
+					action: { type: "internal", handler: "session_import_empty" },
+				},
 				{
 					name: "clear",
 					description: t("commands.session.clearDesc"),
@@ -220,6 +274,29 @@ export function getSlashCommands(): SlashCommand[] {
 			description: t("commands.stop.description"),
 			action: { type: "internal", handler: "stop" },
 		},
+		{
+			name: "undo",
+			description: t("commands.undo.description"),
+			// 直接执行 /undo 时撤销最近一轮
+			action: { type: "internal", handler: "undo_last" },
+			children: [
+				{
+					name: "last",
+					description: t("commands.undo.lastDesc"),
+					action: { type: "internal", handler: "undo_last" },
+				},
+				{
+					name: "list",
+					description: t("commands.undo.listDesc"),
+					action: { type: "internal", handler: "undo_list" },
+				},
+			],
+		},
+		{
+			name: "redo",
+			description: t("commands.redo.description"),
+			action: { type: "internal", handler: "redo" },
+		},
 		{
 			name: "tools",
 			description: t("commands.tools.description"),
@@ -241,6 +318,41 @@ export function getSlashCommands(): SlashCommand[] {
 				},
 			],
 		},
+		{
+			name: "mcp",
+			description: t("commands.mcp.description"),
+			children: [
+				{
+					name: "list",
+					description: t("commands.mcp.listDesc"),
+					action: { type: "internal", handler: "mcp_list" },
+				},
+				{
+					name: "enable",
+					description: t("commands.mcp.enableDesc"),
+					children: generateMcpServerCommands(true),
+					// 当没有可启用的 Server 时，使用 action 显示提示信息
+					action: { type: "internal", handler: "mcp_enable_empty" },
+				},
+				{
+					name: "disable",
+					description: t("commands.mcp.disableDesc"),
+					children: generateMcpServerCommands(false),
+					// 当没有可禁用的 Server 时，使用 action 显示提示信息
+					action: { type: "internal", handler: "mcp_disable_empty" },
+				},
+			],
+		},
+		{
+			name: "cost",
+			description: t("commands.cost.description"),
+			action: { type: "internal", handler: "cost_show" },
+		},
+		{
+			name: "jobs",
+			description: t("commands.jobs.description"),
+			action: { type: "internal", handler: "jobs_list" },
+		},
 		{
 			name: "suggestion",
 			description: `${t("commands.suggestion.description")} [${suggestionStatus}]`,
@@ -312,6 +424,11 @@ addLocaleChangeListener(() => {
 	cachedCommands = null;
 });
 
+// 监听 MCP Server 状态变化（后台连接完成、断开），清除缓存
+getMcpClientManager().onToolsChanged(() => {
+	cachedCommands = null;
+});
+
 export const SLASH_COMMANDS: SlashCommand[] = new Proxy([] as SlashCommand[], {
 	get(target, prop) {
 		if (!cachedCommands) {
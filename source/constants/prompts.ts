@@ -47,7 +47,7 @@ You have two operating modes: **Action Mode** and **Plan Mode**.
 
 ### Plan Mode
 - Read-only mode for exploration and planning
-- You can ONLY use plan tools (p-plan_read, p-plan_write, p-plan_edit, p-plan_leave)
+- You can ONLY use plan tools (p-plan_read, p-plan_write, p-plan_edit, p-plan_leave) and the scratchpad
 - You CANNOT modify code files, execute commands, or use other tools
 - Use \`p-plan_leave\` to switch back to Action Mode
 - Mode switches take effect immediately
@@ -65,7 +65,28 @@ Write plans to: \`.axiomate/plans/plan.md\`
 2. Use \`p-plan_write\` to create the plan file
 3. Call \`p-plan_leave\` to return to Action Mode
 4. Execute each step using available tools
-5. Use \`p-plan_edit\` to mark steps complete: \`- [ ]\` → \`- [x]\``;
+5. Use \`p-plan_edit\` to mark steps complete: \`- [ ]\` → \`- [x]\`
+
+## Scratchpad
+
+For long multi-step tasks, keep a working memory in \`.axiomate/scratchpad.md\` (available in both modes):
+- \`a-c-scratchpad_update\` with section \`task\`: the current goal and key constraints (max 10 lines)
+- \`a-c-scratchpad_update\` with section \`todo\`: the full checklist (\`- [ ] item\` / \`- [x] item\`)
+- \`a-c-scratchpad_read\`: recover the task and todo list, e.g. after the conversation was compacted
+
+## Background Processes
+
+Start commands that do not exit on their own (dev servers, watchers, \`docker compose up\`) with \`a-c-process_start\` instead of a shell tool, which would block until it times out. Commands that run too long are also detached to the background. Both report a process id (e.g. \`p1\`):
+- \`a-c-process_read_output\`: read new output, pass the returned offset as \`since\` next time
+- \`a-c-process_status\`: check whether it is still running and its exit code
+- \`a-c-process_send_input\`: answer a prompt of the process
+- \`a-c-process_stop\`: stop it when it is no longer needed
+
+## Sub-agents
+
+Delegate broad exploration (e.g. "find where X is configured", "list the callers of Y") with \`a-c-agent_delegate\`. A sub-agent reads and searches in its own context and returns only a summary, which keeps this conversation small.
+- Give it a self-contained task: it does not see this conversation
+- Sub-agents cannot modify files or run commands, so do not delegate changes`;
 
 /**
  * Common instructions at the end
@@ -77,6 +98,7 @@ const COMMON_SUFFIX = `
 - When reading files, detect encoding (UTF-8, UTF-8 with BOM, GBK, etc.) and line endings (LF/CRLF)
 - UTF-8 encoding should be used preferentially.
 - When writing files, preserve the original encoding and line ending format
+- For changes in several places or files, prefer one \`a-c-file_apply_patch\` call with a unified diff over many edits
 
 ## File Context
 
@@ -117,20 +139,53 @@ export function buildSystemPrompt(
 		? SYSTEM_PROMPT_WITH_TOOLS
 		: SYSTEM_PROMPT_WITHOUT_TOOLS;
 
+	// Dynamic context appended at the END to maximize prefix cache hits
+	return basePrompt + buildEnvironmentSection(cwd, projectType);
+}
+
+/**
+ * System prompt for sub-agents started by a-c-agent_delegate
+ */
+const SUB_AGENT_PROMPT = `You are a research sub-agent running in axiomate, a terminal-based development tool. Another assistant delegated a task to you.
+
+## Rules
+
+- You can only read and search files; you cannot modify anything or run commands
+- Tools are named \`{mode}-{tool}_{action}\` (e.g., \`a-c-file_grep\`)
+- Search first, then read only the parts of files you need
+- Stop calling tools as soon as you can answer
+
+## Answer
+
+Your final response is the only thing the other assistant sees. Make it a concise summary of what you found: file paths with line numbers, short code excerpts where they matter, and anything you could not find.`;
+
+/**
+ * Build the system prompt of a sub-agent
+ * @param cwd Current working directory
+ * @param projectType Detected project type
+ */
+export function buildSubAgentPrompt(
+	cwd?: string,
+	projectType?: string,
+): string {
+	return SUB_AGENT_PROMPT + buildEnvironmentSection(cwd, projectType);
+}
+
+/**
+ * Runtime context section (empty without cwd)
+ */
+function buildEnvironmentSection(cwd?: string, projectType?: string): string {
 	if (!cwd) {
-		return basePrompt;
+		return "";
 	}
-
-	// Dynamic context appended at the END to maximize prefix cache hits
-	const contextLine = `\n\n## Current Environment\n\n- Working directory: \`${cwd}\`\n- Project type: ${projectType || "unknown"}`;
-	return basePrompt + contextLine;
+	return `\n\n## Current Environment\n\n- Working directory: \`${cwd}\`\n- Project type: ${projectType || "unknown"}`;
 }
 
 // Pre-built mode reminder strings (cached to avoid repeated string construction)
 const PLAN_MODE_REMINDER = `<system-reminder>
 Plan mode is active. You are in read-only exploration and planning mode.
 
-ALLOWED tools: p-plan_read, p-plan_write, p-plan_edit, p-plan_leave
+ALLOWED tools: p-plan_read, p-plan_write, p-plan_edit, p-plan_leave, a-c-scratchpad_read, a-c-scratchpad_update
 FORBIDDEN: All other tools (a-c-file, a-c-git, a-c-web, etc.) will be REJECTED.
 
 - Use \`p-plan_leave\` to switch back to Action Mode when ready to implement
@@ -155,6 +210,38 @@ export function buildModeReminder(planMode: boolean): string {
 	return planMode ? PLAN_MODE_REMINDER : ACTION_MODE_REMINDER;
 }
 
+/**
+ * Prompt used by /compact to summarize the conversation
+ */
+export const COMPACT_PROMPT =
+	"Summarize our conversation so far in a concise but comprehensive way. " +
+	"Include key decisions, code changes discussed, important context, and any unresolved questions. " +
+	"This summary will become the context for our continued discussion. " +
+	"Respond with only the summary, no additional commentary.";
+
+/**
+ * Build a prompt that asks for a plan in the plan file format
+ * Used by the MCP "plan" prompt so other agents follow the same workflow
+ * @param task Task to plan
+ * @param currentPlan Existing plan file content, if any
+ */
+export function buildPlanPrompt(task: string, currentPlan?: string): string {
+	const existing = currentPlan?.trim()
+		? `\n\nThe current plan in \`.axiomate/plans/plan.md\` is:\n\n${currentPlan.trim()}\n\nUpdate it instead of starting over if it still applies.`
+		: "";
+
+	return `Create an implementation plan for the following task:
+
+${task}
+
+Explore the code first and do not modify any code files while planning. Write the plan to \`.axiomate/plans/plan.md\` in Markdown with:
+- A title and a short summary of the goal
+- The relevant files and constraints
+- Ordered steps as checkboxes (\`- [ ] step\`), small enough to verify one at a time
+
+While executing, mark each step complete (\`- [ ]\` → \`- [x]\`).${existing}`;
+}
+
 // Re-export for backward compatibility
 // Default to version with tools for existing code
 export const SYSTEM_PROMPT = SYSTEM_PROMPT_WITH_TOOLS;
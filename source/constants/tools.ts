@@ -16,12 +16,16 @@ export const ACTION_CORE_TOOLS = new Set([
 	"a-c-web",
 	"a-c-git",
 	"a-c-enterplan",
+	"a-c-scratchpad",
+	"a-c-process",
+	"a-c-agent",
 ]);
 
 /**
  * Plan 模式工具集
+ * scratchpad 不修改项目文件，两种模式下都可用
  */
-export const PLAN_TOOLS = new Set(["p-plan"]);
+export const PLAN_TOOLS = new Set(["p-plan", "a-c-scratchpad"]);
 
 /**
  * 完整核心工具集（Action + Plan，不含平台 shell）
@@ -81,6 +81,10 @@ export function useAskUser(): AskUserState {
 							//
 							// IMPORTANT: We must do steps 1 and 2 in a single setMessages call
 							// so that when <Static> renders the message, it already has askUserQA.
+							// Offsets are absolute: the streaming message may already start
+							// at an offset (earlier ask_user or tool round in this turn)
+							const baseContentOffset = askUserContentOffsetRef.current;
+							const baseReasoningOffset = askUserReasoningOffsetRef.current;
 							setMessages((prev) => {
 								const newMessages = [...prev];
 								// Find the streaming message (should be the AI's current reply)
@@ -91,8 +95,11 @@ export function useAskUser(): AskUserState {
 										const currentContentLen = msg.content?.length ?? 0;
 										const currentReasoningLen = msg.reasoning?.length ?? 0;
 										askUserContentOffsetRef.current =
-											currentContentLen > 0 ? currentContentLen + 1 : 0;
-										askUserReasoningOffsetRef.current = currentReasoningLen;
+											currentContentLen > 0
+												? baseContentOffset + currentContentLen + 1
+												: baseContentOffset;
+										askUserReasoningOffsetRef.current =
+											baseReasoningOffset + currentReasoningLen;
 										// Mark as non-streaming AND attach Q&A in one operation
 										newMessages[i] = {
 											...msg,
@@ -1,6 +1,11 @@
 import { useRef, useEffect, useCallback } from "react";
 import type { Message } from "../components/StaticMessage.js";
-import type { IAIService, MatchContext } from "../services/ai/index.js";
+import type { ToolCallInfo } from "../components/ToolCallBlock.js";
+import type {
+	IAIService,
+	MatchContext,
+	RetryCallback,
+} from "../services/ai/index.js";
 import type { FileReference } from "../models/input.js";
 import { buildMessageContent } from "../services/ai/contentBuilder.js";
 import {
@@ -9,8 +14,55 @@ import {
 	type ProcessorOptions,
 	type StreamContent,
 } from "../services/ai/messageQueue.js";
+import type { PermissionCallback } from "../services/permissions/types.js";
+import { getUndoManager } from "../services/undo/undoManager.js";
+import { formatCost } from "../services/ai/cost.js";
+import { getCostBudget } from "../utils/config.js";
 import { t } from "../i18n/index.js";
 
+/**
+ * Mark tool calls that never finished (stopped or failed turn) as errors
+ */
+function finishPendingToolCalls(
+	toolCalls: ToolCallInfo[] | undefined,
+): ToolCallInfo[] | undefined {
+	return toolCalls?.map((call) =>
+		call.status === "success" || call.status === "error"
+			? call
+			: {
+					...call,
+					status: "error",
+					durationMs:
+						call.startedAt !== undefined
+							? Date.now() - call.startedAt
+							: undefined,
+				},
+	);
+}
+
+/**
+ * Update a tool call of the streaming message
+ */
+function updateStreamingToolCall(
+	messages: Message[],
+	callId: string,
+	update: Partial<ToolCallInfo>,
+): Message[] {
+	const streamingIndex = messages.findIndex((msg) => msg.streaming);
+	const streamingMsg = messages[streamingIndex];
+	if (!streamingMsg?.toolCalls?.some((call) => call.id === callId)) {
+		return messages;
+	}
+	const newMessages = [...messages];
+	newMessages[streamingIndex] = {
+		...streamingMsg,
+		toolCalls: streamingMsg.toolCalls.map((call) =>
+			call.id === callId ? { ...call, ...update } : call,
+		),
+	};
+	return newMessages;
+}
+
 export type MessageQueueState = {
 	/** Reference to the message queue */
 	messageQueueRef: React.RefObject<MessageQueue | null>;
@@ -38,6 +90,7 @@ type MessageQueueOptions = {
 	createAskUserCallback: (
 		setMessages: React.Dispatch<React.SetStateAction<Message[]>>,
 	) => (question: string, options: string[]) => Promise<string>;
+	createPermissionCallback: () => PermissionCallback;
 };
 
 /**
@@ -56,6 +109,7 @@ export function useMessageQueue(
 		askUserReasoningOffsetRef,
 		updateUsageStatus,
 		createAskUserCallback,
+		createPermissionCallback,
 	} = options;
 
 	const messageQueueRef = useRef<MessageQueue | null>(null);
@@ -65,6 +119,13 @@ export function useMessageQueue(
 		content: "",
 		reasoning: "",
 	});
+	// Last cumulative stream content before offsets (used to split after tool calls)
+	const lastRawStreamContentRef = useRef<StreamContent>({
+		content: "",
+		reasoning: "",
+	});
+	// Set when a tool round finished: the next chunk starts a new streaming message
+	const toolSplitPendingRef = useRef(false);
 
 	// Message processor function
 	const processMessage = useCallback(
@@ -79,6 +140,23 @@ export function useMessageQueue(
 
 			const cwd = process.cwd();
 
+			// Warn when the session cost is over budget ("stop" budgets also end the tool loop early)
+			const budget = getCostBudget();
+			const { totalCost } = aiService.getSessionStatus();
+			if (budget && totalCost >= budget.limit) {
+				setMessages((prev) => [
+					...prev,
+					{
+						content: t("ai.costBudgetExceeded", {
+							cost: formatCost(totalCost),
+							limit: formatCost(budget.limit),
+						}),
+						type: "system" as const,
+						markdown: false,
+					},
+				]);
+			}
+
 			// Estimate message size first, check if compact is needed
 			const roughEstimate = await buildMessageContent({
 				userMessage: queuedMessage.content,
@@ -142,24 +220,78 @@ export function useMessageQueue(
 			// Create ask_user callback
 			const onAskUser = createAskUserCallback(setMessages);
 
+			// Create permission confirmation callback
+			const onPermission = createPermissionCallback();
+
+			// Show retry progress when a request is rate limited or fails transiently
+			const onRetry: RetryCallback = (event) => {
+				setMessages((prev) => [
+					...prev,
+					{
+						content: t(`ai.retry.${event.reason}`, {
+							seconds: Math.ceil(event.delayMs / 1000),
+							status: event.status ?? "",
+							attempt: event.attempt,
+							max: event.maxRetries,
+						}),
+						type: "system" as const,
+						markdown: false,
+					},
+				]);
+			};
+
 			// displayContent 是用户的原始输入（已包含 @文件路径），用于 UI 显示和会话恢复
 			// 注意：queuedMessage.content 已经是用户输入的完整内容，不需要再追加文件引用
 			const displayContent = queuedMessage.content;
 
-			return aiService.streamMessage(
-				buildResult.content,
-				context,
-				{
-					onStart: processorOptions?.streamCallbacks?.onStart,
-					onChunk: processorOptions?.streamCallbacks?.onChunk,
-					onEnd: processorOptions?.streamCallbacks?.onEnd,
-				},
-				{ signal: processorOptions?.signal, planMode: queuedMessage.planMode },
-				onAskUser,
-				displayContent,
-			);
+			// File changes made during this turn are grouped for /undo
+			const undoManager = getUndoManager();
+			undoManager.beginTurn(queuedMessage.id, cwd, displayContent);
+			try {
+				return await aiService.streamMessage(
+					buildResult.content,
+					context,
+					{
+						onStart: processorOptions?.streamCallbacks?.onStart,
+						onChunk: processorOptions?.streamCallbacks?.onChunk,
+						onEnd: processorOptions?.streamCallbacks?.onEnd,
+						onToolStart: processorOptions?.streamCallbacks?.onToolStart,
+						onToolProgress: processorOptions?.streamCallbacks?.onToolProgress,
+						onToolEnd: processorOptions?.streamCallbacks?.onToolEnd,
+						onModelFallback: (event) => {
+							setMessages((prev) => [
+								...prev,
+								{
+									content: t("ai.modelFallback", {
+										from: event.from,
+										to: event.to,
+									}),
+									type: "system" as const,
+									markdown: false,
+								},
+							]);
+						},
+					},
+					{
+						signal: processorOptions?.signal,
+						planMode: queuedMessage.planMode,
+						onRetry,
+					},
+					onAskUser,
+					displayContent,
+					onPermission,
+				);
+			} finally {
+				undoManager.endTurn();
+			}
 		},
-		[aiServiceRef, setMessages, compactRef, createAskUserCallback],
+		[
+			aiServiceRef,
+			setMessages,
+			compactRef,
+			createAskUserCallback,
+			createPermissionCallback,
+		],
 	);
 
 	// Initialize message queue
@@ -200,6 +332,9 @@ export function useMessageQueue(
 								newMessages[streamingIndex].content +
 								`\n\nError: ${error.message}`,
 							streaming: false,
+							toolCalls: finishPendingToolCalls(
+								newMessages[streamingIndex].toolCalls,
+							),
 						};
 						return newMessages;
 					}
@@ -236,6 +371,9 @@ export function useMessageQueue(
 							streaming: false,
 							reasoningCollapsed:
 								(newMessages[streamingIndex]?.reasoning?.length ?? 0) > 0,
+							toolCalls: finishPendingToolCalls(
+								newMessages[streamingIndex]?.toolCalls,
+							),
 						};
 						return [
 							...newMessages,
@@ -257,6 +395,8 @@ export function useMessageQueue(
 				askUserReasoningOffsetRef.current = 0;
 				// Reset last stream content tracker
 				lastStreamContentRef.current = { content: "", reasoning: "" };
+				lastRawStreamContentRef.current = { content: "", reasoning: "" };
+				toolSplitPendingRef.current = false;
 				// Add empty streaming message
 				setMessages((prev) => [
 					...prev,
@@ -267,6 +407,38 @@ export function useMessageQueue(
 				if (currentStreamingIdRef.current !== id) {
 					return;
 				}
+				// Text after a tool round goes into a new streaming message, so the
+				// finished tool calls stay between the text before and after them
+				if (toolSplitPendingRef.current) {
+					toolSplitPendingRef.current = false;
+					const raw = lastRawStreamContentRef.current;
+					// Skip the newline the service inserts between rounds
+					askUserContentOffsetRef.current =
+						streamContent.content[raw.content.length] === "\n"
+							? raw.content.length + 1
+							: raw.content.length;
+					askUserReasoningOffsetRef.current = raw.reasoning.length;
+					lastStreamContentRef.current = { content: "", reasoning: "" };
+					setMessages((prev) => {
+						const streamingIndex = prev.findIndex((msg) => msg.streaming);
+						const streamingMsg = prev[streamingIndex];
+						// ask_user may already have started a new message after the tools
+						if (!streamingMsg?.toolCalls) {
+							return prev;
+						}
+						const newMessages = [...prev];
+						newMessages[streamingIndex] = {
+							...streamingMsg,
+							streaming: false,
+							reasoningCollapsed: (streamingMsg.reasoning?.length ?? 0) > 0,
+							toolCallsCollapsed: true,
+						};
+						newMessages.push({ content: "", reasoning: "", streaming: true });
+						return newMessages;
+					});
+				}
+				lastRawStreamContentRef.current = streamContent;
+
 				// Apply askuser offset if any
 				const contentOffset = askUserContentOffsetRef.current;
 				const reasoningOffset = askUserReasoningOffsetRef.current;
@@ -335,7 +507,9 @@ export function useMessageQueue(
 					const hasContent = displayContent.trim().length > 0;
 					const hasReasoning = displayReasoning.trim().length > 0;
 					const hasAskUserQA = !!streamingMsg?.askUserQA;
-					if (!hasContent && !hasReasoning && !hasAskUserQA) {
+					const hasToolCalls = !!streamingMsg?.toolCalls?.length;
+					const hasBody = hasContent || hasReasoning || hasAskUserQA;
+					if (!hasBody && !hasToolCalls) {
 						// Remove empty message
 						newMessages.splice(streamingIndex, 1);
 					} else {
@@ -345,18 +519,20 @@ export function useMessageQueue(
 							reasoning: displayReasoning,
 							streaming: false,
 							reasoningCollapsed: displayReasoning.length > 0,
+							toolCallsCollapsed: hasToolCalls ? true : undefined,
 						};
 					}
 
 					// Auto-fold previous messages' reasoning and askUserQA
-					for (let i = (hasContent || hasReasoning || hasAskUserQA ? streamingIndex : newMessages.length) - 1; i >= 0; i--) {
+					for (let i = (hasBody || hasToolCalls ? streamingIndex : newMessages.length) - 1; i >= 0; i--) {
 						const msg = newMessages[i];
 						if (!msg) continue;
 						const needsFoldReasoning =
 							(msg.reasoning?.length ?? 0) > 0 && !msg.reasoningCollapsed;
 						const needsFoldAskUser =
 							msg.askUserQA && msg.askUserCollapsed === false;
-						if (needsFoldReasoning || needsFoldAskUser) {
+						const needsFoldToolCalls = msg.toolCalls && !msg.toolCallsCollapsed;
+						if (needsFoldReasoning || needsFoldAskUser || needsFoldToolCalls) {
 							newMessages[i] = {
 								...msg,
 								reasoningCollapsed: needsFoldReasoning
@@ -365,6 +541,9 @@ export function useMessageQueue(
 								askUserCollapsed: needsFoldAskUser
 									? true
 									: msg.askUserCollapsed,
+								toolCallsCollapsed: needsFoldToolCalls
+									? true
+									: msg.toolCallsCollapsed,
 							};
 						}
 						if (msg.type === "user") {
@@ -376,8 +555,67 @@ export function useMessageQueue(
 				// Reset askuser offsets
 				askUserContentOffsetRef.current = 0;
 				askUserReasoningOffsetRef.current = 0;
+				toolSplitPendingRef.current = false;
 				updateUsageStatus();
 			},
+			onToolStart: (id, event) => {
+				if (currentStreamingIdRef.current !== id) {
+					return;
+				}
+				// Consecutive tool rounds without text share one block list
+				toolSplitPendingRef.current = false;
+				setMessages((prev) => {
+					const streamingIndex = prev.findIndex((msg) => msg.streaming);
+					const streamingMsg = prev[streamingIndex];
+					if (!streamingMsg) {
+						return prev;
+					}
+					const newMessages = [...prev];
+					newMessages[streamingIndex] = {
+						...streamingMsg,
+						toolCalls: [
+							...(streamingMsg.toolCalls ?? []),
+							{
+								id: event.id,
+								toolId: event.toolId,
+								action: event.action,
+								argsSummary: event.argsSummary,
+								status: "pending",
+								startedAt: Date.now(),
+							},
+						],
+						toolCallsCollapsed: false,
+					};
+					return newMessages;
+				});
+			},
+			onToolProgress: (id, event) => {
+				if (currentStreamingIdRef.current !== id) {
+					return;
+				}
+				setMessages((prev) =>
+					updateStreamingToolCall(prev, event.id, {
+						status: event.status,
+						// Live output of a running command (replaced by the final preview)
+						...(event.output !== undefined && {
+							outputPreview: event.output,
+						}),
+					}),
+				);
+			},
+			onToolEnd: (id, event) => {
+				if (currentStreamingIdRef.current !== id) {
+					return;
+				}
+				toolSplitPendingRef.current = true;
+				setMessages((prev) =>
+					updateStreamingToolCall(prev, event.id, {
+						status: event.success ? "success" : "error",
+						durationMs: event.durationMs,
+						outputPreview: event.outputPreview,
+					}),
+				);
+			},
 		});
 
 		return () => {
@@ -0,0 +1,64 @@
+import { useState, useCallback } from "react";
+import type {
+	PermissionCallback,
+	PermissionDecision,
+	PermissionRequest,
+} from "../services/permissions/types.js";
+
+export type PermissionRequestState = {
+	/** Current pending permission request, or null if none */
+	pendingPermission: {
+		request: PermissionRequest;
+		onResolve: (decision: PermissionDecision) => void;
+	} | null;
+	/** Handle user selection from permission menu */
+	handlePermissionSelect: (decision: PermissionDecision) => void;
+	/** Handle user cancellation of permission menu (treated as deny) */
+	handlePermissionCancel: () => void;
+	/** Create an onPermission callback for AI service */
+	createPermissionCallback: () => PermissionCallback;
+};
+
+/**
+ * Hook for managing tool call permission confirmation state
+ */
+export function usePermissionRequest(): PermissionRequestState {
+	const [pendingPermission, setPendingPermission] = useState<{
+		request: PermissionRequest;
+		onResolve: (decision: PermissionDecision) => void;
+	} | null>(null);
+
+	// Handle user selection
+	const handlePermissionSelect = useCallback(
+		(decision: PermissionDecision) => {
+			if (pendingPermission) {
+				pendingPermission.onResolve(decision);
+				setPendingPermission(null);
+			}
+		},
+		[pendingPermission],
+	);
+
+	// Handle user cancellation
+	const handlePermissionCancel = useCallback(() => {
+		if (pendingPermission) {
+			pendingPermission.onResolve("deny");
+			setPendingPermission(null);
+		}
+	}, [pendingPermission]);
+
+	// Create the onPermission callback for AI service
+	const createPermissionCallback = useCallback((): PermissionCallback => {
+		return (request: PermissionRequest) =>
+			new Promise<PermissionDecision>((resolve) => {
+				setPendingPermission({ request, onResolve: resolve });
+			});
+	}, []);
+
+	return {
+		pendingPermission,
+		handlePermissionSelect,
+		handlePermissionCancel,
+		createPermissionCallback,
+	};
+}
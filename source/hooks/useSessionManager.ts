@@ -1,9 +1,22 @@
 import { useRef, useCallback, useEffect } from "react";
+import * as path from "node:path";
 import type { Message } from "../components/StaticMessage.js";
+import type { ToolCallInfo } from "../components/ToolCallBlock.js";
 import type { IAIService } from "../services/ai/index.js";
 import { createAIServiceFromConfig } from "../services/ai/index.js";
 import { getToolRegistry } from "../services/tools/registry.js";
 import { initSessionStore, SessionStore } from "../services/ai/sessionStore.js";
+import {
+	getDefaultExportPath,
+	readSessionExport,
+	writeTranscript,
+	type TranscriptFormat,
+} from "../services/ai/sessionTranscript.js";
+import {
+	summarizeToolArgs,
+	previewToolOutput,
+	parseToolResultContent,
+} from "../services/ai/toolActivity.js";
 import { clearCommandCache } from "../constants/commands.js";
 import { t } from "../i18n/index.js";
 
@@ -18,6 +31,10 @@ export type SessionManagerState = {
 	sessionDelete: (id: string) => void;
 	/** Clear all sessions and create a new one */
 	sessionClear: () => Promise<void>;
+	/** Export the current session to the project's exports directory */
+	sessionExport: (format: string) => void;
+	/** Import a session from a JSON export and switch to it */
+	sessionImport: (filePath: string) => Promise<void>;
 	/** Save the current session */
 	saveCurrentSession: () => void;
 };
@@ -31,16 +48,41 @@ type SessionManagerOptions = {
 	clearScreenAndReset: () => void;
 };
 
+const ASK_USER_CALL_NAME = "a-c-askuser_ask";
+
+/**
+ * Build a tool call block from a history tool call
+ * Status stays "error" unless a tool result is found (the call was interrupted)
+ */
+function restoreToolCall(toolCall: {
+	id: string;
+	function: { name: string; arguments: string };
+}): ToolCallInfo {
+	const name = toolCall.function.name;
+	const underscoreIndex = name.indexOf("_");
+	return {
+		id: toolCall.id,
+		toolId: underscoreIndex === -1 ? name : name.substring(0, underscoreIndex),
+		action:
+			underscoreIndex === -1 ? "default" : name.substring(underscoreIndex + 1),
+		argsSummary: summarizeToolArgs(toolCall.function.arguments),
+		status: "error",
+	};
+}
+
 /**
  * Parse session history into UI messages
+ * Restores collapsed reasoning, ask_user Q&A and tool call blocks
  */
-function parseHistoryToUIMessages(
+export function parseHistoryToUIMessages(
 	history: Array<{
 		role: string;
 		content: string;
 		displayContent?: string;
 		reasoning_content?: string;
+		tool_call_id?: string;
 		tool_calls?: Array<{
+			id: string;
 			function: { name: string; arguments: string };
 		}>;
 	}>,
@@ -50,6 +92,8 @@ function parseHistoryToUIMessages(
 		question: string;
 		options: string[];
 	} | null = null;
+	// tool_call_id -> index of the UI message holding its block
+	const toolCallOwners = new Map<string, number>();
 
 	for (const msg of history) {
 		if (msg.role === "user") {
@@ -61,9 +105,10 @@ function parseHistoryToUIMessages(
 		} else if (msg.role === "assistant") {
 			// Check for ask_user tool calls
 			let hasAskUserToolCall = false;
+			const toolCalls: ToolCallInfo[] = [];
 			if (msg.tool_calls) {
 				for (const toolCall of msg.tool_calls) {
-					if (toolCall.function.name === "askuser_ask") {
+					if (toolCall.function.name === ASK_USER_CALL_NAME) {
 						hasAskUserToolCall = true;
 						try {
 							const args = JSON.parse(toolCall.function.arguments);
@@ -83,20 +128,58 @@ function parseHistoryToUIMessages(
 						} catch {
 							// Ignore parse errors
 						}
+					} else {
+						toolCalls.push(restoreToolCall(toolCall));
 					}
 				}
 			}
 			// Add assistant content if present
-			if (msg.content || msg.reasoning_content || hasAskUserToolCall) {
+			if (
+				msg.content ||
+				msg.reasoning_content ||
+				hasAskUserToolCall ||
+				toolCalls.length > 0
+			) {
+				for (const call of toolCalls) {
+					toolCallOwners.set(call.id, uiMessages.length);
+				}
 				uiMessages.push({
 					content: msg.content || "",
 					reasoning: msg.reasoning_content || "",
 					reasoningCollapsed: true, // Collapsed by default when restored
+					...(toolCalls.length > 0 && {
+						toolCalls,
+						toolCallsCollapsed: true,
+					}),
 				});
 			}
 		} else if (msg.role === "tool" && msg.content) {
-			// Parse tool message, extract ask_user answer
 			const content = msg.content;
+
+			// Fill in the result of a tool call block
+			const ownerIndex = msg.tool_call_id
+				? toolCallOwners.get(msg.tool_call_id)
+				: undefined;
+			const owner = ownerIndex !== undefined ? uiMessages[ownerIndex] : null;
+			if (owner?.toolCalls) {
+				const result = parseToolResultContent(content);
+				uiMessages[ownerIndex!] = {
+					...owner,
+					toolCalls: owner.toolCalls.map((call) =>
+						call.id === msg.tool_call_id
+							? {
+									...call,
+									status: result.success ? "success" : "error",
+									durationMs: result.durationMs,
+									outputPreview: previewToolOutput(result.output),
+								}
+							: call,
+					),
+				};
+				continue;
+			}
+
+			// Parse tool message, extract ask_user answer
 			const askUserMatch = content.match(/^\[Ask User\] User answered: (.+)$/s);
 			if (askUserMatch && pendingAskUserQuestion) {
 				// Attach Q&A to the last assistant message
@@ -212,7 +295,9 @@ export function useSessionManager(
 		// Rebuild AI service with new empty session
 		const registry = getToolRegistry();
 		(aiServiceRef as React.MutableRefObject<IAIService | null>).current =
-			createAIServiceFromConfig(registry);
+			createAIServiceFromConfig(registry, undefined, {
+				processManager: aiServiceRef.current?.getProcessManager(),
+			});
 
 		// Clear screen and reset Static component
 		clearScreenAndReset();
@@ -363,7 +448,9 @@ export function useSessionManager(
 		// Rebuild AI service
 		const registry = getToolRegistry();
 		(aiServiceRef as React.MutableRefObject<IAIService | null>).current =
-			createAIServiceFromConfig(registry);
+			createAIServiceFromConfig(registry, undefined, {
+				processManager: aiServiceRef.current?.getProcessManager(),
+			});
 
 		// Clear screen and reset Static component
 		clearScreenAndReset();
@@ -383,12 +470,100 @@ export function useSessionManager(
 		updateUsageStatus();
 	}, [aiServiceRef, setMessages, clearScreenAndReset, updateUsageStatus]);
 
+	// Export the current session
+	const sessionExport = useCallback(
+		(format: string) => {
+			const store = sessionStoreRef.current;
+			if (!store) return;
+
+			// Save first so the export includes the latest messages
+			saveCurrentSession();
+
+			const activeId = store.getActiveSessionId();
+			const data = activeId ? store.readSession(activeId) : null;
+			if (!data) {
+				setMessages((prev) => [
+					...prev,
+					{
+						content: t("session.notFound"),
+						type: "system",
+						markdown: false,
+					},
+				]);
+				return;
+			}
+
+			const cwd = process.cwd();
+			const outputPath = getDefaultExportPath(
+				cwd,
+				data.info,
+				format as TranscriptFormat,
+			);
+			let content: string;
+			try {
+				writeTranscript(data, format as TranscriptFormat, outputPath);
+				content = t("session.exported", {
+					path: path.relative(cwd, outputPath),
+				});
+			} catch (error) {
+				content = t("session.exportFailed", {
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+
+			setMessages((prev) => [
+				...prev,
+				{ content, type: "system", markdown: false },
+			]);
+		},
+		[saveCurrentSession, setMessages],
+	);
+
+	// Import a session from a JSON export
+	const sessionImport = useCallback(
+		async (filePath: string) => {
+			const store = sessionStoreRef.current;
+			if (!store) return;
+
+			const result = readSessionExport(filePath);
+			if (!result.success) {
+				setMessages((prev) => [
+					...prev,
+					{
+						content: t("session.importFailed", { error: result.error }),
+						type: "system",
+						markdown: false,
+					},
+				]);
+				return;
+			}
+
+			const info = store.importSession(result.data);
+			await sessionSwitch(info.id);
+
+			setMessages((prev) => [
+				...prev,
+				{
+					content: t("session.imported", {
+						name: info.name,
+						path: path.relative(process.cwd(), filePath),
+					}),
+					type: "system",
+					markdown: false,
+				},
+			]);
+		},
+		[sessionSwitch, setMessages],
+	);
+
 	return {
 		sessionStoreRef,
 		sessionNew,
 		sessionSwitch,
 		sessionDelete,
 		sessionClear,
+		sessionExport,
+		sessionImport,
 		saveCurrentSession,
 	};
 }
@@ -1,37 +1,98 @@
 #!/usr/bin/env node
 /**
  * 独立 MCP Server 入口
- * 可被 Claude Desktop 或其他 MCP 客户端调用
+ * 可被 Claude Desktop、编辑器或其他 MCP 客户端调用
  *
  * 用法:
- *   node dist/mcp-server.js
+ *   node dist/mcp-server.js                         # STDIO
+ *   node dist/mcp-server.js --http 3920 [--token x] # Streamable HTTP（仅本机）
  *   npx axiomate-mcp
+ *
+ * HTTP 模式的 token 依次取自 --token、AXIOMATE_MCP_TOKEN，否则随机生成并打印到 stderr
  */
 
+import { randomBytes } from "node:crypto";
+import meow from "meow";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { ToolRegistry } from "./services/tools/registry.js";
 import { createToolsMcpServer } from "./services/tools/mcp/server.js";
+import {
+	parseHttpPort,
+	startMcpHttpServer,
+} from "./services/tools/mcp/http.js";
+import { SessionStore } from "./services/ai/sessionStore.js";
 import { t } from "./i18n/index.js";
 
+const cli = meow({
+	importMeta: import.meta,
+	autoHelp: false,
+	autoVersion: false,
+	flags: {
+		// 按字符串解析，以便区分缺失值和无效值
+		http: {
+			type: "string",
+		},
+		token: {
+			type: "string",
+		},
+	},
+});
+
 async function main(): Promise<void> {
+	// --http 需要有效端口，不能静默回退到 STDIO 或随机端口
+	const httpPort =
+		cli.flags.http === undefined ? undefined : parseHttpPort(cli.flags.http);
+	if (httpPort === null) {
+		console.error(
+			t("mcpServer.invalidHttpPort", { value: cli.flags.http ?? "" }),
+		);
+		process.exit(2);
+	}
+
 	// 发现本地工具
 	const registry = new ToolRegistry();
 	await registry.discover();
 
+	// 只读取 CLI 保存的 session，不会创建 Session 实例，contextWindow 不会用到
+	const sessionStore = new SessionStore(0);
+	await sessionStore.reload();
+
 	// 创建 MCP Server
-	const server = createToolsMcpServer(registry);
+	const createServer = () =>
+		createToolsMcpServer(registry, { cwd: process.cwd(), sessionStore });
+
+	let close = async () => {};
+
+	if (httpPort !== undefined) {
+		// 使用 Streamable HTTP 传输
+		const token =
+			cli.flags.token ||
+			process.env.AXIOMATE_MCP_TOKEN ||
+			randomBytes(24).toString("hex");
+		const httpServer = await startMcpHttpServer({
+			port: httpPort,
+			token,
+			createServer,
+		});
+		close = httpServer.close;
 
-	// 使用 STDIO 传输
-	const transport = new StdioServerTransport();
-	await server.connect(transport);
+		console.error(t("mcpServer.listening", { url: httpServer.url }));
+		if (!cli.flags.token && !process.env.AXIOMATE_MCP_TOKEN) {
+			console.error(t("mcpServer.generatedToken", { token }));
+		}
+	} else {
+		// 使用 STDIO 传输
+		const transport = new StdioServerTransport();
+		await createServer().connect(transport);
+	}
 
 	// 保持运行直到被终止
 	process.on("SIGINT", () => {
-		process.exit(0);
+		void close().finally(() => process.exit(0));
 	});
 
 	process.on("SIGTERM", () => {
-		process.exit(0);
+		void close().finally(() => process.exit(0));
 	});
 }
 
@@ -4,8 +4,13 @@
  */
 
 import type { DiscoveredTool } from "../../tools/types.js";
-import type { AnthropicTool, ToolCall, ChatMessage } from "../types.js";
-import { paramsToJsonSchema } from "./openai.js";
+import type {
+	AnthropicTool,
+	AnthropicCacheControl,
+	ToolCall,
+	ChatMessage,
+} from "../types.js";
+import { actionToJsonSchema } from "./openai.js";
 import { stableStringify } from "../../../utils/json.js";
 
 /**
@@ -19,7 +24,7 @@ export function toolToAnthropic(tool: DiscoveredTool): AnthropicTool[] {
 	return tool.actions.map((action) => ({
 		name: `${tool.id}_${action.name}`,
 		description: `[${tool.name}] ${action.description}`,
-		input_schema: paramsToJsonSchema(action.parameters),
+		input_schema: actionToJsonSchema(action),
 	}));
 }
 
@@ -77,40 +82,37 @@ export function buildAnthropicToolResultMessage(
 	};
 }
 
+/**
+ * Anthropic 消息内容块
+ */
+export type AnthropicContentBlock = {
+	type: string;
+	tool_use_id?: string;
+	content?: string;
+	text?: string;
+	thinking?: string;
+	id?: string;
+	name?: string;
+	input?: Record<string, unknown>;
+	cache_control?: AnthropicCacheControl;
+};
+
+/**
+ * Anthropic API 消息
+ */
+export type AnthropicMessage = {
+	role: "user" | "assistant";
+	content: string | AnthropicContentBlock[];
+};
+
 /**
  * 将聊天消息转换为 Anthropic API 格式
  * Anthropic 的消息格式与 OpenAI 有所不同
  */
-export function toAnthropicMessages(messages: ChatMessage[]): Array<{
-	role: "user" | "assistant";
-	content:
-		| string
-		| Array<{
-				type: string;
-				tool_use_id?: string;
-				content?: string;
-				text?: string;
-				thinking?: string;
-				id?: string;
-				name?: string;
-				input?: Record<string, unknown>;
-		  }>;
-}> {
-	const result: Array<{
-		role: "user" | "assistant";
-		content:
-			| string
-			| Array<{
-					type: string;
-					tool_use_id?: string;
-					content?: string;
-					text?: string;
-					thinking?: string;
-					id?: string;
-					name?: string;
-					input?: Record<string, unknown>;
-			  }>;
-	}> = [];
+export function toAnthropicMessages(
+	messages: ChatMessage[],
+): AnthropicMessage[] {
+	const result: AnthropicMessage[] = [];
 
 	// 收集连续的 tool 消息
 	let pendingToolResults: Array<{
@@ -155,14 +157,7 @@ export function toAnthropicMessages(messages: ChatMessage[]): Array<{
 			const hasToolCalls = msg.tool_calls && msg.tool_calls.length > 0;
 
 			if (hasThinking || hasToolCalls) {
-				const content: Array<{
-					type: string;
-					text?: string;
-					thinking?: string;
-					id?: string;
-					name?: string;
-					input?: Record<string, unknown>;
-				}> = [];
+				const content: AnthropicContentBlock[] = [];
 
 				// 1. 先添加 thinking 块（Anthropic 要求 thinking 在前）
 				if (msg.reasoning_content) {
@@ -225,3 +220,38 @@ export function extractSystemMessage(
 	const systemMsg = messages.find((m) => m.role === "system");
 	return systemMsg?.content;
 }
+
+/**
+ * 在最后一条消息上添加缓存断点
+ * 历史消息发送后不会再变化，下一次请求可以从这里读取缓存。
+ * 断点放在最后一个可缓存的块上（thinking 块和空文本不能设置 cache_control）
+ */
+export function addMessageCacheBreakpoint(
+	messages: AnthropicMessage[],
+): AnthropicMessage[] {
+	const last = messages[messages.length - 1];
+	if (!last) {
+		return messages;
+	}
+
+	const blocks: AnthropicContentBlock[] =
+		typeof last.content === "string"
+			? [{ type: "text", text: last.content }]
+			: last.content;
+	const isCacheable = (block: AnthropicContentBlock) =>
+		block.type !== "thinking" && (block.type !== "text" || !!block.text);
+	let index = blocks.length - 1;
+	while (index >= 0 && !isCacheable(blocks[index])) {
+		index--;
+	}
+	if (index < 0) {
+		return messages;
+	}
+
+	const content = blocks.map((block, i) =>
+		i === index
+			? { ...block, cache_control: { type: "ephemeral" as const } }
+			: block,
+	);
+	return [...messages.slice(0, -1), { ...last, content }];
+}
@@ -0,0 +1,212 @@
+/**
+ * Gemini 工具格式适配器
+ * 将 OpenAI 工具和聊天消息转换为 Gemini generateContent 格式
+ */
+
+import { randomUUID } from "node:crypto";
+import type {
+	ChatMessage,
+	GeminiFunctionDeclaration,
+	OpenAITool,
+	ToolCall,
+} from "../types.js";
+import { stableStringify } from "../../../utils/json.js";
+
+/**
+ * Gemini 内容块（part）
+ */
+export type GeminiPart = {
+	text?: string;
+	/** 为 true 时 text 是思考内容 */
+	thought?: boolean;
+	functionCall?: {
+		id?: string;
+		name: string;
+		args?: Record<string, unknown>;
+	};
+	functionResponse?: {
+		name: string;
+		response: Record<string, unknown>;
+	};
+	/** 思考签名（functionCall 块上返回，回传时必须带上） */
+	thoughtSignature?: string;
+};
+
+/**
+ * Gemini 消息
+ */
+export type GeminiContent = {
+	role: "user" | "model";
+	parts: GeminiPart[];
+};
+
+/**
+ * Gemini Schema 支持的字段（OpenAPI 3.0 子集）
+ * 其他 JSON Schema 字段（如 $schema、additionalProperties）会被 API 拒绝
+ */
+const GEMINI_SCHEMA_KEYS = new Set([
+	"type",
+	"format",
+	"title",
+	"description",
+	"nullable",
+	"enum",
+	"items",
+	"minItems",
+	"maxItems",
+	"properties",
+	"required",
+	"minProperties",
+	"maxProperties",
+	"minLength",
+	"maxLength",
+	"pattern",
+	"minimum",
+	"maximum",
+	"anyOf",
+	"default",
+]);
+
+/**
+ * 移除 Gemini 不支持的 Schema 字段（递归处理 properties/items/anyOf）
+ */
+function toGeminiSchema(schema: unknown): Record<string, unknown> {
+	if (!schema || typeof schema !== "object") {
+		return {};
+	}
+
+	const result: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(schema)) {
+		if (!GEMINI_SCHEMA_KEYS.has(key)) {
+			continue;
+		}
+		if (key === "properties" && value && typeof value === "object") {
+			result.properties = Object.fromEntries(
+				Object.entries(value).map(([name, prop]) => [
+					name,
+					toGeminiSchema(prop),
+				]),
+			);
+		} else if (key === "items") {
+			result.items = toGeminiSchema(value);
+		} else if (key === "anyOf" && Array.isArray(value)) {
+			result.anyOf = value.map(toGeminiSchema);
+		} else {
+			result[key] = value;
+		}
+	}
+	return result;
+}
+
+/**
+ * 将 OpenAI 工具格式转换为 Gemini 函数声明
+ */
+export function toGeminiFunctionDeclarations(
+	tools: OpenAITool[],
+): GeminiFunctionDeclaration[] {
+	return tools.map((tool) => {
+		const declaration: GeminiFunctionDeclaration = {
+			name: tool.function.name,
+			description: tool.function.description,
+		};
+		// Gemini 不接受空 properties 的 object，无参数时省略 parameters
+		if (Object.keys(tool.function.parameters.properties ?? {}).length > 0) {
+			declaration.parameters = toGeminiSchema(tool.function.parameters);
+		}
+		return declaration;
+	});
+}
+
+/**
+ * 解析 Gemini 响应中的 functionCall 块
+ * Gemini 不一定返回调用 ID，缺失时生成一个；思考签名保存在 thought_signature 中
+ */
+export function parseGeminiFunctionCalls(parts: GeminiPart[]): ToolCall[] {
+	return parts
+		.filter(
+			(part): part is GeminiPart & Required<Pick<GeminiPart, "functionCall">> =>
+				!!part.functionCall,
+		)
+		.map((part) => ({
+			id: part.functionCall.id || `call_${randomUUID()}`,
+			type: "function" as const,
+			function: {
+				name: part.functionCall.name,
+				// 使用 stableStringify 确保键顺序一致，提高 KV 缓存命中率
+				arguments: stableStringify(part.functionCall.args ?? {}),
+			},
+			...(part.thoughtSignature
+				? { thought_signature: part.thoughtSignature }
+				: {}),
+		}));
+}
+
+/**
+ * 将聊天消息转换为 Gemini contents 格式
+ * - system 消息单独作为 systemInstruction 发送，不放在 contents 中
+ * - 工具结果作为 user 消息的 functionResponse，按调用 ID 找回函数名
+ * - 思考内容不回传，但 functionCall 的思考签名必须回传（否则开启思考时返回 400）
+ */
+export function toGeminiContents(messages: ChatMessage[]): GeminiContent[] {
+	const result: GeminiContent[] = [];
+	// tool_call_id -> 函数名（functionResponse 需要函数名）
+	const callNames = new Map<string, string>();
+
+	// 收集连续的 tool 消息
+	let pendingToolResults: GeminiPart[] = [];
+
+	for (const msg of messages) {
+		if (msg.role === "system") {
+			continue;
+		}
+
+		if (msg.role === "tool") {
+			pendingToolResults.push({
+				functionResponse: {
+					name: callNames.get(msg.tool_call_id || "") || "unknown",
+					response: { content: msg.content },
+				},
+			});
+			continue;
+		}
+
+		// 如果有待处理的 tool 结果，先添加为 user 消息
+		if (pendingToolResults.length > 0) {
+			result.push({ role: "user", parts: pendingToolResults });
+			pendingToolResults = [];
+		}
+
+		if (msg.role === "user") {
+			result.push({ role: "user", parts: [{ text: msg.content }] });
+		} else if (msg.role === "assistant") {
+			const parts: GeminiPart[] = [];
+			if (msg.content) {
+				parts.push({ text: msg.content });
+			}
+			for (const tc of msg.tool_calls || []) {
+				callNames.set(tc.id, tc.function.name);
+				parts.push({
+					functionCall: {
+						name: tc.function.name,
+						// 空字符串替换为 "{}"
+						args: JSON.parse(tc.function.arguments || "{}"),
+					},
+					...(tc.thought_signature
+						? { thoughtSignature: tc.thought_signature }
+						: {}),
+				});
+			}
+			// Gemini 不接受空 parts，跳过空的 assistant 消息
+			if (parts.length > 0) {
+				result.push({ role: "model", parts });
+			}
+		}
+	}
+
+	// 处理末尾的 tool 结果
+	if (pendingToolResults.length > 0) {
+		result.push({ role: "user", parts: pendingToolResults });
+	}
+
+	return result;
+}
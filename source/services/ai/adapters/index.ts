@@ -6,11 +6,18 @@ export {
 	toOpenAITools,
 	toolToOpenAI,
 	paramsToJsonSchema,
+	actionToJsonSchema,
 	parseOpenAIToolCalls,
 	buildOpenAIToolResultMessage,
 	toOpenAIMessages,
 } from "./openai.js";
 
+export {
+	toResponsesTools,
+	toResponsesInput,
+	parseResponsesFunctionCalls,
+} from "./openaiResponses.js";
+
 export {
 	toAnthropicTools,
 	toolToAnthropic,
@@ -19,3 +26,9 @@ export {
 	toAnthropicMessages,
 	extractSystemMessage,
 } from "./anthropic.js";
+
+export {
+	toGeminiFunctionDeclarations,
+	parseGeminiFunctionCalls,
+	toGeminiContents,
+} from "./gemini.js";
@@ -3,7 +3,11 @@
  * 将本地 DiscoveredTool 转换为 OpenAI Function Calling 格式
  */
 
-import type { DiscoveredTool, ToolParameter } from "../../tools/types.js";
+import type {
+	DiscoveredTool,
+	ToolAction,
+	ToolParameter,
+} from "../../tools/types.js";
 import type {
 	OpenAITool,
 	JSONSchema,
@@ -68,6 +72,24 @@ export function paramsToJsonSchema(params: ToolParameter[]): {
 	};
 }
 
+/**
+ * 获取动作的参数 JSON Schema
+ * MCP 远程工具直接使用原始 schema，保留嵌套对象、数组等结构
+ */
+export function actionToJsonSchema(
+	action: ToolAction,
+): ReturnType<typeof paramsToJsonSchema> {
+	if (action.inputSchema) {
+		return {
+			properties: {},
+			required: [],
+			...action.inputSchema,
+			type: "object",
+		} as ReturnType<typeof paramsToJsonSchema>;
+	}
+	return paramsToJsonSchema(action.parameters);
+}
+
 /**
  * 将单个 DiscoveredTool 转换为 OpenAI 工具格式
  * 每个 action 对应一个 function
@@ -82,7 +104,7 @@ export function toolToOpenAI(tool: DiscoveredTool): OpenAITool[] {
 		function: {
 			name: `${tool.id}_${action.name}`,
 			description: `[${tool.name}] ${action.description}`,
-			parameters: paramsToJsonSchema(action.parameters),
+			parameters: actionToJsonSchema(action),
 		},
 	}));
 }
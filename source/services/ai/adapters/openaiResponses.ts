@@ -0,0 +1,116 @@
+/**
+ * OpenAI Responses API 适配器
+ * 将聊天消息和工具转换为 /responses 的 input items 格式
+ */
+
+import type { ChatMessage, OpenAITool, ToolCall } from "../types.js";
+
+/**
+ * Responses API 输入项
+ * - 消息使用简写形式 { role, content }
+ * - 工具调用和工具结果是独立的项，通过 call_id 关联
+ */
+export type ResponsesInputItem =
+	| { role: "user" | "assistant"; content: string }
+	| { type: "function_call"; call_id: string; name: string; arguments: string }
+	| { type: "function_call_output"; call_id: string; output: string };
+
+/**
+ * Responses API 输出项
+ * 除 message/reasoning/function_call 外，还可能有服务端内置工具的调用项
+ * （如 web_search_call），这些项已由服务端执行，客户端不需要处理
+ */
+export type ResponsesOutputItem = {
+	type: string;
+	id?: string;
+	// message
+	content?: Array<{ type: string; text?: string }>;
+	// reasoning
+	summary?: Array<{ type: string; text?: string }>;
+	// function_call
+	call_id?: string;
+	name?: string;
+	arguments?: string;
+};
+
+/**
+ * Responses API 函数工具格式（没有 OpenAI 的 function 嵌套层）
+ */
+export type ResponsesTool = {
+	type: "function";
+	name: string;
+	description: string;
+	parameters: OpenAITool["function"]["parameters"];
+};
+
+/**
+ * 将 OpenAI 工具格式转换为 Responses 工具格式
+ */
+export function toResponsesTools(tools: OpenAITool[]): ResponsesTool[] {
+	return tools.map((tool) => ({
+		type: "function",
+		name: tool.function.name,
+		description: tool.function.description,
+		parameters: tool.function.parameters,
+	}));
+}
+
+/**
+ * 将聊天消息转换为 Responses input items
+ * - system 消息作为 instructions 单独发送，不放在 input 中
+ * - 思考内容不回传（推理项只在服务端保存的响应中续接）
+ */
+export function toResponsesInput(
+	messages: ChatMessage[],
+): ResponsesInputItem[] {
+	const result: ResponsesInputItem[] = [];
+
+	for (const msg of messages) {
+		if (msg.role === "system") {
+			continue;
+		}
+
+		if (msg.role === "tool") {
+			result.push({
+				type: "function_call_output",
+				call_id: msg.tool_call_id || "",
+				output: msg.content,
+			});
+		} else if (msg.role === "user") {
+			result.push({ role: "user", content: msg.content });
+		} else if (msg.role === "assistant") {
+			if (msg.content) {
+				result.push({ role: "assistant", content: msg.content });
+			}
+			for (const tc of msg.tool_calls || []) {
+				result.push({
+					type: "function_call",
+					call_id: tc.id,
+					name: tc.function.name,
+					// 空字符串替换为 "{}"
+					arguments: tc.function.arguments || "{}",
+				});
+			}
+		}
+	}
+
+	return result;
+}
+
+/**
+ * 解析输出项中的 function_call
+ */
+export function parseResponsesFunctionCalls(
+	items: ResponsesOutputItem[],
+): ToolCall[] {
+	return items
+		.filter((item) => item.type === "function_call" && item.name)
+		.map((item) => ({
+			id: item.call_id || item.id || "",
+			type: "function" as const,
+			function: {
+				name: item.name ?? "",
+				arguments: item.arguments || "{}",
+			},
+		}));
+}
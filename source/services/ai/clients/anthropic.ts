@@ -12,6 +12,7 @@ import type {
 	OpenAITool,
 	FinishReason,
 	AnthropicTool,
+	AnthropicCacheControl,
 	ToolCall,
 	StreamOptions,
 	ToolMaskState,
@@ -20,6 +21,7 @@ import {
 	toAnthropicMessages,
 	extractSystemMessage,
 	parseAnthropicToolUse,
+	addMessageCacheBreakpoint,
 } from "../adapters/anthropic.js";
 import {
 	isThinkingEnabled,
@@ -27,6 +29,13 @@ import {
 	currentModelSupportsToolChoice,
 } from "../../../utils/config.js";
 import { stableStringify } from "../../../utils/json.js";
+import {
+	withRetry,
+	withStreamRetry,
+	fetchApi,
+	readChunk,
+	createApiError,
+} from "../retry.js";
 
 /**
  * Anthropic API 响应类型
@@ -48,23 +57,72 @@ type AnthropicAPIResponse = {
 	model: string;
 	stop_reason: "end_turn" | "tool_use" | "max_tokens" | "stop_sequence";
 	stop_sequence: string | null;
-	usage: {
-		input_tokens: number;
-		output_tokens: number;
-	};
+	usage: AnthropicUsage;
+};
+
+/**
+ * Anthropic usage（input_tokens 不包含缓存读写的 token）
+ */
+type AnthropicUsage = {
+	input_tokens: number;
+	output_tokens: number;
+	cache_creation_input_tokens?: number;
+	cache_read_input_tokens?: number;
+};
+
+/**
+ * 流式 error 事件的错误类型对应的 HTTP 状态码（用于判断是否重试）
+ */
+const STREAM_ERROR_STATUS: Record<string, number> = {
+	rate_limit_error: 429,
+	api_error: 500,
+	overloaded_error: 529,
 };
 
 /**
  * 将 OpenAI 工具格式转换为 Anthropic 格式
+ * 工具列表固定不变，在最后一个工具上设置缓存断点
  */
 function openAIToolsToAnthropic(tools: OpenAITool[]): AnthropicTool[] {
-	return tools.map((tool) => ({
+	return tools.map((tool, index) => ({
 		name: tool.function.name,
 		description: tool.function.description,
 		input_schema: tool.function.parameters,
+		...(index === tools.length - 1
+			? { cache_control: { type: "ephemeral" as const } }
+			: {}),
 	}));
 }
 
+/**
+ * 构建带缓存断点的 system 参数
+ * system prompt 在整个 session 中保持不变，缓存后每次请求都能命中
+ */
+function toAnthropicSystem(
+	systemPrompt: string,
+): Array<{ type: "text"; text: string; cache_control: AnthropicCacheControl }> {
+	return [
+		{ type: "text", text: systemPrompt, cache_control: { type: "ephemeral" } },
+	];
+}
+
+/**
+ * 将 Anthropic usage 转换为统一格式
+ * prompt_tokens 包含缓存读写的 token，与 OpenAI 的含义一致
+ */
+function parseAnthropicUsage(usage: AnthropicUsage): AIResponse["usage"] {
+	const cacheCreation = usage.cache_creation_input_tokens ?? 0;
+	const cacheRead = usage.cache_read_input_tokens ?? 0;
+	const promptTokens = usage.input_tokens + cacheCreation + cacheRead;
+	return {
+		prompt_tokens: promptTokens,
+		completion_tokens: usage.output_tokens,
+		total_tokens: promptTokens + usage.output_tokens,
+		cache_creation_input_tokens: cacheCreation,
+		cache_read_input_tokens: cacheRead,
+	};
+}
+
 /**
  * Anthropic 客户端
  */
@@ -99,12 +157,12 @@ export class AnthropicClient implements IAIClient {
 
 		const body: Record<string, unknown> = {
 			model: this.config.model,
-			messages: toAnthropicMessages(messages),
+			messages: addMessageCacheBreakpoint(toAnthropicMessages(messages)),
 			max_tokens: 4096,
 		};
 
 		if (systemPrompt) {
-			body.system = systemPrompt;
+			body.system = toAnthropicSystem(systemPrompt);
 		}
 
 		if (tools && tools.length > 0) {
@@ -117,62 +175,59 @@ export class AnthropicClient implements IAIClient {
 		}
 
 		// 如果启用思考模式且当前模型支持，添加 thinking 参数
-		if (isThinkingEnabled() && currentModelSupportsThinking()) {
+		if (
+			isThinkingEnabled() &&
+			currentModelSupportsThinking(this.config.modelId)
+		) {
 			body.thinking = {
 				type: "enabled",
 				budget_tokens: 10000,
 			};
 		}
 
-		let lastError: Error | null = null;
-		const maxRetries = this.config.maxRetries || 3;
-
-		for (let attempt = 0; attempt < maxRetries; attempt++) {
-			try {
+		return withRetry(
+			async () => {
 				const controller = new AbortController();
 				const timeoutId = setTimeout(
 					() => controller.abort(),
 					this.config.timeout || 60000,
 				);
 
-				const response = await fetch(url, {
-					method: "POST",
-					headers: {
-						"x-api-key": this.config.apiKey ?? "",
-						"anthropic-version": "2023-06-01",
-						"anthropic-beta": "interleaved-thinking-2025-05-14",
-						"Content-Type": "application/json",
-					},
-					// 使用 stableStringify 确保键顺序一致，提高 KV 缓存命中率
-					body: stableStringify(body),
-					signal: controller.signal,
-				});
-
-				clearTimeout(timeoutId);
-
-				if (!response.ok) {
-					const errorText = await response.text();
-					throw new Error(
-						`Anthropic API error: ${response.status} ${response.statusText} - ${errorText}`,
-					);
-				}
-
-				const data = (await response.json()) as AnthropicAPIResponse;
-				return this.parseResponse(data);
-			} catch (error) {
-				lastError = error instanceof Error ? error : new Error(String(error));
+				try {
+					const response = await fetchApi(url, {
+						method: "POST",
+						headers: {
+							"x-api-key": this.config.apiKey ?? "",
+							"anthropic-version": "2023-06-01",
+							"anthropic-beta": "interleaved-thinking-2025-05-14",
+							"Content-Type": "application/json",
+						},
+						// 使用 stableStringify 确保键顺序一致，提高 KV 缓存命中率
+						body: stableStringify(body),
+						signal: controller.signal,
+					});
+
+					if (!response.ok) {
+						const errorText = await response.text();
+						throw createApiError(
+							`Anthropic API error: ${response.status} ${response.statusText} - ${errorText}`,
+							response.status,
+							response.headers,
+						);
+					}
 
-				if (attempt === maxRetries - 1 || lastError.name === "AbortError") {
-					throw lastError;
+					const data = (await response.json()) as AnthropicAPIResponse;
+					return this.parseResponse(data);
+				} finally {
+					clearTimeout(timeoutId);
 				}
-
-				await new Promise((resolve) =>
-					setTimeout(resolve, Math.pow(2, attempt) * 1000),
-				);
-			}
-		}
-
-		throw lastError || new Error("Unknown error");
+			},
+			{
+				maxAttempts: this.config.maxRetries || 3,
+				signal: options?.signal,
+				onRetry: options?.onRetry,
+			},
+		);
 	}
 
 	private parseResponse(data: AnthropicAPIResponse): AIResponse {
@@ -239,11 +294,7 @@ export class AnthropicClient implements IAIClient {
 		return {
 			message,
 			finish_reason: finishReason,
-			usage: {
-				prompt_tokens: data.usage.input_tokens,
-				completion_tokens: data.usage.output_tokens,
-				total_tokens: data.usage.input_tokens + data.usage.output_tokens,
-			},
+			usage: parseAnthropicUsage(data.usage),
 		};
 	}
 
@@ -271,7 +322,7 @@ export class AnthropicClient implements IAIClient {
 		toolMask?: ToolMaskState,
 	): { type: "auto" | "any" | "tool"; name?: string } | undefined {
 		// 如果没有 toolMask 或不支持 tool_choice
-		if (!toolMask || !currentModelSupportsToolChoice()) {
+		if (!toolMask || !currentModelSupportsToolChoice(this.config.modelId)) {
 			return undefined; // 使用默认行为
 		}
 
@@ -289,6 +340,7 @@ export class AnthropicClient implements IAIClient {
 	/**
 	 * 流式聊天请求
 	 * 使用 SSE (Server-Sent Events) 格式解析 Anthropic 流式响应
+	 * 在收到任何内容前失败（限流、过载、网络错误）时自动重试
 	 * @param messages 消息列表
 	 * @param tools 工具列表（可选）
 	 * @param options 流式选项，包含可选的 AbortSignal 用于外部取消
@@ -297,6 +349,21 @@ export class AnthropicClient implements IAIClient {
 		messages: ChatMessage[],
 		tools?: OpenAITool[],
 		options?: StreamOptions,
+	): AsyncGenerator<AIStreamChunk> {
+		yield* withStreamRetry(() => this.streamOnce(messages, tools, options), {
+			maxAttempts: this.config.maxRetries || 3,
+			signal: options?.signal,
+			onRetry: options?.onRetry,
+		});
+	}
+
+	/**
+	 * 发送一次流式请求
+	 */
+	private async *streamOnce(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		options?: StreamOptions,
 	): AsyncGenerator<AIStreamChunk> {
 		const baseUrl =
 			this.config.baseUrl?.replace(/\/$/, "") || "https://api.anthropic.com/v1";
@@ -307,13 +374,13 @@ export class AnthropicClient implements IAIClient {
 
 		const body: Record<string, unknown> = {
 			model: this.config.model,
-			messages: toAnthropicMessages(messages),
+			messages: addMessageCacheBreakpoint(toAnthropicMessages(messages)),
 			max_tokens: 4096,
 			stream: true, // 启用流式响应
 		};
 
 		if (systemPrompt) {
-			body.system = systemPrompt;
+			body.system = toAnthropicSystem(systemPrompt);
 		}
 
 		if (tools && tools.length > 0) {
@@ -327,7 +394,10 @@ export class AnthropicClient implements IAIClient {
 
 		// 如果启用思考模式且当前模型支持，添加 thinking 参数
 		// Anthropic 使用 thinking 参数（与 OpenAI 的 enable_thinking 不同）
-		if (isThinkingEnabled() && currentModelSupportsThinking()) {
+		if (
+			isThinkingEnabled() &&
+			currentModelSupportsThinking(this.config.modelId)
+		) {
 			body.thinking = {
 				type: "enabled",
 				budget_tokens: 10000, // 默认思考预算
@@ -376,7 +446,7 @@ export class AnthropicClient implements IAIClient {
 		};
 
 		try {
-			const response = await fetch(url, {
+			const response = await fetchApi(url, {
 				method: "POST",
 				headers: {
 					"x-api-key": this.config.apiKey ?? "",
@@ -393,8 +463,10 @@ export class AnthropicClient implements IAIClient {
 
 			if (!response.ok) {
 				const errorText = await response.text();
-				throw new Error(
+				throw createApiError(
 					`Anthropic API error: ${response.status} ${response.statusText} - ${errorText}`,
+					response.status,
+					response.headers,
 				);
 			}
 
@@ -427,12 +499,14 @@ export class AnthropicClient implements IAIClient {
 			// 跟踪 usage 信息
 			let inputTokens = 0;
 			let outputTokens = 0;
+			let cacheCreationTokens = 0;
+			let cacheReadTokens = 0;
 
 			// 开始流式读取，启动活动超时
 			resetActivityTimeout();
 
 			while (true) {
-				const { done, value } = await reader.read();
+				const { done, value } = await readChunk(reader);
 
 				// 每次收到数据时重置活动超时
 				if (!done) {
@@ -467,6 +541,10 @@ export class AnthropicClient implements IAIClient {
 								if (event.message?.usage) {
 									inputTokens = event.message.usage.input_tokens || 0;
 									outputTokens = event.message.usage.output_tokens || 0;
+									cacheCreationTokens =
+										event.message.usage.cache_creation_input_tokens || 0;
+									cacheReadTokens =
+										event.message.usage.cache_read_input_tokens || 0;
 								}
 								break;
 
@@ -562,12 +640,14 @@ export class AnthropicClient implements IAIClient {
 
 								// 构建 usage 信息
 								const usageInfo =
-									inputTokens > 0 || outputTokens > 0
-										? {
-												prompt_tokens: inputTokens,
-												completion_tokens: outputTokens,
-												total_tokens: inputTokens + outputTokens,
-											}
+									inputTokens + cacheCreationTokens + cacheReadTokens > 0 ||
+									outputTokens > 0
+										? parseAnthropicUsage({
+												input_tokens: inputTokens,
+												output_tokens: outputTokens,
+												cache_creation_input_tokens: cacheCreationTokens,
+												cache_read_input_tokens: cacheReadTokens,
+											})
 										: undefined;
 
 								if (toolCalls.length > 0) {
@@ -590,9 +670,11 @@ export class AnthropicClient implements IAIClient {
 							}
 
 							case "error": {
-								throw new Error(
-									`Anthropic streaming error: ${event.error?.message || "Unknown error"}`,
-								);
+								const message = `Anthropic streaming error: ${event.error?.message || "Unknown error"}`;
+								const status = STREAM_ERROR_STATUS[event.error?.type];
+								throw status
+									? createApiError(message, status)
+									: new Error(message);
 							}
 						}
 					} catch (e) {
@@ -0,0 +1,480 @@
+/**
+ * Gemini 客户端实现
+ * 支持 Google Gemini generateContent API (包括流式响应)
+ */
+
+import type {
+	IAIClient,
+	AIClientConfig,
+	ChatMessage,
+	AIResponse,
+	AIStreamChunk,
+	OpenAITool,
+	FinishReason,
+	ToolCall,
+	StreamOptions,
+	ToolMaskState,
+} from "../types.js";
+import {
+	toGeminiContents,
+	toGeminiFunctionDeclarations,
+	parseGeminiFunctionCalls,
+	type GeminiPart,
+} from "../adapters/gemini.js";
+import { extractSystemMessage } from "../adapters/anthropic.js";
+import {
+	isThinkingEnabled,
+	currentModelSupportsThinking,
+	currentModelSupportsToolChoice,
+} from "../../../utils/config.js";
+import { stableStringify } from "../../../utils/json.js";
+import {
+	withRetry,
+	withStreamRetry,
+	fetchApi,
+	readChunk,
+	createApiError,
+} from "../retry.js";
+
+/**
+ * Gemini API 响应类型（流式响应的每个块也是这个结构）
+ */
+type GeminiAPIResponse = {
+	candidates?: Array<{
+		content?: {
+			role?: string;
+			parts?: GeminiPart[];
+		};
+		finishReason?: string;
+	}>;
+	usageMetadata?: {
+		promptTokenCount?: number;
+		/** 命中隐式/显式缓存的 token（包含在 promptTokenCount 中） */
+		cachedContentTokenCount?: number;
+		candidatesTokenCount?: number;
+		thoughtsTokenCount?: number;
+		totalTokenCount?: number;
+	};
+	error?: {
+		code?: number;
+		message?: string;
+	};
+};
+
+/**
+ * 将 usageMetadata 转换为统一的 usage 格式
+ * 思考 token 计入 completion_tokens
+ */
+function parseUsage(
+	usage: GeminiAPIResponse["usageMetadata"],
+): AIResponse["usage"] {
+	if (!usage) {
+		return undefined;
+	}
+	const promptTokens = usage.promptTokenCount ?? 0;
+	const completionTokens =
+		(usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+	return {
+		prompt_tokens: promptTokens,
+		completion_tokens: completionTokens,
+		total_tokens: usage.totalTokenCount ?? promptTokens + completionTokens,
+		...(usage.cachedContentTokenCount !== undefined
+			? { cache_read_input_tokens: usage.cachedContentTokenCount }
+			: {}),
+	};
+}
+
+/**
+ * Gemini 客户端
+ */
+export class GeminiClient implements IAIClient {
+	private config: AIClientConfig;
+
+	constructor(config: AIClientConfig) {
+		this.config = {
+			baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+			timeout: 60000,
+			maxRetries: 3,
+			...config,
+		};
+	}
+
+	getConfig(): AIClientConfig {
+		return { ...this.config };
+	}
+
+	async chat(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		options?: StreamOptions,
+	): Promise<AIResponse> {
+		const url = this.buildUrl("generateContent");
+		const body = this.buildBody(messages, tools, options?.toolMask);
+
+		return withRetry(
+			async () => {
+				const controller = new AbortController();
+				const timeoutId = setTimeout(
+					() => controller.abort(),
+					this.config.timeout || 60000,
+				);
+
+				try {
+					const response = await fetchApi(url, {
+						method: "POST",
+						headers: this.buildHeaders(),
+						// 使用 stableStringify 确保键顺序一致，提高 KV 缓存命中率
+						body: stableStringify(body),
+						signal: controller.signal,
+					});
+
+					if (!response.ok) {
+						const errorText = await response.text();
+						throw createApiError(
+							`Gemini API error: ${response.status} ${response.statusText} - ${errorText}`,
+							response.status,
+							response.headers,
+						);
+					}
+
+					const data = (await response.json()) as GeminiAPIResponse;
+					return this.parseResponse(data);
+				} finally {
+					clearTimeout(timeoutId);
+				}
+			},
+			{
+				maxAttempts: this.config.maxRetries || 3,
+				signal: options?.signal,
+				onRetry: options?.onRetry,
+			},
+		);
+	}
+
+	private parseResponse(data: GeminiAPIResponse): AIResponse {
+		const candidate = data.candidates?.[0];
+		const parts = candidate?.content?.parts ?? [];
+
+		// 提取文本内容（thought 为 true 的是思考内容）
+		const textContent = parts
+			.filter((part) => part.text && !part.thought)
+			.map((part) => part.text)
+			.join("");
+		const thinkingContent = parts
+			.filter((part) => part.text && part.thought)
+			.map((part) => part.text)
+			.join("");
+
+		const message: ChatMessage = {
+			role: "assistant",
+			content: textContent,
+		};
+
+		// 如果有思考内容，添加到消息中（使用 reasoning_content 字段保持一致性）
+		if (thinkingContent) {
+			message.reasoning_content = thinkingContent;
+		}
+
+		const toolCalls = parseGeminiFunctionCalls(parts);
+		if (toolCalls.length > 0) {
+			message.tool_calls = toolCalls;
+		}
+
+		return {
+			message,
+			// Gemini 调用函数时 finishReason 仍是 STOP
+			finish_reason:
+				toolCalls.length > 0
+					? "tool_calls"
+					: this.parseFinishReason(candidate?.finishReason),
+			usage: parseUsage(data.usageMetadata),
+		};
+	}
+
+	/**
+	 * 解析 finishReason 到统一的 FinishReason
+	 */
+	private parseFinishReason(reason: string | undefined): FinishReason {
+		switch (reason) {
+			case "MAX_TOKENS":
+				return "length";
+			default:
+				return "stop";
+		}
+	}
+
+	/**
+	 * 构建请求 URL：{baseUrl}/models/{model}:{method}
+	 */
+	private buildUrl(method: string): string {
+		const baseUrl =
+			this.config.baseUrl?.replace(/\/$/, "") ||
+			"https://generativelanguage.googleapis.com/v1beta";
+		const model = this.config.model.replace(/^models\//, "");
+		return `${baseUrl}/models/${model}:${method}`;
+	}
+
+	private buildHeaders(): Record<string, string> {
+		return {
+			"x-goog-api-key": this.config.apiKey ?? "",
+			"Content-Type": "application/json",
+		};
+	}
+
+	private buildBody(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		toolMask?: ToolMaskState,
+	): Record<string, unknown> {
+		// 提取 system 消息
+		const systemPrompt = extractSystemMessage(messages);
+
+		const body: Record<string, unknown> = {
+			contents: toGeminiContents(messages),
+		};
+
+		if (systemPrompt) {
+			body.systemInstruction = { parts: [{ text: systemPrompt }] };
+		}
+
+		if (tools && tools.length > 0) {
+			body.tools = [
+				{ functionDeclarations: toGeminiFunctionDeclarations(tools) },
+			];
+			// 根据 toolMask 设置 toolConfig
+			const toolConfig = this.buildToolConfig(toolMask);
+			if (toolConfig) {
+				body.toolConfig = toolConfig;
+			}
+		}
+
+		// 如果启用思考模式且当前模型支持，请求返回思考内容
+		if (
+			isThinkingEnabled() &&
+			currentModelSupportsThinking(this.config.modelId)
+		) {
+			body.generationConfig = {
+				thinkingConfig: { includeThoughts: true },
+			};
+		}
+
+		return body;
+	}
+
+	/**
+	 * 根据 toolMask 构建 Gemini toolConfig 参数
+	 * Gemini 使用 functionCallingConfig：{ mode: "AUTO" | "ANY", allowedFunctionNames? }
+	 */
+	private buildToolConfig(toolMask?: ToolMaskState):
+		| {
+				functionCallingConfig: {
+					mode: "AUTO" | "ANY";
+					allowedFunctionNames?: string[];
+				};
+		  }
+		| undefined {
+		// 如果没有 toolMask 或不支持 tool_choice
+		if (!toolMask || !currentModelSupportsToolChoice(this.config.modelId)) {
+			return undefined; // 使用默认行为
+		}
+
+		// 如果有强制工具，只允许调用该函数
+		if (toolMask.requiredTool) {
+			return {
+				functionCallingConfig: {
+					mode: "ANY",
+					allowedFunctionNames: [toolMask.requiredTool],
+				},
+			};
+		}
+
+		return { functionCallingConfig: { mode: "AUTO" } };
+	}
+
+	/**
+	 * 流式聊天请求
+	 * 使用 streamGenerateContent?alt=sse，每个 SSE 事件是一个完整的响应块
+	 * 在收到任何内容前失败（限流、服务端错误、网络错误）时自动重试
+	 * @param messages 消息列表
+	 * @param tools 工具列表（可选）
+	 * @param options 流式选项，包含可选的 AbortSignal 用于外部取消
+	 */
+	async *streamChat(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		options?: StreamOptions,
+	): AsyncGenerator<AIStreamChunk> {
+		yield* withStreamRetry(() => this.streamOnce(messages, tools, options), {
+			maxAttempts: this.config.maxRetries || 3,
+			signal: options?.signal,
+			onRetry: options?.onRetry,
+		});
+	}
+
+	/**
+	 * 发送一次流式请求
+	 */
+	private async *streamOnce(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		options?: StreamOptions,
+	): AsyncGenerator<AIStreamChunk> {
+		const url = `${this.buildUrl("streamGenerateContent")}?alt=sse`;
+		const body = this.buildBody(messages, tools, options?.toolMask);
+
+		// 创建内部 AbortController 用于超时
+		const timeoutController = new AbortController();
+		// 连接超时：等待服务器响应（使用配置的 timeout）
+		const connectionTimeoutId = setTimeout(
+			() => timeoutController.abort(),
+			this.config.timeout || 180000,
+		);
+
+		// 如果有外部 signal，监听它并联动中止
+		const externalSignal = options?.signal;
+		let externalAbortHandler: (() => void) | undefined;
+
+		if (externalSignal) {
+			if (externalSignal.aborted) {
+				clearTimeout(connectionTimeoutId);
+				throw new DOMException("Request was aborted", "AbortError");
+			}
+			externalAbortHandler = () => timeoutController.abort();
+			externalSignal.addEventListener("abort", externalAbortHandler);
+		}
+
+		// 活动超时：流式传输期间，每次收到数据重置
+		const streamTimeout = this.config.timeout || 600000;
+		let activityTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+		const resetActivityTimeout = () => {
+			if (activityTimeoutId) {
+				clearTimeout(activityTimeoutId);
+			}
+			activityTimeoutId = setTimeout(() => {
+				timeoutController.abort();
+			}, streamTimeout);
+		};
+
+		const clearActivityTimeout = () => {
+			if (activityTimeoutId) {
+				clearTimeout(activityTimeoutId);
+				activityTimeoutId = null;
+			}
+		};
+
+		try {
+			const response = await fetchApi(url, {
+				method: "POST",
+				headers: this.buildHeaders(),
+				// 使用 stableStringify 确保键顺序一致，提高 KV 缓存命中率
+				body: stableStringify(body),
+				signal: timeoutController.signal,
+			});
+
+			clearTimeout(connectionTimeoutId);
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				throw createApiError(
+					`Gemini API error: ${response.status} ${response.statusText} - ${errorText}`,
+					response.status,
+					response.headers,
+				);
+			}
+
+			if (!response.body) {
+				throw new Error("Response body is null");
+			}
+
+			const reader = response.body.getReader();
+			const decoder = new TextDecoder();
+			let buffer = "";
+
+			// 函数调用在单个块中完整返回，累积到流结束后统一 yield
+			const toolCalls: ToolCall[] = [];
+			let finishReason: string | undefined;
+			// usageMetadata 是累计值，保留最新的
+			let usage: AIStreamChunk["usage"];
+
+			// 开始流式读取，启动活动超时
+			resetActivityTimeout();
+
+			while (true) {
+				const { done, value } = await readChunk(reader);
+
+				// 每次收到数据时重置活动超时
+				if (!done) {
+					resetActivityTimeout();
+				}
+				if (done) break;
+
+				buffer += decoder.decode(value, { stream: true });
+				const lines = buffer.split("\n");
+				buffer = lines.pop() || "";
+
+				for (const line of lines) {
+					const trimmed = line.trim();
+					if (!trimmed.startsWith("data: ")) continue;
+
+					const data = trimmed.slice(6);
+					if (!data) continue;
+
+					let event: GeminiAPIResponse;
+					try {
+						event = JSON.parse(data) as GeminiAPIResponse;
+					} catch {
+						// JSON 解析失败，继续处理下一行
+						continue;
+					}
+
+					if (event.error) {
+						const message = `Gemini streaming error: ${event.error.message || "Unknown error"}`;
+						throw event.error.code
+							? createApiError(message, event.error.code)
+							: new Error(message);
+					}
+
+					const candidate = event.candidates?.[0];
+					for (const part of candidate?.content?.parts ?? []) {
+						if (part.functionCall) {
+							toolCalls.push(...parseGeminiFunctionCalls([part]));
+						} else if (part.text && part.thought) {
+							yield { delta: { reasoning_content: part.text } };
+						} else if (part.text) {
+							yield { delta: { content: part.text } };
+						}
+					}
+
+					if (candidate?.finishReason) {
+						finishReason = candidate.finishReason;
+					}
+					if (event.usageMetadata) {
+						usage = parseUsage(event.usageMetadata);
+					}
+				}
+			}
+
+			// 流结束，yield 结束块（包含工具调用和 usage）
+			if (toolCalls.length > 0) {
+				yield {
+					delta: { content: "", tool_calls: toolCalls },
+					finish_reason: "tool_calls",
+					usage,
+				};
+			} else {
+				yield {
+					delta: { content: "" },
+					finish_reason: this.parseFinishReason(finishReason),
+					usage,
+				};
+			}
+		} finally {
+			clearTimeout(connectionTimeoutId);
+			clearActivityTimeout();
+			if (externalSignal && externalAbortHandler) {
+				externalSignal.removeEventListener("abort", externalAbortHandler);
+			}
+		}
+	}
+}
@@ -3,4 +3,6 @@
  */
 
 export { OpenAIClient } from "./openai.js";
+export { OpenAIResponsesClient } from "./openaiResponses.js";
 export { AnthropicClient } from "./anthropic.js";
+export { GeminiClient } from "./gemini.js";
@@ -21,6 +21,13 @@ import {
 	currentModelSupportsToolChoice,
 } from "../../../utils/config.js";
 import { stableStringify } from "../../../utils/json.js";
+import {
+	withRetry,
+	withStreamRetry,
+	fetchApi,
+	readChunk,
+	createApiError,
+} from "../retry.js";
 
 /**
  * OpenAI API 响应类型
@@ -46,13 +53,37 @@ type OpenAIAPIResponse = {
 		};
 		finish_reason: string;
 	}>;
-	usage?: {
-		prompt_tokens: number;
-		completion_tokens: number;
-		total_tokens: number;
-	};
+	usage?: OpenAIUsage;
+};
+
+/**
+ * OpenAI 兼容 API 的 usage
+ * 缓存命中的 token 包含在 prompt_tokens 中
+ */
+type OpenAIUsage = {
+	prompt_tokens: number;
+	completion_tokens: number;
+	total_tokens: number;
+	/** OpenAI 等：命中缓存的 token */
+	prompt_tokens_details?: { cached_tokens?: number } | null;
+	/** DeepSeek：命中缓存的 token */
+	prompt_cache_hit_tokens?: number;
 };
 
+/**
+ * 将 usage 转换为统一格式，提取缓存命中的 token
+ */
+function parseOpenAIUsage(usage: OpenAIUsage): AIResponse["usage"] {
+	const cacheRead =
+		usage.prompt_tokens_details?.cached_tokens ?? usage.prompt_cache_hit_tokens;
+	return {
+		prompt_tokens: usage.prompt_tokens,
+		completion_tokens: usage.completion_tokens,
+		total_tokens: usage.total_tokens,
+		...(cacheRead !== undefined ? { cache_read_input_tokens: cacheRead } : {}),
+	};
+}
+
 /**
  * OpenAI 客户端
  */
@@ -94,60 +125,52 @@ export class OpenAIClient implements IAIClient {
 		}
 
 		// 根据模型配置动态附加 thinking 参数
-		const thinkingParams = getThinkingParams();
+		const thinkingParams = getThinkingParams(this.config.modelId);
 		if (thinkingParams) {
 			Object.assign(body, thinkingParams);
 		}
 
-		let lastError: Error | null = null;
-		const maxRetries = this.config.maxRetries || 3;
-
-		for (let attempt = 0; attempt < maxRetries; attempt++) {
-			try {
+		return withRetry(
+			async () => {
 				const controller = new AbortController();
 				const timeoutId = setTimeout(
 					() => controller.abort(),
 					this.config.timeout || 60000,
 				);
 
-				const response = await fetch(url, {
-					method: "POST",
-					headers: {
-						Authorization: `Bearer ${this.config.apiKey}`,
-						"Content-Type": "application/json",
-					},
-					// 使用 stableStringify 确保键顺序一致，提高 KV 缓存命中率
-					body: stableStringify(body),
-					signal: controller.signal,
-				});
-
-				clearTimeout(timeoutId);
-
-				if (!response.ok) {
-					const errorText = await response.text();
-					throw new Error(
-						`OpenAI API error: ${response.status} ${response.statusText} - ${errorText}`,
-					);
-				}
-
-				const data = (await response.json()) as OpenAIAPIResponse;
-				return this.parseResponse(data);
-			} catch (error) {
-				lastError = error instanceof Error ? error : new Error(String(error));
+				try {
+					const response = await fetchApi(url, {
+						method: "POST",
+						headers: {
+							Authorization: `Bearer ${this.config.apiKey}`,
+							"Content-Type": "application/json",
+						},
+						// 使用 stableStringify 确保键顺序一致，提高 KV 缓存命中率
+						body: stableStringify(body),
+						signal: controller.signal,
+					});
+
+					if (!response.ok) {
+						const errorText = await response.text();
+						throw createApiError(
+							`OpenAI API error: ${response.status} ${response.statusText} - ${errorText}`,
+							response.status,
+							response.headers,
+						);
+					}
 
-				// 如果是最后一次尝试或者是中止错误，直接抛出
-				if (attempt === maxRetries - 1 || lastError.name === "AbortError") {
-					throw lastError;
+					const data = (await response.json()) as OpenAIAPIResponse;
+					return this.parseResponse(data);
+				} finally {
+					clearTimeout(timeoutId);
 				}
-
-				// 等待后重试
-				await new Promise((resolve) =>
-					setTimeout(resolve, Math.pow(2, attempt) * 1000),
-				);
-			}
-		}
-
-		throw lastError || new Error("Unknown error");
+			},
+			{
+				maxAttempts: this.config.maxRetries || 3,
+				signal: options?.signal,
+				onRetry: options?.onRetry,
+			},
+		);
 	}
 
 	private parseResponse(data: OpenAIAPIResponse): AIResponse {
@@ -172,7 +195,7 @@ export class OpenAIClient implements IAIClient {
 		return {
 			message,
 			finish_reason: finishReason,
-			usage: data.usage,
+			usage: data.usage ? parseOpenAIUsage(data.usage) : undefined,
 		};
 	}
 
@@ -202,7 +225,7 @@ export class OpenAIClient implements IAIClient {
 		toolMask?: ToolMaskState,
 	): "auto" | "none" | { type: "function"; function: { name: string } } {
 		// 如果没有 toolMask 或不支持 tool_choice，使用 auto
-		if (!toolMask || !currentModelSupportsToolChoice()) {
+		if (!toolMask || !currentModelSupportsToolChoice(this.config.modelId)) {
 			return "auto";
 		}
 
@@ -220,6 +243,7 @@ export class OpenAIClient implements IAIClient {
 	/**
 	 * 流式聊天请求
 	 * 使用 SSE (Server-Sent Events) 格式解析流式响应
+	 * 在收到任何内容前失败（限流、服务端错误、网络错误）时自动重试
 	 * @param messages 消息列表
 	 * @param tools 工具列表（可选）
 	 * @param options 流式选项，包含可选的 AbortSignal 用于外部取消
@@ -228,6 +252,21 @@ export class OpenAIClient implements IAIClient {
 		messages: ChatMessage[],
 		tools?: OpenAITool[],
 		options?: StreamOptions,
+	): AsyncGenerator<AIStreamChunk> {
+		yield* withStreamRetry(() => this.streamOnce(messages, tools, options), {
+			maxAttempts: this.config.maxRetries || 3,
+			signal: options?.signal,
+			onRetry: options?.onRetry,
+		});
+	}
+
+	/**
+	 * 发送一次流式请求
+	 */
+	private async *streamOnce(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		options?: StreamOptions,
 	): AsyncGenerator<AIStreamChunk> {
 		const baseUrl =
 			this.config.baseUrl?.replace(/\/$/, "") || "https://api.openai.com/v1";
@@ -247,7 +286,7 @@ export class OpenAIClient implements IAIClient {
 		}
 
 		// 根据模型配置动态附加 thinking 参数
-		const thinkingParams = getThinkingParams();
+		const thinkingParams = getThinkingParams(this.config.modelId);
 		if (thinkingParams) {
 			Object.assign(body, thinkingParams);
 		}
@@ -296,7 +335,7 @@ export class OpenAIClient implements IAIClient {
 		};
 
 		try {
-			const response = await fetch(url, {
+			const response = await fetchApi(url, {
 				method: "POST",
 				headers: {
 					Authorization: `Bearer ${this.config.apiKey}`,
@@ -311,8 +350,10 @@ export class OpenAIClient implements IAIClient {
 
 			if (!response.ok) {
 				const errorText = await response.text();
-				throw new Error(
+				throw createApiError(
 					`OpenAI API error: ${response.status} ${response.statusText} - ${errorText}`,
+					response.status,
+					response.headers,
 				);
 			}
 
@@ -337,19 +378,13 @@ export class OpenAIClient implements IAIClient {
 			// 跟踪是否已经 yield 过带 finish_reason 的 chunk
 			let hasYieldedFinish = false;
 			// 跟踪 usage 信息（OpenAI 在启用 stream_options 时会在流结束时返回）
-			let streamUsage:
-				| {
-						prompt_tokens: number;
-						completion_tokens: number;
-						total_tokens: number;
-				  }
-				| undefined;
+			let streamUsage: AIStreamChunk["usage"];
 
 			// 开始流式读取，启动活动超时
 			resetActivityTimeout();
 
 			while (true) {
-				const { done, value } = await reader.read();
+				const { done, value } = await readChunk(reader);
 
 				// 每次收到数据时重置活动超时
 				if (!done) {
@@ -385,7 +420,7 @@ export class OpenAIClient implements IAIClient {
 						// 情况1: 最终 chunk 只有 usage，没有 choices
 						// 情况2: 最后一个有 choices 的 chunk 同时包含 usage
 						if (chunk.usage) {
-							streamUsage = chunk.usage;
+							streamUsage = parseOpenAIUsage(chunk.usage);
 						}
 
 						if (!chunk.choices?.length) continue;
@@ -0,0 +1,585 @@
+/**
+ * OpenAI Responses API 客户端实现
+ * 使用 /responses 端点，支持推理摘要、函数调用输出项和 previous_response_id 续接
+ */
+
+import { createHash } from "node:crypto";
+import type {
+	IAIClient,
+	AIClientConfig,
+	ChatMessage,
+	AIResponse,
+	AIStreamChunk,
+	OpenAITool,
+	FinishReason,
+	ToolCall,
+	StreamOptions,
+	ToolMaskState,
+} from "../types.js";
+import {
+	toResponsesInput,
+	toResponsesTools,
+	parseResponsesFunctionCalls,
+	type ResponsesOutputItem,
+} from "../adapters/openaiResponses.js";
+import { extractSystemMessage } from "../adapters/anthropic.js";
+import {
+	getThinkingParams,
+	currentModelSupportsToolChoice,
+} from "../../../utils/config.js";
+import { stableStringify } from "../../../utils/json.js";
+import {
+	withRetry,
+	withStreamRetry,
+	fetchApi,
+	readChunk,
+	createApiError,
+} from "../retry.js";
+
+/**
+ * Responses API 响应类型（流式响应的 response.completed 事件中也是这个结构）
+ */
+type ResponsesAPIResponse = {
+	id: string;
+	status?: "completed" | "incomplete" | "failed" | "in_progress";
+	output?: ResponsesOutputItem[];
+	incomplete_details?: { reason?: string } | null;
+	error?: { message?: string } | null;
+	usage?: {
+		input_tokens: number;
+		output_tokens: number;
+		total_tokens?: number;
+		/** cached_tokens 包含在 input_tokens 中 */
+		input_tokens_details?: { cached_tokens?: number };
+	};
+};
+
+/**
+ * 上一次响应的续接信息
+ */
+type ResponseState = {
+	/** 响应 ID（作为下一次请求的 previous_response_id） */
+	id: string;
+	/** 发送该请求时的消息数 */
+	messageCount: number;
+	/** 发送该请求时消息的指纹，用于确认历史没有被改写（如 compact） */
+	fingerprint: string;
+};
+
+/**
+ * 构建好的请求
+ */
+type ResponsesRequest = {
+	body: Record<string, unknown>;
+	/** 本次请求使用的 previous_response_id（未续接时为 undefined） */
+	previousResponseId?: string;
+	/** 本次请求对应的续接信息（缺少响应 ID，收到响应后补全） */
+	state: Omit<ResponseState, "id">;
+};
+
+/**
+ * 计算消息列表的指纹
+ */
+function fingerprintMessages(messages: ChatMessage[]): string {
+	const hash = createHash("sha256");
+	for (const msg of messages) {
+		hash.update(
+			stableStringify({
+				role: msg.role,
+				content: msg.content,
+				tool_call_id: msg.tool_call_id,
+				tool_calls: msg.tool_calls,
+			}),
+		);
+	}
+	return hash.digest("hex");
+}
+
+/**
+ * 将 usage 转换为统一格式
+ */
+function parseUsage(usage: ResponsesAPIResponse["usage"]): AIResponse["usage"] {
+	if (!usage) {
+		return undefined;
+	}
+	return {
+		prompt_tokens: usage.input_tokens,
+		completion_tokens: usage.output_tokens,
+		total_tokens:
+			usage.total_tokens ?? usage.input_tokens + usage.output_tokens,
+		...(usage.input_tokens_details?.cached_tokens !== undefined
+			? { cache_read_input_tokens: usage.input_tokens_details.cached_tokens }
+			: {}),
+	};
+}
+
+/**
+ * OpenAI Responses API 客户端
+ */
+export class OpenAIResponsesClient implements IAIClient {
+	private config: AIClientConfig;
+	/** 上一次成功响应（仅启用 usePreviousResponseId 时记录） */
+	private lastResponse: ResponseState | undefined;
+
+	constructor(config: AIClientConfig) {
+		this.config = {
+			baseUrl: "https://api.openai.com/v1",
+			timeout: 60000,
+			maxRetries: 3,
+			...config,
+		};
+	}
+
+	getConfig(): AIClientConfig {
+		return { ...this.config };
+	}
+
+	async chat(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		options?: StreamOptions,
+	): Promise<AIResponse> {
+		return withRetry(
+			async () => {
+				// 每次尝试重新构建请求（续接失败后会改为发送完整历史）
+				const request = this.buildRequest(messages, tools, options?.toolMask);
+				const controller = new AbortController();
+				const timeoutId = setTimeout(
+					() => controller.abort(),
+					this.config.timeout || 60000,
+				);
+
+				try {
+					const response = await this.post(request.body, controller.signal);
+
+					if (!response.ok) {
+						const errorText = await response.text();
+						this.resetStateAfterError(request);
+						throw createApiError(
+							`OpenAI Responses API error: ${response.status} ${response.statusText} - ${errorText}`,
+							response.status,
+							response.headers,
+						);
+					}
+
+					const data = (await response.json()) as ResponsesAPIResponse;
+					this.recordResponse(data.id, request);
+					return this.parseResponse(data);
+				} finally {
+					clearTimeout(timeoutId);
+				}
+			},
+			{
+				maxAttempts: this.config.maxRetries || 3,
+				signal: options?.signal,
+				onRetry: options?.onRetry,
+			},
+		);
+	}
+
+	private parseResponse(data: ResponsesAPIResponse): AIResponse {
+		const output = data.output ?? [];
+
+		// 提取文本内容
+		const textContent = output
+			.filter((item) => item.type === "message")
+			.flatMap((item) => item.content ?? [])
+			.filter((part) => part.type === "output_text")
+			.map((part) => part.text ?? "")
+			.join("");
+
+		// 提取推理摘要
+		const reasoningContent = output
+			.filter((item) => item.type === "reasoning")
+			.flatMap((item) => item.summary ?? [])
+			.map((part) => part.text ?? "")
+			.join("\n\n");
+
+		const message: ChatMessage = {
+			role: "assistant",
+			content: textContent,
+		};
+
+		// 如果有思考内容，添加到消息中（使用 reasoning_content 字段保持一致性）
+		if (reasoningContent) {
+			message.reasoning_content = reasoningContent;
+		}
+
+		const toolCalls = parseResponsesFunctionCalls(output);
+		if (toolCalls.length > 0) {
+			message.tool_calls = toolCalls;
+		}
+
+		return {
+			message,
+			finish_reason: this.parseFinishReason(data, toolCalls.length > 0),
+			usage: parseUsage(data.usage),
+		};
+	}
+
+	/**
+	 * 根据响应状态得到统一的 FinishReason
+	 * Responses API 没有 finish_reason，有函数调用时为 tool_calls
+	 */
+	private parseFinishReason(
+		data: ResponsesAPIResponse,
+		hasToolCalls: boolean,
+	): FinishReason {
+		if (hasToolCalls) {
+			return "tool_calls";
+		}
+		if (
+			data.status === "incomplete" &&
+			data.incomplete_details?.reason === "max_output_tokens"
+		) {
+			return "length";
+		}
+		return "stop";
+	}
+
+	/**
+	 * 根据 toolMask 构建 tool_choice 参数
+	 * Responses API 的函数选择格式为 { type: "function", name }
+	 */
+	private buildToolChoice(
+		toolMask?: ToolMaskState,
+	): "auto" | { type: "function"; name: string } {
+		// 如果没有 toolMask 或不支持 tool_choice，使用 auto
+		if (!toolMask || !currentModelSupportsToolChoice(this.config.modelId)) {
+			return "auto";
+		}
+
+		// 如果有强制工具，使用 tool_choice 指定
+		if (toolMask.requiredTool) {
+			return { type: "function", name: toolMask.requiredTool };
+		}
+
+		return "auto";
+	}
+
+	/**
+	 * 构建请求体
+	 * 启用 usePreviousResponseId 时，如果上一次请求的消息和模型回复仍是当前历史的前缀，
+	 * 只发送之后新增的消息；否则（首次请求、compact、切换会话）发送完整历史
+	 */
+	private buildRequest(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		toolMask?: ToolMaskState,
+	): ResponsesRequest {
+		const state = {
+			messageCount: messages.length,
+			fingerprint: this.config.usePreviousResponseId
+				? fingerprintMessages(messages)
+				: "",
+		};
+
+		let input = messages;
+		let previousResponseId: string | undefined;
+		const last = this.lastResponse;
+		if (
+			this.config.usePreviousResponseId &&
+			last &&
+			messages.length > last.messageCount + 1 &&
+			messages[last.messageCount]?.role === "assistant" &&
+			fingerprintMessages(messages.slice(0, last.messageCount)) ===
+				last.fingerprint
+		) {
+			// 跳过已发送的消息和上一次的模型回复（服务端已保存）
+			input = messages.slice(last.messageCount + 1);
+			previousResponseId = last.id;
+		}
+
+		const body: Record<string, unknown> = {
+			model: this.config.model,
+			input: toResponsesInput(input),
+		};
+
+		// instructions 不会随 previous_response_id 续接，每次都要发送
+		const systemPrompt = extractSystemMessage(messages);
+		if (systemPrompt) {
+			body.instructions = systemPrompt;
+		}
+
+		if (previousResponseId) {
+			body.previous_response_id = previousResponseId;
+		}
+
+		if (tools && tools.length > 0) {
+			body.tools = toResponsesTools(tools);
+			// 根据 toolMask 设置 tool_choice
+			body.tool_choice = this.buildToolChoice(toolMask);
+		}
+
+		// 根据模型配置动态附加 thinking 参数（如 reasoning: { effort, summary }）
+		const thinkingParams = getThinkingParams(this.config.modelId);
+		if (thinkingParams) {
+			Object.assign(body, thinkingParams);
+		}
+
+		return { body, previousResponseId, state };
+	}
+
+	private post(
+		body: Record<string, unknown>,
+		signal: AbortSignal,
+	): Promise<Response> {
+		const baseUrl =
+			this.config.baseUrl?.replace(/\/$/, "") || "https://api.openai.com/v1";
+		return fetchApi(`${baseUrl}/responses`, {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${this.config.apiKey}`,
+				"Content-Type": "application/json",
+			},
+			// 使用 stableStringify 确保键顺序一致，提高 KV 缓存命中率
+			body: stableStringify(body),
+			signal,
+		});
+	}
+
+	/**
+	 * 记录成功的响应，供下一次请求续接
+	 */
+	private recordResponse(id: string | undefined, request: ResponsesRequest) {
+		if (this.config.usePreviousResponseId && id) {
+			this.lastResponse = { id, ...request.state };
+		}
+	}
+
+	/**
+	 * 续接的请求失败时清除续接信息
+	 * 服务端可能已丢弃上一次响应（过期或未保存），之后改为发送完整历史
+	 */
+	private resetStateAfterError(request: ResponsesRequest): void {
+		if (request.previousResponseId) {
+			this.lastResponse = undefined;
+		}
+	}
+
+	/**
+	 * 流式聊天请求
+	 * 使用 SSE 格式解析 Responses API 的语义事件（response.output_text.delta 等）
+	 * 在收到任何内容前失败（限流、服务端错误、网络错误）时自动重试
+	 * @param messages 消息列表
+	 * @param tools 工具列表（可选）
+	 * @param options 流式选项，包含可选的 AbortSignal 用于外部取消
+	 */
+	async *streamChat(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		options?: StreamOptions,
+	): AsyncGenerator<AIStreamChunk> {
+		yield* withStreamRetry(() => this.streamOnce(messages, tools, options), {
+			maxAttempts: this.config.maxRetries || 3,
+			signal: options?.signal,
+			onRetry: options?.onRetry,
+		});
+	}
+
+	/**
+	 * 发送一次流式请求
+	 */
+	private async *streamOnce(
+		messages: ChatMessage[],
+		tools?: OpenAITool[],
+		options?: StreamOptions,
+	): AsyncGenerator<AIStreamChunk> {
+		let request = this.buildRequest(messages, tools, options?.toolMask);
+
+		// 创建内部 AbortController 用于超时
+		const timeoutController = new AbortController();
+		// 连接超时：等待服务器响应（使用配置的 timeout）
+		const connectionTimeoutId = setTimeout(
+			() => timeoutController.abort(),
+			this.config.timeout || 180000,
+		);
+
+		// 如果有外部 signal，监听它并联动中止
+		const externalSignal = options?.signal;
+		let externalAbortHandler: (() => void) | undefined;
+
+		if (externalSignal) {
+			if (externalSignal.aborted) {
+				clearTimeout(connectionTimeoutId);
+				throw new DOMException("Request was aborted", "AbortError");
+			}
+			externalAbortHandler = () => timeoutController.abort();
+			externalSignal.addEventListener("abort", externalAbortHandler);
+		}
+
+		// 活动超时：流式传输期间，每次收到数据重置
+		const streamTimeout = this.config.timeout || 600000;
+		let activityTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+		const resetActivityTimeout = () => {
+			if (activityTimeoutId) {
+				clearTimeout(activityTimeoutId);
+			}
+			activityTimeoutId = setTimeout(() => {
+				timeoutController.abort();
+			}, streamTimeout);
+		};
+
+		const clearActivityTimeout = () => {
+			if (activityTimeoutId) {
+				clearTimeout(activityTimeoutId);
+				activityTimeoutId = null;
+			}
+		};
+
+		try {
+			let response = await this.post(
+				{ ...request.body, stream: true },
+				timeoutController.signal,
+			);
+
+			// 续接失败时改为发送完整历史重试一次
+			if (!response.ok && request.previousResponseId) {
+				await response.text();
+				this.resetStateAfterError(request);
+				request = this.buildRequest(messages, tools, options?.toolMask);
+				response = await this.post(
+					{ ...request.body, stream: true },
+					timeoutController.signal,
+				);
+			}
+
+			clearTimeout(connectionTimeoutId);
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				throw createApiError(
+					`OpenAI Responses API error: ${response.status} ${response.statusText} - ${errorText}`,
+					response.status,
+					response.headers,
+				);
+			}
+
+			if (!response.body) {
+				throw new Error("Response body is null");
+			}
+
+			const reader = response.body.getReader();
+			const decoder = new TextDecoder();
+			let buffer = "";
+
+			// 完成的函数调用项（response.output_item.done 中参数已完整）
+			const toolCalls: ToolCall[] = [];
+
+			// 开始流式读取，启动活动超时
+			resetActivityTimeout();
+
+			while (true) {
+				const { done, value } = await readChunk(reader);
+
+				// 每次收到数据时重置活动超时
+				if (!done) {
+					resetActivityTimeout();
+				}
+				if (done) break;
+
+				buffer += decoder.decode(value, { stream: true });
+				const lines = buffer.split("\n");
+				buffer = lines.pop() || "";
+
+				for (const line of lines) {
+					const trimmed = line.trim();
+
+					// 事件类型同时包含在 data 的 type 字段中
+					if (!trimmed.startsWith("data: ")) continue;
+
+					const data = trimmed.slice(6);
+					if (!data || data === "[DONE]") continue;
+
+					let event: {
+						type?: string;
+						delta?: string;
+						item?: ResponsesOutputItem;
+						response?: ResponsesAPIResponse;
+						message?: string;
+					};
+					try {
+						event = JSON.parse(data);
+					} catch {
+						// JSON 解析失败，继续处理下一行
+						continue;
+					}
+
+					switch (event.type) {
+						case "response.output_text.delta":
+							if (event.delta) {
+								yield { delta: { content: event.delta } };
+							}
+							break;
+
+						case "response.reasoning_summary_text.delta":
+						case "response.reasoning_text.delta":
+							if (event.delta) {
+								yield { delta: { reasoning_content: event.delta } };
+							}
+							break;
+
+						case "response.output_item.done":
+							if (event.item) {
+								toolCalls.push(...parseResponsesFunctionCalls([event.item]));
+							}
+							break;
+
+						case "response.completed":
+						case "response.incomplete": {
+							const result = event.response;
+							this.recordResponse(result?.id, request);
+							const usage = parseUsage(result?.usage);
+
+							if (toolCalls.length > 0) {
+								yield {
+									delta: { content: "", tool_calls: toolCalls },
+									finish_reason: "tool_calls",
+									usage,
+								};
+							} else {
+								yield {
+									delta: { content: "" },
+									finish_reason: result
+										? this.parseFinishReason(result, false)
+										: "stop",
+									usage,
+								};
+							}
+							return;
+						}
+
+						case "response.failed":
+							this.resetStateAfterError(request);
+							throw new Error(
+								`OpenAI Responses streaming error: ${event.response?.error?.message || "Unknown error"}`,
+							);
+
+						case "error":
+							this.resetStateAfterError(request);
+							throw new Error(
+								`OpenAI Responses streaming error: ${event.message || "Unknown error"}`,
+							);
+					}
+				}
+			}
+
+			// 流正常结束但没有 response.completed，补充一个结束块
+			if (toolCalls.length > 0) {
+				yield {
+					delta: { content: "", tool_calls: toolCalls },
+					finish_reason: "tool_calls",
+				};
+			} else {
+				yield { delta: { content: "" }, finish_reason: "stop" };
+			}
+		} finally {
+			clearTimeout(connectionTimeoutId);
+			clearActivityTimeout();
+			if (externalSignal && externalAbortHandler) {
+				externalSignal.removeEventListener("abort", externalAbortHandler);
+			}
+		}
+	}
+}
@@ -7,6 +7,7 @@
 import {
 	getModelById,
 	getDefaultModel,
+	type ApiProtocol,
 	type ModelConfig,
 } from "../../constants/models.js";
 import {
@@ -64,7 +65,7 @@ export function getModelApiConfig(model: ModelConfig): {
 	baseUrl: string;
 	apiKey?: string;
 	apiModel: string;
-	protocol: "openai" | "anthropic";
+	protocol: ApiProtocol;
 } | null {
 	const apiConfig = getModelApiConfigFromConfig(model.model);
 	if (!apiConfig) {
@@ -3,6 +3,8 @@
  * 组装用户消息和文件内容，处理 @ 符号转换
  */
 
+import * as fs from "node:fs";
+import * as path from "node:path";
 import type { FileReference } from "../../models/input.js";
 import { readFileContents, formatFilesAsXml } from "./fileReader.js";
 import {
@@ -212,3 +214,37 @@ export function transformUserMessage(
 
 	return result;
 }
+
+/**
+ * 从消息文本中提取 @ 文件引用
+ * 交互模式由输入框记录选中的文件，非交互模式（print）需要从文本中解析
+ * 只保留存在的文件或目录，去掉路径末尾的标点（如 "@app.tsx."）
+ *
+ * @param message 用户消息
+ * @param cwd 当前工作目录
+ * @returns 文件引用列表（按出现顺序去重）
+ */
+export function extractFileReferences(
+	message: string,
+	cwd: string,
+): FileReference[] {
+	const refs: FileReference[] = [];
+	const seen = new Set<string>();
+
+	for (const match of message.matchAll(/(?:^|\s)@(\S+)/g)) {
+		const raw = match[1]!;
+		for (const candidate of [raw, raw.replace(/[.,;:!?)\]}"']+$/, "")]) {
+			if (!candidate || seen.has(candidate)) continue;
+			try {
+				const stat = fs.statSync(path.resolve(cwd, candidate));
+				refs.push({ path: candidate, isDirectory: stat.isDirectory() });
+				seen.add(candidate);
+				break;
+			} catch {
+				// 不存在的路径不视为文件引用
+			}
+		}
+	}
+
+	return refs;
+}
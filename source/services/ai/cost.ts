@@ -0,0 +1,137 @@
+/**
+ * 费用统计
+ * 根据模型价格计算每轮请求的费用，并按 session / 模型 / 日期汇总
+ */
+
+import type { AIResponse } from "./types.js";
+import type { ModelPricing } from "../../utils/config.js";
+
+/**
+ * 单次 API 请求的费用记录
+ */
+export type CostRecord = {
+	/** 模型 ID */
+	model: string;
+	/** 费用（USD） */
+	cost: number;
+	/** 时间戳 */
+	timestamp: number;
+	/** 本轮对话中的工具调用轮序号（0 为用户消息后的首次请求） */
+	round: number;
+};
+
+/**
+ * 费用汇总条目
+ */
+export type CostEntry = {
+	/** 分组键（session 名称、模型 ID 或日期） */
+	key: string;
+	/** 费用（USD） */
+	cost: number;
+};
+
+/**
+ * 费用汇总
+ */
+export type CostSummary = {
+	/** 总费用 */
+	total: number;
+	/** 按 session 汇总（按费用降序） */
+	bySession: CostEntry[];
+	/** 按模型汇总（按费用降序） */
+	byModel: CostEntry[];
+	/** 按日期汇总（按日期降序，本地时间 YYYY-MM-DD） */
+	byDay: CostEntry[];
+};
+
+/**
+ * 计算一次请求的费用（USD）
+ * prompt_tokens 已包含缓存 token，命中缓存的部分按 cachedInput 价格计算
+ */
+export function calculateCost(
+	usage: NonNullable<AIResponse["usage"]>,
+	pricing: ModelPricing,
+): number {
+	const cachedTokens = usage.cache_read_input_tokens ?? 0;
+	const inputTokens = Math.max(0, usage.prompt_tokens - cachedTokens);
+	const cachedPrice = pricing.cachedInput ?? pricing.input;
+
+	return (
+		(inputTokens * pricing.input +
+			cachedTokens * cachedPrice +
+			usage.completion_tokens * pricing.output) /
+		1_000_000
+	);
+}
+
+/**
+ * 汇总费用记录的总费用
+ */
+export function sumCost(records: CostRecord[]): number {
+	return records.reduce((total, record) => total + record.cost, 0);
+}
+
+/**
+ * 获取最近一轮对话（最后一条用户消息之后）的费用记录
+ */
+export function getLastTurnRecords(records: CostRecord[]): CostRecord[] {
+	let start = records.length - 1;
+	while (start > 0 && records[start]!.round > 0) {
+		start--;
+	}
+	return records.slice(Math.max(0, start));
+}
+
+/**
+ * 格式化日期键（本地时间 YYYY-MM-DD）
+ */
+function toDayKey(timestamp: number): string {
+	const date = new Date(timestamp);
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 按 session / 模型 / 日期汇总费用
+ */
+export function summarizeCosts(
+	sessions: Array<{ name: string; records: CostRecord[] }>,
+): CostSummary {
+	const bySession: CostEntry[] = [];
+	const byModel = new Map<string, number>();
+	const byDay = new Map<string, number>();
+	let total = 0;
+
+	const add = (map: Map<string, number>, key: string, cost: number) => {
+		map.set(key, (map.get(key) ?? 0) + cost);
+	};
+
+	for (const session of sessions) {
+		const sessionTotal = sumCost(session.records);
+		if (sessionTotal <= 0) continue;
+
+		total += sessionTotal;
+		bySession.push({ key: session.name, cost: sessionTotal });
+		for (const record of session.records) {
+			add(byModel, record.model, record.cost);
+			add(byDay, toDayKey(record.timestamp), record.cost);
+		}
+	}
+
+	const toEntries = (map: Map<string, number>) =>
+		Array.from(map, ([key, cost]) => ({ key, cost }));
+
+	return {
+		total,
+		bySession: bySession.sort((a, b) => b.cost - a.cost),
+		byModel: toEntries(byModel).sort((a, b) => b.cost - a.cost),
+		byDay: toEntries(byDay).sort((a, b) => b.key.localeCompare(a.key)),
+	};
+}
+
+/**
+ * 格式化费用（USD），小额保留更多小数位
+ */
+export function formatCost(cost: number): string {
+	return cost >= 1 ? `$${cost.toFixed(2)}` : `$${cost.toFixed(4)}`;
+}
@@ -17,6 +17,8 @@ export type {
 	JSONSchemaType,
 	OpenAITool,
 	AnthropicTool,
+	AnthropicCacheControl,
+	GeminiFunctionDeclaration,
 
 	// 客户端接口
 	AIClientConfig,
@@ -38,6 +40,7 @@ export type {
 	IAIService,
 	SessionStatus,
 	CompactCheckResult,
+	ModelFallbackEvent,
 } from "./types.js";
 
 // Session 管理
@@ -46,27 +49,54 @@ export {
 	createSession,
 	type SessionConfig,
 	type TokenUsage,
+	type ModelSwitchRecord,
 } from "./session.js";
 
+// 费用统计
+export {
+	calculateCost,
+	summarizeCosts,
+	formatCost,
+	type CostRecord,
+	type CostSummary,
+} from "./cost.js";
+
+// 重试策略
+export {
+	withRetry,
+	withStreamRetry,
+	type RetryEvent,
+	type RetryCallback,
+} from "./retry.js";
+
 // 适配器导出
 export {
 	toOpenAITools,
 	toolToOpenAI,
 	paramsToJsonSchema,
+	actionToJsonSchema,
 	parseOpenAIToolCalls,
 	buildOpenAIToolResultMessage,
 	toOpenAIMessages,
+	toResponsesTools,
+	toResponsesInput,
+	parseResponsesFunctionCalls,
 	toAnthropicTools,
 	toolToAnthropic,
 	parseAnthropicToolUse,
 	buildAnthropicToolResultMessage,
 	toAnthropicMessages,
 	extractSystemMessage,
+	toGeminiFunctionDeclarations,
+	parseGeminiFunctionCalls,
+	toGeminiContents,
 } from "./adapters/index.js";
 
 // 客户端导出
 export { OpenAIClient } from "./clients/openai.js";
+export { OpenAIResponsesClient } from "./clients/openaiResponses.js";
 export { AnthropicClient } from "./clients/anthropic.js";
+export { GeminiClient } from "./clients/gemini.js";
 
 // 工具调用处理器
 export { ToolCallHandler, createToolCallHandler } from "./tool-call-handler.js";
@@ -101,14 +131,19 @@ export {
 import type { IToolRegistry } from "../tools/types.js";
 import type { IAIClient, IAIService } from "./types.js";
 import { OpenAIClient } from "./clients/openai.js";
+import { OpenAIResponsesClient } from "./clients/openaiResponses.js";
 import { AnthropicClient } from "./clients/anthropic.js";
+import { GeminiClient } from "./clients/gemini.js";
 import { AIService } from "./service.js";
+import { getPermissionManager } from "../permissions/permissionManager.js";
 import {
 	getCurrentModel,
 	getModelApiConfig,
 	isApiConfigValid,
 } from "./config.js";
-import type { ModelConfig } from "../../constants/models.js";
+import { getCostBudget } from "../../utils/config.js";
+import { getModelById, type ModelConfig } from "../../constants/models.js";
+import type { ProcessManager } from "../tools/processManager.js";
 
 /**
  * 根据模型配置创建 AI 客户端
@@ -126,11 +161,19 @@ export function createAIClient(model: ModelConfig): IAIClient | null {
 		apiKey: apiConfig.apiKey,
 		model: apiConfig.apiModel,
 		baseUrl: apiConfig.baseUrl,
+		modelId: model.model,
 	};
 
 	switch (apiConfig.protocol) {
 		case "anthropic":
 			return new AnthropicClient(clientConfig);
+		case "gemini":
+			return new GeminiClient(clientConfig);
+		case "openai-responses":
+			return new OpenAIResponsesClient({
+				...clientConfig,
+				usePreviousResponseId: model.usePreviousResponseId,
+			});
 		case "openai":
 		default:
 			return new OpenAIClient(clientConfig);
@@ -142,11 +185,13 @@ export function createAIClient(model: ModelConfig): IAIClient | null {
  *
  * @param registry 工具注册表
  * @param cwd 当前工作目录（用于项目类型检测）
+ * @param options.maxToolCallRounds 最大工具调用轮数（默认 40）
  * @returns AI 服务实例，如果配置无效则返回 null
  */
 export function createAIServiceFromConfig(
 	registry: IToolRegistry,
 	cwd?: string,
+	options?: { maxToolCallRounds?: number; processManager?: ProcessManager },
 ): IAIService | null {
 	if (!isApiConfigValid()) {
 		return null;
@@ -170,16 +215,37 @@ export function createAIServiceFromConfig(
 			client,
 			// 根据模型能力调整配置
 			contextAwareEnabled: model.supportsTools,
-			maxToolCallRounds: 40,
+			maxToolCallRounds: options?.maxToolCallRounds ?? 40,
 			// 使用模型的上下文窗口大小
 			contextWindow: model.contextWindow,
 			// 传递当前工作目录
 			cwd: cwd || process.cwd(),
+			// 工具调用权限检查
+			permissionManager: getPermissionManager(),
+			// 沿用已有的后台进程（模型切换、compact 时重建服务）
+			processManager: options?.processManager,
+			// 费用统计和预算
+			model: model.model,
+			pricing: model.pricing,
+			costBudget: getCostBudget() ?? undefined,
+			// 当前模型不可用时按顺序切换的备用模型
+			fallbackModels: getFallbackModels(model),
+			createClient: createAIClient,
 		},
 		registry,
 	);
 }
 
+/**
+ * 获取模型配置的备用模型（忽略未配置的模型和模型自身）
+ */
+function getFallbackModels(model: ModelConfig): ModelConfig[] {
+	return (model.fallbackModels ?? [])
+		.filter((id) => id !== model.model)
+		.map((id) => getModelById(id))
+		.filter((fallback): fallback is ModelConfig => fallback !== undefined);
+}
+
 /**
  * 获取当前模型信息（用于 App 状态）
  */
@@ -4,6 +4,11 @@
  */
 
 import type { FileReference } from "../../models/input.js";
+import type {
+	ToolCallStartEvent,
+	ToolCallProgressEvent,
+	ToolCallEndEvent,
+} from "./types.js";
 
 /**
  * 队列中的消息
@@ -41,6 +46,12 @@ export type StreamingCallbacks = {
 	onStreamChunk?: (id: string, content: StreamContent) => void;
 	/** 流式结束 */
 	onStreamEnd?: (id: string, finalContent: StreamContent) => void;
+	/** 工具调用开始 */
+	onToolStart?: (id: string, event: ToolCallStartEvent) => void;
+	/** 工具调用阶段变化 */
+	onToolProgress?: (id: string, event: ToolCallProgressEvent) => void;
+	/** 工具调用结束 */
+	onToolEnd?: (id: string, event: ToolCallEndEvent) => void;
 };
 
 /**
@@ -66,6 +77,9 @@ export type ProcessorStreamCallbacks = {
 	onStart?: () => void;
 	onChunk?: (content: StreamContent) => void;
 	onEnd?: (finalContent: StreamContent) => void;
+	onToolStart?: (event: ToolCallStartEvent) => void;
+	onToolProgress?: (event: ToolCallProgressEvent) => void;
+	onToolEnd?: (event: ToolCallEndEvent) => void;
 };
 
 /**
@@ -258,6 +272,21 @@ export class MessageQueue {
 					this.callbacks.onStreamEnd?.(message.id, finalContent);
 				}
 			},
+			onToolStart: (event) => {
+				if (!this.stopped) {
+					this.callbacks.onToolStart?.(message.id, event);
+				}
+			},
+			onToolProgress: (event) => {
+				if (!this.stopped) {
+					this.callbacks.onToolProgress?.(message.id, event);
+				}
+			},
+			onToolEnd: (event) => {
+				if (!this.stopped) {
+					this.callbacks.onToolEnd?.(message.id, event);
+				}
+			},
 		};
 
 		try {
@@ -0,0 +1,288 @@
+/**
+ * API 请求重试策略（所有协议客户端共用）
+ * - 错误分类：429、5xx 和网络错误可重试，其他 4xx 和中止不重试
+ * - 等待时间：优先使用 Retry-After / anthropic-ratelimit-*-reset 响应头，否则指数退避加随机抖动
+ * - 流式请求在收到任何内容前失败时透明重试
+ */
+
+/**
+ * 重试原因
+ */
+export type RetryReason = "rate_limit" | "server_error" | "network";
+
+/**
+ * 重试事件（用于在 UI 显示重试进度）
+ */
+export type RetryEvent = {
+	/** 重试原因 */
+	reason: RetryReason;
+	/** HTTP 状态码（网络错误时没有） */
+	status?: number;
+	/** 即将进行的第几次重试（从 1 开始） */
+	attempt: number;
+	/** 最多重试次数 */
+	maxRetries: number;
+	/** 重试前的等待时间（毫秒） */
+	delayMs: number;
+};
+
+/**
+ * 重试回调
+ */
+export type RetryCallback = (event: RetryEvent) => void;
+
+/**
+ * 重试选项
+ */
+export type RetryOptions = {
+	/** 最多尝试次数（包含首次请求） */
+	maxAttempts: number;
+	/** 外部中止信号（等待期间中止会立即结束） */
+	signal?: AbortSignal;
+	/** 每次重试前调用 */
+	onRetry?: RetryCallback;
+};
+
+/**
+ * API 错误：附带 HTTP 状态码和服务端要求的等待时间
+ */
+export type ApiError = Error & {
+	/** HTTP 状态码 */
+	status?: number;
+	/** 服务端要求的等待时间（毫秒） */
+	retryAfterMs?: number;
+	/** 是否为网络层错误（连接失败、连接被重置等） */
+	network?: boolean;
+};
+
+/** 指数退避的基础等待时间 */
+const BASE_DELAY_MS = 1000;
+
+/** 指数退避的最长等待时间 */
+const MAX_DELAY_MS = 30000;
+
+/** 服务端要求等待超过该时间时不再重试，直接报错 */
+const MAX_RETRY_AFTER_MS = 60000;
+
+/** Anthropic 限流响应头中的限额类型 */
+const ANTHROPIC_RATE_LIMITS = [
+	"requests",
+	"tokens",
+	"input-tokens",
+	"output-tokens",
+];
+
+/**
+ * 从响应头解析服务端要求的等待时间（毫秒）
+ * - retry-after-ms（OpenAI）
+ * - retry-after：秒数或 HTTP 日期
+ * - anthropic-ratelimit-*-reset：取已耗尽（remaining 为 0）的限额中最晚的重置时间
+ */
+export function parseRetryAfter(
+	headers: Headers | undefined,
+	now: number = Date.now(),
+): number | undefined {
+	if (!headers) return undefined;
+
+	const retryAfterMs = headers.get("retry-after-ms");
+	if (retryAfterMs !== null && Number.isFinite(Number(retryAfterMs))) {
+		return Math.max(0, Number(retryAfterMs));
+	}
+
+	const retryAfter = headers.get("retry-after");
+	if (retryAfter !== null) {
+		const seconds = Number(retryAfter);
+		if (retryAfter.trim() !== "" && Number.isFinite(seconds)) {
+			return Math.max(0, seconds * 1000);
+		}
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) {
+			return Math.max(0, date - now);
+		}
+	}
+
+	let latestReset: number | undefined;
+	for (const limit of ANTHROPIC_RATE_LIMITS) {
+		if (headers.get(`anthropic-ratelimit-${limit}-remaining`) !== "0") {
+			continue;
+		}
+		const reset = Date.parse(
+			headers.get(`anthropic-ratelimit-${limit}-reset`) ?? "",
+		);
+		if (!Number.isNaN(reset)) {
+			latestReset = Math.max(latestReset ?? 0, reset - now);
+		}
+	}
+	return latestReset === undefined ? undefined : Math.max(0, latestReset);
+}
+
+/**
+ * 创建带状态码的 API 错误
+ * @param headers 响应头（用于解析等待时间）
+ */
+export function createApiError(
+	message: string,
+	status: number,
+	headers?: Headers,
+): ApiError {
+	return Object.assign(new Error(message), {
+		status,
+		retryAfterMs: parseRetryAfter(headers),
+	});
+}
+
+/**
+ * 将网络层失败（非中止）标记为可重试的网络错误
+ */
+function markNetworkError(error: unknown): void {
+	if (error instanceof Error && error.name !== "AbortError") {
+		(error as ApiError).network = true;
+	}
+}
+
+/**
+ * 发送请求，网络层失败（连接失败等）时标记为网络错误
+ */
+export async function fetchApi(
+	url: string,
+	init: RequestInit,
+): Promise<Response> {
+	try {
+		return await fetch(url, init);
+	} catch (error) {
+		markNetworkError(error);
+		throw error;
+	}
+}
+
+/**
+ * 读取响应流的下一块，连接中断时标记为网络错误
+ */
+export async function readChunk(
+	reader: ReadableStreamDefaultReader<Uint8Array>,
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+	try {
+		return await reader.read();
+	} catch (error) {
+		markNetworkError(error);
+		throw error;
+	}
+}
+
+/**
+ * 判断错误是否可重试，返回重试原因；不可重试时返回 null
+ */
+export function getRetryReason(error: unknown): RetryReason | null {
+	if (!(error instanceof Error) || error.name === "AbortError") {
+		return null;
+	}
+	const { status, network } = error as ApiError;
+	if (network || status === 408) return "network";
+	if (status === 429) return "rate_limit";
+	if (status !== undefined && status >= 500) return "server_error";
+	return null;
+}
+
+/**
+ * 计算第 attempt 次失败后的等待时间（毫秒）
+ * 没有服务端要求时使用指数退避，并在 [base/2, base] 之间随机抖动，避免多个请求同时重试
+ */
+export function getRetryDelay(error: unknown, attempt: number): number {
+	const retryAfterMs = (error as ApiError | undefined)?.retryAfterMs;
+	if (retryAfterMs !== undefined) {
+		return retryAfterMs;
+	}
+	const base = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt));
+	return Math.round(base / 2 + Math.random() * (base / 2));
+}
+
+/**
+ * 等待指定时间，外部中止时立即以 AbortError 结束
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new DOMException("Request was aborted", "AbortError"));
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timeoutId);
+			reject(new DOMException("Request was aborted", "AbortError"));
+		};
+		const timeoutId = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * 第 attempt 次（从 0 开始）失败后决定是否重试
+ * 可重试时通知 onRetry 并等待，否则抛出原错误
+ */
+async function waitBeforeRetry(
+	error: unknown,
+	attempt: number,
+	options: RetryOptions,
+): Promise<void> {
+	const reason = getRetryReason(error);
+	if (!reason || attempt >= options.maxAttempts - 1) {
+		throw error;
+	}
+
+	const delayMs = getRetryDelay(error, attempt);
+	if (delayMs > MAX_RETRY_AFTER_MS) {
+		throw error;
+	}
+
+	options.onRetry?.({
+		reason,
+		status: (error as ApiError).status,
+		attempt: attempt + 1,
+		maxRetries: options.maxAttempts - 1,
+		delayMs,
+	});
+	await sleep(delayMs, options.signal);
+}
+
+/**
+ * 按重试策略执行请求
+ */
+export async function withRetry<T>(
+	request: () => Promise<T>,
+	options: RetryOptions,
+): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await request();
+		} catch (error) {
+			await waitBeforeRetry(error, attempt, options);
+		}
+	}
+}
+
+/**
+ * 按重试策略执行流式请求
+ * 只在还没有产出任何内容时重试，已输出的内容无法撤回，之后的错误直接抛出
+ */
+export async function* withStreamRetry<T>(
+	start: () => AsyncGenerator<T>,
+	options: RetryOptions,
+): AsyncGenerator<T> {
+	for (let attempt = 0; ; attempt++) {
+		let hasOutput = false;
+		try {
+			for await (const chunk of start()) {
+				hasOutput = true;
+				yield chunk;
+			}
+			return;
+		} catch (error) {
+			if (hasOutput) {
+				throw error;
+			}
+			await waitBeforeRetry(error, attempt, options);
+		}
+	}
+}
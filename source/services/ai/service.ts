@@ -10,6 +10,7 @@ import type {
 	IAIClient,
 	AIServiceConfig,
 	ChatMessage,
+	AIStreamChunk,
 	MatchContext,
 	OpenAITool,
 	StreamCallbacks,
@@ -18,10 +19,18 @@ import type {
 	ToolMaskState,
 	IToolMatcher,
 	ProjectType,
+	SubAgentRunner,
+	ModelFallbackEvent,
 } from "./types.js";
 import type { IToolRegistry, DiscoveredTool } from "../tools/types.js";
+import type { PermissionCallback } from "../permissions/types.js";
+import type { PermissionManager } from "../permissions/permissionManager.js";
 import { toOpenAITools } from "./adapters/openai.js";
 import { ToolCallHandler } from "./tool-call-handler.js";
+import {
+	getProcessManager,
+	type ProcessManager,
+} from "../tools/processManager.js";
 import { ToolMatcher, detectProjectType } from "../tools/matcher.js";
 import {
 	Session,
@@ -30,18 +39,36 @@ import {
 } from "./session.js";
 import {
 	buildSystemPrompt,
+	buildSubAgentPrompt,
 	buildModeReminder,
 } from "../../constants/prompts.js";
+import { PLAN_TOOLS } from "../../constants/tools.js";
 import { estimateTokens } from "./tokenEstimator.js";
 import { stableStringify } from "../../utils/json.js";
-import { buildToolMask } from "./toolMask.js";
-import { currentModelSupportsToolChoice } from "../../utils/config.js";
+import {
+	buildToolMask,
+	buildReadOnlyToolMask,
+	getReadOnlyTools,
+} from "./toolMask.js";
+import {
+	currentModelSupportsToolChoice,
+	type CostBudget,
+	type ModelConfig,
+	type ModelPricing,
+} from "../../utils/config.js";
+import { calculateCost, formatCost } from "./cost.js";
+import { getRetryReason } from "./retry.js";
 
 /**
  * 默认上下文窗口大小
  */
 const DEFAULT_CONTEXT_WINDOW = 32768;
 
+/**
+ * 子代理的最大工具调用轮数
+ */
+const SUB_AGENT_MAX_TOOL_CALL_ROUNDS = 20;
+
 /**
  * 发送消息的结果
  */
@@ -60,12 +87,31 @@ export class AIService implements IAIService {
 	private registry: IToolRegistry;
 	private matcher: IToolMatcher;
 	private toolCallHandler: ToolCallHandler;
+	private processes: ProcessManager;
+	private permissionManager: PermissionManager | undefined;
 	private session: Session;
 
 	private maxToolCallRounds: number;
 	private contextAwareEnabled: boolean;
 	private contextInjected: boolean = false;
 	private projectType: ProjectType | undefined; // 固定的项目类型
+	private cwd: string | undefined;
+	private subAgent: boolean;
+	private model: string | undefined;
+	private pricing: ModelPricing | undefined;
+	private costBudget: CostBudget | undefined;
+	// 配置的备用模型链（不修改，每轮对话都从头尝试）
+	private readonly fallbackModels: ModelConfig[];
+	private createClient: AIServiceConfig["createClient"];
+	// 本轮对话中下一个要尝试的备用模型
+	private fallbackIndex: number = 0;
+	// 主模型（每轮对话结束后恢复）
+	private readonly primaryModel: {
+		client: IAIClient;
+		model: string | undefined;
+		pricing: ModelPricing | undefined;
+		contextAwareEnabled: boolean;
+	};
 
 	/**
 	 * 获取集合A（所有已安装 + 当前平台支持的工具）
@@ -87,10 +133,32 @@ export class AIService implements IAIService {
 		this.client = config.client;
 		this.registry = registry;
 		this.matcher = new ToolMatcher(registry);
-		this.toolCallHandler = new ToolCallHandler(registry);
+		this.processes = config.processManager ?? getProcessManager();
+		this.permissionManager = config.permissionManager;
+		this.subAgent = config.subAgent ?? false;
+		this.toolCallHandler = new ToolCallHandler(registry, {
+			permissions: config.permissionManager,
+			processes: this.processes,
+			// 子代理不能再委派
+			delegate: this.subAgent
+				? undefined
+				: (task, options) => this.runSubAgent(task, options),
+		});
 
 		this.maxToolCallRounds = config.maxToolCallRounds ?? 40;
 		this.contextAwareEnabled = config.contextAwareEnabled ?? true;
+		this.cwd = config.cwd;
+		this.model = config.model;
+		this.pricing = config.pricing;
+		this.costBudget = config.costBudget;
+		this.fallbackModels = [...(config.fallbackModels ?? [])];
+		this.createClient = config.createClient;
+		this.primaryModel = {
+			client: this.client,
+			model: this.model,
+			pricing: this.pricing,
+			contextAwareEnabled: this.contextAwareEnabled,
+		};
 
 		// 创建 Session（system prompt 延迟到首次消息时设置）
 		this.session = new Session({
@@ -172,6 +240,13 @@ export class AIService implements IAIService {
 		return this.session;
 	}
 
+	/**
+	 * 获取后台进程管理器
+	 */
+	getProcessManager(): ProcessManager {
+		return this.processes;
+	}
+
 	/**
 	 * 从已加载的 Session 恢复状态
 	 * @param session 已加载的 Session 实例
@@ -198,6 +273,79 @@ export class AIService implements IAIService {
 		});
 	}
 
+	/**
+	 * 添加 assistant 消息到 Session，并按模型价格记录本次请求的费用
+	 */
+	private addAssistantMessage(
+		message: ChatMessage,
+		usage: AIStreamChunk["usage"],
+	): void {
+		this.session.addAssistantMessage(message, usage);
+		if (usage && this.pricing) {
+			this.session.addCost(
+				this.model ?? "unknown",
+				calculateCost(usage, this.pricing),
+			);
+		}
+	}
+
+	/**
+	 * 当前模型重试耗尽后切换到下一个备用模型，并记录到 Session
+	 * 只处理可重试的错误（限流、服务端错误、网络错误），其他错误换模型也无法解决
+	 * 切换只在本轮对话内有效，下一轮重新从主模型开始
+	 * @returns 切换事件，不需要切换或没有可用的备用模型时返回 null
+	 */
+	private switchToFallbackModel(error: unknown): ModelFallbackEvent | null {
+		if (!this.createClient || !getRetryReason(error)) {
+			return null;
+		}
+
+		while (this.fallbackIndex < this.fallbackModels.length) {
+			const next = this.fallbackModels[this.fallbackIndex++]!;
+			const client = this.createClient(next);
+			// 备用模型没有配置，跳过
+			if (!client) continue;
+
+			const event: ModelFallbackEvent = {
+				from: this.model ?? this.client.getConfig().model,
+				to: next.model,
+				reason: error instanceof Error ? error.message : String(error),
+			};
+			this.client = client;
+			this.model = next.model;
+			this.pricing = next.pricing;
+			this.contextAwareEnabled = next.supportsTools;
+			this.session.addModelSwitch(event.from, event.to, event.reason);
+			return event;
+		}
+		return null;
+	}
+
+	/**
+	 * 恢复主模型（本轮对话结束后调用，主模型可能已经恢复可用）
+	 */
+	private restorePrimaryModel(): void {
+		this.client = this.primaryModel.client;
+		this.model = this.primaryModel.model;
+		this.pricing = this.primaryModel.pricing;
+		this.contextAwareEnabled = this.primaryModel.contextAwareEnabled;
+		this.fallbackIndex = 0;
+	}
+
+	/**
+	 * 超出费用预算且配置为 stop 时，返回停止工具调用循环的提示；否则返回 null
+	 */
+	private getCostBudgetStopMessage(): string | null {
+		if (this.costBudget?.action !== "stop") {
+			return null;
+		}
+		const { totalCost } = this.session.getStatus();
+		if (totalCost < this.costBudget.limit) {
+			return null;
+		}
+		return `Cost budget exceeded (${formatCost(totalCost)} / ${formatCost(this.costBudget.limit)}), tool call loop stopped.`;
+	}
+
 	/**
 	 * 发送消息并获取响应
 	 * 注意：不再自动裁剪历史，改为在 app.tsx 中检查 shouldCompact 并触发 compact
@@ -254,6 +402,7 @@ export class AIService implements IAIService {
 	 * @param options 流式选项（包含 AbortSignal 和 planMode）
 	 * @param onAskUser 可选的 ask_user 回调，用于暂停执行等待用户输入
 	 * @param displayContent 可选，用户原始输入内容（不含文件内容，用于 UI 显示和会话恢复）
+	 * @param onPermission 可选的权限确认回调，用于在工具执行前等待用户授权
 	 */
 	async streamMessage(
 		userMessage: string,
@@ -262,6 +411,7 @@ export class AIService implements IAIService {
 		options?: StreamOptions,
 		onAskUser?: AskUserCallback,
 		displayContent?: string,
+		onPermission?: PermissionCallback,
 	): Promise<string> {
 		// 获取带有固定项目类型的上下文
 		const enhancedContext = this.getContextWithProjectType(context);
@@ -275,20 +425,76 @@ export class AIService implements IAIService {
 		// 创建检查点（在添加用户消息前）
 		const checkpoint = this.session.checkpoint();
 
-		// 在用户消息前注入 mode reminder（用于 KV cache 优化）
-		const modeReminder = buildModeReminder(initialPlanMode);
+		// 在用户消息前注入 mode reminder（用于 KV cache 优化，子代理没有模式）
+		const modeReminder = this.subAgent
+			? ""
+			: buildModeReminder(initialPlanMode);
 		const messageWithReminder = modeReminder + userMessage;
 
 		// 添加用户消息到 Session（传递 displayContent 用于会话恢复时显示）
 		this.session.addUserMessage(messageWithReminder, displayContent);
 
 		// 工具相关计算（仅在模型支持工具时执行）
+		const { tools, toolMask } = this.buildTools(userMessage, initialPlanMode);
+
+		// 将 toolMask 添加到 options 中
+		const optionsWithMask: StreamOptions = {
+			...options,
+			toolMask,
+		};
+
+		// 通知流式开始
+		callbacks?.onStart?.();
+
+		try {
+			// 使用流式 API
+			const result = await this.streamChatWithTools(
+				tools,
+				enhancedContext,
+				callbacks,
+				optionsWithMask,
+				onAskUser,
+				onPermission,
+				() => this.buildTools(userMessage, initialPlanMode),
+			);
+
+			return result;
+		} catch (error) {
+			// 如果是中止错误（用户执行了 /stop），不回滚 session
+			// 保留用户消息，让 onStopped 回调添加部分 AI 回复
+			if (error instanceof Error && error.name === "AbortError") {
+				// 不回滚，直接抛出错误让上层处理
+				throw error;
+			}
+			// 其他错误回滚 session 状态
+			this.session.rollback(checkpoint);
+			throw error;
+		} finally {
+			this.restorePrimaryModel();
+		}
+	}
+
+	/**
+	 * 根据当前模型的能力计算本轮对话的工具列表和 toolMask
+	 * 切换到备用模型后重新计算（tool_choice 支持可能不同）
+	 * @param userMessage 用户消息（用于匹配工具）
+	 * @param planMode 是否为 Plan 模式
+	 */
+	private buildTools(
+		userMessage: string,
+		planMode: boolean,
+	): { tools: OpenAITool[]; toolMask?: ToolMaskState } {
 		let toolMask: ToolMaskState | undefined;
 		let tools: OpenAITool[] = [];
 
-		if (this.contextAwareEnabled) {
+		if (this.contextAwareEnabled && this.subAgent) {
+			// 子代理：只发送只读动作，executor 层同样拦截其他动作
+			const readOnlyTools = getReadOnlyTools(this.projectTools);
+			tools = toOpenAITools(readOnlyTools);
+			toolMask = buildReadOnlyToolMask(readOnlyTools);
+		} else if (this.contextAwareEnabled) {
 			// 判断约束模式（两种情况）
-			const supportsToolChoice = currentModelSupportsToolChoice();
+			const supportsToolChoice = currentModelSupportsToolChoice(this.model);
 
 			if (supportsToolChoice) {
 				// 情况1：支持 tool_choice
@@ -296,11 +502,11 @@ export class AIService implements IAIService {
 				// 这样可以最大化 KV cache 命中率
 				tools = toOpenAITools(this.projectTools);
 
-				if (initialPlanMode) {
-					// Plan 模式：toolMask 限制为 p-plan，executor 层拦截
+				if (planMode) {
+					// Plan 模式：toolMask 限制为 p-plan 和 scratchpad，executor 层拦截
 					toolMask = {
 						mode: "p",
-						allowedTools: new Set(["p-plan"]),
+						allowedTools: new Set(PLAN_TOOLS),
 					};
 				} else {
 					// Action 模式：允许所有工具
@@ -315,8 +521,9 @@ export class AIService implements IAIService {
 				toolMask = buildToolMask(
 					userMessage,
 					this.projectType,
-					initialPlanMode,
+					planMode,
 					this.allTools,
+					this.model,
 				);
 				// 根据 allowedTools 过滤工具列表
 				const allowedIds = toolMask.allowedTools;
@@ -327,37 +534,7 @@ export class AIService implements IAIService {
 			}
 		}
 
-		// 将 toolMask 添加到 options 中
-		const optionsWithMask: StreamOptions = {
-			...options,
-			toolMask,
-		};
-
-		// 通知流式开始
-		callbacks?.onStart?.();
-
-		try {
-			// 使用流式 API
-			const result = await this.streamChatWithTools(
-				tools,
-				enhancedContext,
-				callbacks,
-				optionsWithMask,
-				onAskUser,
-			);
-
-			return result;
-		} catch (error) {
-			// 如果是中止错误（用户执行了 /stop），不回滚 session
-			// 保留用户消息，让 onStopped 回调添加部分 AI 回复
-			if (error instanceof Error && error.name === "AbortError") {
-				// 不回滚，直接抛出错误让上层处理
-				throw error;
-			}
-			// 其他错误回滚 session 状态
-			this.session.rollback(checkpoint);
-			throw error;
-		}
+		return { tools, toolMask };
 	}
 
 	/**
@@ -370,11 +547,13 @@ export class AIService implements IAIService {
 
 		// 构建带上下文的 System Prompt（不包含 planMode，保持稳定）
 		// 根据模型能力决定是否包含工具相关说明
-		const prompt = buildSystemPrompt(
-			context.cwd,
-			context.projectType,
-			this.contextAwareEnabled,
-		);
+		const prompt = this.subAgent
+			? buildSubAgentPrompt(context.cwd, context.projectType)
+			: buildSystemPrompt(
+					context.cwd,
+					context.projectType,
+					this.contextAwareEnabled,
+				);
 		this.session.setSystemPrompt(prompt);
 		this.contextInjected = true;
 	}
@@ -386,6 +565,8 @@ export class AIService implements IAIService {
 	 * @param callbacks 流式回调
 	 * @param options 流式选项（包含 AbortSignal）
 	 * @param onAskUser 可选的 ask_user 回调
+	 * @param onPermission 可选的权限确认回调
+	 * @param rebuildTools 切换到备用模型后重新计算工具列表和 toolMask
 	 */
 	private async streamChatWithTools(
 		tools: OpenAITool[],
@@ -393,6 +574,8 @@ export class AIService implements IAIService {
 		callbacks?: StreamCallbacks,
 		options?: StreamOptions,
 		onAskUser?: AskUserCallback,
+		onPermission?: PermissionCallback,
+		rebuildTools?: () => { tools: OpenAITool[]; toolMask?: ToolMaskState },
 	): Promise<string> {
 
 		// 检查客户端是否支持流式
@@ -413,13 +596,7 @@ export class AIService implements IAIService {
 		// 跟踪总内容（跨工具调用轮次）
 		let totalContent = "";
 		// 跟踪当前轮的 usage 信息（在流结束时从 chunk 中获取）
-		let lastChunkUsage:
-			| {
-					prompt_tokens: number;
-					completion_tokens: number;
-					total_tokens: number;
-			  }
-			| undefined;
+		let lastChunkUsage: AIStreamChunk["usage"];
 
 		// 设置工具定义的 token 估算（用于更准确的 token 统计）
 		const updateToolsTokenEstimate = (toolList: OpenAITool[]) => {
@@ -438,101 +615,136 @@ export class AIService implements IAIService {
 				throw new DOMException("Request was aborted", "AbortError");
 			}
 
+			// 超出费用预算时停止工具调用循环（工具结果已保存在 Session 中）
+			const budgetStopMsg = rounds > 0 ? this.getCostBudgetStopMessage() : null;
+			if (budgetStopMsg) {
+				const finalContent = totalContent + budgetStopMsg;
+				callbacks?.onEnd?.({
+					reasoning: reasoningContent,
+					content: finalContent,
+				});
+				return finalContent;
+			}
+
 			// 每轮重置正式内容（思考内容保留跨轮累积）
 			fullContent = "";
 			let brokeForToolCall = false;
 
 			// 流式请求
-			for await (const chunk of this.client.streamChat(
-				messages,
-				tools.length > 0 ? tools : undefined,
-				options,
-			)) {
-				// 捕获 usage 信息（在流结束时的 chunk 中返回）
-				if (chunk.usage) {
-					lastChunkUsage = chunk.usage;
-				}
-
-				// 累积思考内容
-				if (chunk.delta.reasoning_content) {
-					reasoningContent += chunk.delta.reasoning_content;
-				}
-				// 累积正式内容
-				if (chunk.delta.content) {
-					fullContent += chunk.delta.content;
-				}
-				// 任何内容更新都触发回调
-				if (chunk.delta.reasoning_content || chunk.delta.content) {
-					// 发送总内容（包含之前轮次的内容）
-					callbacks?.onChunk?.({
-						reasoning: reasoningContent,
-						content: totalContent + fullContent,
-					});
-				}
-
-				// 检查是否需要执行工具
-				if (
-					chunk.finish_reason === "tool_calls" &&
-					chunk.delta.tool_calls &&
-					chunk.delta.tool_calls.length > 0
-				) {
-					// 添加 assistant 消息到 Session（包含思考内容以支持 askuser 持久化）
-					const assistantMessage: ChatMessage = {
-						role: "assistant",
-						content: fullContent,
-						reasoning_content: reasoningContent || undefined,
-						tool_calls: chunk.delta.tool_calls,
-					};
-					this.session.addAssistantMessage(assistantMessage, lastChunkUsage);
-					messages.push(assistantMessage);
-
-					// 累积本轮内容到总内容
-					if (fullContent) {
-						totalContent += fullContent + "\n";
+			let roundHasOutput = false;
+			try {
+				for await (const chunk of this.client.streamChat(
+					messages,
+					tools.length > 0 ? tools : undefined,
+					options,
+				)) {
+					roundHasOutput = true;
+
+					// 捕获 usage 信息（在流结束时的 chunk 中返回）
+					if (chunk.usage) {
+						lastChunkUsage = chunk.usage;
 					}
 
-					// 重置 usage，为下一轮工具调用准备
-					lastChunkUsage = undefined;
-
-					// 执行工具调用（传递 onAskUser 回调和 toolMask）
-					const toolResults = await this.toolCallHandler.handleToolCalls(
-						chunk.delta.tool_calls,
-						onAskUser,
-						options?.toolMask,
-					);
-
-					// 添加工具结果到 Session 和消息
-					for (const result of toolResults) {
-						this.session.addToolMessage(result);
-						messages.push(result);
+					// 累积思考内容
+					if (chunk.delta.reasoning_content) {
+						reasoningContent += chunk.delta.reasoning_content;
+					}
+					// 累积正式内容
+					if (chunk.delta.content) {
+						fullContent += chunk.delta.content;
+					}
+					// 任何内容更新都触发回调
+					if (chunk.delta.reasoning_content || chunk.delta.content) {
+						// 发送总内容（包含之前轮次的内容）
+						callbacks?.onChunk?.({
+							reasoning: reasoningContent,
+							content: totalContent + fullContent,
+						});
 					}
 
-					rounds++;
-					brokeForToolCall = true;
-					break;
-				}
-
-				// 正常结束
-				if (
-					chunk.finish_reason === "stop" ||
-					chunk.finish_reason === "eos" ||
-					chunk.finish_reason === "length"
-				) {
-					const finalContent = totalContent + fullContent;
-					this.session.addAssistantMessage(
-						{
+					// 检查是否需要执行工具
+					if (
+						chunk.finish_reason === "tool_calls" &&
+						chunk.delta.tool_calls &&
+						chunk.delta.tool_calls.length > 0
+					) {
+						// 添加 assistant 消息到 Session（包含思考内容以支持 askuser 持久化）
+						const assistantMessage: ChatMessage = {
 							role: "assistant",
 							content: fullContent,
 							reasoning_content: reasoningContent || undefined,
-						},
-						lastChunkUsage,
-					);
-					callbacks?.onEnd?.({
-						reasoning: reasoningContent,
-						content: finalContent,
-					});
-					return finalContent;
+							tool_calls: chunk.delta.tool_calls,
+						};
+						this.addAssistantMessage(assistantMessage, lastChunkUsage);
+						messages.push(assistantMessage);
+
+						// 累积本轮内容到总内容
+						if (fullContent) {
+							totalContent += fullContent + "\n";
+						}
+
+						// 重置 usage，为下一轮工具调用准备
+						lastChunkUsage = undefined;
+
+						// 执行工具调用（传递 onAskUser 回调、toolMask、权限确认回调、工具活动回调和中止信号）
+						const toolResults = await this.toolCallHandler.handleToolCalls(
+							chunk.delta.tool_calls,
+							onAskUser,
+							options?.toolMask,
+							onPermission,
+							callbacks,
+							options?.signal,
+						);
+
+						// 添加工具结果到 Session 和消息
+						for (const result of toolResults) {
+							this.session.addToolMessage(result);
+							messages.push(result);
+						}
+
+						rounds++;
+						brokeForToolCall = true;
+						break;
+					}
+
+					// 正常结束
+					if (
+						chunk.finish_reason === "stop" ||
+						chunk.finish_reason === "eos" ||
+						chunk.finish_reason === "length"
+					) {
+						const finalContent = totalContent + fullContent;
+						this.addAssistantMessage(
+							{
+								role: "assistant",
+								content: fullContent,
+								reasoning_content: reasoningContent || undefined,
+							},
+							lastChunkUsage,
+						);
+						callbacks?.onEnd?.({
+							reasoning: reasoningContent,
+							content: finalContent,
+						});
+						return finalContent;
+					}
+				}
+			} catch (error) {
+				// 本轮还没有收到任何内容时，切换到备用模型重新请求
+				const fallback = roundHasOutput
+					? null
+					: this.switchToFallbackModel(error);
+				if (!fallback) {
+					throw error;
 				}
+				if (rebuildTools) {
+					const rebuilt = rebuildTools();
+					tools = rebuilt.tools;
+					options = { ...options, toolMask: rebuilt.toolMask };
+					updateToolsTokenEstimate(tools);
+				}
+				callbacks?.onModelFallback?.(fallback);
+				continue;
 			}
 
 			// 如果是因为工具调用而 break，继续下一轮循环让 AI 看到工具结果
@@ -544,7 +756,7 @@ export class AIService implements IAIService {
 			// 如果 for 循环正常结束（不是因为工具调用），说明流已经结束
 			if (fullContent || reasoningContent || totalContent) {
 				const finalContent = totalContent + fullContent;
-				this.session.addAssistantMessage(
+				this.addAssistantMessage(
 					{
 						role: "assistant",
 						content: fullContent,
@@ -574,6 +786,64 @@ export class AIService implements IAIService {
 		return finalContent || maxToolCallsMsg;
 	}
 
+	/**
+	 * 在子代理中运行委派的子任务（a-c-agent_delegate）
+	 * 子代理有独立的 Session 和轮数限制，只能使用只读动作
+	 * 它的 token 使用单独记录到当前 Session
+	 * @returns 子代理的最终总结
+	 */
+	private async runSubAgent(
+		task: string,
+		options: Parameters<SubAgentRunner>[1],
+	): Promise<string> {
+		const child = new AIService(
+			{
+				client: this.client,
+				maxToolCallRounds: SUB_AGENT_MAX_TOOL_CALL_ROUNDS,
+				contextAwareEnabled: this.contextAwareEnabled,
+				contextWindow: this.getContextWindow(),
+				cwd: this.cwd,
+				permissionManager: this.permissionManager,
+				processManager: this.processes,
+				subAgent: true,
+				model: this.model,
+				pricing: this.pricing,
+				// 子代理从当前模型开始，只使用本轮尚未尝试的备用模型
+				fallbackModels: this.fallbackModels.slice(this.fallbackIndex),
+				createClient: this.createClient,
+			},
+			this.registry,
+		);
+
+		try {
+			return await child.streamMessage(
+				task,
+				{ cwd: this.cwd },
+				{
+					// 子代理的工具调用作为委派调用的实时输出显示
+					onToolStart: (event) => {
+						const args = event.argsSummary ? ` ${event.argsSummary}` : "";
+						options.onOutput?.(
+							`${event.toolId}:${event.action}${args}\n`,
+							"stdout",
+						);
+					},
+				},
+				{ signal: options.signal },
+				undefined,
+				undefined,
+				options.onPermission,
+			);
+		} finally {
+			// 每轮都会重新发送子代理的上下文，按所有请求的累计消耗记录
+			this.session.addSubAgentUsage(child.getSession().getConsumedTokens());
+			// 子代理的费用计入当前 Session（参与预算检查）
+			for (const record of child.getSession().getCostRecords()) {
+				this.session.addCost(record.model, record.cost);
+			}
+		}
+	}
+
 	/**
 	 * 获取带有固定项目类型的上下文
 	 */
@@ -637,7 +907,7 @@ export class AIService implements IAIService {
 		const response = await this.client.chat(messages);
 
 		// 添加到 Session（带 usage 信息）
-		this.session.addAssistantMessage(response.message, response.usage);
+		this.addAssistantMessage(response.message, response.usage);
 
 		return {
 			content: response.message.content,
@@ -653,6 +923,15 @@ export class AIService implements IAIService {
 		let rounds = 0;
 
 		while (rounds < this.maxToolCallRounds) {
+			// 超出费用预算时停止工具调用循环
+			const budgetStopMsg = rounds > 0 ? this.getCostBudgetStopMessage() : null;
+			if (budgetStopMsg) {
+				return {
+					content: budgetStopMsg,
+					sessionStatus: this.session.getStatus(),
+				};
+			}
+
 			const response = await this.client.chat(messages, tools);
 
 			// 检查是否需要执行工具
@@ -662,7 +941,7 @@ export class AIService implements IAIService {
 				response.message.tool_calls.length > 0
 			) {
 				// 添加 assistant 消息到 Session
-				this.session.addAssistantMessage(response.message, response.usage);
+				this.addAssistantMessage(response.message, response.usage);
 				messages.push(response.message);
 
 				// 执行工具调用
@@ -681,7 +960,7 @@ export class AIService implements IAIService {
 			}
 
 			// 没有工具调用，返回最终响应
-			this.session.addAssistantMessage(response.message, response.usage);
+			this.addAssistantMessage(response.message, response.usage);
 
 			return {
 				content: response.message.content,
@@ -9,6 +9,7 @@ import type {
 	CompactCheckResult,
 } from "./types.js";
 import { estimateTokens } from "./tokenEstimator.js";
+import { getLastTurnRecords, sumCost, type CostRecord } from "./cost.js";
 
 // 重新导出类型以便其他模块使用
 export type { SessionStatus, CompactCheckResult } from "./types.js";
@@ -20,6 +21,10 @@ export type TokenUsage = {
 	prompt_tokens: number;
 	completion_tokens: number;
 	total_tokens: number;
+	/** 写入缓存的输入 token（包含在 prompt_tokens 中） */
+	cache_creation_input_tokens?: number;
+	/** 命中缓存的输入 token（包含在 prompt_tokens 中） */
+	cache_read_input_tokens?: number;
 };
 
 /**
@@ -34,6 +39,8 @@ export type SessionMessage = {
 	isActual: boolean;
 	/** 时间戳 */
 	timestamp: number;
+	/** 该轮请求的 API usage（仅 assistant 消息，用于统计缓存命中） */
+	usage?: TokenUsage;
 };
 
 /**
@@ -62,6 +69,20 @@ export type SessionCheckpoint = {
 	actualCompletionTokens: number;
 };
 
+/**
+ * 模型切换记录（当前模型不可用时切换到备用模型）
+ */
+export type ModelSwitchRecord = {
+	/** 原模型 ID */
+	from: string;
+	/** 切换到的模型 ID */
+	to: string;
+	/** 切换原因（原模型最后一次请求的错误信息） */
+	reason: string;
+	/** 时间戳 */
+	timestamp: number;
+};
+
 /**
  * Session 内部状态（用于序列化）
  */
@@ -70,6 +91,12 @@ export type SessionInternalState = {
 	systemPrompt: SessionMessage | null;
 	actualPromptTokens: number;
 	actualCompletionTokens: number;
+	/** 子代理累计 token（旧版本保存的 session 没有该字段） */
+	subAgentTokens?: number;
+	/** 费用记录（旧版本保存的 session 没有该字段） */
+	costRecords?: CostRecord[];
+	/** 模型切换记录（旧版本保存的 session 没有该字段） */
+	modelSwitches?: ModelSwitchRecord[];
 };
 
 /**
@@ -88,6 +115,21 @@ export class Session {
 	// 工具定义的 token 估算
 	private toolsTokenEstimate: number = 0;
 
+	// 子代理累计使用的 token（单独统计，不计入当前上下文）
+	private subAgentTokens: number = 0;
+
+	// 所有请求累计消耗的 token（每次请求的 prompt + completion 之和）
+	private consumedTokens: number = 0;
+
+	// 每次 API 请求的费用记录（compact 后保留）
+	private costRecords: CostRecord[] = [];
+
+	// 当前轮对话中的工具调用轮序号
+	private currentRound: number = 0;
+
+	// 切换到备用模型的记录（compact 后保留）
+	private modelSwitches: ModelSwitchRecord[] = [];
+
 	constructor(config: SessionConfig) {
 		this.config = {
 			contextWindow: config.contextWindow,
@@ -137,6 +179,7 @@ export class Session {
 	 * @param displayContent 可选，显示给用户的原始内容（不含文件内容）
 	 */
 	addUserMessage(content: string, displayContent?: string): void {
+		this.currentRound = 0;
 		this.messages.push({
 			message: { role: "user", content, displayContent },
 			tokens: estimateTokens(content),
@@ -154,6 +197,7 @@ export class Session {
 			// prompt_tokens 代表本次请求的提示词开销
 			this.actualPromptTokens = usage.prompt_tokens;
 			this.actualCompletionTokens += usage.completion_tokens;
+			this.consumedTokens += usage.prompt_tokens + usage.completion_tokens;
 		}
 
 		// 缺少 usage 时，为了更准确估算，将 tool_calls 也计入 token 估算
@@ -170,6 +214,7 @@ export class Session {
 			tokens: estimatedTokens,
 			isActual: !!usage,
 			timestamp: Date.now(),
+			...(usage ? { usage } : {}),
 		});
 	}
 
@@ -185,6 +230,59 @@ export class Session {
 		});
 	}
 
+	/**
+	 * 获取所有请求累计消耗的 token
+	 * 与 getUsedTokens（当前上下文大小）不同，每轮重新发送的上下文都会计入
+	 */
+	getConsumedTokens(): number {
+		return this.consumedTokens;
+	}
+
+	/**
+	 * 记录一次子代理运行使用的 token
+	 */
+	addSubAgentUsage(tokens: number): void {
+		this.subAgentTokens += tokens;
+	}
+
+	/**
+	 * 记录一次 API 请求的费用
+	 * @param model 模型 ID
+	 * @param cost 费用（USD）
+	 */
+	addCost(model: string, cost: number): void {
+		this.costRecords.push({
+			model,
+			cost,
+			timestamp: Date.now(),
+			round: this.currentRound++,
+		});
+	}
+
+	/**
+	 * 获取所有费用记录
+	 */
+	getCostRecords(): CostRecord[] {
+		return [...this.costRecords];
+	}
+
+	/**
+	 * 记录一次模型切换
+	 * @param from 原模型 ID
+	 * @param to 切换到的模型 ID
+	 * @param reason 切换原因
+	 */
+	addModelSwitch(from: string, to: string, reason: string): void {
+		this.modelSwitches.push({ from, to, reason, timestamp: Date.now() });
+	}
+
+	/**
+	 * 获取所有模型切换记录
+	 */
+	getModelSwitches(): ModelSwitchRecord[] {
+		return [...this.modelSwitches];
+	}
+
 	/**
 	 * 获取估算的总 token 数（包含工具定义）
 	 */
@@ -245,9 +343,42 @@ export class Session {
 			isNearLimit: usagePercent >= this.config.nearLimitThreshold * 100,
 			isFull: usagePercent >= this.config.fullThreshold * 100,
 			messageCount: this.messages.length,
+			subAgentTokens: this.subAgentTokens,
+			cacheHitRate: this.getCacheHitRate(),
+			totalCost: sumCost(this.costRecords),
+			turnCost: sumCost(getLastTurnRecords(this.costRecords)),
 		};
 	}
 
+	/**
+	 * 计算提示词缓存命中率 (0-100)
+	 * 只统计 API 返回了缓存字段的轮次，没有这样的轮次时返回 undefined
+	 */
+	private getCacheHitRate(): number | undefined {
+		let promptTokens = 0;
+		let cachedTokens = 0;
+		let hasCacheInfo = false;
+
+		for (const msg of this.messages) {
+			const usage = msg.usage;
+			if (
+				!usage ||
+				(usage.cache_read_input_tokens === undefined &&
+					usage.cache_creation_input_tokens === undefined)
+			) {
+				continue;
+			}
+			hasCacheInfo = true;
+			promptTokens += usage.prompt_tokens;
+			cachedTokens += usage.cache_read_input_tokens ?? 0;
+		}
+
+		if (!hasCacheInfo || promptTokens === 0) {
+			return undefined;
+		}
+		return (cachedTokens / promptTokens) * 100;
+	}
+
 	/**
 	 * 获取用于发送的消息列表
 	 */
@@ -279,6 +410,10 @@ export class Session {
 		this.messages = [];
 		this.actualPromptTokens = 0;
 		this.actualCompletionTokens = 0;
+		this.subAgentTokens = 0;
+		this.consumedTokens = 0;
+		this.costRecords = [];
+		this.modelSwitches = [];
 		this.systemPrompt = null;
 	}
 
@@ -448,6 +583,9 @@ export class Session {
 			systemPrompt: this.systemPrompt,
 			actualPromptTokens: this.actualPromptTokens,
 			actualCompletionTokens: this.actualCompletionTokens,
+			subAgentTokens: this.subAgentTokens,
+			costRecords: [...this.costRecords],
+			modelSwitches: [...this.modelSwitches],
 		};
 	}
 
@@ -459,6 +597,9 @@ export class Session {
 		this.systemPrompt = state.systemPrompt;
 		this.actualPromptTokens = state.actualPromptTokens;
 		this.actualCompletionTokens = state.actualCompletionTokens;
+		this.subAgentTokens = state.subAgentTokens ?? 0;
+		this.costRecords = [...(state.costRecords ?? [])];
+		this.modelSwitches = [...(state.modelSwitches ?? [])];
 	}
 
 	/**
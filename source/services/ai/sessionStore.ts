@@ -12,7 +12,9 @@ import {
 	createSession,
 	type SessionMessage,
 	type SessionInternalState,
+	type ModelSwitchRecord,
 } from "./session.js";
+import type { CostRecord } from "./cost.js";
 
 /**
  * Session 元信息（存储在 index 文件中）
@@ -32,6 +34,10 @@ export type SessionInfo = {
 	messageCount: number;
 	/** 是否为当前活跃 session */
 	isActive: boolean;
+	/** 创建 session 时的工作目录（旧版本保存的 session 没有该字段） */
+	cwd?: string;
+	/** 累计费用（USD，旧版本保存的 session 没有该字段） */
+	totalCost?: number;
 };
 
 /**
@@ -46,7 +52,13 @@ export type SerializedSession = {
 	tokenState: {
 		actualPromptTokens: number;
 		actualCompletionTokens: number;
+		/** 子代理累计 token（旧版本保存的 session 没有该字段） */
+		subAgentTokens?: number;
 	};
+	/** 费用记录（旧版本保存的 session 没有该字段） */
+	costRecords?: CostRecord[];
+	/** 模型切换记录（旧版本保存的 session 没有该字段） */
+	modelSwitches?: ModelSwitchRecord[];
 };
 
 /**
@@ -61,6 +73,27 @@ export type SessionIndex = {
 	sessions: SessionInfo[];
 };
 
+/**
+ * listSessions 选项
+ */
+export type SessionListOptions = {
+	/** 只列出在该目录创建的 session */
+	cwd?: string;
+	/** 排序方式：updated 按更新时间降序（默认），project 按目录分组后按更新时间降序 */
+	sortBy?: "updated" | "project";
+};
+
+/**
+ * 判断两个目录是否为同一项目（Windows 下不区分大小写）
+ */
+export function isSameProject(a: string, b: string): boolean {
+	const normalize = (dir: string) => {
+		const resolved = path.resolve(dir);
+		return process.platform === "win32" ? resolved.toLowerCase() : resolved;
+	};
+	return normalize(a) === normalize(b);
+}
+
 // 单例实例
 let sessionStoreInstance: SessionStore | null = null;
 
@@ -93,29 +126,7 @@ export class SessionStore {
 		this.ensureDirectoryExists();
 
 		// 加载索引
-		if (fs.existsSync(this.indexPath)) {
-			try {
-				const content = fs.readFileSync(this.indexPath, "utf-8");
-				const index = JSON.parse(content) as SessionIndex;
-
-				// 加载所有 session info
-				for (const info of index.sessions) {
-					this.sessions.set(info.id, info);
-				}
-
-				this.activeSessionId = index.activeSessionId;
-
-				// 验证活跃 session 存在
-				if (this.activeSessionId && !this.sessions.has(this.activeSessionId)) {
-					this.activeSessionId = null;
-				}
-			} catch (error) {
-				logger.error("Failed to load session index, rebuilding", {
-					error,
-				});
-				await this.rebuildIndexFromFiles();
-			}
-		}
+		await this.loadIndex();
 
 		// 清理空的 session（之前创建但未使用的）
 		this.cleanupEmptySessions();
@@ -166,6 +177,45 @@ export class SessionStore {
 		this.initialized = true;
 	}
 
+	/**
+	 * 从磁盘重新读取索引（只读，不清理也不创建 session）
+	 * 用于其他进程（如 MCP Server）查看 CLI 保存的 session
+	 */
+	async reload(): Promise<void> {
+		this.sessions.clear();
+		this.activeSessionId = null;
+		await this.loadIndex();
+	}
+
+	/**
+	 * 加载索引文件，损坏时从 session 文件重建
+	 */
+	private async loadIndex(): Promise<void> {
+		if (fs.existsSync(this.indexPath)) {
+			try {
+				const content = fs.readFileSync(this.indexPath, "utf-8");
+				const index = JSON.parse(content) as SessionIndex;
+
+				// 加载所有 session info
+				for (const info of index.sessions) {
+					this.sessions.set(info.id, info);
+				}
+
+				this.activeSessionId = index.activeSessionId;
+
+				// 验证活跃 session 存在
+				if (this.activeSessionId && !this.sessions.has(this.activeSessionId)) {
+					this.activeSessionId = null;
+				}
+			} catch (error) {
+				logger.error("Failed to load session index, rebuilding", {
+					error,
+				});
+				await this.rebuildIndexFromFiles();
+			}
+		}
+	}
+
 	/**
 	 * 确保 sessions 目录存在
 	 */
@@ -217,12 +267,45 @@ export class SessionStore {
 	}
 
 	/**
-	 * 获取所有 session 列表（按更新时间降序）
+	 * 获取 session 列表（默认按更新时间降序）
+	 */
+	listSessions(options: SessionListOptions = {}): SessionInfo[] {
+		const { cwd, sortBy = "updated" } = options;
+		let sessions = Array.from(this.sessions.values());
+		if (cwd) {
+			sessions = sessions.filter((s) => s.cwd && isSameProject(s.cwd, cwd));
+		}
+
+		return sessions.sort((a, b) => {
+			if (sortBy === "project") {
+				const byProject = (a.cwd ?? "").localeCompare(b.cwd ?? "");
+				if (byProject !== 0) return byProject;
+			}
+			return b.updatedAt - a.updatedAt;
+		});
+	}
+
+	/**
+	 * 获取指定目录中最近更新且有内容的 session
 	 */
-	listSessions(): SessionInfo[] {
-		return Array.from(this.sessions.values()).sort(
-			(a, b) => b.updatedAt - a.updatedAt,
-		);
+	getLatestSession(cwd: string): SessionInfo | null {
+		return this.listSessions({ cwd }).find((s) => s.messageCount > 0) ?? null;
+	}
+
+	/**
+	 * 根据 ID、ID 前缀或名称查找 session
+	 * 名称重复时返回最近更新的，ID 前缀不唯一时视为未找到
+	 */
+	findSession(query: string): SessionInfo | null {
+		const exact = this.sessions.get(query);
+		if (exact) return exact;
+
+		const sessions = this.listSessions();
+		const byName = sessions.find((s) => s.name === query);
+		if (byName) return byName;
+
+		const byPrefix = sessions.filter((s) => s.id.startsWith(query));
+		return byPrefix.length === 1 ? byPrefix[0]! : null;
 	}
 
 	/**
@@ -243,8 +326,9 @@ export class SessionStore {
 	/**
 	 * 创建新 session
 	 * @param name 可选的自定义名称，默认使用临时名称
+	 * @param cwd 创建 session 时的工作目录
 	 */
-	createSession(name?: string): SessionInfo {
+	createSession(name?: string, cwd: string = process.cwd()): SessionInfo {
 		const id = randomUUID();
 		const now = Date.now();
 
@@ -259,6 +343,7 @@ export class SessionStore {
 			tokenUsage: 0,
 			messageCount: 0,
 			isActive: false,
+			cwd,
 		};
 
 		this.sessions.set(id, info);
@@ -396,6 +481,9 @@ export class SessionStore {
 				systemPrompt: null,
 				actualPromptTokens: data.tokenState.actualPromptTokens,
 				actualCompletionTokens: data.tokenState.actualCompletionTokens,
+				subAgentTokens: data.tokenState.subAgentTokens,
+				costRecords: data.costRecords,
+				modelSwitches: data.modelSwitches,
 			};
 
 			session.restoreFromState(state);
@@ -407,6 +495,49 @@ export class SessionStore {
 		}
 	}
 
+	/**
+	 * 读取已保存的 session 原始数据（不创建 Session 实例）
+	 */
+	readSession(id: string): SerializedSession | null {
+		if (!this.sessions.has(id)) return null;
+
+		const filePath = path.join(this.sessionsDir, `${id}.json`);
+		try {
+			return JSON.parse(
+				fs.readFileSync(filePath, "utf-8"),
+			) as SerializedSession;
+		} catch (error) {
+			logger.warn("Failed to read session", { id, error });
+			return null;
+		}
+	}
+
+	/**
+	 * 导入导出的 session：分配新 ID，通过 restoreFromState 重建 Session 后保存
+	 * @param cwd 导入到的工作目录
+	 */
+	importSession(
+		data: SerializedSession,
+		cwd: string = process.cwd(),
+	): SessionInfo {
+		this.ensureDirectoryExists();
+		const info = this.createSession(data.info.name, cwd);
+
+		const session = createSession({ contextWindow: this.contextWindow });
+		session.restoreFromState({
+			messages: data.messages,
+			systemPrompt: null,
+			actualPromptTokens: data.tokenState.actualPromptTokens,
+			actualCompletionTokens: data.tokenState.actualCompletionTokens,
+			subAgentTokens: data.tokenState.subAgentTokens,
+			costRecords: data.costRecords,
+			modelSwitches: data.modelSwitches,
+		});
+		this.saveSession(session, info);
+
+		return info;
+	}
+
 	/**
 	 * 保存 session 数据
 	 */
@@ -422,6 +553,7 @@ export class SessionStore {
 		info.updatedAt = Date.now();
 		info.tokenUsage = status.usedTokens;
 		info.messageCount = status.messageCount;
+		info.totalCost = status.totalCost;
 		this.sessions.set(info.id, info);
 
 		// 保存数据
@@ -442,7 +574,10 @@ export class SessionStore {
 			tokenState: {
 				actualPromptTokens: state.actualPromptTokens,
 				actualCompletionTokens: state.actualCompletionTokens,
+				subAgentTokens: state.subAgentTokens,
 			},
+			costRecords: state.costRecords,
+			modelSwitches: state.modelSwitches,
 		};
 
 		const filePath = path.join(this.sessionsDir, `${info.id}.json`);
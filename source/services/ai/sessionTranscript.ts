@@ -0,0 +1,514 @@
+/**
+ * Session 导出 / 导入
+ *
+ * 导出为 Markdown / HTML 对话记录（工具调用和结果折叠，思考内容放在 details 中，
+ * 附件只显示路径）或 JSON（可导入，在其他机器上还原 session）
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { z } from "zod";
+import type { ChatMessage } from "./types.js";
+import type { SerializedSession, SessionInfo } from "./sessionStore.js";
+
+export const TRANSCRIPT_FORMATS = ["md", "json", "html"] as const;
+
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+/** JSON 导出文件的格式标识 */
+export const SESSION_EXPORT_FORMAT = "axiomate-session";
+
+/**
+ * JSON 导出文件结构
+ */
+export type SessionExport = SerializedSession & {
+	format: typeof SESSION_EXPORT_FORMAT;
+	version: 1;
+	exportedAt: number;
+};
+
+const toolCallSchema = z.object({
+	id: z.string(),
+	type: z.literal("function"),
+	function: z.object({
+		name: z.string(),
+		arguments: z.string(),
+	}),
+	thought_signature: z.string().optional(),
+});
+
+const chatMessageSchema = z.object({
+	role: z.enum(["system", "user", "assistant", "tool"]),
+	content: z.string(),
+	displayContent: z.string().optional(),
+	tool_call_id: z.string().optional(),
+	tool_calls: z.array(toolCallSchema).optional(),
+	reasoning_content: z.string().optional(),
+});
+
+const tokenUsageSchema = z.object({
+	prompt_tokens: z.number(),
+	completion_tokens: z.number(),
+	total_tokens: z.number(),
+	cache_creation_input_tokens: z.number().optional(),
+	cache_read_input_tokens: z.number().optional(),
+});
+
+const sessionExportSchema = z.object({
+	format: z.literal(SESSION_EXPORT_FORMAT),
+	version: z.literal(1),
+	exportedAt: z.number(),
+	info: z.object({
+		id: z.string(),
+		name: z.string(),
+		createdAt: z.number(),
+		updatedAt: z.number(),
+		tokenUsage: z.number(),
+		messageCount: z.number(),
+		isActive: z.boolean(),
+		cwd: z.string().optional(),
+		totalCost: z.number().optional(),
+	}),
+	messages: z.array(
+		z.object({
+			message: chatMessageSchema,
+			tokens: z.number(),
+			isActual: z.boolean(),
+			timestamp: z.number(),
+			usage: tokenUsageSchema.optional(),
+		}),
+	),
+	tokenState: z.object({
+		actualPromptTokens: z.number(),
+		actualCompletionTokens: z.number(),
+		subAgentTokens: z.number().optional(),
+	}),
+	costRecords: z
+		.array(
+			z.object({
+				model: z.string(),
+				cost: z.number(),
+				timestamp: z.number(),
+				round: z.number(),
+			}),
+		)
+		.optional(),
+	modelSwitches: z
+		.array(
+			z.object({
+				from: z.string(),
+				to: z.string(),
+				reason: z.string(),
+				timestamp: z.number(),
+			}),
+		)
+		.optional(),
+});
+
+export type ParseExportResult =
+	{ success: true; data: SessionExport } | { success: false; error: string };
+
+/**
+ * 获取项目中默认的导出目录
+ */
+export function getExportsDir(cwd: string): string {
+	return path.join(cwd, ".axiomate", "exports");
+}
+
+/**
+ * 生成默认导出路径：<名称>-<时间>.<格式>
+ */
+export function getDefaultExportPath(
+	cwd: string,
+	info: SessionInfo,
+	format: TranscriptFormat,
+	now: Date = new Date(),
+): string {
+	const slug =
+		info.name
+			.toLowerCase()
+			.replace(/[^\p{L}\p{N}]+/gu, "-")
+			.replace(/^-+|-+$/g, "")
+			.slice(0, 40) || "session";
+	const pad = (n: number) => String(n).padStart(2, "0");
+	const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+	return path.join(getExportsDir(cwd), `${slug}-${stamp}.${format}`);
+}
+
+/**
+ * 列出导出目录中可导入的 JSON 文件（按修改时间降序）
+ */
+export function listExportFiles(cwd: string): string[] {
+	const dir = getExportsDir(cwd);
+	try {
+		return fs
+			.readdirSync(dir)
+			.filter((file) => file.endsWith(".json"))
+			.map((file) => ({
+				file,
+				mtime: fs.statSync(path.join(dir, file)).mtimeMs,
+			}))
+			.sort((a, b) => b.mtime - a.mtime)
+			.map(({ file }) => file);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * 从用户消息的实际内容中提取附件路径（<file path="..."> / <directory path="...">）
+ */
+export function extractAttachmentPaths(content: string): string[] {
+	const paths: string[] = [];
+	for (const match of content.matchAll(/<(?:file|directory) path="([^"]*)"/g)) {
+		const attachment = match[1]!
+			.replace(/&quot;/g, '"')
+			.replace(/&lt;/g, "<")
+			.replace(/&gt;/g, ">")
+			.replace(/&amp;/g, "&");
+		if (!paths.includes(attachment)) {
+			paths.push(attachment);
+		}
+	}
+	return paths;
+}
+
+/**
+ * 格式化工具调用参数（JSON 缩进，解析失败时原样返回）
+ */
+function formatArguments(args: string): string {
+	try {
+		return JSON.stringify(JSON.parse(args), null, 2);
+	} catch {
+		return args;
+	}
+}
+
+/**
+ * 对话记录中的一条内容（Markdown / HTML 共用的中间结构）
+ */
+type TranscriptEntry =
+	| { kind: "user"; text: string; attachments: string[] }
+	| { kind: "assistant"; text: string; reasoning: string }
+	| { kind: "tool_call"; name: string; args: string }
+	| { kind: "tool_result"; name: string; content: string };
+
+/**
+ * 把消息列表转换为对话记录条目
+ */
+function toTranscriptEntries(messages: ChatMessage[]): TranscriptEntry[] {
+	const entries: TranscriptEntry[] = [];
+	const toolNames = new Map<string, string>();
+
+	for (const message of messages) {
+		switch (message.role) {
+			case "user":
+				entries.push({
+					kind: "user",
+					text: message.displayContent ?? message.content,
+					attachments:
+						message.displayContent !== undefined
+							? extractAttachmentPaths(message.content)
+							: [],
+				});
+				break;
+			case "assistant":
+				if (message.content || message.reasoning_content) {
+					entries.push({
+						kind: "assistant",
+						text: message.content,
+						reasoning: message.reasoning_content ?? "",
+					});
+				}
+				for (const call of message.tool_calls ?? []) {
+					toolNames.set(call.id, call.function.name);
+					entries.push({
+						kind: "tool_call",
+						name: call.function.name,
+						args: formatArguments(call.function.arguments),
+					});
+				}
+				break;
+			case "tool":
+				entries.push({
+					kind: "tool_result",
+					name: toolNames.get(message.tool_call_id ?? "") ?? "tool",
+					content: message.content,
+				});
+				break;
+			default:
+				// 系统提示词不导出
+				break;
+		}
+	}
+
+	return entries;
+}
+
+/**
+ * 用足够长的反引号包裹代码块，避免内容中的 ``` 提前结束代码块
+ */
+function fence(content: string, lang = ""): string {
+	const longest = Math.max(
+		2,
+		...Array.from(content.matchAll(/`+/g), (m) => m[0].length),
+	);
+	const ticks = "`".repeat(longest + 1);
+	return `${ticks}${lang}\n${content}\n${ticks}`;
+}
+
+/**
+ * 渲染 Markdown 对话记录
+ */
+export function renderMarkdown(data: SerializedSession): string {
+	const { info } = data;
+	const lines: string[] = [
+		`# ${info.name}`,
+		"",
+		`- Session: \`${info.id}\``,
+		`- Created: ${new Date(info.createdAt).toISOString()}`,
+		`- Updated: ${new Date(info.updatedAt).toISOString()}`,
+		`- Messages: ${info.messageCount}`,
+	];
+	if (info.cwd) {
+		lines.push(`- Directory: \`${info.cwd}\``);
+	}
+
+	for (const entry of toTranscriptEntries(
+		data.messages.map((m) => m.message),
+	)) {
+		lines.push("");
+		switch (entry.kind) {
+			case "user":
+				lines.push("## User", "", entry.text);
+				if (entry.attachments.length > 0) {
+					lines.push(
+						"",
+						`Attachments: ${entry.attachments.map((p) => `\`${p}\``).join(", ")}`,
+					);
+				}
+				break;
+			case "assistant":
+				lines.push("## Assistant");
+				if (entry.reasoning) {
+					lines.push(
+						"",
+						"<details>",
+						"<summary>Reasoning</summary>",
+						"",
+						entry.reasoning,
+						"",
+						"</details>",
+					);
+				}
+				if (entry.text) {
+					lines.push("", entry.text);
+				}
+				break;
+			case "tool_call":
+				lines.push(
+					"<details>",
+					`<summary>Tool call: ${entry.name}</summary>`,
+					"",
+					fence(entry.args, "json"),
+					"",
+					"</details>",
+				);
+				break;
+			case "tool_result":
+				lines.push(
+					"<details>",
+					`<summary>Tool result: ${entry.name}</summary>`,
+					"",
+					fence(entry.content),
+					"",
+					"</details>",
+				);
+				break;
+		}
+	}
+
+	return lines.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `body{font-family:system-ui,sans-serif;max-width:860px;margin:2rem auto;padding:0 1rem;color:#1f2328;line-height:1.5}
+.meta{color:#59636e;font-size:.9em}
+.msg{border-left:3px solid #d1d9e0;padding:.25rem 1rem;margin:1rem 0}
+.user{border-color:#0969da}
+.assistant{border-color:#1a7f37}
+.role{font-weight:600;margin-bottom:.25rem}
+.text,pre{white-space:pre-wrap;word-break:break-word}
+pre{background:#f6f8fa;padding:.75rem;border-radius:6px;overflow-x:auto}
+details{margin:.5rem 0}
+summary{cursor:pointer;color:#59636e}
+.attachments code{background:#f6f8fa;padding:0 .25rem}`;
+
+/**
+ * 渲染独立的 HTML 对话记录页面
+ */
+export function renderHtml(data: SerializedSession): string {
+	const { info } = data;
+	const parts: string[] = [];
+
+	for (const entry of toTranscriptEntries(
+		data.messages.map((m) => m.message),
+	)) {
+		switch (entry.kind) {
+			case "user": {
+				const attachments =
+					entry.attachments.length > 0
+						? `<div class="attachments">Attachments: ${entry.attachments
+								.map((p) => `<code>${escapeHtml(p)}</code>`)
+								.join(", ")}</div>`
+						: "";
+				parts.push(
+					`<div class="msg user"><div class="role">User</div><div class="text">${escapeHtml(entry.text)}</div>${attachments}</div>`,
+				);
+				break;
+			}
+			case "assistant": {
+				const reasoning = entry.reasoning
+					? `<details><summary>Reasoning</summary><pre>${escapeHtml(entry.reasoning)}</pre></details>`
+					: "";
+				parts.push(
+					`<div class="msg assistant"><div class="role">Assistant</div>${reasoning}<div class="text">${escapeHtml(entry.text)}</div></div>`,
+				);
+				break;
+			}
+			case "tool_call":
+				parts.push(
+					`<details class="tool"><summary>Tool call: ${escapeHtml(entry.name)}</summary><pre>${escapeHtml(entry.args)}</pre></details>`,
+				);
+				break;
+			case "tool_result":
+				parts.push(
+					`<details class="tool"><summary>Tool result: ${escapeHtml(entry.name)}</summary><pre>${escapeHtml(entry.content)}</pre></details>`,
+				);
+				break;
+		}
+	}
+
+	const meta = [
+		`Session <code>${escapeHtml(info.id)}</code>`,
+		`created ${new Date(info.createdAt).toISOString()}`,
+		`${info.messageCount} messages`,
+		...(info.cwd ? [`<code>${escapeHtml(info.cwd)}</code>`] : []),
+	].join(" · ");
+
+	return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(info.name)}</title>
+<style>
+${HTML_STYLE}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(info.name)}</h1>
+<p class="meta">${meta}</p>
+${parts.join("\n")}
+</body>
+</html>
+`;
+}
+
+/**
+ * 渲染可导入的 JSON
+ */
+export function renderJson(
+	data: SerializedSession,
+	now: number = Date.now(),
+): string {
+	const exported: SessionExport = {
+		format: SESSION_EXPORT_FORMAT,
+		version: 1,
+		exportedAt: now,
+		info: data.info,
+		messages: data.messages,
+		tokenState: data.tokenState,
+		costRecords: data.costRecords,
+		modelSwitches: data.modelSwitches,
+	};
+	return JSON.stringify(exported, null, 2) + "\n";
+}
+
+/**
+ * 按格式渲染 session
+ */
+export function renderTranscript(
+	data: SerializedSession,
+	format: TranscriptFormat,
+): string {
+	switch (format) {
+		case "md":
+			return renderMarkdown(data);
+		case "html":
+			return renderHtml(data);
+		case "json":
+			return renderJson(data);
+	}
+}
+
+/**
+ * 导出 session 到文件（自动创建目录）
+ */
+export function writeTranscript(
+	data: SerializedSession,
+	format: TranscriptFormat,
+	outputPath: string,
+): void {
+	fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+	fs.writeFileSync(outputPath, renderTranscript(data, format), "utf-8");
+}
+
+/**
+ * 解析并校验 JSON 导出内容
+ */
+export function parseSessionExport(content: string): ParseExportResult {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(content);
+	} catch (error) {
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+
+	const result = sessionExportSchema.safeParse(raw);
+	if (!result.success) {
+		const issue = result.error.issues[0];
+		return {
+			success: false,
+			error: issue
+				? `${issue.path.join(".") || "(root)"}: ${issue.message}`
+				: result.error.message,
+		};
+	}
+	return { success: true, data: result.data };
+}
+
+/**
+ * 读取并校验 JSON 导出文件
+ */
+export function readSessionExport(filePath: string): ParseExportResult {
+	let content: string;
+	try {
+		content = fs.readFileSync(filePath, "utf-8");
+	} catch (error) {
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+	return parseSessionExport(content);
+}
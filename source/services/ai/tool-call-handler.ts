@@ -10,14 +10,78 @@ import type {
 	ToolExecutionResult,
 	AskUserCallback,
 	ToolMaskState,
+	ToolCallCallbacks,
+	SubAgentRunner,
 } from "./types.js";
 import type {
 	IToolRegistry,
 	DiscoveredTool,
 	ToolAction,
 } from "../tools/types.js";
-import { executeToolAction, getToolAction } from "../tools/executor.js";
-import { isToolAllowed, getToolNotAllowedError } from "./toolMask.js";
+import {
+	executeToolAction,
+	getToolAction,
+	assessToolActionRisk,
+} from "../tools/executor.js";
+import { getToolTimeout } from "../tools/executorUtils.js";
+import type { ProcessManager } from "../tools/processManager.js";
+import { getLocalSettings } from "../../utils/localsettings.js";
+import { getRiskBlockedError } from "../permissions/riskAssessor.js";
+import {
+	isToolAllowed,
+	getToolNotAllowedError,
+	isReadOnlyAction,
+	getActionNotReadOnlyError,
+} from "./toolMask.js";
+import {
+	summarizeToolArgs,
+	previewToolOutput,
+	parseToolResultContent,
+	tailToolOutput,
+	TOOL_LIVE_OUTPUT_LENGTH,
+} from "./toolActivity.js";
+import type { PermissionManager } from "../permissions/permissionManager.js";
+import type { PermissionCallback } from "../permissions/types.js";
+
+/** 实时输出回调的最小间隔（毫秒） */
+const OUTPUT_PROGRESS_INTERVAL = 200;
+
+/** 用户中止后剩余工具调用的结果 */
+const ABORTED_CONTENT = "Error: Aborted by user";
+
+/**
+ * 以有限并发执行 count 个任务
+ * @param task 接收任务序号（0 ~ count-1）
+ */
+async function runConcurrently(
+	count: number,
+	limit: number,
+	task: (index: number) => Promise<void>,
+): Promise<void> {
+	let next = 0;
+	const worker = async () => {
+		while (next < count) {
+			await task(next++);
+		}
+	};
+	await Promise.all(
+		Array.from({ length: Math.min(limit, count) }, () => worker()),
+	);
+}
+
+/**
+ * 工具调用处理器选项
+ */
+export type ToolCallHandlerOptions = {
+	cwd?: string;
+	/** 固定超时（毫秒），未设置时按 tools.timeouts 配置 */
+	timeout?: number;
+	permissions?: PermissionManager;
+	/** 后台进程管理器，未设置时长时间运行的命令不会转入后台 */
+	processes?: ProcessManager;
+	/** 子代理运行函数，未设置时 a-c-agent_delegate 不可用 */
+	delegate?: SubAgentRunner;
+};
 
 /**
  * 工具调用处理器实现
@@ -25,10 +89,7 @@ import { isToolAllowed, getToolNotAllowedError } from "./toolMask.js";
 export class ToolCallHandler implements IToolCallHandler {
 	constructor(
 		private registry: IToolRegistry,
-		private options?: {
-			cwd?: string;
-			timeout?: number;
-		},
+		private options?: ToolCallHandlerOptions,
 	) {}
 
 	/**
@@ -49,7 +110,12 @@ export class ToolCallHandler implements IToolCallHandler {
 	/**
 	 * 执行单个工具调用
 	 */
-	private async executeSingleCall(call: ToolCall): Promise<{
+	private async executeSingleCall(
+		call: ToolCall,
+		callbacks?: ToolCallCallbacks,
+		signal?: AbortSignal,
+		onPermission?: PermissionCallback,
+	): Promise<{
 		result: ToolExecutionResult;
 		tool?: DiscoveredTool;
 		action?: ToolAction;
@@ -108,11 +174,41 @@ export class ToolCallHandler implements IToolCallHandler {
 			};
 		}
 
-		// 执行工具
+		// 执行工具（实时输出按间隔节流后回调）
+		const policy = getLocalSettings().tools;
+		let liveOutput = "";
+		let lastProgress = 0;
+		const onOutput = callbacks?.onToolProgress
+			? (chunk: string) => {
+					liveOutput = (liveOutput + chunk).slice(-TOOL_LIVE_OUTPUT_LENGTH);
+					const now = Date.now();
+					if (now - lastProgress >= OUTPUT_PROGRESS_INTERVAL) {
+						lastProgress = now;
+						callbacks.onToolProgress?.({
+							id: call.id,
+							status: "running",
+							output: tailToolOutput(liveOutput),
+						});
+					}
+				}
+			: undefined;
+
+		// 子代理的工具调用沿用本次调用的权限确认回调
+		const delegate = this.options?.delegate;
+
 		const startTime = Date.now();
 		const execResult = await executeToolAction(tool, action, args, {
 			cwd: this.options?.cwd,
-			timeout: this.options?.timeout,
+			timeout:
+				this.options?.timeout ?? getToolTimeout(call.function.name, policy),
+			onOutput,
+			signal,
+			processes: this.options?.processes,
+			detachAfter: policy.detachAfter,
+			delegate:
+				delegate &&
+				((task, delegateOptions) =>
+					delegate(task, { ...delegateOptions, onPermission })),
 		});
 		const duration = Date.now() - startTime;
 
@@ -126,6 +222,8 @@ export class ToolCallHandler implements IToolCallHandler {
 					? undefined
 					: execResult.error || execResult.stderr,
 				duration,
+				risk: execResult.metadata?.risk,
+				sandbox: execResult.metadata?.sandbox,
 			},
 			tool,
 			action,
@@ -134,64 +232,309 @@ export class ToolCallHandler implements IToolCallHandler {
 
 	/**
 	 * 处理 AI 返回的工具调用
+	 * 连续的只读调用（read/search）并发执行，其他调用逐个执行，结果保持原始顺序
 	 * @param toolCalls 工具调用列表
 	 * @param onAskUser 可选的 ask_user 回调，用于暂停执行等待用户输入
 	 * @param toolMask 可选的工具遮蔽状态，用于验证工具是否被允许
+	 * @param onPermission 可选的权限确认回调，用于在执行前等待用户授权
+	 * @param callbacks 可选的工具调用活动回调，用于在 UI 中显示执行过程
+	 * @param signal 可选的中止信号，中止时终止正在执行的命令并跳过剩余调用
 	 */
 	async handleToolCalls(
 		toolCalls: ToolCall[],
 		onAskUser?: AskUserCallback,
 		toolMask?: ToolMaskState,
+		onPermission?: PermissionCallback,
+		callbacks?: ToolCallCallbacks,
+		signal?: AbortSignal,
 	): Promise<ChatMessage[]> {
-		const results: ChatMessage[] = [];
+		const results: ChatMessage[] = new Array(toolCalls.length);
+		const maxParallel = Math.max(1, getLocalSettings().tools.maxParallel);
+
+		let index = 0;
+		while (index < toolCalls.length) {
+			// 连续的只读调用组成一批，其他调用单独成批
+			const batchStart = index;
+			index++;
+			if (this.isReadOnlyCall(toolCalls[batchStart]!)) {
+				while (
+					index < toolCalls.length &&
+					this.isReadOnlyCall(toolCalls[index]!)
+				) {
+					index++;
+				}
+			}
+
+			await runConcurrently(index - batchStart, maxParallel, async (offset) => {
+				const position = batchStart + offset;
+				results[position] = await this.processToolCall(
+					toolCalls[position]!,
+					onAskUser,
+					toolMask,
+					onPermission,
+					callbacks,
+					signal,
+				);
+			});
+		}
+
+		return results;
+	}
+
+	/**
+	 * 判断工具调用能否与相邻的只读调用并发执行
+	 * 动作（或工具）只声明了 read/search 能力，且执行前不需要用户确认
+	 */
+	private isReadOnlyCall(call: ToolCall): boolean {
+		const callName = call.function.name;
+		const { toolId, actionName } = this.parseToolCallName(callName);
+		const tool = this.registry.getTool(toolId);
+		const action = tool ? getToolAction(tool, actionName) : undefined;
+		if (!tool?.installed || !action) {
+			return false;
+		}
+
+		if (!isReadOnlyAction(tool, action)) {
+			return false;
+		}
 
-		for (const call of toolCalls) {
-			const { toolId, actionName } = this.parseToolCallName(call.function.name);
+		// 需要确认的调用会弹出权限对话框，不能同时出现多个
+		return this.options?.permissions?.check(callName, true) !== "ask";
+	}
+
+	/**
+	 * 执行一个工具调用并报告活动
+	 * @returns 工具结果消息
+	 */
+	private async processToolCall(
+		call: ToolCall,
+		onAskUser?: AskUserCallback,
+		toolMask?: ToolMaskState,
+		onPermission?: PermissionCallback,
+		callbacks?: ToolCallCallbacks,
+		signal?: AbortSignal,
+	): Promise<ChatMessage> {
+		// 已中止：每个调用仍需要一条结果消息，否则历史不完整
+		if (signal?.aborted) {
+			return {
+				role: "tool",
+				tool_call_id: call.id,
+				content: ABORTED_CONTENT,
+			};
+		}
+
+		const { toolId, actionName } = this.parseToolCallName(call.function.name);
+		// ask_user 有独立的问答界面，不产生工具调用活动
+		const tracked = !(toolId === "a-c-askuser" && actionName === "ask");
+		const startTime = Date.now();
+
+		if (tracked) {
+			callbacks?.onToolStart?.({
+				id: call.id,
+				toolId,
+				action: actionName,
+				argsSummary: summarizeToolArgs(call.function.arguments),
+			});
+		}
+
+		const message = await this.handleToolCall(
+			call,
+			onAskUser,
+			toolMask,
+			onPermission,
+			callbacks,
+			signal,
+		);
+
+		if (tracked) {
+			// 从结果消息还原状态，与会话恢复时的显示保持一致
+			const parsed = parseToolResultContent(message.content);
+			callbacks?.onToolEnd?.({
+				id: call.id,
+				success: parsed.success,
+				durationMs: parsed.durationMs ?? Date.now() - startTime,
+				outputPreview: previewToolOutput(parsed.output),
+			});
+		}
 
-			// 验证工具是否在允许列表中
-			if (toolMask && !isToolAllowed(toolId, toolMask)) {
-				results.push({
+		return message;
+	}
+
+	/**
+	 * 处理单个工具调用
+	 * @returns 工具结果消息
+	 */
+	private async handleToolCall(
+		call: ToolCall,
+		onAskUser?: AskUserCallback,
+		toolMask?: ToolMaskState,
+		onPermission?: PermissionCallback,
+		callbacks?: ToolCallCallbacks,
+		signal?: AbortSignal,
+	): Promise<ChatMessage> {
+		const { toolId, actionName } = this.parseToolCallName(call.function.name);
+
+		// 验证工具是否在允许列表中
+		if (toolMask && !isToolAllowed(toolId, toolMask)) {
+			return {
+				role: "tool",
+				tool_call_id: call.id,
+				content: getToolNotAllowedError(toolId, toolMask),
+			};
+		}
+
+		// 只读上下文（子代理）：拒绝会修改状态的动作
+		if (toolMask?.readOnly) {
+			const tool = this.registry.getTool(toolId);
+			const action = tool ? getToolAction(tool, actionName) : undefined;
+			if (tool && action && !isReadOnlyAction(tool, action)) {
+				return {
 					role: "tool",
 					tool_call_id: call.id,
-					content: getToolNotAllowedError(toolId, toolMask),
-				});
-				continue;
+					content: getActionNotReadOnlyError(call.function.name),
+				};
 			}
+		}
 
-			// Special handling for askuser tool
-			if (toolId === "a-c-askuser" && actionName === "ask") {
-				const askResult = await this.handleAskUser(call, onAskUser);
-				results.push(askResult);
-				continue;
-			}
+		// Special handling for askuser tool
+		if (toolId === "a-c-askuser" && actionName === "ask") {
+			return this.handleAskUser(call, onAskUser);
+		}
+
+		// 权限检查（deny 直接拒绝，ask 等待用户确认）
+		const permissionError = await this.checkPermission(
+			call,
+			onPermission,
+			callbacks,
+		);
+		if (permissionError) {
+			return {
+				role: "tool",
+				tool_call_id: call.id,
+				content: permissionError,
+			};
+		}
 
-			const { result, tool, action } = await this.executeSingleCall(call);
+		callbacks?.onToolProgress?.({ id: call.id, status: "running" });
+		const { result, tool, action } = await this.executeSingleCall(
+			call,
+			callbacks,
+			signal,
+			onPermission,
+		);
 
-			// 构建工具结果消息
-			let content: string;
-			if (result.success) {
-				content = result.output || "(execution succeeded, no output)";
-			} else {
-				content = `Error: ${result.error || "Unknown error"}`;
-			}
+		// 构建工具结果消息
+		let content: string;
+		if (result.success) {
+			content = result.output || "(execution succeeded, no output)";
+		} else {
+			content = `Error: ${result.error || "Unknown error"}`;
+		}
 
-			// 添加执行信息
-			if (tool && action) {
-				const info = [`[${tool.name}:${action.name}]`];
-				if (result.duration) {
-					info.push(`(${result.duration}ms)`);
-				}
-				content = `${info.join(" ")}\n${content}`;
+		// 添加执行信息
+		if (tool && action) {
+			const info = [`[${tool.name}:${action.name}]`];
+			if (result.duration) {
+				info.push(`(${result.duration}ms)`);
 			}
+			if (result.risk && result.risk.level !== "safe") {
+				info.push(`[risk: ${result.risk.level}]`);
+			}
+			if (result.sandbox) {
+				info.push(
+					result.sandbox.runtime
+						? `[sandbox: ${result.sandbox.runtime} ${result.sandbox.image}]`
+						: `[warning: ${result.sandbox.warning}]`,
+				);
+			}
+			content = `${info.join(" ")}\n${content}`;
+		}
 
-			results.push({
-				role: "tool",
-				tool_call_id: call.id,
-				content,
-			});
+		return {
+			role: "tool",
+			tool_call_id: call.id,
+			content,
+		};
+	}
+
+	/**
+	 * 检查工具调用权限
+	 * @returns 被拒绝时返回错误内容，允许执行时返回 null
+	 */
+	private async checkPermission(
+		call: ToolCall,
+		onPermission?: PermissionCallback,
+		callbacks?: ToolCallCallbacks,
+	): Promise<string | null> {
+		const permissions = this.options?.permissions;
+		if (!permissions) {
+			return null;
 		}
 
-		return results;
+		const callName = call.function.name;
+		const { toolId, actionName } = this.parseToolCallName(callName);
+		let args: Record<string, unknown> = {};
+		try {
+			args = JSON.parse(call.function.arguments);
+		} catch {
+			// 参数解析失败时仍然进行权限检查，执行阶段会返回解析错误
+		}
+
+		// 预先评估命令风险：被策略阻止的直接拒绝，dangerous 总是需要确认
+		const tool = this.registry.getTool(toolId);
+		const action = tool ? getToolAction(tool, actionName) : undefined;
+		const risk =
+			tool && action
+				? (assessToolActionRisk(tool, action, args, {
+						cwd: this.options?.cwd,
+					}) ?? undefined)
+				: undefined;
+		if (risk?.blocked) {
+			return `Error: ${getRiskBlockedError(risk)}`;
+		}
+
+		let check = permissions.check(
+			callName,
+			!!tool && !!action && isReadOnlyAction(tool, action),
+		);
+		if (check === "allow" && risk?.level === "dangerous") {
+			check = "ask";
+		}
+		if (check === "allow") {
+			return null;
+		}
+		if (check === "deny") {
+			return `Error: Permission denied: "${callName}" is blocked by project settings`;
+		}
+
+		if (!onPermission) {
+			return `Error: Permission required for "${callName}", but user confirmation is not available in this context`;
+		}
+
+		try {
+			callbacks?.onToolProgress?.({
+				id: call.id,
+				status: "awaiting_permission",
+			});
+			const decision = await onPermission({
+				callName,
+				toolId,
+				actionName,
+				toolName: tool?.name ?? toolId,
+				args,
+				risk,
+			});
+			if (decision === "deny") {
+				return `Error: Permission denied: user rejected "${callName}"`;
+			}
+			// dangerous 命令只放行本次，不记录授权
+			if (risk?.level !== "dangerous") {
+				permissions.approve(callName, decision);
+			}
+			return null;
+		} catch (error) {
+			return `Error: Permission check failed: ${error instanceof Error ? error.message : String(error)}`;
+		}
 	}
 
 	/**
@@ -272,10 +615,7 @@ export class ToolCallHandler implements IToolCallHandler {
  */
 export function createToolCallHandler(
 	registry: IToolRegistry,
-	options?: {
-		cwd?: string;
-		timeout?: number;
-	},
+	options?: ToolCallHandlerOptions,
 ): IToolCallHandler {
 	return new ToolCallHandler(registry, options);
 }
@@ -0,0 +1,145 @@
+/**
+ * 工具调用活动
+ * 生成工具调用的参数摘要和输出预览，并从工具结果消息中还原执行状态
+ */
+
+/** 参数摘要最大长度 */
+export const TOOL_ARGS_SUMMARY_LENGTH = 80;
+
+/** 输出预览最大行数 */
+export const TOOL_OUTPUT_PREVIEW_LINES = 6;
+
+/** 输出预览单行最大长度 */
+const TOOL_OUTPUT_PREVIEW_LINE_LENGTH = 200;
+
+/** 实时输出保留的最大字符数（只需要末尾几行） */
+export const TOOL_LIVE_OUTPUT_LENGTH = 8 * 1024;
+
+/** 工具执行信息行，如 "[Git:status] (12ms) [risk: caution]" */
+const TOOL_INFO_LINE = /^\[[^\]\n]+:[^\]\n]+\](?: \((\d+)ms\))?[^\n]*\n/;
+
+/** 无输出时写入结果消息的占位内容 */
+const NO_OUTPUT_PLACEHOLDER = "(execution succeeded, no output)";
+
+/**
+ * 从工具结果消息中还原的执行状态
+ */
+export type ParsedToolResult = {
+	success: boolean;
+	/** 执行耗时（仅实际执行过的工具有） */
+	durationMs?: number;
+	/** 输出内容（失败时为错误信息，不含 "Error: " 前缀） */
+	output: string;
+};
+
+/**
+ * 截断字符串，超出部分用省略号表示
+ */
+function truncate(text: string, maxLength: number): string {
+	return text.length > maxLength
+		? text.substring(0, maxLength - 1) + "…"
+		: text;
+}
+
+/**
+ * 折叠空白，保证单行显示
+ */
+function toSingleLine(text: string): string {
+	return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 生成单行参数摘要：key=value, key=value
+ * @param args 工具调用参数（JSON 字符串）
+ */
+export function summarizeToolArgs(
+	args: string,
+	maxLength: number = TOOL_ARGS_SUMMARY_LENGTH,
+): string {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(args);
+	} catch {
+		return truncate(toSingleLine(args), maxLength);
+	}
+
+	if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+		return truncate(toSingleLine(JSON.stringify(parsed) ?? ""), maxLength);
+	}
+
+	const summary = Object.entries(parsed as Record<string, unknown>)
+		.map(([key, value]) => {
+			const text =
+				typeof value === "string" ? value : (JSON.stringify(value) ?? "");
+			return `${key}=${toSingleLine(text)}`;
+		})
+		.join(", ");
+	return truncate(summary, maxLength);
+}
+
+/**
+ * 生成输出预览：保留前几行，超长行截断，并注明省略的行数
+ */
+export function previewToolOutput(
+	output: string,
+	maxLines: number = TOOL_OUTPUT_PREVIEW_LINES,
+): string {
+	const lines = output.replace(/\s+$/, "").split("\n");
+	if (lines.length === 1 && !lines[0]) {
+		return "";
+	}
+
+	const preview = lines
+		.slice(0, maxLines)
+		.map((line) => truncate(line, TOOL_OUTPUT_PREVIEW_LINE_LENGTH));
+	if (lines.length > maxLines) {
+		preview.push(`… (+${lines.length - maxLines} lines)`);
+	}
+	return preview.join("\n");
+}
+
+/**
+ * 生成实时输出预览：保留最后几行
+ * 回车覆盖的内容（进度条等）只保留最后一段
+ */
+export function tailToolOutput(
+	output: string,
+	maxLines: number = TOOL_OUTPUT_PREVIEW_LINES,
+): string {
+	const lines = output
+		.replace(/\s+$/, "")
+		.split("\n")
+		.map((line) => line.substring(line.lastIndexOf("\r") + 1))
+		.filter((line) => line.trim());
+
+	return lines
+		.slice(-maxLines)
+		.map((line) => truncate(line, TOOL_OUTPUT_PREVIEW_LINE_LENGTH))
+		.join("\n");
+}
+
+/**
+ * 解析工具结果消息（ToolCallHandler 生成的格式）
+ * 用于会话恢复时还原工具调用块
+ */
+export function parseToolResultContent(content: string): ParsedToolResult {
+	let body = content;
+	let durationMs: number | undefined;
+
+	const info = content.match(TOOL_INFO_LINE);
+	if (info) {
+		body = content.substring(info[0].length);
+		if (info[1]) {
+			durationMs = Number(info[1]);
+		}
+	}
+
+	if (body.startsWith("Error: ")) {
+		return { success: false, durationMs, output: body.substring(7) };
+	}
+	return {
+		success: true,
+		durationMs,
+		output: body === NO_OUTPUT_PLACEHOLDER ? "" : body,
+	};
+}
@@ -6,11 +6,16 @@
  */
 
 import type { ToolMaskState, MatchContext } from "./types.js";
-import type { DiscoveredTool } from "../tools/types.js";
+import type {
+	DiscoveredTool,
+	ToolAction,
+	ToolCapability,
+} from "../tools/types.js";
 import { tArray } from "../../i18n/index.js";
 import { currentModelSupportsToolChoice } from "../../utils/config.js";
 import {
 	ACTION_CORE_TOOLS,
+	PLAN_TOOLS,
 	getPlatformShellTools,
 } from "../../constants/tools.js";
 
@@ -178,6 +183,7 @@ export function getToolsForProjectType(
  * @param projectType 项目类型（已在 AIService 初始化时固定）
  * @param planMode 是否为 Plan 模式
  * @param availableTools 可用的工具列表
+ * @param modelId 模型 ID（默认当前模型，切换到备用模型时传入）
  * @returns 工具遮蔽状态
  */
 export function buildToolMask(
@@ -185,25 +191,26 @@ export function buildToolMask(
 	projectType: string | undefined,
 	planMode: boolean,
 	availableTools: DiscoveredTool[],
+	modelId?: string,
 ): ToolMaskState {
 	// 构建可用工具 ID 集合
 	const availableToolIds = new Set(availableTools.map((t) => t.id));
 
-	// Plan 模式：只允许 plan 工具
+	// Plan 模式：只允许 plan 工具和 scratchpad
 	if (planMode) {
-		const supportsToolChoice = currentModelSupportsToolChoice();
+		const supportsToolChoice = currentModelSupportsToolChoice(modelId);
 
 		if (supportsToolChoice) {
 			// 模型支持 tool_choice，使用冻结工具列表 + tool_choice 限制
 			return {
 				mode: "p",
-				allowedTools: new Set(["p-plan"]),
+				allowedTools: new Set(PLAN_TOOLS),
 			};
 		} else {
 			// Fallback: 动态过滤工具列表（不支持 tool_choice）
 			return {
 				mode: "p",
-				allowedTools: new Set(["p-plan"]),
+				allowedTools: new Set(PLAN_TOOLS),
 				useDynamicFiltering: true,
 			};
 		}
@@ -212,7 +219,7 @@ export function buildToolMask(
 	// Action 模式：构建允许的工具集（两种模式共享相同的工具收集逻辑）
 	const allowedTools = new Set<string>();
 
-	// 1. 添加 Action 模式核心工具（askuser, file, web, git, enterplan）
+	// 1. 添加 Action 模式核心工具（askuser, file, web, git, enterplan, scratchpad）
 	for (const toolId of ACTION_CORE_TOOLS) {
 		if (availableToolIds.has(toolId)) {
 			allowedTools.add(toolId);
@@ -242,6 +249,13 @@ export function buildToolMask(
 		}
 	}
 
+	// 5. 添加 MCP 工具（用户显式配置的外部 Server，总是可用）
+	for (const tool of availableTools) {
+		if (tool.category === "mcp") {
+			allowedTools.add(tool.id);
+		}
+	}
+
 	// filtered 模式：发送过滤后的工具子集
 	return {
 		mode: "a",
@@ -273,3 +287,57 @@ export function getToolNotAllowedError(
 	const allowedList = [...mask.allowedTools].join(", ");
 	return `Error: Tool "${toolId}" is not available in current context. Available tools: ${allowedList}`;
 }
+
+/**
+ * 只读能力（不修改任何状态）
+ */
+const READ_ONLY_CAPABILITIES: ToolCapability[] = ["read", "search"];
+
+/**
+ * 检查动作是否只读
+ * 动作未声明能力时沿用工具的能力，只有 read/search 的动作才算只读
+ */
+export function isReadOnlyAction(
+	tool: DiscoveredTool,
+	action: ToolAction,
+): boolean {
+	const capabilities = action.capabilities ?? tool.capabilities;
+	return (
+		!!capabilities?.length &&
+		capabilities.every((c) => READ_ONLY_CAPABILITIES.includes(c))
+	);
+}
+
+/**
+ * 只保留只读动作的工具列表（子代理使用）
+ * 没有只读动作的工具被移除
+ */
+export function getReadOnlyTools(tools: DiscoveredTool[]): DiscoveredTool[] {
+	return tools
+		.map((tool) => ({
+			...tool,
+			actions: tool.actions.filter((action) => isReadOnlyAction(tool, action)),
+		}))
+		.filter((tool) => tool.actions.length > 0);
+}
+
+/**
+ * 构建只读工具遮蔽状态（子代理使用）
+ * @param readOnlyTools getReadOnlyTools 的结果
+ */
+export function buildReadOnlyToolMask(
+	readOnlyTools: DiscoveredTool[],
+): ToolMaskState {
+	return {
+		mode: "a",
+		allowedTools: new Set(readOnlyTools.map((t) => t.id)),
+		readOnly: true,
+	};
+}
+
+/**
+ * 获取只读上下文中调用非只读动作的错误消息
+ */
+export function getActionNotReadOnlyError(callName: string): string {
+	return `Error: "${callName}" is not available to sub-agents, which can only read and search`;
+}
@@ -3,6 +3,20 @@
  */
 
 import type { DiscoveredTool, ToolAction } from "../tools/types.js";
+import type { SandboxInfo } from "../tools/sandbox.js";
+import type {
+	PermissionCallback,
+	RiskAssessment,
+} from "../permissions/types.js";
+import type { PermissionManager } from "../permissions/permissionManager.js";
+import type { ProcessManager } from "../tools/processManager.js";
+import type {
+	CostBudget,
+	ModelConfig,
+	ModelPricing,
+} from "../../utils/config.js";
+import type { OutputListener } from "../tools/handlers/types.js";
+import type { RetryCallback } from "./retry.js";
 
 // ============================================================================
 // Chat Message Types
@@ -23,6 +37,8 @@ export type ToolCall = {
 		name: string; // 格式: toolId_actionName (如 "git_status")
 		arguments: string; // JSON 字符串
 	};
+	// Gemini 思考签名（开启思考时回传该调用必须原样带上）
+	thought_signature?: string;
 };
 
 /**
@@ -67,6 +83,10 @@ export type AIResponse = {
 		prompt_tokens: number;
 		completion_tokens: number;
 		total_tokens: number;
+		/** 写入缓存的输入 token（包含在 prompt_tokens 中） */
+		cache_creation_input_tokens?: number;
+		/** 命中缓存的输入 token（包含在 prompt_tokens 中） */
+		cache_read_input_tokens?: number;
 	};
 };
 
@@ -85,11 +105,7 @@ export type AIStreamChunk = {
 	delta: StreamDelta;
 	finish_reason?: FinishReason;
 	/** 使用统计（在流结束时返回） */
-	usage?: {
-		prompt_tokens: number;
-		completion_tokens: number;
-		total_tokens: number;
-	};
+	usage?: AIResponse["usage"];
 };
 
 /**
@@ -112,6 +128,8 @@ export type StreamOptions = {
 	planMode?: boolean;
 	/** 工具遮蔽状态 */
 	toolMask?: ToolMaskState;
+	/** 请求失败重试前调用（用于在 UI 显示重试进度） */
+	onRetry?: RetryCallback;
 };
 
 // ============================================================================
@@ -137,6 +155,8 @@ export type ToolMaskState = {
 	 * 当模型不支持 tool_choice 时，回退到动态过滤工具列表
 	 */
 	useDynamicFiltering?: boolean;
+	/** 只允许只读动作（read/search），用于子代理 */
+	readOnly?: boolean;
 };
 
 /**
@@ -157,13 +177,7 @@ export type ToolChoiceOption =
  * JSON Schema 类型
  */
 export type JSONSchemaType =
-	| "string"
-	| "number"
-	| "integer"
-	| "boolean"
-	| "object"
-	| "array"
-	| "null";
+	"string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
 
 /**
  * JSON Schema 定义
@@ -194,6 +208,12 @@ export type OpenAITool = {
 	};
 };
 
+/**
+ * Anthropic 缓存断点
+ * 标记在内容块或工具上，该位置之前的前缀会被缓存
+ */
+export type AnthropicCacheControl = { type: "ephemeral" };
+
 /**
  * Anthropic 工具格式
  */
@@ -205,6 +225,17 @@ export type AnthropicTool = {
 		properties: Record<string, JSONSchema>;
 		required: string[];
 	};
+	cache_control?: AnthropicCacheControl;
+};
+
+/**
+ * Gemini 函数声明格式
+ * parameters 使用 OpenAPI Schema 子集，没有参数的函数不带 parameters
+ */
+export type GeminiFunctionDeclaration = {
+	name: string;
+	description: string;
+	parameters?: Record<string, unknown>;
 };
 
 // ============================================================================
@@ -222,6 +253,10 @@ export type AIClientConfig = {
 	timeout?: number;
 	// 最大重试次数
 	maxRetries?: number;
+	// 使用 previous_response_id 避免重发历史（仅 Responses API）
+	usePreviousResponseId?: boolean;
+	// 模型 ID（用于读取 thinking / tool_choice 配置，未提供时使用当前模型）
+	modelId?: string;
 };
 
 /**
@@ -336,6 +371,10 @@ export type ToolExecutionResult = {
 	error?: string;
 	// 执行时间（毫秒）
 	duration?: number;
+	// 命令风险评估（仅命令/脚本类动作）
+	risk?: RiskAssessment;
+	// 容器沙箱信息（仅在请求沙箱执行时存在）
+	sandbox?: SandboxInfo;
 };
 
 /**
@@ -347,12 +386,18 @@ export type IToolCallHandler = {
 	 * @param toolCalls 工具调用列表
 	 * @param onAskUser 可选的 ask_user 回调，用于暂停执行等待用户输入
 	 * @param toolMask 可选的工具遮蔽状态，用于验证工具是否被允许
+	 * @param onPermission 可选的权限确认回调，用于在执行前等待用户授权
+	 * @param callbacks 可选的工具调用活动回调，用于在 UI 中显示执行过程
+	 * @param signal 可选的中止信号，中止时终止正在执行的命令并跳过剩余调用
 	 * @returns 工具结果消息列表
 	 */
 	handleToolCalls(
 		toolCalls: ToolCall[],
 		onAskUser?: AskUserCallback,
 		toolMask?: ToolMaskState,
+		onPermission?: PermissionCallback,
+		callbacks?: ToolCallCallbacks,
+		signal?: AbortSignal,
 	): Promise<ChatMessage[]>;
 
 	/**
@@ -393,8 +438,40 @@ export type AIServiceConfig = {
 	contextWindow?: number;
 	// 当前工作目录（用于项目类型检测）
 	cwd?: string;
+	// 工具调用权限管理器（未提供时不做权限检查）
+	permissionManager?: PermissionManager;
+	// 后台进程管理器（重建服务时传入旧服务的管理器，保留正在运行的进程）
+	processManager?: ProcessManager;
+	// 是否为子代理（只能使用只读动作，不能再委派）
+	subAgent?: boolean;
+	// 模型 ID（费用记录按模型汇总）
+	model?: string;
+	// 模型价格（未提供时不统计费用）
+	pricing?: ModelPricing;
+	// Session 费用预算（action 为 stop 时超出后停止工具调用循环）
+	costBudget?: CostBudget;
+	// 备用模型（当前模型重试耗尽后按顺序切换）
+	fallbackModels?: ModelConfig[];
+	// 根据模型配置创建客户端（切换到备用模型时使用）
+	createClient?: (model: ModelConfig) => IAIClient | null;
 };
 
+/**
+ * 子代理运行函数（a-c-agent_delegate）
+ * @param task 子任务描述
+ * @param options.onOutput 子代理的工具调用活动（显示为委派调用的实时输出）
+ * @param options.onPermission 子代理工具调用的权限确认回调（沿用父对话的回调）
+ * @returns 子代理的最终总结
+ */
+export type SubAgentRunner = (
+	task: string,
+	options: {
+		onOutput?: OutputListener;
+		signal?: AbortSignal;
+		onPermission?: PermissionCallback;
+	},
+) => Promise<string>;
+
 /**
  * Session 状态（从 session.ts 重新导出以便外部使用）
  */
@@ -411,6 +488,14 @@ export type SessionStatus = {
 	isFull: boolean;
 	/** 消息数量 */
 	messageCount: number;
+	/** 子代理累计使用的 token 数（不占用当前上下文） */
+	subAgentTokens: number;
+	/** 提示词缓存命中率 (0-100)，API 没有返回缓存信息时为 undefined */
+	cacheHitRate?: number;
+	/** Session 累计费用（USD，模型未配置价格时为 0） */
+	totalCost: number;
+	/** 最近一轮对话（含所有工具调用轮）的费用（USD） */
+	turnCost: number;
 };
 
 /**
@@ -431,6 +516,70 @@ export type CompactCheckResult = {
 	isContextFull: boolean;
 };
 
+/**
+ * 工具调用开始事件
+ */
+export type ToolCallStartEvent = {
+	/** 工具调用 ID（对应 tool_call_id） */
+	id: string;
+	/** 工具 ID */
+	toolId: string;
+	/** 动作名称 */
+	action: string;
+	/** 单行参数摘要 */
+	argsSummary: string;
+};
+
+/**
+ * 工具调用进度事件
+ */
+export type ToolCallProgressEvent = {
+	/** 工具调用 ID */
+	id: string;
+	/** 当前阶段：等待用户授权 / 执行中 */
+	status: "awaiting_permission" | "running";
+	/** 执行中的实时输出（最后几行） */
+	output?: string;
+};
+
+/**
+ * 工具调用结束事件
+ */
+export type ToolCallEndEvent = {
+	/** 工具调用 ID */
+	id: string;
+	/** 是否成功 */
+	success: boolean;
+	/** 执行耗时（毫秒） */
+	durationMs: number;
+	/** 截断后的输出预览（失败时为错误信息） */
+	outputPreview: string;
+};
+
+/**
+ * 模型切换事件（当前模型重试耗尽后切换到备用模型）
+ */
+export type ModelFallbackEvent = {
+	/** 原模型 ID */
+	from: string;
+	/** 切换到的模型 ID */
+	to: string;
+	/** 切换原因（原模型最后一次请求的错误信息） */
+	reason: string;
+};
+
+/**
+ * 工具调用活动回调
+ */
+export type ToolCallCallbacks = {
+	/** 工具调用开始（权限检查之前） */
+	onToolStart?: (event: ToolCallStartEvent) => void;
+	/** 工具调用阶段变化 */
+	onToolProgress?: (event: ToolCallProgressEvent) => void;
+	/** 工具调用结束 */
+	onToolEnd?: (event: ToolCallEndEvent) => void;
+};
+
 /**
  * 流式消息回调
  */
@@ -441,7 +590,9 @@ export type StreamCallbacks = {
 	onStart?: () => void;
 	/** 流式结束 */
 	onEnd?: (finalContent: StreamContent) => void;
-};
+	/** 切换到备用模型（之后的内容由备用模型生成） */
+	onModelFallback?: (event: ModelFallbackEvent) => void;
+} & ToolCallCallbacks;
 
 /**
  * AI 服务接口
@@ -463,6 +614,7 @@ export type IAIService = {
 	 * @param options 流式选项（包含 AbortSignal）
 	 * @param onAskUser 可选的 ask_user 回调，用于暂停执行等待用户输入
 	 * @param displayContent 可选，用户原始输入内容（不含文件内容，用于 UI 显示和会话恢复）
+	 * @param onPermission 可选的权限确认回调，用于在工具执行前等待用户授权
 	 * @returns 最终完整响应
 	 */
 	streamMessage(
@@ -472,6 +624,7 @@ export type IAIService = {
 		options?: StreamOptions,
 		onAskUser?: AskUserCallback,
 		displayContent?: string,
+		onPermission?: PermissionCallback,
 	): Promise<string>;
 
 	/**
@@ -521,6 +674,11 @@ export type IAIService = {
 	 */
 	getSession(): import("./session.js").Session;
 
+	/**
+	 * 获取后台进程管理器（/jobs、状态栏和退出时清理）
+	 */
+	getProcessManager(): ProcessManager;
+
 	/**
 	 * 从已加载的 Session 恢复状态
 	 * @param session 已加载的 Session 实例
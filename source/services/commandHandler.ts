@@ -3,6 +3,7 @@
  * 根据 SlashCommand 的 action 类型分发处理逻辑
  */
 
+import { join } from "node:path";
 import type {
 	SlashCommand,
 	CommandAction,
@@ -16,9 +17,24 @@ import {
 	setSuggestionEnabled,
 	setThinkingEnabled,
 	setPlanModeEnabled,
+	getCostBudget,
 } from "../utils/config.js";
 import { t, setLocale } from "../i18n/index.js";
-import { getSessionStore } from "./ai/sessionStore.js";
+import { getSessionStore, type SessionStore } from "./ai/sessionStore.js";
+import {
+	summarizeCosts,
+	formatCost,
+	sumCost,
+	getLastTurnRecords,
+	type CostEntry,
+} from "./ai/cost.js";
+import { TRANSCRIPT_FORMATS, getExportsDir } from "./ai/sessionTranscript.js";
+import { getUndoManager, type UndoResult } from "./undo/undoManager.js";
+import {
+	getMcpClientManager,
+	type McpServerState,
+} from "./tools/mcp/client.js";
+import type { ProcessInfo } from "./tools/processManager.js";
 
 /**
  * 内部命令处理器映射
@@ -62,6 +78,12 @@ export type CommandCallbacks = {
 	sessionDelete: (id: string) => void;
 	/** 清除所有 session 并创建新的 */
 	sessionClear: () => Promise<void>;
+	/** 导出当前 session（md / json / html） */
+	sessionExport: (format: string) => void;
+	/** 从 JSON 导出文件导入 session 并切换过去 */
+	sessionImport: (filePath: string) => Promise<void>;
+	/** 获取后台进程列表 */
+	listJobs: () => ProcessInfo[];
 };
 
 /**
@@ -80,7 +102,8 @@ type CommandResult =
 				| "stop"
 				| "recreate_ai_service"
 				| "session_new"
-				| "sessionClear";
+				| "sessionClear"
+				| "jobs_list";
 	  }
 	| {
 			type: "callback_with_message";
@@ -89,7 +112,11 @@ type CommandResult =
 	  }
 	| {
 			type: "callback_with_param";
-			callback: "session_switch" | "session_delete";
+			callback:
+				| "session_switch"
+				| "session_delete"
+				| "session_export"
+				| "session_import";
 			param: string;
 	  }
 	| { type: "error"; message: string };
@@ -230,12 +257,131 @@ const internalHandlers: Record<string, InternalHandler> = {
 		content: t("session.noSessionsToDelete"),
 	}),
 
+	session_export: (path: string[]) => {
+		// path = ["session", "export", "<format>"]
+		const format = path[path.length - 1];
+		if (!(TRANSCRIPT_FORMATS as readonly string[]).includes(format ?? "")) {
+			return {
+				type: "error" as const,
+				message: t("session.invalidFormat", {
+					formats: TRANSCRIPT_FORMATS.join(", "),
+				}),
+			};
+		}
+		return {
+			type: "callback_with_param" as const,
+			callback: "session_export" as const,
+			param: format!,
+		};
+	},
+
+	session_import: (path: string[]) => {
+		// path = ["session", "import", "<file>"]，文件位于项目导出目录
+		const fileName = path[path.length - 1];
+		if (!fileName) {
+			return { type: "error" as const, message: t("session.invalidId") };
+		}
+		return {
+			type: "callback_with_param" as const,
+			callback: "session_import" as const,
+			param: join(getExportsDir(process.cwd()), fileName),
+		};
+	},
+
+	// 导出目录中没有可导入的文件时的处理器
+	session_import_empty: () => ({
+		type: "message" as const,
+		content: t("session.noExportsToImport", {
+			dir: join(".axiomate", "exports"),
+		}),
+	}),
+
 	// 清除所有 session 并创建新的
 	session_clear: () => ({
 		type: "callback" as const,
 		callback: "sessionClear" as const,
 	}),
 
+	// 撤销 / 重做命令处理器（以 AI 回合为单位恢复文件）
+	undo_last: () => ({
+		type: "async",
+		handler: async () =>
+			formatUndoResult(getUndoManager().undo(), "undo.undone", "undo.nothing"),
+	}),
+
+	undo_list: () => ({
+		type: "async",
+		handler: async () => {
+			const turns = getUndoManager().list();
+			if (turns.length === 0) {
+				return t("undo.listEmpty");
+			}
+
+			const lines: string[] = [`## ${t("undo.listTitle")}\n`];
+			// 最新的回合在前
+			for (const turn of [...turns].reverse()) {
+				const marker = turn.undone ? "○" : "▸";
+				const status = turn.undone ? ` (${t("undo.undoneLabel")})` : "";
+				const date = new Date(turn.createdAt).toLocaleString();
+				lines.push(
+					`${marker} **${turn.label || turn.id}**${status}`,
+					`  ${t("undo.fileCount", { count: turn.files.length })} · ${date}`,
+				);
+			}
+			return lines.join("\n");
+		},
+	}),
+
+	redo: () => ({
+		type: "async",
+		handler: async () =>
+			formatUndoResult(
+				getUndoManager().redo(),
+				"undo.redone",
+				"undo.nothingToRedo",
+			),
+	}),
+
+	// MCP 命令处理器
+	mcp_list: () => ({
+		type: "async",
+		handler: async () =>
+			formatMcpServerList(getMcpClientManager().listServers()),
+	}),
+
+	mcp_enable: (path: string[]) => setMcpServerEnabled(path, true),
+
+	mcp_disable: (path: string[]) => setMcpServerEnabled(path, false),
+
+	// 当没有可启用 / 禁用的 MCP Server 时的处理器
+	mcp_enable_empty: () => ({
+		type: "message" as const,
+		content: t("mcp.noServersToEnable"),
+	}),
+
+	mcp_disable_empty: () => ({
+		type: "message" as const,
+		content: t("mcp.noServersToDisable"),
+	}),
+
+	// 后台进程列表（进程由 AI 服务持有，通过回调获取）
+	jobs_list: () => ({
+		type: "callback",
+		callback: "jobs_list",
+	}),
+
+	// 费用统计（从已保存的 session 数据汇总）
+	cost_show: () => ({
+		type: "async",
+		handler: async () => {
+			const store = getSessionStore();
+			if (!store) {
+				return t("session.storeNotInitialized");
+			}
+			return formatCostReport(store);
+		},
+	}),
+
 	// 工具命令处理器
 	tools_list: () => ({
 		type: "async",
@@ -437,6 +583,182 @@ const internalHandlers: Record<string, InternalHandler> = {
 	},
 };
 
+/**
+ * 格式化撤销 / 重做结果
+ */
+function formatUndoResult(
+	result: UndoResult,
+	successKey: string,
+	emptyKey: string,
+): string {
+	if (!result.success) {
+		return result.error === "busy" ? t("undo.busy") : t(emptyKey);
+	}
+
+	const lines = [
+		t(successKey, {
+			count: result.restored.length,
+			label: result.turn?.label || result.turn?.id || "",
+		}),
+		...result.restored.map((file) => `- ${file}`),
+	];
+	if (result.skipped.length > 0) {
+		lines.push("", t("undo.skipped"), ...result.skipped.map((f) => `- ${f}`));
+	}
+	return lines.join("\n");
+}
+
+/**
+ * 格式化 MCP Server 列表
+ */
+function formatMcpServerList(servers: McpServerState[]): string {
+	if (servers.length === 0) {
+		return t("mcp.listEmpty");
+	}
+
+	const markers: Record<McpServerState["status"], string> = {
+		connected: "▸",
+		connecting: "…",
+		disabled: "○",
+		error: "✗",
+	};
+
+	const lines: string[] = [`## ${t("mcp.listTitle")}\n`];
+	for (const server of servers) {
+		const status =
+			server.status === "error"
+				? `${t("mcp.status.error")}: ${server.error ?? ""}`
+				: t(`mcp.status.${server.status}`);
+		const tools =
+			server.status === "connected"
+				? ` · ${t("mcp.toolCount", { count: server.toolCount })}`
+				: "";
+		const endpoint = server.config.command
+			? [server.config.command, ...(server.config.args ?? [])].join(" ")
+			: (server.config.url ?? "");
+		lines.push(
+			`${markers[server.status]} **${server.name}** \`${server.toolId}\` ${status}${tools}`,
+			`  ${endpoint} · ${t(`mcp.source.${server.source}`)}`,
+		);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * 格式化后台进程列表
+ */
+function formatJobList(jobs: ProcessInfo[]): string {
+	if (jobs.length === 0) {
+		return t("jobs.listEmpty");
+	}
+
+	const markers: Record<ProcessInfo["status"], string> = {
+		running: "▸",
+		exited: "○",
+		killed: "✗",
+	};
+
+	const lines: string[] = [`## ${t("jobs.listTitle")}\n`];
+	for (const job of jobs) {
+		const status =
+			job.status === "exited"
+				? `${t("jobs.status.exited")} (${t("jobs.exitCode", { code: job.exitCode ?? "-" })})`
+				: t(`jobs.status.${job.status}`);
+		const seconds = Math.round(
+			((job.endedAt ?? Date.now()) - job.startedAt) / 1000,
+		);
+		const details = [
+			job.pid !== undefined ? `pid ${job.pid}` : null,
+			`${seconds}s`,
+			t("jobs.outputSize", { count: job.outputLength }),
+		].filter(Boolean);
+		lines.push(
+			`${markers[job.status]} **${job.id}** \`${job.command}\` ${status}`,
+			`  ${details.join(" · ")}`,
+		);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * 格式化费用报告：当前 session、预算以及按 session / 模型 / 日期的汇总
+ */
+function formatCostReport(store: SessionStore): string {
+	const activeId = store.getActiveSessionId();
+	const sessions = store
+		.listSessions()
+		.filter((info) => (info.totalCost ?? 0) > 0)
+		.map((info) => ({
+			id: info.id,
+			name: info.name,
+			records: store.readSession(info.id)?.costRecords ?? [],
+		}));
+
+	const summary = summarizeCosts(sessions);
+	if (summary.total <= 0) {
+		return t("cost.noPricing");
+	}
+
+	const activeRecords =
+		sessions.find((session) => session.id === activeId)?.records ?? [];
+	const lines: string[] = [
+		`## ${t("cost.title")}\n`,
+		t("cost.currentSession", {
+			total: formatCost(sumCost(activeRecords)),
+			turn: formatCost(sumCost(getLastTurnRecords(activeRecords))),
+		}),
+	];
+
+	const budget = getCostBudget();
+	if (budget) {
+		lines.push(
+			t("cost.budget", {
+				limit: formatCost(budget.limit),
+				action: budget.action ?? "warn",
+			}),
+		);
+	}
+
+	lines.push(t("cost.total", { total: formatCost(summary.total) }));
+
+	const section = (title: string, entries: CostEntry[]) => {
+		lines.push("", `### ${title}`);
+		for (const entry of entries) {
+			lines.push(`- ${entry.key}: ${formatCost(entry.cost)}`);
+		}
+	};
+	section(t("cost.bySession"), summary.bySession);
+	section(t("cost.byModel"), summary.byModel);
+	section(t("cost.byDay"), summary.byDay);
+
+	return lines.join("\n");
+}
+
+/**
+ * 启用 / 禁用 MCP Server
+ * path = ["mcp", "enable" | "disable", "<server-name>"]
+ */
+function setMcpServerEnabled(path: string[], enabled: boolean): CommandResult {
+	const name = path[path.length - 1] ?? "";
+	return {
+		type: "async",
+		handler: async () => {
+			const state = await getMcpClientManager().setServerEnabled(name, enabled);
+			clearCommandCache();
+
+			if (!state) {
+				return t("mcp.notFound", { name });
+			}
+			if (state.status === "error") {
+				return t("mcp.connectFailed", { name, error: state.error ?? "" });
+			}
+			return enabled
+				? t("mcp.enabled", { name, count: state.toolCount })
+				: t("mcp.disabled", { name });
+		},
+	};
+}
+
 /**
  * 根据命令路径查找对应的 SlashCommand
  */
@@ -579,6 +901,8 @@ export async function handleCommand(
 				// 先停止当前处理，再清除所有 session 并创建新的
 				callbacks.stop();
 				await callbacks.sessionClear();
+			} else if (result.callback === "jobs_list") {
+				callbacks.showMessage(formatJobList(callbacks.listJobs()));
 			}
 			break;
 
@@ -595,6 +919,11 @@ export async function handleCommand(
 				await callbacks.sessionSwitch(result.param);
 			} else if (result.callback === "session_delete") {
 				callbacks.sessionDelete(result.param);
+			} else if (result.callback === "session_export") {
+				callbacks.sessionExport(result.param);
+			} else if (result.callback === "session_import") {
+				callbacks.stop();
+				await callbacks.sessionImport(result.param);
 			}
 			break;
 
@@ -0,0 +1,125 @@
+/**
+ * 工具调用权限管理
+ * 根据 .axiomate/localsettings.json 中的 allow/deny/ask 模式和会话级授权，
+ * 决定工具调用是直接执行、拒绝还是需要用户确认
+ *
+ * 优先级：deny > allow（含会话授权） > ask > 默认规则
+ */
+
+import {
+	getLocalSettings,
+	updateLocalSettings,
+} from "../../utils/localsettings.js";
+import type { PermissionCheck, PermissionDecision } from "./types.js";
+
+/**
+ * 默认允许的非只读工具调用（不会修改项目的操作）
+ * 只读动作由调用方根据工具声明的能力判断，其他调用默认需要用户确认
+ */
+export const DEFAULT_ALLOWED_PATTERNS = [
+	"a-c-askuser_*",
+	"a-c-enterplan_*",
+	"p-plan_*",
+	"a-c-scratchpad_*",
+	"a-c-agent_delegate",
+];
+
+/**
+ * 检查调用名是否匹配权限模式
+ * 支持 * 通配符（匹配任意字符），其他字符按字面匹配
+ */
+export function matchPermissionPattern(
+	pattern: string,
+	callName: string,
+): boolean {
+	const source = pattern
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*");
+	return new RegExp(`^${source}$`).test(callName);
+}
+
+/**
+ * 检查调用名是否匹配任一模式
+ */
+function matchesAny(patterns: string[], callName: string): boolean {
+	return patterns.some((pattern) => matchPermissionPattern(pattern, callName));
+}
+
+/**
+ * 权限管理器
+ * 持有会话级授权（进程生命周期内有效），项目级授权持久化到 localsettings.json
+ */
+export class PermissionManager {
+	private sessionAllowed = new Set<string>();
+
+	/**
+	 * 检查工具调用权限
+	 * @param callName 完整调用名（如 "a-c-git_push"）
+	 * @param readOnly 动作是否只读（见 isReadOnlyAction），只读动作默认允许
+	 */
+	check(callName: string, readOnly = false): PermissionCheck {
+		const { permissions } = getLocalSettings();
+
+		if (matchesAny(permissions.deny, callName)) {
+			return "deny";
+		}
+		if (
+			this.sessionAllowed.has(callName) ||
+			matchesAny(permissions.allow, callName)
+		) {
+			return "allow";
+		}
+		if (matchesAny(permissions.ask, callName)) {
+			return "ask";
+		}
+		return readOnly || matchesAny(DEFAULT_ALLOWED_PATTERNS, callName)
+			? "allow"
+			: "ask";
+	}
+
+	/**
+	 * 记录用户的授权选择
+	 * @param callName 完整调用名
+	 * @param decision 用户选择
+	 */
+	approve(callName: string, decision: PermissionDecision): void {
+		if (decision === "allow_session") {
+			this.sessionAllowed.add(callName);
+		} else if (decision === "allow_always") {
+			const { permissions } = getLocalSettings();
+			if (!permissions.allow.includes(callName)) {
+				updateLocalSettings({
+					permissions: { allow: [...permissions.allow, callName] },
+				});
+			}
+		}
+	}
+
+	/**
+	 * 清除会话级授权
+	 */
+	clearSessionApprovals(): void {
+		this.sessionAllowed.clear();
+	}
+}
+
+// 单例实例
+let permissionManagerInstance: PermissionManager | null = null;
+
+/**
+ * 获取权限管理器单例
+ */
+export function getPermissionManager(): PermissionManager {
+	if (!permissionManagerInstance) {
+		permissionManagerInstance = new PermissionManager();
+	}
+	return permissionManagerInstance;
+}
+
+/**
+ * 重置权限管理器单例（用于测试）
+ */
+export function resetPermissionManager(): void {
+	permissionManagerInstance = null;
+}
@@ -0,0 +1,392 @@
+/**
+ * 命令风险评估
+ * 在执行前分析渲染后的命令或脚本内容，标记为 safe / moderate / dangerous
+ *
+ * 评估分两部分：
+ * 1. 整段文本的正则匹配（SQL、管道执行远程脚本、Windows 删除命令等）
+ * 2. 按 shell 分隔符拆分后逐段分析参数（rm、git、写入目标路径等）
+ *
+ * 分析是尽力而为的启发式判断，不是完整的 shell 解析器
+ */
+
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	getLocalSettings,
+	type RiskPolicy,
+} from "../../utils/localsettings.js";
+import type { RiskAssessment, RiskLevel } from "./types.js";
+
+type RiskRule = {
+	pattern: RegExp;
+	level: RiskLevel;
+	reason: string;
+};
+
+/**
+ * 整段文本匹配的规则
+ */
+const TEXT_RULES: RiskRule[] = [
+	{
+		pattern:
+			/\b(curl|wget)\b[^|\n]*\|\s*(sudo\s+)?(sh|bash|zsh|python\d?|node)\b/i,
+		level: "dangerous",
+		reason: "pipes a remote script into an interpreter",
+	},
+	{
+		pattern: /\bdrop\s+(database|schema|table)\b/i,
+		level: "dangerous",
+		reason: "drops a database object",
+	},
+	{
+		pattern: /\btruncate\s+table\b/i,
+		level: "dangerous",
+		reason: "truncates a table",
+	},
+	{
+		pattern: /\bdelete\s+from\s+[\w.`"[\]]+\s*(;|"|'|$)/im,
+		level: "dangerous",
+		reason: "deletes all rows without a WHERE clause",
+	},
+	{
+		pattern: /\b(delete\s+from|update\s+[\w.`"[\]]+\s+set|alter\s+table)\b/i,
+		level: "moderate",
+		reason: "modifies database rows or schema",
+	},
+	{
+		pattern: /\bdd\b[^\n]*\bof=\/dev\/(?!null\b)/i,
+		level: "dangerous",
+		reason: "writes to a raw device",
+	},
+	{
+		pattern: /:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;/,
+		level: "dangerous",
+		reason: "fork bomb",
+	},
+	{
+		pattern: /\bchmod\s+(-\w+\s+)*-?R\w*\s+0?777\b/,
+		level: "dangerous",
+		reason: "recursively makes files world-writable",
+	},
+	{
+		pattern: /\bRemove-Item\b(?=.*-Recurse)(?=.*-Force)/i,
+		level: "dangerous",
+		reason: "recursive forced delete",
+	},
+	{
+		pattern: /\b(rd|rmdir|del|erase)\s+[^\n]*\/s\b[^\n]*\/q\b/i,
+		level: "dangerous",
+		reason: "recursive forced delete",
+	},
+	{
+		pattern: /\bformat\s+[a-z]:/i,
+		level: "dangerous",
+		reason: "formats a drive",
+	},
+	{
+		pattern: /\bRemove-Item\b/i,
+		level: "moderate",
+		reason: "deletes files",
+	},
+	{
+		pattern: /\b(npm|pnpm|yarn)\s+publish\b|\bcargo\s+publish\b/i,
+		level: "moderate",
+		reason: "publishes a package",
+	},
+	{
+		pattern: /\bdocker\s+(system\s+prune|volume\s+(rm|prune)|rm|rmi)\b/i,
+		level: "moderate",
+		reason: "removes docker resources",
+	},
+];
+
+/**
+ * 会写入文件的命令（参数中的路径视为写入目标）
+ */
+const WRITE_COMMANDS = new Set([
+	"rm",
+	"rmdir",
+	"mv",
+	"cp",
+	"touch",
+	"mkdir",
+	"chmod",
+	"chown",
+	"ln",
+	"tee",
+	"truncate",
+]);
+
+/**
+ * 不算作「工作目录之外」的写入目标
+ */
+const IGNORED_WRITE_TARGETS = new Set([
+	"/dev/null",
+	"/dev/stdout",
+	"/dev/stderr",
+	"nul",
+]);
+
+/**
+ * 关机/重启命令
+ */
+const POWER_COMMANDS = new Set(["shutdown", "reboot", "halt", "poweroff"]);
+
+const LEVEL_ORDER: Record<RiskLevel, number> = {
+	safe: 0,
+	moderate: 1,
+	dangerous: 2,
+};
+
+/**
+ * 按 shell 分隔符拆分命令（; && || | 换行），粗略处理引号
+ */
+function splitSegments(command: string): string[][] {
+	const segments: string[][] = [];
+	let tokens: string[] = [];
+	let current = "";
+	let quote: string | null = null;
+
+	const pushToken = () => {
+		if (current) {
+			tokens.push(current);
+			current = "";
+		}
+	};
+	const pushSegment = () => {
+		pushToken();
+		if (tokens.length > 0) {
+			segments.push(tokens);
+			tokens = [];
+		}
+	};
+
+	for (let i = 0; i < command.length; i++) {
+		const char = command[i]!;
+		if (quote) {
+			if (char === quote) {
+				quote = null;
+			} else {
+				current += char;
+			}
+			continue;
+		}
+		if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === ";" || char === "\n" || char === "|" || char === "&") {
+			// && 和 || 也在这里拆分；单个 & 视为后台执行，同样结束当前段
+			pushSegment();
+		} else if (char === ">") {
+			// 重定向单独成为一个 token，便于识别写入目标
+			pushToken();
+			if (command[i + 1] === ">") i++;
+			tokens.push(">");
+		} else if (/\s/.test(char)) {
+			pushToken();
+		} else {
+			current += char;
+		}
+	}
+	pushSegment();
+
+	return segments;
+}
+
+/**
+ * 判断路径是否在工作目录之外
+ */
+function isOutsideCwd(target: string, cwd: string): boolean {
+	if (!target || target.startsWith("$") || target.startsWith("%")) {
+		// 变量无法静态解析，跳过
+		return false;
+	}
+	if (IGNORED_WRITE_TARGETS.has(target.toLowerCase())) {
+		return false;
+	}
+
+	const expanded =
+		target === "~" || target.startsWith("~/")
+			? path.join(os.homedir(), target.slice(1))
+			: target;
+	const resolved = path.resolve(cwd, expanded);
+
+	// 临时目录中的写入不算越界
+	for (const base of [cwd, os.tmpdir()]) {
+		const relative = path.relative(base, resolved);
+		if (
+			relative === "" ||
+			(!relative.startsWith("..") && !path.isAbsolute(relative))
+		) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * 分析单个命令段
+ */
+function assessSegment(
+	tokens: string[],
+	cwd: string,
+	add: (level: RiskLevel, reason: string) => void,
+): void {
+	// 跳过 sudo 和环境变量赋值
+	let index = 0;
+	while (index < tokens.length) {
+		const token = tokens[index]!;
+		if (token === "sudo") {
+			add("moderate", "runs with elevated privileges");
+			index++;
+		} else if (/^\w+=/.test(token)) {
+			index++;
+		} else {
+			break;
+		}
+	}
+
+	const name = path.basename(tokens[index] ?? "").toLowerCase();
+	const args = tokens.slice(index + 1);
+	const flags = args.filter((arg) => arg.startsWith("-"));
+	const hasShortFlag = (letter: string) =>
+		flags.some((flag) => /^-[a-zA-Z]+$/.test(flag) && flag.includes(letter));
+
+	// 重定向目标
+	tokens.forEach((token, i) => {
+		if (token === ">") {
+			const target = tokens[i + 1];
+			if (target && isOutsideCwd(target, cwd)) {
+				add("dangerous", `writes outside the working directory: ${target}`);
+			}
+		}
+	});
+
+	if (POWER_COMMANDS.has(name)) {
+		add("dangerous", "shuts down or restarts the machine");
+	}
+
+	if (name.startsWith("mkfs")) {
+		add("dangerous", "formats a filesystem");
+	}
+
+	if (name === "rm") {
+		const recursive =
+			hasShortFlag("r") || hasShortFlag("R") || flags.includes("--recursive");
+		const force = hasShortFlag("f") || flags.includes("--force");
+		if (recursive && force) {
+			add("dangerous", "recursive forced delete");
+		} else {
+			add("moderate", "deletes files");
+		}
+	}
+
+	if (name === "git") {
+		const subcommand = args.find((arg) => !arg.startsWith("-"));
+		if (subcommand === "push") {
+			if (
+				hasShortFlag("f") ||
+				flags.some((flag) => flag.startsWith("--force")) ||
+				args.some((arg) => /^\+/.test(arg))
+			) {
+				add("dangerous", "force push rewrites remote history");
+			} else {
+				add("moderate", "pushes to a remote");
+			}
+		} else if (subcommand === "reset" && flags.includes("--hard")) {
+			add("dangerous", "discards local changes");
+		} else if (
+			subcommand === "clean" &&
+			(hasShortFlag("f") || flags.includes("--force"))
+		) {
+			add("dangerous", "deletes untracked files");
+		}
+	}
+
+	if (WRITE_COMMANDS.has(name)) {
+		const targets = args.filter((arg) => !arg.startsWith("-") && arg !== ">");
+		// cp/mv/ln 只有最后一个参数是写入目标（rm/mv 的源也会被修改）
+		const writeTargets =
+			name === "cp" || name === "ln" ? targets.slice(-1) : targets;
+		for (const target of writeTargets) {
+			if (isOutsideCwd(target, cwd)) {
+				add("dangerous", `writes outside the working directory: ${target}`);
+			}
+		}
+	}
+
+	if (name === "dd") {
+		const output = args.find((arg) => arg.startsWith("of="));
+		if (output && isOutsideCwd(output.slice(3), cwd)) {
+			add(
+				"dangerous",
+				`writes outside the working directory: ${output.slice(3)}`,
+			);
+		}
+	}
+}
+
+/**
+ * 编译禁止模式（无效正则按字面文本匹配）
+ */
+function compileForbiddenPattern(pattern: string): RegExp {
+	try {
+		return new RegExp(pattern, "i");
+	} catch {
+		return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+	}
+}
+
+/**
+ * 评估命令或脚本内容的风险
+ * @param command 渲染后的命令或脚本内容
+ * @param cwd 执行目录（用于判断写入是否越界）
+ * @param policy 风险策略（默认读取 .axiomate/localsettings.json）
+ */
+export function assessCommandRisk(
+	command: string,
+	cwd: string = process.cwd(),
+	policy: RiskPolicy = getLocalSettings().risk,
+): RiskAssessment {
+	let level = "safe" as RiskLevel;
+	const reasons: string[] = [];
+	let blocked = false;
+
+	const add = (ruleLevel: RiskLevel, reason: string) => {
+		if (LEVEL_ORDER[ruleLevel] > LEVEL_ORDER[level]) {
+			level = ruleLevel;
+		}
+		if (!reasons.includes(reason)) {
+			reasons.push(reason);
+		}
+	};
+
+	for (const pattern of policy.forbiddenPatterns) {
+		if (compileForbiddenPattern(pattern).test(command)) {
+			add("dangerous", `matches forbidden pattern: ${pattern}`);
+			blocked = true;
+		}
+	}
+
+	for (const rule of TEXT_RULES) {
+		if (rule.pattern.test(command)) {
+			add(rule.level, rule.reason);
+		}
+	}
+
+	for (const segment of splitSegments(command)) {
+		assessSegment(segment, cwd, add);
+	}
+
+	if (level === "dangerous" && policy.blockDangerous) {
+		blocked = true;
+	}
+
+	return { level, reasons, blocked };
+}
+
+/**
+ * 生成被策略阻止时的错误信息
+ */
+export function getRiskBlockedError(risk: RiskAssessment): string {
+	return `Blocked by risk policy (${risk.level}): ${risk.reasons.join("; ")}`;
+}
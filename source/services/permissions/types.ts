@@ -0,0 +1,66 @@
+/**
+ * 工具调用权限类型定义
+ */
+
+/**
+ * 权限检查结果
+ * - allow: 直接执行
+ * - deny: 拒绝执行
+ * - ask: 需要用户确认
+ */
+export type PermissionCheck = "allow" | "deny" | "ask";
+
+/**
+ * 用户对确认请求的选择
+ * - allow_once: 仅允许本次调用
+ * - allow_session: 本次运行期间允许同名调用
+ * - allow_always: 写入 .axiomate/localsettings.json，在此项目中始终允许
+ * - deny: 拒绝本次调用
+ */
+export type PermissionDecision =
+	"allow_once" | "allow_session" | "allow_always" | "deny";
+
+/**
+ * 需要用户确认的工具调用
+ */
+export type PermissionRequest = {
+	/** 完整调用名（如 "a-c-git_push"） */
+	callName: string;
+	/** 工具 ID（如 "a-c-git"） */
+	toolId: string;
+	/** 动作名称（如 "push"） */
+	actionName: string;
+	/** 工具显示名称 */
+	toolName: string;
+	/** 调用参数（解析后的 JSON） */
+	args: Record<string, unknown>;
+	/** 命令风险评估（仅命令/脚本类动作） */
+	risk?: RiskAssessment;
+};
+
+/**
+ * 权限确认回调，暂停工具执行并等待用户选择
+ */
+export type PermissionCallback = (
+	request: PermissionRequest,
+) => Promise<PermissionDecision>;
+
+/**
+ * 命令风险等级
+ * - safe: 只读或常规操作
+ * - moderate: 会修改项目状态或远端（如 git push、rm）
+ * - dangerous: 破坏性或影响工作目录之外（如 rm -rf、git push --force、DROP DATABASE）
+ */
+export type RiskLevel = "safe" | "moderate" | "dangerous";
+
+/**
+ * 命令风险评估结果
+ */
+export type RiskAssessment = {
+	/** 风险等级 */
+	level: RiskLevel;
+	/** 判定原因（英文，用于 UI 和工具结果） */
+	reasons: string[];
+	/** 是否被策略阻止执行 */
+	blocked: boolean;
+};
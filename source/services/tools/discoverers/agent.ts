@@ -0,0 +1,43 @@
+/**
+ * Sub-agent tool discoverer
+ *
+ * Lets the model hand a research sub-task to a sub-agent with its own
+ * conversation, so exploring a large codebase does not fill the main
+ * context. The sub-agent can only use read-only actions and returns just
+ * its final summary.
+ */
+
+import type { DiscoveredTool, ToolDefinition } from "../types.js";
+import { createInstalledTool } from "./base.js";
+
+const agentDefinition: ToolDefinition = {
+	id: "a-c-agent",
+	name: "Sub-agent",
+	description:
+		"Delegate a research sub-task to a sub-agent with its own context. " +
+		"The sub-agent can read and search files but cannot modify anything, and only its final summary is returned.",
+	category: "utility",
+	capabilities: ["execute"],
+	actions: [
+		{
+			name: "delegate",
+			description:
+				'Run a self-contained research task, e.g. "find where the database connection is configured". ' +
+				"Describe what to look for and what the summary should contain; the sub-agent does not see this conversation.",
+			parameters: [
+				{
+					name: "task",
+					description: "Task description for the sub-agent",
+					type: "string",
+					required: true,
+				},
+			],
+			commandTemplate: "__AGENT_DELEGATE__",
+		},
+	],
+};
+
+export async function detectAgent(): Promise<DiscoveredTool> {
+	// Sub-agent tool is always available (builtin)
+	return createInstalledTool(agentDefinition, "builtin", "1.0.0");
+}
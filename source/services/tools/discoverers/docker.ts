@@ -260,3 +260,22 @@ export async function detectDockerCompose(): Promise<DiscoveredTool> {
 		version,
 	);
 }
+
+/**
+ * Container runtime usable for sandboxed execution
+ */
+export type ContainerRuntime = "docker" | "podman";
+
+/**
+ * Detect a container runtime for the execution sandbox
+ * Docker is preferred; Podman is accepted as a drop-in replacement
+ */
+export async function detectContainerRuntime(): Promise<ContainerRuntime | null> {
+	if (await commandExists("docker")) {
+		return "docker";
+	}
+	if (await commandExists("podman")) {
+		return "podman";
+	}
+	return null;
+}
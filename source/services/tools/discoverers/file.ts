@@ -33,6 +33,7 @@ const fileDefinition: ToolDefinition = {
 				},
 			],
 			commandTemplate: "__FILE_READ__",
+			capabilities: ["read"],
 		},
 		{
 			name: "read_lines",
@@ -60,6 +61,7 @@ const fileDefinition: ToolDefinition = {
 				},
 			],
 			commandTemplate: "__FILE_READ_LINES__",
+			capabilities: ["read"],
 		},
 		{
 			name: "write",
@@ -126,6 +128,23 @@ const fileDefinition: ToolDefinition = {
 			],
 			commandTemplate: "__FILE_EDIT__",
 		},
+		{
+			name: "apply_patch",
+			description:
+				"Apply a unified diff (single or multi-file, git-style create/delete/rename supported). " +
+				"Hunks are matched fuzzily; the whole patch is applied atomically or not at all. " +
+				"Preserves each file's encoding and line endings",
+			parameters: [
+				{
+					name: "patch",
+					description:
+						"Unified diff text with ---/+++ file headers and @@ hunks (paths relative to cwd, a/ b/ prefixes allowed)",
+					type: "string",
+					required: true,
+				},
+			],
+			commandTemplate: "__FILE_APPLY_PATCH__",
+		},
 		{
 			name: "search",
 			description: "Search for pattern in file",
@@ -158,6 +177,123 @@ const fileDefinition: ToolDefinition = {
 				},
 			],
 			commandTemplate: "__FILE_SEARCH__",
+			capabilities: ["search"],
+		},
+		{
+			name: "find_files",
+			description:
+				"Find files in the project by glob, respecting .gitignore and .axiomateignore. Results are paginated",
+			parameters: [
+				{
+					name: "pattern",
+					description:
+						'Glob pattern. Without a slash it matches file names at any depth (e.g. "*.ts"); with a slash it matches paths (e.g. "src/**/*.test.ts")',
+					type: "string",
+					required: true,
+				},
+				{
+					name: "path",
+					description: "Directory to search (default: project root)",
+					type: "directory",
+					required: false,
+				},
+				{
+					name: "exclude",
+					description:
+						'Comma-separated globs to skip (e.g. "*.min.js,dist/**")',
+					type: "string",
+					required: false,
+				},
+				{
+					name: "max_results",
+					description: "Maximum files per page (default: 100)",
+					type: "number",
+					required: false,
+					default: 100,
+				},
+				{
+					name: "offset",
+					description:
+						"Number of results to skip, for the next page (default: 0)",
+					type: "number",
+					required: false,
+					default: 0,
+				},
+			],
+			commandTemplate: "__FILE_FIND__",
+			capabilities: ["search"],
+		},
+		{
+			name: "grep",
+			description:
+				"Search file contents across the project, respecting .gitignore and .axiomateignore. Detects each file's encoding. Results are paginated",
+			parameters: [
+				{
+					name: "pattern",
+					description: "Search pattern (string or regex)",
+					type: "string",
+					required: true,
+				},
+				{
+					name: "regex",
+					description: "Treat pattern as regex (default: false)",
+					type: "boolean",
+					required: false,
+					default: false,
+				},
+				{
+					name: "ignore_case",
+					description: "Case-insensitive search (default: false)",
+					type: "boolean",
+					required: false,
+					default: false,
+				},
+				{
+					name: "path",
+					description: "Directory to search (default: project root)",
+					type: "directory",
+					required: false,
+				},
+				{
+					name: "include",
+					description:
+						'Comma-separated globs of files to search (e.g. "*.ts,*.tsx")',
+					type: "string",
+					required: false,
+				},
+				{
+					name: "exclude",
+					description:
+						'Comma-separated globs of files to skip (e.g. "test/**")',
+					type: "string",
+					required: false,
+				},
+				{
+					name: "context_lines",
+					description:
+						"Lines of context before and after each match (default: 0, max: 10)",
+					type: "number",
+					required: false,
+					default: 0,
+				},
+				{
+					name: "max_results",
+					description: "Maximum matches per page (default: 100)",
+					type: "number",
+					required: false,
+					default: 100,
+				},
+				{
+					name: "offset",
+					description:
+						"Number of matches to skip, for the next page (default: 0)",
+					type: "number",
+					required: false,
+					default: 0,
+				},
+			],
+			commandTemplate: "__FILE_GREP__",
+			capabilities: ["search"],
 		},
 	],
 };
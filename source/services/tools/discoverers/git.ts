@@ -1,5 +1,8 @@
 /**
  * Git tool discoverer
+ *
+ * Actions with __GIT_*__ markers are run by the git handler, which passes
+ * arguments via argv (no shell) and parses status into structured JSON.
  */
 
 import type { DiscoveredTool, ToolDefinition } from "../types.js";
@@ -20,13 +23,17 @@ const gitDefinition: ToolDefinition = {
 	actions: [
 		{
 			name: "status",
-			description: "Show repository status",
+			description:
+				"Show repository status as JSON: branch, upstream ahead/behind, staged, unstaged, " +
+				"untracked and conflicted files, and any merge/rebase/cherry-pick in progress",
 			parameters: [],
-			commandTemplate: "git status",
+			commandTemplate: "__GIT_STATUS__",
+			capabilities: ["read"],
 		},
 		{
 			name: "diff",
-			description: "Show file changes",
+			description:
+				"Show changes: unstaged (default), staged, or against a ref (branch, tag or commit)",
 			parameters: [
 				{
 					name: "file",
@@ -34,8 +41,24 @@ const gitDefinition: ToolDefinition = {
 					type: "file",
 					required: false,
 				},
+				{
+					name: "staged",
+					description:
+						"Show staged changes instead of unstaged (default: false)",
+					type: "boolean",
+					required: false,
+					default: false,
+				},
+				{
+					name: "ref",
+					description:
+						"Compare against this ref instead of the index (e.g. HEAD~1, main)",
+					type: "string",
+					required: false,
+				},
 			],
-			commandTemplate: "git diff {{file}}",
+			commandTemplate: "__GIT_DIFF__",
+			capabilities: ["read"],
 		},
 		{
 			name: "log",
@@ -50,6 +73,55 @@ const gitDefinition: ToolDefinition = {
 				},
 			],
 			commandTemplate: "git log --oneline -{{count}}",
+			capabilities: ["read"],
+		},
+		{
+			name: "blame",
+			description:
+				"Show who last changed each line of a file (optionally a line range)",
+			parameters: [
+				{
+					name: "file",
+					description: "File path",
+					type: "file",
+					required: true,
+				},
+				{
+					name: "start_line",
+					description: "First line (1-based, optional)",
+					type: "number",
+					required: false,
+				},
+				{
+					name: "end_line",
+					description: "Last line (inclusive, optional)",
+					type: "number",
+					required: false,
+				},
+			],
+			commandTemplate: "__GIT_BLAME__",
+			capabilities: ["read"],
+		},
+		{
+			name: "show",
+			description: "Show a commit's message and changes",
+			parameters: [
+				{
+					name: "ref",
+					description: "Commit, branch or tag (default: HEAD)",
+					type: "string",
+					required: false,
+					default: "HEAD",
+				},
+				{
+					name: "file",
+					description: "Limit the changes to this file (optional)",
+					type: "file",
+					required: false,
+				},
+			],
+			commandTemplate: "__GIT_SHOW__",
+			capabilities: ["read"],
 		},
 		{
 			name: "add",
@@ -62,20 +134,20 @@ const gitDefinition: ToolDefinition = {
 					required: true,
 				},
 			],
-			commandTemplate: "git add {{file}}",
+			commandTemplate: "__GIT_ADD__",
 		},
 		{
 			name: "commit",
-			description: "Commit changes",
+			description: "Commit staged changes",
 			parameters: [
 				{
 					name: "message",
-					description: "Commit message",
+					description: "Commit message (may span multiple lines)",
 					type: "string",
 					required: true,
 				},
 			],
-			commandTemplate: 'git commit -m "{{message}}"',
+			commandTemplate: "__GIT_COMMIT__",
 		},
 		{
 			name: "push",
@@ -95,6 +167,45 @@ const gitDefinition: ToolDefinition = {
 			parameters: [],
 			commandTemplate: "git branch -a",
 		},
+		{
+			name: "branch_create",
+			description: "Create a branch (without switching to it)",
+			parameters: [
+				{
+					name: "name",
+					description: "New branch name",
+					type: "string",
+					required: true,
+				},
+				{
+					name: "start_point",
+					description: "Commit or branch to start from (default: HEAD)",
+					type: "string",
+					required: false,
+				},
+			],
+			commandTemplate: "__GIT_BRANCH_CREATE__",
+		},
+		{
+			name: "branch_delete",
+			description: "Delete a branch",
+			parameters: [
+				{
+					name: "name",
+					description: "Branch name",
+					type: "string",
+					required: true,
+				},
+				{
+					name: "force",
+					description: "Delete even if not fully merged (default: false)",
+					type: "boolean",
+					required: false,
+					default: false,
+				},
+			],
+			commandTemplate: "__GIT_BRANCH_DELETE__",
+		},
 		{
 			name: "checkout",
 			description: "Switch branch",
@@ -106,7 +217,48 @@ const gitDefinition: ToolDefinition = {
 					required: true,
 				},
 			],
-			commandTemplate: "git checkout {{branch}}",
+			commandTemplate: "__GIT_CHECKOUT__",
+		},
+		{
+			name: "stash_push",
+			description: "Stash working tree changes",
+			parameters: [
+				{
+					name: "message",
+					description: "Stash message (optional)",
+					type: "string",
+					required: false,
+				},
+				{
+					name: "include_untracked",
+					description: "Also stash untracked files (default: false)",
+					type: "boolean",
+					required: false,
+					default: false,
+				},
+			],
+			commandTemplate: "__GIT_STASH_PUSH__",
+		},
+		{
+			name: "stash_pop",
+			description: "Apply and drop a stash",
+			parameters: [
+				{
+					name: "index",
+					description: "Stash index (default: 0, the latest)",
+					type: "number",
+					required: false,
+					default: 0,
+				},
+			],
+			commandTemplate: "__GIT_STASH_POP__",
+		},
+		{
+			name: "stash_list",
+			description: "List stashes",
+			parameters: [],
+			commandTemplate: "__GIT_STASH_LIST__",
+			capabilities: ["read"],
 		},
 	],
 	installHint: "Download from https://git-scm.com/downloads",
@@ -14,6 +14,9 @@ import { detectWebFetch } from "./web.js";
 import { detectFile } from "./file.js";
 import { detectPlan, detectEnterPlan } from "./plan.js";
 import { detectAskUser } from "./ask_user.js";
+import { detectScratchpad } from "./scratchpad.js";
+import { detectProcess } from "./process.js";
+import { detectAgent } from "./agent.js";
 
 // 导入可发现工具发现器（需要检测外部命令）
 import { detectGit } from "./git.js";
@@ -46,6 +49,9 @@ export const builtinDiscoverers: DiscoverFunction[] = [
 	detectPlan,
 	detectEnterPlan,
 	detectAskUser,
+	detectScratchpad,
+	detectProcess,
+	detectAgent,
 ];
 
 /**
@@ -0,0 +1,118 @@
+/**
+ * Process tool discoverer
+ *
+ * Lets the model run dev servers and watchers without blocking the tool
+ * loop, and check on commands that were detached to the background after
+ * running longer than `tools.detachAfter`.
+ */
+
+import type { DiscoveredTool, ToolDefinition } from "../types.js";
+import { createInstalledTool } from "./base.js";
+
+const processDefinition: ToolDefinition = {
+	id: "a-c-process",
+	name: "Background Processes",
+	description:
+		"Run commands in the background (dev servers, watchers) and inspect, feed or stop them. " +
+		"Long-running commands are detached automatically and report their process id.",
+	category: "utility",
+	capabilities: ["execute"],
+	actions: [
+		{
+			name: "start",
+			description:
+				"Start a command in the background and return its process id immediately. " +
+				"Use this for commands that do not exit on their own, e.g. `npm run dev` or `docker compose up`.",
+			parameters: [
+				{
+					name: "command",
+					description: "Shell command to run",
+					type: "string",
+					required: true,
+				},
+			],
+			commandTemplate: "__PROCESS_START__",
+		},
+		{
+			name: "status",
+			description:
+				"Show the status of a background process, or list all of them when no id is given",
+			parameters: [
+				{
+					name: "id",
+					description: 'Process id, e.g. "p1"',
+					type: "string",
+					required: false,
+				},
+			],
+			commandTemplate: "__PROCESS_STATUS__",
+			capabilities: ["read"],
+		},
+		{
+			name: "read_output",
+			description:
+				"Read the output of a background process. Pass the returned offset as `since` on the next call to only get new output.",
+			parameters: [
+				{
+					name: "id",
+					description: 'Process id, e.g. "p1"',
+					type: "string",
+					required: true,
+				},
+				{
+					name: "since",
+					description: "Output offset to read from (default: 0)",
+					type: "number",
+					required: false,
+					default: 0,
+				},
+			],
+			commandTemplate: "__PROCESS_READ_OUTPUT__",
+			capabilities: ["read"],
+		},
+		{
+			name: "send_input",
+			description: "Write text to the standard input of a background process",
+			parameters: [
+				{
+					name: "id",
+					description: 'Process id, e.g. "p1"',
+					type: "string",
+					required: true,
+				},
+				{
+					name: "input",
+					description: "Text to send",
+					type: "string",
+					required: true,
+				},
+				{
+					name: "newline",
+					description: "Append a newline to the input (default: true)",
+					type: "boolean",
+					required: false,
+					default: true,
+				},
+			],
+			commandTemplate: "__PROCESS_SEND_INPUT__",
+		},
+		{
+			name: "stop",
+			description: "Stop a background process and its child processes",
+			parameters: [
+				{
+					name: "id",
+					description: 'Process id, e.g. "p1"',
+					type: "string",
+					required: true,
+				},
+			],
+			commandTemplate: "__PROCESS_STOP__",
+		},
+	],
+};
+
+export async function detectProcess(): Promise<DiscoveredTool> {
+	// Process tool is always available (builtin)
+	return createInstalledTool(processDefinition, "builtin", "1.0.0");
+}
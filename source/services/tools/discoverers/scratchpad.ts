@@ -0,0 +1,71 @@
+/**
+ * Scratchpad tool discoverer
+ *
+ * Provides a durable working memory for long multi-round tasks.
+ * The scratchpad lives in .axiomate/scratchpad.md and has a fixed structure:
+ * a short "Current Task" section and a "Todo" checklist section.
+ * Available in both Action Mode and Plan Mode.
+ */
+
+import { join } from "node:path";
+import type { DiscoveredTool, ToolDefinition } from "../types.js";
+import { createInstalledTool } from "./base.js";
+
+/**
+ * Maximum number of lines in the "Current Task" section
+ */
+export const SCRATCHPAD_TASK_MAX_LINES = 10;
+
+const scratchpadDefinition: ToolDefinition = {
+	id: "a-c-scratchpad",
+	name: "Scratchpad",
+	description:
+		"Durable working memory (.axiomate/scratchpad.md) that survives context compaction. " +
+		'Keep the current goal in the "task" section and progress in the "todo" checklist.',
+	category: "utility",
+	capabilities: ["read", "write"],
+	actions: [
+		{
+			name: "read",
+			description:
+				"Read the scratchpad. Call this after the conversation is compacted to recover the current task and todo list.",
+			parameters: [],
+			commandTemplate: "__SCRATCHPAD_READ__",
+			capabilities: ["read"],
+		},
+		{
+			name: "update",
+			description:
+				"Rewrite one scratchpad section. Returns only OK. " +
+				`"task": the current goal and key constraints (at most ${SCRATCHPAD_TASK_MAX_LINES} lines). ` +
+				'"todo": the full checklist, one item per line as "- [ ] item" or "- [x] item".',
+			parameters: [
+				{
+					name: "section",
+					description: 'Section to rewrite: "task" or "todo"',
+					type: "string",
+					required: true,
+				},
+				{
+					name: "content",
+					description: "New content of the section (replaces it entirely)",
+					type: "string",
+					required: true,
+				},
+			],
+			commandTemplate: "__SCRATCHPAD_UPDATE__",
+		},
+	],
+};
+
+export async function detectScratchpad(): Promise<DiscoveredTool> {
+	// Scratchpad tool is always available (builtin)
+	return createInstalledTool(scratchpadDefinition, "builtin", "1.0.0");
+}
+
+/**
+ * Get the scratchpad file path for a given working directory
+ */
+export function getScratchpadFilePath(cwd: string): string {
+	return join(cwd, ".axiomate", "scratchpad.md");
+}
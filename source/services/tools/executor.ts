@@ -15,6 +15,11 @@ import { fileHandler } from "./handlers/fileHandler.js";
 import { planFileHandler } from "./handlers/planFileHandler.js";
 import { planModeHandler } from "./handlers/planModeHandler.js";
 import { scriptHandler } from "./handlers/scriptHandler.js";
+import { scratchpadHandler } from "./handlers/scratchpadHandler.js";
+import { gitHandler } from "./handlers/gitHandler.js";
+import { mcpHandler } from "./handlers/mcpHandler.js";
+import { processHandler } from "./handlers/processHandler.js";
+import { agentHandler } from "./handlers/agentHandler.js";
 import { commandHandler } from "./handlers/commandHandler.js";
 
 // Import shared utilities for re-export
@@ -27,9 +32,16 @@ import {
 
 // Import script execution for re-export
 import { executeScript } from "./handlers/scriptHandler.js";
+import { assessCommandRisk } from "../permissions/riskAssessor.js";
+import type { RiskAssessment } from "../permissions/types.js";
+import type { ExecutionOptions } from "./handlers/types.js";
 
 // Re-export types and utilities for backward compatibility
-export type { ExecutionResult } from "./handlers/types.js";
+export type {
+	ExecutionResult,
+	ExecutionMetadata,
+	ExecutionOptions,
+} from "./handlers/types.js";
 export {
 	renderCommandTemplate,
 	validateParams,
@@ -44,6 +56,11 @@ registerHandler(webHandler);
 registerHandler(fileHandler);
 registerHandler(planFileHandler);
 registerHandler(planModeHandler);
+registerHandler(scratchpadHandler);
+registerHandler(gitHandler);
+registerHandler(mcpHandler);
+registerHandler(processHandler);
+registerHandler(agentHandler);
 registerHandler(scriptHandler);
 registerHandler(commandHandler); // Fallback, must be last
 
@@ -54,10 +71,7 @@ export async function executeToolAction(
 	tool: DiscoveredTool,
 	action: ToolAction,
 	params: Record<string, unknown>,
-	options?: {
-		cwd?: string;
-		timeout?: number;
-	},
+	options?: ExecutionOptions,
 ): Promise<import("./handlers/types.js").ExecutionResult> {
 	if (!tool.installed) {
 		return {
@@ -99,6 +113,47 @@ export async function executeToolAction(
 	};
 }
 
+/**
+ * Assess the risk of a tool action without executing it
+ * Only command templates, script content and background process commands
+ * are assessed; other special actions (file, web, plan, ...) return null
+ */
+export function assessToolActionRisk(
+	tool: DiscoveredTool,
+	action: ToolAction,
+	params: Record<string, unknown>,
+	options?: {
+		cwd?: string;
+	},
+): RiskAssessment | null {
+	if (action.commandTemplate === "__SCRIPT_EXECUTION__") {
+		const content = params["content"];
+		return typeof content === "string"
+			? assessCommandRisk(content, options?.cwd)
+			: null;
+	}
+
+	// Background processes run their command through the shell as well
+	if (action.commandTemplate === "__PROCESS_START__") {
+		const command = params["command"];
+		return typeof command === "string"
+			? assessCommandRisk(command, options?.cwd)
+			: null;
+	}
+
+	// Special action markers are handled by dedicated handlers
+	if (/^__\w+__$/.test(action.commandTemplate)) {
+		return null;
+	}
+
+	const command = renderCommandTemplate(
+		action.commandTemplate,
+		fillDefaults(action, params),
+		tool,
+	);
+	return assessCommandRisk(command, options?.cwd);
+}
+
 /**
  * Get tool action by name
  */
@@ -3,9 +3,43 @@
  * Used by executor.ts and individual handlers
  */
 
-import { spawn, type SpawnOptions } from "node:child_process";
+import {
+	spawn,
+	type ChildProcess,
+	type SpawnOptions,
+} from "node:child_process";
 import type { DiscoveredTool, ToolAction } from "./types.js";
-import type { ExecutionResult } from "./handlers/types.js";
+import type {
+	ExecutionOptions,
+	ExecutionResult,
+	OutputListener,
+} from "./handlers/types.js";
+import type { ProcessManager } from "./processManager.js";
+import {
+	buildSandboxArgs,
+	createSandboxName,
+	killSandboxContainer,
+	type SandboxConfig,
+} from "./sandbox.js";
+import {
+	getLocalSettings,
+	type ToolExecutionPolicy,
+} from "../../utils/localsettings.js";
+import { matchPermissionPattern } from "../permissions/permissionManager.js";
+
+/**
+ * Default command timeout (3 minutes)
+ */
+export const DEFAULT_COMMAND_TIMEOUT = 180000;
+
+/**
+ * Hand a long-running command over to a process manager instead of killing it
+ */
+export type DetachOptions = {
+	/** Detach after the command has run this long (ms) */
+	after: number;
+	processes: ProcessManager;
+};
 
 /**
  * Render command template
@@ -99,10 +133,98 @@ export function fillDefaults(
 	return result;
 }
 
+/**
+ * Build detach options from handler execution options
+ * @returns undefined when detaching is disabled or no process manager is available
+ */
+export function getDetachOptions(
+	options?: ExecutionOptions,
+): DetachOptions | undefined {
+	return options?.processes && options.detachAfter && options.detachAfter > 0
+		? { after: options.detachAfter, processes: options.processes }
+		: undefined;
+}
+
+/**
+ * Get the configured timeout for a tool call
+ * The most specific (longest) matching pattern in `tools.timeouts` wins
+ * @param callName Tool call name, e.g. "a-c-bash_run"
+ * @returns Timeout in ms, undefined to use the handler's default
+ */
+export function getToolTimeout(
+	callName: string,
+	policy: ToolExecutionPolicy = getLocalSettings().tools,
+): number | undefined {
+	const { timeouts } = policy;
+	let best: string | undefined;
+	for (const pattern of Object.keys(timeouts)) {
+		if (
+			matchPermissionPattern(pattern, callName) &&
+			(best === undefined || pattern.length > best.length)
+		) {
+			best = pattern;
+		}
+	}
+	const timeout = best !== undefined ? timeouts[best] : undefined;
+	return typeof timeout === "number" && timeout > 0 ? timeout : undefined;
+}
+
+/**
+ * Kill a process together with the processes it started
+ * Commands run through a shell, so killing only the shell would leave
+ * e.g. `npm test` and its workers running.
+ */
+export function killProcessTree(
+	proc: ChildProcess,
+	signal: NodeJS.Signals = "SIGTERM",
+): void {
+	if (proc.pid === undefined || proc.exitCode !== null) {
+		return;
+	}
+	if (process.platform === "win32") {
+		spawn("taskkill", ["/pid", String(proc.pid), "/T", "/F"], {
+			stdio: "ignore",
+			windowsHide: true,
+		}).on("error", () => {});
+		return;
+	}
+	try {
+		// Negative PID: the whole process group (spawned with detached: true)
+		process.kill(-proc.pid, signal);
+	} catch {
+		proc.kill(signal);
+	}
+}
+
+// Kill functions of executeCommand children that are still running
+const runningCommands = new Set<() => void>();
+
+/**
+ * Kill all commands started by executeCommand that are still running
+ * They run in their own process group, so they would outlive the app.
+ * Detached commands belong to the process manager and are not included.
+ */
+export function stopRunningCommands(): void {
+	for (const kill of runningCommands) {
+		kill();
+	}
+}
+
 /**
  * Execute command
  * Note: Encoding handling should be done by each tool's commandTemplate,
  * not here. This function just executes the command as-is.
+ *
+ * With `sandbox`, the command runs via `sh -c` inside a throwaway container
+ * instead of on the host; `env` is passed into the container.
+ *
+ * With `args`, `command` is the executable and the arguments are passed via
+ * argv without a shell, so they need no quoting or escaping.
+ *
+ * Output is streamed to `onOutput` as it arrives. Aborting `signal` or
+ * hitting the timeout kills the whole process tree. With `detach`, a command
+ * still running after `detach.after` ms is handed to the process manager and
+ * the call returns the output so far.
  */
 export async function executeCommand(
 	command: string,
@@ -111,42 +233,138 @@ export async function executeCommand(
 		env?: Record<string, string>;
 		timeout?: number;
 		shell?: boolean;
+		sandbox?: SandboxConfig;
+		args?: string[];
+		onOutput?: OutputListener;
+		signal?: AbortSignal;
+		detach?: DetachOptions;
 	},
 ): Promise<ExecutionResult> {
 	return new Promise((resolve) => {
+		const sandbox = options?.sandbox;
+		const sandboxName = sandbox ? createSandboxName() : undefined;
+
+		if (options?.signal?.aborted) {
+			resolve({
+				success: false,
+				stdout: "",
+				stderr: "",
+				exitCode: null,
+				error: "Command execution aborted",
+			});
+			return;
+		}
+
 		const spawnOptions: SpawnOptions = {
 			cwd: options?.cwd,
 			env: {
 				...process.env,
-				...options?.env,
+				...(sandbox ? {} : options?.env),
 			},
-			shell: options?.shell ?? true,
+			shell: sandbox || options?.args ? false : (options?.shell ?? true),
 			windowsHide: true,
+			// Own process group so the whole tree can be killed
+			detached: process.platform !== "win32",
 		};
 
-		const proc = spawn(command, [], spawnOptions);
+		const proc =
+			sandbox && sandboxName
+				? spawn(
+						sandbox.runtime,
+						buildSandboxArgs(sandbox, command, {
+							cwd: options?.cwd || process.cwd(),
+							name: sandboxName,
+							env: options?.env,
+						}),
+						spawnOptions,
+					)
+				: spawn(command, options?.args ?? [], spawnOptions);
 
 		let stdout = "";
 		let stderr = "";
+		// stdout and stderr in arrival order (handed over when detaching)
+		let combined = "";
 		let timedOut = false;
+		let aborted = false;
+		let settled = false;
 
-		const timeout = options?.timeout ?? 180000; // 3 minutes default
+		// Killing the client does not stop the container itself
+		const stopContainer =
+			sandbox && sandboxName
+				? () => killSandboxContainer(sandbox.runtime, sandboxName)
+				: undefined;
+
+		const kill = () => {
+			killProcessTree(proc);
+			stopContainer?.();
+		};
+		runningCommands.add(kill);
+
+		const timeout = options?.timeout ?? DEFAULT_COMMAND_TIMEOUT;
 		const timer = setTimeout(() => {
 			timedOut = true;
-			proc.kill("SIGTERM");
+			kill();
 		}, timeout);
 
+		const onAbort = () => {
+			aborted = true;
+			kill();
+		};
+		options?.signal?.addEventListener("abort", onAbort, { once: true });
+
+		const finish = (result: ExecutionResult) => {
+			if (settled) return;
+			settled = true;
+			runningCommands.delete(kill);
+			clearTimeout(timer);
+			clearTimeout(detachTimer);
+			options?.signal?.removeEventListener("abort", onAbort);
+			resolve(result);
+		};
+
+		const detach = options?.detach;
+		const detachTimer =
+			detach && detach.after < timeout
+				? setTimeout(() => {
+						const id = detach.processes.adopt(
+							proc,
+							command,
+							combined,
+							stopContainer,
+						);
+						finish({
+							success: true,
+							stdout: [
+								stdout.trim(),
+								`[Still running after ${Math.round(detach.after / 1000)}s, detached to background as process ${id}. ` +
+									`Use a-c-process_read_output with id "${id}" to check on it, a-c-process_stop to stop it.]`,
+							]
+								.filter(Boolean)
+								.join("\n"),
+							stderr: stderr.trim(),
+							exitCode: null,
+						});
+					}, detach.after)
+				: undefined;
+
 		proc.stdout?.on("data", (data: Buffer) => {
-			stdout += data.toString("utf8");
+			if (settled) return;
+			const text = data.toString("utf8");
+			stdout += text;
+			combined += text;
+			options?.onOutput?.(text, "stdout");
 		});
 
 		proc.stderr?.on("data", (data: Buffer) => {
-			stderr += data.toString("utf8");
+			if (settled) return;
+			const text = data.toString("utf8");
+			stderr += text;
+			combined += text;
+			options?.onOutput?.(text, "stderr");
 		});
 
 		proc.on("error", (err) => {
-			clearTimeout(timer);
-			resolve({
+			finish({
 				success: false,
 				stdout,
 				stderr,
@@ -156,13 +374,16 @@ export async function executeCommand(
 		});
 
 		proc.on("close", (code) => {
-			clearTimeout(timer);
-			resolve({
-				success: code === 0 && !timedOut,
+			finish({
+				success: code === 0 && !timedOut && !aborted,
 				stdout: stdout.trim(),
 				stderr: stderr.trim(),
 				exitCode: code,
-				error: timedOut ? "Command execution timed out" : undefined,
+				error: aborted
+					? "Command execution aborted"
+					: timedOut
+						? "Command execution timed out"
+						: undefined,
 			});
 		});
 	});
@@ -34,6 +34,15 @@ import {
 	getBOMForEncoding,
 	type EncodingInfo,
 } from "./encodingDetector.js";
+import {
+	detectLineEnding,
+	getMixedLineEndingWarning,
+	matchLineEndings,
+	normalizeLineEndings,
+	type LineEnding,
+	type LineEndingInfo,
+} from "./lineEndingDetector.js";
+import { getUndoManager } from "../undo/undoManager.js";
 
 export type WriteMode = "overwrite" | "append";
 
@@ -41,6 +50,8 @@ export type FileReadResult = {
 	success: boolean;
 	content: string | null;
 	encoding?: EncodingInfo; // Detected encoding info
+	lineEnding?: LineEndingInfo; // Detected line endings
+	warning?: string; // e.g. mixed line endings
 	error?: string;
 };
 
@@ -48,6 +59,7 @@ export type FileWriteResult = {
 	success: boolean;
 	path: string;
 	encoding?: string; // Actual encoding used
+	lineEnding?: LineEnding; // Line ending content was normalised to
 	error?: string;
 };
 
@@ -56,6 +68,7 @@ export type FileEditResult = {
 	path: string;
 	replaced: number; // Number of replacements made
 	encoding?: string; // Preserved original encoding
+	lineEnding?: LineEnding; // Line ending new content was normalised to
 	error?: string;
 };
 
@@ -66,6 +79,8 @@ export type FileReadLinesResult = {
 	startLine: number;
 	endLine: number;
 	encoding?: EncodingInfo;
+	lineEnding?: LineEndingInfo;
+	warning?: string;
 	error?: string;
 };
 
@@ -94,6 +109,29 @@ export function ensureDir(filePath: string): void {
 	}
 }
 
+/**
+ * Decode file content using detected encoding info (strips BOM)
+ * @param buffer Raw file content
+ * @param encodingInfo Encoding info from detectEncoding
+ */
+export function decodeBuffer(
+	buffer: Buffer,
+	encodingInfo: EncodingInfo,
+): string {
+	const normalizedEncoding = normalizeEncodingName(encodingInfo.encoding);
+
+	if (normalizedEncoding === "utf8" && !encodingInfo.hasBOM) {
+		// Fast path for UTF-8 without BOM
+		return buffer.toString("utf8");
+	}
+
+	// Strip BOM if present, then decode
+	const dataBuffer = encodingInfo.hasBOM
+		? buffer.subarray(encodingInfo.bomBytes)
+		: buffer;
+	return iconv.decode(dataBuffer, normalizedEncoding);
+}
+
 /**
  * Read file with auto encoding detection
  * @param filePath File path
@@ -131,22 +169,16 @@ export function readFileContent(
 				}
 			: detectEncoding(buffer);
 
-		// Decode content
-		const normalizedEncoding = normalizeEncodingName(encodingInfo.encoding);
-		let content: string;
+		const content = decodeBuffer(buffer, encodingInfo);
+		const lineEnding = detectLineEnding(content);
 
-		if (normalizedEncoding === "utf8" && !encodingInfo.hasBOM) {
-			// Fast path for UTF-8 without BOM
-			content = buffer.toString("utf8");
-		} else {
-			// Strip BOM if present, then decode
-			const dataBuffer = encodingInfo.hasBOM
-				? buffer.subarray(encodingInfo.bomBytes)
-				: buffer;
-			content = iconv.decode(dataBuffer, normalizedEncoding);
-		}
-
-		return { success: true, content, encoding: encodingInfo };
+		return {
+			success: true,
+			content,
+			encoding: encodingInfo,
+			lineEnding,
+			warning: getMixedLineEndingWarning(lineEnding),
+		};
 	} catch (err) {
 		return {
 			success: false,
@@ -163,6 +195,8 @@ export function readFileContent(
  * @param mode Write mode
  * @param encoding Target encoding (default: utf-8 for new files, preserve for existing)
  * @param addBOM Add BOM for UTF encodings (default: false)
+ * @param preserveLineEndings Normalise content to the existing file's line endings
+ *   and trailing newline (append only converts line breaks) (default: true)
  */
 export function writeFileContent(
 	filePath: string,
@@ -170,19 +204,37 @@ export function writeFileContent(
 	mode: WriteMode = "overwrite",
 	encoding?: string,
 	addBOM: boolean = false,
+	preserveLineEndings: boolean = true,
 ): FileWriteResult {
 	try {
+		// Snapshot original content for /undo (no-op outside an AI turn)
+		getUndoManager().snapshot(filePath);
+
 		ensureDir(filePath);
 
 		// Determine encoding: use provided, or detect from existing file, or default to utf-8
 		let targetEncoding = encoding;
-		if (!targetEncoding && existsSync(filePath)) {
+		let lineEnding: LineEnding | undefined;
+		if ((!targetEncoding || preserveLineEndings) && existsSync(filePath)) {
 			const buffer = readFileSync(filePath);
 			const detected = detectEncoding(buffer);
-			targetEncoding = detected.encoding;
-			// Preserve BOM if original had it
-			if (detected.hasBOM && !addBOM) {
-				addBOM = true;
+			if (!targetEncoding) {
+				targetEncoding = detected.encoding;
+				// Preserve BOM if original had it
+				if (detected.hasBOM && !addBOM) {
+					addBOM = true;
+				}
+			}
+
+			if (preserveLineEndings) {
+				const original = detectLineEnding(decodeBuffer(buffer, detected));
+				if (original.lfCount + original.crlfCount > 0) {
+					lineEnding = original.lineEnding;
+					content =
+						mode === "append"
+							? normalizeLineEndings(content, lineEnding)
+							: matchLineEndings(content, original);
+				}
 			}
 		}
 		targetEncoding = targetEncoding || "utf-8";
@@ -210,7 +262,12 @@ export function writeFileContent(
 			writeFileSync(filePath, buffer);
 		}
 
-		return { success: true, path: filePath, encoding: targetEncoding };
+		return {
+			success: true,
+			path: filePath,
+			encoding: targetEncoding,
+			lineEnding,
+		};
 	} catch (err) {
 		return {
 			success: false,
@@ -221,7 +278,9 @@ export function writeFileContent(
 }
 
 /**
- * Edit file preserving original encoding
+ * Edit file preserving original encoding and line endings
+ * Line breaks in old/new content may be LF or CRLF, they are matched
+ * against the file's own line endings
  */
 export function editFileContent(
 	filePath: string,
@@ -243,6 +302,26 @@ export function editFileContent(
 		let content = readResult.content;
 		let replaced = 0;
 
+		// Model output usually uses LF, retry with the file's line endings
+		const fileLineEnding =
+			readResult.lineEnding ?? detectLineEnding(readResult.content);
+		if (
+			!content.includes(oldContent) &&
+			fileLineEnding.lfCount + fileLineEnding.crlfCount > 0
+		) {
+			oldContent = normalizeLineEndings(oldContent, fileLineEnding.lineEnding);
+		}
+
+		// New line breaks follow the matched text, or the file when it has none
+		const matchedLineEnding = detectLineEnding(oldContent);
+		const lineEnding =
+			matchedLineEnding.lfCount + matchedLineEnding.crlfCount > 0
+				? matchedLineEnding.lineEnding
+				: fileLineEnding.lineEnding;
+		if (fileLineEnding.lfCount + fileLineEnding.crlfCount > 0) {
+			newContent = normalizeLineEndings(newContent, lineEnding);
+		}
+
 		if (replaceAll) {
 			const parts = content.split(oldContent);
 			replaced = parts.length - 1;
@@ -271,13 +350,21 @@ export function editFileContent(
 		const originalEncoding = readResult.encoding?.encoding || "utf-8";
 		const addBOM = readResult.encoding?.hasBOM || false;
 
-		writeFileContent(filePath, content, "overwrite", originalEncoding, addBOM);
+		writeFileContent(
+			filePath,
+			content,
+			"overwrite",
+			originalEncoding,
+			addBOM,
+			false,
+		);
 
 		return {
 			success: true,
 			path: filePath,
 			replaced,
 			encoding: originalEncoding,
+			lineEnding,
 		};
 	} catch (err) {
 		return {
@@ -327,6 +414,8 @@ export function readFileLines(
 			startLine: start,
 			endLine: end,
 			encoding: readResult.encoding,
+			lineEnding: readResult.lineEnding,
+			warning: readResult.warning,
 		};
 	}
 
@@ -339,6 +428,8 @@ export function readFileLines(
 		startLine: start,
 		endLine: Math.min(end, totalLines),
 		encoding: readResult.encoding,
+		lineEnding: readResult.lineEnding,
+		warning: readResult.warning,
 	};
 }
 
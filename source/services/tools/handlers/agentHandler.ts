@@ -0,0 +1,60 @@
+/**
+ * Agent handler
+ * Runs delegated tasks in a sub-agent and returns its final summary
+ */
+
+import type { RegisteredHandler, ExecutionResult } from "./types.js";
+
+/**
+ * Agent handler - handles __AGENT_DELEGATE__ actions
+ */
+export const agentHandler: RegisteredHandler = {
+	name: "agent",
+	matches: (ctx) => ctx.action.commandTemplate === "__AGENT_DELEGATE__",
+	handle: async (ctx) => {
+		const { params, options } = ctx;
+		const delegate = options?.delegate;
+		if (!delegate) {
+			return failure("Sub-agents are not available in this context");
+		}
+
+		const task = typeof params.task === "string" ? params.task.trim() : "";
+		if (!task) {
+			return failure("Task is required");
+		}
+
+		try {
+			const summary = await delegate(task, {
+				onOutput: options?.onOutput,
+				signal: options?.signal,
+			});
+			return success(summary.trim() || "(sub-agent returned no summary)");
+		} catch (err) {
+			if (err instanceof Error && err.name === "AbortError") {
+				return failure("Sub-agent aborted");
+			}
+			return failure(
+				`Sub-agent failed: ${err instanceof Error ? err.message : String(err)}`,
+			);
+		}
+	},
+};
+
+function success(stdout: string): ExecutionResult {
+	return {
+		success: true,
+		stdout,
+		stderr: "",
+		exitCode: 0,
+	};
+}
+
+function failure(error: string): ExecutionResult {
+	return {
+		success: false,
+		stdout: "",
+		stderr: "",
+		exitCode: null,
+		error,
+	};
+}
@@ -5,7 +5,16 @@
  */
 
 import type { RegisteredHandler } from "./types.js";
-import { renderCommandTemplate, executeCommand } from "../executorUtils.js";
+import {
+	renderCommandTemplate,
+	executeCommand,
+	getDetachOptions,
+} from "../executorUtils.js";
+import {
+	assessCommandRisk,
+	getRiskBlockedError,
+} from "../../permissions/riskAssessor.js";
+import { getSandboxInterpreter, resolveSandbox } from "../sandbox.js";
 
 /**
  * Command handler - handles template-based command execution
@@ -19,10 +28,31 @@ export const commandHandler: RegisteredHandler = {
 
 		const command = renderCommandTemplate(action.commandTemplate, params, tool);
 
-		return executeCommand(command, {
+		// Assess the rendered command before running it
+		const risk = assessCommandRisk(command, options?.cwd);
+		if (risk.blocked) {
+			return {
+				success: false,
+				stdout: "",
+				stderr: "",
+				exitCode: null,
+				error: getRiskBlockedError(risk),
+				metadata: { risk },
+			};
+		}
+
+		// Run bash/python/node commands in a container when the project asks for it
+		const sandbox = await resolveSandbox(getSandboxInterpreter(tool.id), risk);
+
+		const result = await executeCommand(command, {
 			cwd: options?.cwd,
 			env: tool.env,
 			timeout: options?.timeout,
+			sandbox: sandbox.config,
+			onOutput: options?.onOutput,
+			signal: options?.signal,
+			detach: getDetachOptions(options),
 		});
+		return { ...result, metadata: { risk, sandbox: sandbox.info } };
 	},
 };
@@ -1,6 +1,7 @@
 /**
  * File operations handler
- * Handles file read, write, edit, search, and read_lines actions
+ * Handles file read, write, edit, apply_patch, search, read_lines, find_files
+ * and grep actions
  */
 
 import { join, isAbsolute } from "node:path";
@@ -13,6 +14,9 @@ import {
 	searchInFile,
 	type WriteMode,
 } from "../fileOperations.js";
+import { findFiles, grepFiles, type GrepMatch } from "../projectSearch.js";
+import { applyPatch, type PatchFileChange } from "../patchApplier.js";
+import type { LineEndingInfo } from "../lineEndingDetector.js";
 
 /**
  * File handler - handles all __FILE_* actions
@@ -35,6 +39,12 @@ export const fileHandler: RegisteredHandler = {
 				return handleFileSearch(params, cwd);
 			case "__FILE_EDIT__":
 				return handleFileEdit(params, cwd);
+			case "__FILE_APPLY_PATCH__":
+				return handleFileApplyPatch(params, cwd);
+			case "__FILE_FIND__":
+				return handleFileFind(params, cwd);
+			case "__FILE_GREP__":
+				return handleFileGrep(params, cwd);
 			default:
 				return {
 					success: false,
@@ -51,6 +61,19 @@ function resolvePath(path: string, cwd: string): string {
 	return isAbsolute(path) ? path : join(cwd, path);
 }
 
+/**
+ * Format line ending info for output headers, e.g. ", Line endings: CRLF"
+ */
+function formatLineEndings(info: LineEndingInfo | undefined): string {
+	if (!info || info.lfCount + info.crlfCount === 0) return "";
+	const trailing = info.hasTrailingNewline ? "" : ", no trailing newline";
+	return `, Line endings: ${info.lineEnding.toUpperCase()}${trailing}`;
+}
+
+function formatWarning(warning: string | undefined): string {
+	return warning ? `[Warning: ${warning}]\n` : "";
+}
+
 function handleFileRead(
 	params: Record<string, unknown>,
 	cwd: string,
@@ -61,7 +84,8 @@ function handleFileRead(
 
 	const result = readFileContent(fullPath, encoding);
 	const encodingInfo = result.encoding
-		? `[Encoding: ${result.encoding.encoding}${result.encoding.hasBOM ? " (with BOM)" : ""}]\n`
+		? `[Encoding: ${result.encoding.encoding}${result.encoding.hasBOM ? " (with BOM)" : ""}${formatLineEndings(result.lineEnding)}]\n` +
+			formatWarning(result.warning)
 		: "";
 
 	return {
@@ -84,7 +108,8 @@ function handleFileReadLines(
 
 	const result = readFileLines(fullPath, startLine, endLine);
 	const header = result.success
-		? `[Lines ${result.startLine}-${result.endLine} of ${result.totalLines}]\n`
+		? `[Lines ${result.startLine}-${result.endLine} of ${result.totalLines}${formatLineEndings(result.lineEnding)}]\n` +
+			formatWarning(result.warning)
 		: "";
 
 	return {
@@ -111,7 +136,7 @@ function handleFileWrite(
 	return {
 		success: result.success,
 		stdout: result.success
-			? `Written to ${result.path} (encoding: ${result.encoding || "utf-8"})`
+			? `Written to ${result.path} (encoding: ${result.encoding || "utf-8"}${result.lineEnding ? `, line endings: ${result.lineEnding.toUpperCase()}` : ""})`
 			: "",
 		stderr: "",
 		exitCode: result.success ? 0 : 1,
@@ -171,3 +196,204 @@ function handleFileEdit(
 		error: result.error,
 	};
 }
+
+const PATCH_OPERATION_MARKS: Record<PatchFileChange["operation"], string> = {
+	modify: "M",
+	create: "A",
+	delete: "D",
+	rename: "R",
+};
+
+function handleFileApplyPatch(
+	params: Record<string, unknown>,
+	cwd: string,
+): ExecutionResult {
+	const result = applyPatch(cwd, String(params.patch ?? ""));
+
+	if (!result.success) {
+		const failures = result.failures.map((f) => {
+			const location =
+				f.hunk === null ? f.path : `${f.path} hunk ${f.hunk} (${f.header})`;
+			return `${location}: ${f.reason}`;
+		});
+		return {
+			success: false,
+			stdout: "",
+			stderr: "",
+			exitCode: 1,
+			error:
+				result.error ??
+				`Patch not applied, no files were changed. ${failures.length} problem(s):\n${failures.join("\n")}`,
+		};
+	}
+
+	const lines = result.changes.flatMap((change) => {
+		const target = change.fromPath
+			? `${change.fromPath} -> ${change.path}`
+			: change.path;
+		const hunks = change.hunks > 0 ? ` (${change.hunks} hunk(s))` : "";
+		return [
+			`${PATCH_OPERATION_MARKS[change.operation]} ${target}${hunks}`,
+			...change.notes.map((note) => `  ${note}`),
+		];
+	});
+
+	return {
+		success: true,
+		stdout: `Applied patch to ${result.changes.length} file(s):\n${lines.join("\n")}`,
+		stderr: "",
+		exitCode: 0,
+	};
+}
+
+/**
+ * Split a comma-separated glob list
+ */
+function splitGlobs(value: unknown): string[] | undefined {
+	if (typeof value !== "string" || !value.trim()) return undefined;
+	return value
+		.split(",")
+		.map((glob) => glob.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Build the page header, e.g. "[Files 1-100, more available: offset=100]"
+ */
+function formatPageHeader(
+	label: string,
+	offset: number,
+	count: number,
+	hasMore: boolean,
+	suffix = "",
+): string {
+	const range = count > 0 ? ` ${offset + 1}-${offset + count}` : "";
+	const more = hasMore ? `, more available: offset=${offset + count}` : "";
+	return `[${label}${range}${suffix}${more}]`;
+}
+
+async function handleFileFind(
+	params: Record<string, unknown>,
+	cwd: string,
+): Promise<ExecutionResult> {
+	const result = await findFiles(cwd, params.pattern as string, {
+		path: params.path as string | undefined,
+		exclude: splitGlobs(params.exclude),
+		maxResults: (params.max_results as number) || 100,
+		offset: (params.offset as number) || 0,
+	});
+
+	if (!result.success) {
+		return {
+			success: false,
+			stdout: "",
+			stderr: "",
+			exitCode: 1,
+			error: result.error,
+		};
+	}
+
+	const header = formatPageHeader(
+		"Files",
+		result.offset,
+		result.files.length,
+		result.hasMore,
+	);
+	const body =
+		result.files.length > 0 ? result.files.join("\n") : "(no files found)";
+
+	return {
+		success: true,
+		stdout: `${header}\n${body}`,
+		stderr: "",
+		exitCode: 0,
+	};
+}
+
+async function handleFileGrep(
+	params: Record<string, unknown>,
+	cwd: string,
+): Promise<ExecutionResult> {
+	const pattern = params.pattern as string;
+	const isRegex = params.regex === true;
+	const ignoreCase = params.ignore_case === true;
+
+	let searchPattern: string | RegExp = pattern;
+	if (isRegex || ignoreCase) {
+		try {
+			searchPattern = new RegExp(
+				isRegex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+				ignoreCase ? "gi" : "g",
+			);
+		} catch (err) {
+			return {
+				success: false,
+				stdout: "",
+				stderr: "",
+				exitCode: 1,
+				error: `Invalid regex: ${err instanceof Error ? err.message : String(err)}`,
+			};
+		}
+	}
+
+	const result = await grepFiles(cwd, searchPattern, {
+		path: params.path as string | undefined,
+		include: splitGlobs(params.include),
+		exclude: splitGlobs(params.exclude),
+		contextLines: (params.context_lines as number) || 0,
+		maxResults: (params.max_results as number) || 100,
+		offset: (params.offset as number) || 0,
+	});
+
+	if (!result.success) {
+		return {
+			success: false,
+			stdout: "",
+			stderr: "",
+			exitCode: 1,
+			error: result.error,
+		};
+	}
+
+	const header = formatPageHeader(
+		"Matches",
+		result.offset,
+		result.matches.length,
+		result.hasMore,
+		` in ${result.filesSearched} file(s) searched`,
+	);
+	const body =
+		result.matches.length > 0
+			? formatGrepMatches(result.matches)
+			: "(no matches)";
+
+	return {
+		success: true,
+		stdout: `${header}\n${body}`,
+		stderr: "",
+		exitCode: 0,
+	};
+}
+
+/**
+ * Format matches grep-style: "path:line:column: content" for matches and
+ * "path-line- content" for context lines, with "--" between context groups
+ */
+function formatGrepMatches(matches: GrepMatch[]): string {
+	const hasContext = matches.some(
+		(m) => m.before.length > 0 || m.after.length > 0,
+	);
+
+	return matches
+		.map((m) => {
+			const lines = [
+				...m.before.map(
+					(text, i) => `${m.path}-${m.line - m.before.length + i}- ${text}`,
+				),
+				`${m.path}:${m.line}:${m.column}: ${m.content}`,
+				...m.after.map((text, i) => `${m.path}-${m.line + 1 + i}- ${text}`),
+			];
+			return lines.join("\n");
+		})
+		.join(hasContext ? "\n--\n" : "\n");
+}
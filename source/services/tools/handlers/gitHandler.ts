@@ -0,0 +1,401 @@
+/**
+ * Git handler
+ * Handles all __GIT_* actions
+ *
+ * Git runs with argv instead of a shell string, so commit messages, paths
+ * and refs need no quoting. Status is parsed from `--porcelain=v2` into JSON.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { isAbsolute, join } from "node:path";
+import type { RegisteredHandler, ExecutionResult } from "./types.js";
+import { executeCommand } from "../executorUtils.js";
+
+export type GitFileStatus =
+	"modified" | "type-changed" | "added" | "deleted" | "renamed" | "copied";
+
+export type GitFileChange = {
+	path: string;
+	status: GitFileStatus;
+	/** Original path for renames and copies */
+	origPath?: string;
+};
+
+export type GitConflict = {
+	path: string;
+	/** Unmerged status code, e.g. "UU" (both modified), "AA" (both added) */
+	code: string;
+};
+
+export type GitOperation = {
+	type: "merge" | "rebase" | "cherry-pick" | "revert" | "bisect";
+	/** Branch being rebased */
+	branch?: string;
+	/** Current rebase step (1-based) and total steps */
+	step?: number;
+	total?: number;
+};
+
+export type GitStatus = {
+	branch: {
+		/** Branch name, null when HEAD is detached */
+		head: string | null;
+		/** HEAD commit, null before the first commit */
+		oid: string | null;
+		upstream: string | null;
+		ahead: number;
+		behind: number;
+	};
+	staged: GitFileChange[];
+	unstaged: GitFileChange[];
+	untracked: string[];
+	conflicted: GitConflict[];
+	/** Merge, rebase, etc. in progress */
+	operation: GitOperation | null;
+	clean: boolean;
+};
+
+const FILE_STATUS_CODES: Record<string, GitFileStatus> = {
+	M: "modified",
+	T: "type-changed",
+	A: "added",
+	D: "deleted",
+	R: "renamed",
+	C: "copied",
+};
+
+/**
+ * Git handler - handles all __GIT_* actions
+ */
+export const gitHandler: RegisteredHandler = {
+	name: "git",
+	matches: (ctx) => ctx.action.commandTemplate.startsWith("__GIT_"),
+	handle: async (ctx) => {
+		const { tool, action, params, options } = ctx;
+		const cwd = options?.cwd || process.cwd();
+		const git = (args: string[]) =>
+			executeCommand(tool.executablePath || "git", {
+				cwd,
+				timeout: options?.timeout,
+				args,
+				onOutput: options?.onOutput,
+				signal: options?.signal,
+			});
+
+		if (action.commandTemplate === "__GIT_STATUS__") {
+			return handleGitStatus(git, cwd);
+		}
+
+		const args = buildGitArgs(action.commandTemplate, params);
+		if (typeof args === "string") {
+			return failure(args);
+		}
+
+		const result = await git(args);
+		if (!result.success) {
+			return {
+				...result,
+				error:
+					result.error ||
+					result.stderr ||
+					result.stdout ||
+					`git exited with code ${result.exitCode}`,
+			};
+		}
+
+		return {
+			...result,
+			stdout:
+				result.stdout ||
+				result.stderr ||
+				EMPTY_OUTPUT[action.commandTemplate] ||
+				"OK",
+		};
+	},
+};
+
+/**
+ * Output shown when a successful action prints nothing
+ */
+const EMPTY_OUTPUT: Record<string, string> = {
+	__GIT_DIFF__: "(no changes)",
+	__GIT_STASH_LIST__: "(no stashes)",
+};
+
+function isTrue(value: unknown): boolean {
+	return value === true || value === "true";
+}
+
+function optionalString(value: unknown): string | undefined {
+	return value === undefined || value === null || value === ""
+		? undefined
+		: String(value);
+}
+
+/**
+ * Build git argv for an action
+ * @returns argv, or an error message for invalid parameters
+ */
+export function buildGitArgs(
+	template: string,
+	params: Record<string, unknown>,
+): string[] | string {
+	const file = optionalString(params.file);
+	const ref = optionalString(params.ref);
+
+	// Refs and names are positional, reject values git would read as options
+	for (const name of ["ref", "name", "branch", "start_point"]) {
+		if (optionalString(params[name])?.startsWith("-")) {
+			return `Invalid ${name}: ${params[name]}`;
+		}
+	}
+
+	switch (template) {
+		case "__GIT_DIFF__":
+			return [
+				"diff",
+				...(isTrue(params.staged) ? ["--cached"] : []),
+				...(ref ? [ref] : []),
+				...(file ? ["--", file] : []),
+			];
+
+		case "__GIT_BLAME__": {
+			const start = Number(params.start_line) || 0;
+			const end = Number(params.end_line) || 0;
+			const range = start || end ? ["-L", `${start || 1},${end || ""}`] : [];
+			return ["blame", "--date=short", ...range, "--", file ?? ""];
+		}
+
+		case "__GIT_SHOW__":
+			return [
+				"show",
+				"--stat",
+				"--patch",
+				ref ?? "HEAD",
+				...(file ? ["--", file] : []),
+			];
+
+		case "__GIT_ADD__":
+			return ["add", "--", file ?? "."];
+
+		case "__GIT_COMMIT__":
+			return ["commit", "-m", String(params.message ?? "")];
+
+		case "__GIT_BRANCH_CREATE__": {
+			const startPoint = optionalString(params.start_point);
+			return [
+				"branch",
+				String(params.name),
+				...(startPoint ? [startPoint] : []),
+			];
+		}
+
+		case "__GIT_BRANCH_DELETE__":
+			return [
+				"branch",
+				isTrue(params.force) ? "-D" : "-d",
+				String(params.name),
+			];
+
+		case "__GIT_CHECKOUT__":
+			return ["checkout", String(params.branch)];
+
+		case "__GIT_STASH_PUSH__": {
+			const message = optionalString(params.message);
+			return [
+				"stash",
+				"push",
+				...(isTrue(params.include_untracked) ? ["--include-untracked"] : []),
+				...(message ? ["-m", message] : []),
+			];
+		}
+
+		case "__GIT_STASH_POP__":
+			return ["stash", "pop", `stash@{${Number(params.index) || 0}}`];
+
+		case "__GIT_STASH_LIST__":
+			return ["stash", "list"];
+
+		default:
+			return `Unknown git action: ${template}`;
+	}
+}
+
+/**
+ * Split a record into fields; the last field keeps any remaining spaces (paths)
+ */
+function splitFields(record: string, count: number): string[] {
+	const fields: string[] = [];
+	let rest = record;
+	for (let i = 0; i < count - 1; i++) {
+		const space = rest.indexOf(" ");
+		if (space === -1) break;
+		fields.push(rest.slice(0, space));
+		rest = rest.slice(space + 1);
+	}
+	fields.push(rest);
+	return fields;
+}
+
+/**
+ * Parse `git status --porcelain=v2 --branch -z` output
+ */
+export function parseGitStatus(
+	output: string,
+): Omit<GitStatus, "operation" | "clean"> {
+	const status: Omit<GitStatus, "operation" | "clean"> = {
+		branch: { head: null, oid: null, upstream: null, ahead: 0, behind: 0 },
+		staged: [],
+		unstaged: [],
+		untracked: [],
+		conflicted: [],
+	};
+
+	const records = output.split("\0");
+	for (let i = 0; i < records.length; i++) {
+		const record = records[i]!;
+
+		if (record.startsWith("# ")) {
+			const [key, ...values] = record.slice(2).split(" ");
+			const value = values.join(" ");
+			if (key === "branch.oid") {
+				status.branch.oid = value === "(initial)" ? null : value;
+			} else if (key === "branch.head") {
+				status.branch.head = value === "(detached)" ? null : value;
+			} else if (key === "branch.upstream") {
+				status.branch.upstream = value;
+			} else if (key === "branch.ab") {
+				const match = /^\+(\d+) -(\d+)$/.exec(value);
+				if (match) {
+					status.branch.ahead = Number(match[1]);
+					status.branch.behind = Number(match[2]);
+				}
+			}
+			continue;
+		}
+
+		const type = record[0];
+		if (type === "1" || type === "2") {
+			const fields = splitFields(record, type === "1" ? 9 : 10);
+			const code = fields[1] ?? "..";
+			const path = fields[fields.length - 1]!;
+			// Renames and copies are followed by the original path
+			const origPath = type === "2" ? records[++i] : undefined;
+
+			const indexStatus = FILE_STATUS_CODES[code[0]!];
+			if (indexStatus) {
+				status.staged.push({
+					path,
+					status: indexStatus,
+					...(origPath !== undefined && { origPath }),
+				});
+			}
+			const worktreeStatus = FILE_STATUS_CODES[code[1]!];
+			if (worktreeStatus) {
+				status.unstaged.push({ path, status: worktreeStatus });
+			}
+		} else if (type === "u") {
+			const fields = splitFields(record, 11);
+			status.conflicted.push({ path: fields[10]!, code: fields[1]! });
+		} else if (type === "?") {
+			status.untracked.push(record.slice(2));
+		}
+		// "!" (ignored) entries are not requested
+	}
+
+	return status;
+}
+
+function readGitFile(path: string): string | undefined {
+	try {
+		return readFileSync(path, "utf-8").trim();
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Detect a merge, rebase, cherry-pick, revert or bisect in progress
+ * @param gitDir Absolute path of the .git directory
+ */
+export function detectGitOperation(gitDir: string): GitOperation | null {
+	for (const dir of ["rebase-merge", "rebase-apply"]) {
+		const rebaseDir = join(gitDir, dir);
+		if (!existsSync(rebaseDir)) continue;
+
+		const interactive = dir === "rebase-merge";
+		const headName = readGitFile(join(rebaseDir, "head-name"));
+		const step = readGitFile(join(rebaseDir, interactive ? "msgnum" : "next"));
+		const total = readGitFile(join(rebaseDir, interactive ? "end" : "last"));
+
+		return {
+			type: "rebase",
+			...(headName && { branch: headName.replace(/^refs\/heads\//, "") }),
+			...(step && { step: Number(step) }),
+			...(total && { total: Number(total) }),
+		};
+	}
+
+	const markers: Array<[string, GitOperation["type"]]> = [
+		["MERGE_HEAD", "merge"],
+		["CHERRY_PICK_HEAD", "cherry-pick"],
+		["REVERT_HEAD", "revert"],
+		["BISECT_LOG", "bisect"],
+	];
+	for (const [file, type] of markers) {
+		if (existsSync(join(gitDir, file))) {
+			return { type };
+		}
+	}
+
+	return null;
+}
+
+async function handleGitStatus(
+	git: (args: string[]) => Promise<ExecutionResult>,
+	cwd: string,
+): Promise<ExecutionResult> {
+	const result = await git(["status", "--porcelain=v2", "--branch", "-z"]);
+	if (!result.success) {
+		return {
+			...result,
+			error: result.error || result.stderr || "git status failed",
+		};
+	}
+
+	const parsed = parseGitStatus(result.stdout);
+
+	const gitDirResult = await git(["rev-parse", "--git-dir"]);
+	const gitDir = gitDirResult.success
+		? isAbsolute(gitDirResult.stdout)
+			? gitDirResult.stdout
+			: join(cwd, gitDirResult.stdout)
+		: null;
+
+	const status: GitStatus = {
+		...parsed,
+		operation: gitDir ? detectGitOperation(gitDir) : null,
+		clean:
+			parsed.staged.length === 0 &&
+			parsed.unstaged.length === 0 &&
+			parsed.untracked.length === 0 &&
+			parsed.conflicted.length === 0,
+	};
+
+	return {
+		success: true,
+		stdout: JSON.stringify(status, null, 2),
+		stderr: "",
+		exitCode: 0,
+	};
+}
+
+function failure(error: string): ExecutionResult {
+	return {
+		success: false,
+		stdout: "",
+		stderr: "",
+		exitCode: null,
+		error,
+	};
+}
@@ -0,0 +1,22 @@
+/**
+ * MCP handler
+ * Forwards __MCP_CALL__ actions to the connected external MCP server
+ */
+
+import type { RegisteredHandler } from "./types.js";
+import { MCP_CALL_TEMPLATE, getMcpClientManager } from "../mcp/client.js";
+
+/**
+ * MCP handler - handles tools mapped from external MCP servers
+ */
+export const mcpHandler: RegisteredHandler = {
+	name: "mcp",
+	matches: (ctx) => ctx.action.commandTemplate === MCP_CALL_TEMPLATE,
+	handle: async (ctx) =>
+		getMcpClientManager().callTool(
+			ctx.tool.id,
+			ctx.action.name,
+			ctx.params,
+			ctx.options?.timeout,
+		),
+};
@@ -0,0 +1,138 @@
+/**
+ * Process handler
+ * Handles start, status, output, input and stop actions for background processes
+ */
+
+import type { RegisteredHandler, ExecutionResult } from "./types.js";
+import type { ProcessInfo } from "../processManager.js";
+import {
+	assessCommandRisk,
+	getRiskBlockedError,
+} from "../../permissions/riskAssessor.js";
+import { resolveSandbox } from "../sandbox.js";
+
+/**
+ * Process handler - handles all __PROCESS_* actions
+ */
+export const processHandler: RegisteredHandler = {
+	name: "process",
+	matches: (ctx) => ctx.action.commandTemplate.startsWith("__PROCESS_"),
+	handle: async (ctx) => {
+		const { action, params, options } = ctx;
+		const processes = options?.processes;
+		if (!processes) {
+			return failure("Background processes are not available");
+		}
+
+		const id = typeof params.id === "string" ? params.id : "";
+
+		switch (action.commandTemplate) {
+			case "__PROCESS_START__": {
+				const command =
+					typeof params.command === "string" ? params.command : "";
+				if (!command.trim()) {
+					return failure("Command is required");
+				}
+				const risk = assessCommandRisk(command, options?.cwd);
+				if (risk.blocked) {
+					return { ...failure(getRiskBlockedError(risk)), metadata: { risk } };
+				}
+				// Background commands are shell commands, sandboxed like a-c-bash
+				const sandbox = await resolveSandbox("bash", risk);
+				const started = processes.start(command, {
+					cwd: options?.cwd,
+					sandbox: sandbox.config,
+				});
+				return {
+					...success(
+						`Started ${started}: ${command}\n` +
+							`Use a-c-process_read_output with id "${started}" to check its output.`,
+					),
+					metadata: { risk, sandbox: sandbox.info },
+				};
+			}
+			case "__PROCESS_STATUS__": {
+				if (!id) {
+					const list = processes.list();
+					return success(
+						list.length > 0
+							? list.map(formatProcessInfo).join("\n")
+							: "No background processes",
+					);
+				}
+				const info = processes.get(id);
+				return info
+					? success(formatProcessInfo(info))
+					: failure(`Unknown process: ${id}`);
+			}
+			case "__PROCESS_READ_OUTPUT__": {
+				const since = Math.max(0, Number(params.since) || 0);
+				const result = processes.readOutput(id, since);
+				const info = processes.get(id);
+				if (!result || !info) {
+					return failure(`Unknown process: ${id}`);
+				}
+				const lines = [formatProcessInfo(info), `offset: ${result.offset}`];
+				if (result.truncated) {
+					lines.push("(older output was dropped)");
+				}
+				if (result.output) {
+					lines.push("", result.output.trimEnd());
+				}
+				return success(lines.join("\n"));
+			}
+			case "__PROCESS_SEND_INPUT__": {
+				const info = processes.get(id);
+				if (!info) {
+					return failure(`Unknown process: ${id}`);
+				}
+				const input = typeof params.input === "string" ? params.input : "";
+				const text = params.newline === false ? input : `${input}\n`;
+				return processes.sendInput(id, text)
+					? success(`Sent ${text.length} characters to ${id}`)
+					: failure(`Process ${id} is not running`);
+			}
+			case "__PROCESS_STOP__":
+				return processes.stop(id)
+					? success(`Stopped ${id}`)
+					: failure(`Unknown process: ${id}`);
+			default:
+				return failure(`Unknown process action: ${action.commandTemplate}`);
+		}
+	},
+};
+
+/**
+ * Format process information as one line, e.g.
+ * "p1 running (pid 1234, 12s) npm run dev"
+ */
+export function formatProcessInfo(info: ProcessInfo): string {
+	const elapsed = Math.round(
+		((info.endedAt ?? Date.now()) - info.startedAt) / 1000,
+	);
+	const details = [
+		info.pid !== undefined ? `pid ${info.pid}` : null,
+		info.status === "exited" ? `exit code ${info.exitCode}` : null,
+		`${elapsed}s`,
+	].filter(Boolean);
+	return `${info.id} ${info.status} (${details.join(", ")}) ${info.command}`;
+}
+
+function success(stdout: string): ExecutionResult {
+	return {
+		success: true,
+		stdout,
+		stderr: "",
+		exitCode: 0,
+	};
+}
+
+function failure(error: string): ExecutionResult {
+	return {
+		success: false,
+		stdout: "",
+		stderr: "",
+		exitCode: null,
+		error,
+	};
+}
@@ -0,0 +1,175 @@
+/**
+ * Scratchpad handler
+ * Handles scratchpad read and update actions
+ *
+ * Updates always rewrite exactly one section and regenerate the whole file,
+ * so the scratchpad keeps its fixed structure no matter what was there before.
+ */
+
+import type { RegisteredHandler, ExecutionResult } from "./types.js";
+import { readFileContent, writeFileContent } from "../fileOperations.js";
+import {
+	getScratchpadFilePath,
+	SCRATCHPAD_TASK_MAX_LINES,
+} from "../discoverers/scratchpad.js";
+
+const TASK_HEADING = "## Current Task";
+const TODO_HEADING = "## Todo";
+const TODO_ITEM_PATTERN = /^- \[[ xX]\] \S/;
+
+/**
+ * Scratchpad sections
+ */
+export type ScratchpadSections = {
+	task: string;
+	todo: string;
+};
+
+/**
+ * Scratchpad handler - handles all __SCRATCHPAD_* actions
+ */
+export const scratchpadHandler: RegisteredHandler = {
+	name: "scratchpad",
+	matches: (ctx) => ctx.action.commandTemplate.startsWith("__SCRATCHPAD_"),
+	handle: async (ctx) => {
+		const { action, params, options } = ctx;
+		const cwd = options?.cwd || process.cwd();
+		const scratchpadPath = getScratchpadFilePath(cwd);
+
+		switch (action.commandTemplate) {
+			case "__SCRATCHPAD_READ__":
+				return handleScratchpadRead(scratchpadPath);
+			case "__SCRATCHPAD_UPDATE__":
+				return handleScratchpadUpdate(scratchpadPath, params);
+			default:
+				return failure(`Unknown scratchpad action: ${action.commandTemplate}`);
+		}
+	},
+};
+
+/**
+ * Parse scratchpad content into sections
+ * Text outside the known sections is dropped
+ */
+export function parseScratchpad(content: string): ScratchpadSections {
+	const sections: Record<keyof ScratchpadSections, string[]> = {
+		task: [],
+		todo: [],
+	};
+	let current: keyof ScratchpadSections | null = null;
+
+	for (const line of content.split(/\r?\n/)) {
+		const heading = line.trim();
+		if (heading === TASK_HEADING) {
+			current = "task";
+		} else if (heading === TODO_HEADING) {
+			current = "todo";
+		} else if (heading.startsWith("#")) {
+			current = null;
+		} else if (current) {
+			sections[current].push(line);
+		}
+	}
+
+	return {
+		task: sections.task.join("\n").trim(),
+		todo: sections.todo.join("\n").trim(),
+	};
+}
+
+/**
+ * Format sections into the scratchpad file content
+ */
+export function formatScratchpad(sections: ScratchpadSections): string {
+	const block = (heading: string, body: string) =>
+		body ? `${heading}\n\n${body}\n` : `${heading}\n`;
+	return `# Scratchpad\n\n${block(TASK_HEADING, sections.task)}\n${block(TODO_HEADING, sections.todo)}`;
+}
+
+/**
+ * Validate new section content
+ * @returns error message, or null if valid
+ */
+function validateSection(
+	section: keyof ScratchpadSections,
+	content: string,
+): string | null {
+	const lines = content ? content.split("\n") : [];
+
+	if (lines.some((line) => line.trim().startsWith("#"))) {
+		return "Section content must not contain Markdown headings";
+	}
+
+	if (section === "task" && lines.length > SCRATCHPAD_TASK_MAX_LINES) {
+		return `Current Task must be at most ${SCRATCHPAD_TASK_MAX_LINES} lines (got ${lines.length})`;
+	}
+
+	if (section === "todo") {
+		const invalid = lines.find(
+			(line) => line.trim() !== "" && !TODO_ITEM_PATTERN.test(line.trim()),
+		);
+		if (invalid !== undefined) {
+			return `Todo must only contain checklist items ("- [ ] item" or "- [x] item"), got: ${invalid.trim()}`;
+		}
+	}
+
+	return null;
+}
+
+function handleScratchpadRead(scratchpadPath: string): ExecutionResult {
+	const result = readFileContent(scratchpadPath);
+	return {
+		success: true, // Always success, even if file doesn't exist
+		stdout: result.content
+			? formatScratchpad(parseScratchpad(result.content)).trim()
+			: "[Scratchpad is empty]",
+		stderr: "",
+		exitCode: 0,
+	};
+}
+
+function handleScratchpadUpdate(
+	scratchpadPath: string,
+	params: Record<string, unknown>,
+): ExecutionResult {
+	const section = params.section as string;
+	if (section !== "task" && section !== "todo") {
+		return failure(`Invalid section: ${section}. Use "task" or "todo"`);
+	}
+
+	const content = String(params.content ?? "")
+		.replace(/\r\n/g, "\n")
+		.trim();
+	const validationError = validateSection(section, content);
+	if (validationError) {
+		return failure(validationError);
+	}
+
+	const existing = readFileContent(scratchpadPath);
+	const sections = parseScratchpad(existing.content || "");
+	sections[section] = content;
+
+	const result = writeFileContent(
+		scratchpadPath,
+		formatScratchpad(sections),
+		"overwrite",
+	);
+
+	return {
+		success: result.success,
+		stdout: result.success ? "OK" : "",
+		stderr: "",
+		exitCode: result.success ? 0 : 1,
+		error: result.error,
+	};
+}
+
+function failure(error: string): ExecutionResult {
+	return {
+		success: false,
+		stdout: "",
+		stderr: "",
+		exitCode: null,
+		error,
+	};
+}
@@ -3,13 +3,26 @@
  * Handles running script content through interpreters
  */
 
-import type { RegisteredHandler, ExecutionResult } from "./types.js";
+import type {
+	RegisteredHandler,
+	ExecutionResult,
+	OutputListener,
+} from "./types.js";
 import {
 	writeScript,
 	buildScriptCommand,
 	type ScriptType,
 } from "../scriptWriter.js";
-import { executeCommand } from "../executorUtils.js";
+import {
+	executeCommand,
+	getDetachOptions,
+	type DetachOptions,
+} from "../executorUtils.js";
+import { resolveSandbox } from "../sandbox.js";
+import {
+	assessCommandRisk,
+	getRiskBlockedError,
+} from "../../permissions/riskAssessor.js";
 
 // Map tool IDs to script types for run_script_content action
 const TOOL_SCRIPT_TYPE_MAP: Record<string, ScriptType> = {
@@ -58,6 +71,9 @@ export const scriptHandler: RegisteredHandler = {
 			env: tool.env,
 			timeout: options?.timeout,
 			prefix: tool.id,
+			onOutput: options?.onOutput,
+			signal: options?.signal,
+			detach: getDetachOptions(options),
 		});
 	},
 };
@@ -67,7 +83,7 @@ export const scriptHandler: RegisteredHandler = {
  * @param scriptType - The type of script (powershell, python, cmd, bash)
  * @param content - The script content
  * @param options - Execution options
- * @returns Execution result with script file path in stdout prefix
+ * @returns Execution result with script file path in stdout prefix, risk and sandbox metadata
  */
 export async function executeScript(
 	scriptType: ScriptType,
@@ -77,23 +93,47 @@ export async function executeScript(
 		env?: Record<string, string>;
 		timeout?: number;
 		prefix?: string;
+		onOutput?: OutputListener;
+		signal?: AbortSignal;
+		detach?: DetachOptions;
 	},
 ): Promise<ExecutionResult> {
 	const cwd = options?.cwd || process.cwd();
 
+	// Assess the script content before writing and running it
+	const risk = assessCommandRisk(content, cwd);
+	if (risk.blocked) {
+		return {
+			success: false,
+			stdout: "",
+			stderr: "",
+			exitCode: null,
+			error: getRiskBlockedError(risk),
+			metadata: { risk },
+		};
+	}
+
 	try {
 		// Write script to temporary file
 		const scriptPath = writeScript(cwd, scriptType, content, {
 			prefix: options?.prefix,
 		});
 
-		// Build and execute the command
+		// Build and execute the command (bash/python scripts may run in a container)
 		const command = buildScriptCommand(scriptType, scriptPath);
+		const sandbox = await resolveSandbox(
+			scriptType === "bash" || scriptType === "python" ? scriptType : null,
+			risk,
+		);
 
 		const result = await executeCommand(command, {
 			cwd,
 			env: options?.env,
 			timeout: options?.timeout,
+			sandbox: sandbox.config,
+			onOutput: options?.onOutput,
+			signal: options?.signal,
+			detach: options?.detach,
 		});
 
 		// Prepend script path info to stdout for reference
@@ -101,6 +141,7 @@ export async function executeScript(
 		return {
 			...result,
 			stdout: result.stdout ? pathInfo + result.stdout : pathInfo.trim(),
+			metadata: { risk, sandbox: sandbox.info },
 		};
 	} catch (err) {
 		return {
@@ -3,6 +3,19 @@
  */
 
 import type { DiscoveredTool, ToolAction } from "../types.js";
+import type { RiskAssessment } from "../../permissions/types.js";
+import type { SandboxInfo } from "../sandbox.js";
+import type { ProcessManager } from "../processManager.js";
+
+/**
+ * Extra information attached to an execution result
+ */
+export type ExecutionMetadata = {
+	/** Risk assessment of the executed command or script */
+	risk?: RiskAssessment;
+	/** Container sandbox used for the command (absent = ran on the host) */
+	sandbox?: SandboxInfo;
+};
 
 /**
  * Execution result from a handler
@@ -13,6 +26,41 @@ export type ExecutionResult = {
 	stderr: string;
 	exitCode: number | null;
 	error?: string;
+	metadata?: ExecutionMetadata;
+};
+
+/**
+ * Receives command output as it is produced
+ */
+export type OutputListener = (
+	chunk: string,
+	stream: "stdout" | "stderr",
+) => void;
+
+/**
+ * Runs a delegated task in a sub-agent and returns its final summary
+ */
+export type DelegateRunner = (
+	task: string,
+	options: { onOutput?: OutputListener; signal?: AbortSignal },
+) => Promise<string>;
+
+/**
+ * Options for a single tool action execution
+ */
+export type ExecutionOptions = {
+	cwd?: string;
+	timeout?: number;
+	/** Incremental output of long-running commands */
+	onOutput?: OutputListener;
+	/** Aborting kills the running command (and its child processes) */
+	signal?: AbortSignal;
+	/** Background processes (detached commands, process tool) */
+	processes?: ProcessManager;
+	/** Detach commands still running after this many ms (0 = never) */
+	detachAfter?: number;
+	/** Sub-agent runner for the agent tool (absent inside sub-agents) */
+	delegate?: DelegateRunner;
 };
 
 /**
@@ -22,10 +70,7 @@ export type HandlerContext = {
 	tool: DiscoveredTool;
 	action: ToolAction;
 	params: Record<string, unknown>;
-	options?: {
-		cwd?: string;
-		timeout?: number;
-	};
+	options?: ExecutionOptions;
 };
 
 /**
@@ -0,0 +1,84 @@
+/**
+ * Line ending detection module
+ * Detects the dominant line ending (LF/CRLF) and trailing newline of text,
+ * and normalises new content to match
+ */
+
+export type LineEnding = "lf" | "crlf";
+
+export type LineEndingInfo = {
+	lineEnding: LineEnding; // Dominant line ending ("lf" when the text has no line breaks)
+	hasTrailingNewline: boolean; // Whether the text ends with a line break
+	mixed: boolean; // Both LF and CRLF are present
+	lfCount: number; // Number of bare LF line breaks
+	crlfCount: number; // Number of CRLF line breaks
+};
+
+/**
+ * Detect line endings of decoded text
+ */
+export function detectLineEnding(content: string): LineEndingInfo {
+	const crlfCount = (content.match(/\r\n/g) || []).length;
+	const lfCount = (content.match(/\n/g) || []).length - crlfCount;
+
+	return {
+		lineEnding: crlfCount > lfCount ? "crlf" : "lf",
+		hasTrailingNewline: content.endsWith("\n"),
+		mixed: crlfCount > 0 && lfCount > 0,
+		lfCount,
+		crlfCount,
+	};
+}
+
+/**
+ * Get the character sequence for a line ending
+ */
+export function getLineEndingSequence(lineEnding: LineEnding): string {
+	return lineEnding === "crlf" ? "\r\n" : "\n";
+}
+
+/**
+ * Convert all line breaks (LF or CRLF) to the given line ending
+ */
+export function normalizeLineEndings(
+	content: string,
+	lineEnding: LineEnding,
+): string {
+	return content.replace(/\r?\n/g, getLineEndingSequence(lineEnding));
+}
+
+/**
+ * Normalise new content to match the original text's line endings
+ * and trailing newline
+ * Content is left unchanged when it is empty or the original has no line breaks
+ */
+export function matchLineEndings(
+	content: string,
+	original: LineEndingInfo,
+): string {
+	if (!content || original.lfCount + original.crlfCount === 0) {
+		return content;
+	}
+
+	const normalized = normalizeLineEndings(content, original.lineEnding);
+	const eol = getLineEndingSequence(original.lineEnding);
+	const hasTrailingNewline = normalized.endsWith(eol);
+
+	if (original.hasTrailingNewline && !hasTrailingNewline) {
+		return normalized + eol;
+	}
+	if (!original.hasTrailingNewline && hasTrailingNewline) {
+		return normalized.slice(0, -eol.length);
+	}
+	return normalized;
+}
+
+/**
+ * Warning for text with mixed line endings, or undefined
+ */
+export function getMixedLineEndingWarning(
+	info: LineEndingInfo,
+): string | undefined {
+	if (!info.mixed) return undefined;
+	return `Mixed line endings (${info.lfCount} LF, ${info.crlfCount} CRLF), writes are normalised to ${info.lineEnding.toUpperCase()}`;
+}
@@ -0,0 +1,486 @@
+/**
+ * MCP Client 管理器
+ * 连接外部 MCP Server（stdio 子进程或本地 HTTP 端点），将远程工具映射为 DiscoveredTool
+ *
+ * 配置来源：~/.axiomate.json 和 .axiomate/localsettings.json 的 mcpServers，
+ * 同名时项目配置覆盖用户配置
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+	StdioClientTransport,
+	getDefaultEnvironment,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { DiscoveredTool, ToolAction, ToolParameter } from "../types.js";
+import type { ExecutionResult } from "../handlers/types.js";
+import {
+	getConfig,
+	updateConfig,
+	type McpServerConfig,
+} from "../../../utils/config.js";
+import {
+	getLocalSettings,
+	updateLocalSettings,
+} from "../../../utils/localsettings.js";
+import { VERSION } from "../../../constants/meta.js";
+
+/**
+ * MCP 工具 ID 前缀（工具 ID 不能包含 "_"，它是工具调用名的分隔符）
+ */
+export const MCP_TOOL_PREFIX = "mcp-";
+
+/**
+ * MCP 工具动作的命令模板标记，由 mcpHandler 处理
+ */
+export const MCP_CALL_TEMPLATE = "__MCP_CALL__";
+
+// 连接和列出工具的超时（毫秒）
+const CONNECT_TIMEOUT = 30000;
+
+/**
+ * 配置来源
+ */
+export type McpServerSource = "user" | "project";
+
+/**
+ * 连接状态
+ */
+export type McpConnectionStatus =
+	"disabled" | "connecting" | "connected" | "error";
+
+/**
+ * MCP Server 状态（用于 /mcp list 显示）
+ */
+export type McpServerState = {
+	name: string;
+	/** 映射后的工具 ID（如 "mcp-github"） */
+	toolId: string;
+	config: McpServerConfig;
+	source: McpServerSource;
+	status: McpConnectionStatus;
+	/** 连接失败原因 */
+	error?: string;
+	/** 远程工具数量 */
+	toolCount: number;
+};
+
+/**
+ * 工具变化监听器
+ */
+export type McpToolsListener = (tools: DiscoveredTool[]) => void;
+
+type McpConnection = {
+	client: Client;
+	tool: DiscoveredTool;
+	/** 动作名 -> 远程工具名 */
+	toolNames: Map<string, string>;
+};
+
+type McpServerEntry = McpServerState & {
+	connection?: McpConnection;
+};
+
+/**
+ * 生成 MCP Server 对应的工具 ID
+ */
+export function getMcpToolId(serverName: string): string {
+	return MCP_TOOL_PREFIX + serverName.replace(/[^a-zA-Z0-9-]/g, "-");
+}
+
+/**
+ * 将远程工具名转换为合法的动作名（函数名只允许字母、数字、"_" 和 "-"）
+ */
+function toActionName(toolName: string): string {
+	return toolName.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * 将 JSON Schema 的顶层属性映射为 ToolParameter（用于参数校验和显示）
+ * 对象、数组等复杂类型映射为 string，不做类型校验；完整 schema 保留在 inputSchema 中
+ */
+export function schemaToParameters(
+	schema: Record<string, unknown>,
+): ToolParameter[] {
+	const properties = (schema.properties ?? {}) as Record<
+		string,
+		{ type?: unknown; description?: unknown }
+	>;
+	const required = new Set(
+		Array.isArray(schema.required) ? (schema.required as string[]) : [],
+	);
+
+	return Object.entries(properties).map(([name, property]) => ({
+		name,
+		description:
+			typeof property.description === "string" ? property.description : "",
+		type:
+			property.type === "number" || property.type === "integer"
+				? "number"
+				: property.type === "boolean"
+					? "boolean"
+					: "string",
+		required: required.has(name),
+	}));
+}
+
+/**
+ * 将工具调用结果转换为执行结果
+ * 文本内容直接输出，图片、音频和资源链接输出为占位说明
+ */
+export function formatCallToolResult(result: CallToolResult): ExecutionResult {
+	const parts: string[] = [];
+
+	for (const item of result.content ?? []) {
+		switch (item.type) {
+			case "text":
+				parts.push(item.text);
+				break;
+			case "image":
+			case "audio":
+				parts.push(`[${item.type}: ${item.mimeType}]`);
+				break;
+			case "resource":
+				parts.push(
+					"text" in item.resource
+						? item.resource.text
+						: `[resource: ${item.resource.uri}]`,
+				);
+				break;
+			case "resource_link":
+				parts.push(`[resource: ${item.uri}]`);
+				break;
+		}
+	}
+
+	if (parts.length === 0 && result.structuredContent) {
+		parts.push(JSON.stringify(result.structuredContent, null, 2));
+	}
+
+	const output = parts.join("\n");
+
+	if (result.isError) {
+		return {
+			success: false,
+			stdout: "",
+			stderr: output,
+			exitCode: 1,
+			error: output || "MCP tool returned an error",
+		};
+	}
+
+	return { success: true, stdout: output, stderr: "", exitCode: 0 };
+}
+
+/**
+ * 根据配置创建传输层
+ */
+function createTransport(config: McpServerConfig): Transport {
+	if (config.command) {
+		return new StdioClientTransport({
+			command: config.command,
+			args: config.args ?? [],
+			env: { ...getDefaultEnvironment(), ...config.env },
+			cwd: process.cwd(),
+			// 子进程的 stderr 会破坏终端 UI
+			stderr: "ignore",
+		});
+	}
+
+	if (config.url) {
+		return new StreamableHTTPClientTransport(new URL(config.url), {
+			requestInit: config.headers ? { headers: config.headers } : undefined,
+		});
+	}
+
+	throw new Error("MCP server config needs either command or url");
+}
+
+/**
+ * 合并用户和项目配置
+ */
+function loadServerConfigs(): Map<
+	string,
+	{ config: McpServerConfig; source: McpServerSource }
+> {
+	const servers = new Map<
+		string,
+		{ config: McpServerConfig; source: McpServerSource }
+	>();
+
+	for (const [name, config] of Object.entries(getConfig().mcpServers ?? {})) {
+		servers.set(name, { config, source: "user" });
+	}
+	for (const [name, config] of Object.entries(getLocalSettings().mcpServers)) {
+		servers.set(name, { config, source: "project" });
+	}
+
+	return servers;
+}
+
+/**
+ * MCP Client 管理器
+ */
+export class McpClientManager {
+	private servers: Map<string, McpServerEntry> = new Map();
+	private listeners: McpToolsListener[] = [];
+
+	/**
+	 * 读取配置并连接所有启用的 Server
+	 * 单个 Server 连接失败不影响其他 Server，失败原因记录在状态中
+	 */
+	async connectAll(): Promise<void> {
+		await this.closeAll();
+
+		for (const [name, { config, source }] of loadServerConfigs()) {
+			this.servers.set(name, {
+				name,
+				toolId: getMcpToolId(name),
+				config,
+				source,
+				status: config.enabled === false ? "disabled" : "connecting",
+				toolCount: 0,
+			});
+		}
+
+		await Promise.all(
+			[...this.servers.values()]
+				.filter((entry) => entry.status === "connecting")
+				.map((entry) => this.connect(entry)),
+		);
+		this.notify();
+	}
+
+	/**
+	 * 获取所有 Server 状态（按名称排序）
+	 */
+	listServers(): McpServerState[] {
+		return [...this.servers.values()]
+			.map((entry): McpServerState => ({
+				name: entry.name,
+				toolId: entry.toolId,
+				config: entry.config,
+				source: entry.source,
+				status: entry.status,
+				...(entry.error && { error: entry.error }),
+				toolCount: entry.toolCount,
+			}))
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * 获取已连接 Server 的工具（按 ID 排序，保持工具列表稳定）
+	 */
+	getTools(): DiscoveredTool[] {
+		return [...this.servers.values()]
+			.filter((entry) => entry.connection)
+			.map((entry) => entry.connection!.tool)
+			.sort((a, b) => a.id.localeCompare(b.id));
+	}
+
+	/**
+	 * 注册工具变化监听器（连接、断开、启用、禁用后调用）
+	 */
+	onToolsChanged(listener: McpToolsListener): void {
+		this.listeners.push(listener);
+	}
+
+	/**
+	 * 启用或禁用 Server，并保存到其配置来源
+	 * @returns 更新后的状态，Server 不存在时返回 undefined
+	 */
+	async setServerEnabled(
+		name: string,
+		enabled: boolean,
+	): Promise<McpServerState | undefined> {
+		const entry = this.servers.get(name);
+		if (!entry) return undefined;
+
+		entry.config = { ...entry.config, enabled };
+		this.saveServerConfig(entry);
+
+		if (enabled) {
+			if (!entry.connection) {
+				entry.status = "connecting";
+				await this.connect(entry);
+			}
+		} else {
+			await this.disconnect(entry);
+			entry.status = "disabled";
+			entry.error = undefined;
+		}
+
+		this.notify();
+		return this.listServers().find((state) => state.name === name);
+	}
+
+	/**
+	 * 调用远程工具
+	 */
+	async callTool(
+		toolId: string,
+		actionName: string,
+		args: Record<string, unknown>,
+		timeout?: number,
+	): Promise<ExecutionResult> {
+		const entry = [...this.servers.values()].find(
+			(server) => server.toolId === toolId,
+		);
+		const connection = entry?.connection;
+		if (!entry || !connection) {
+			return {
+				success: false,
+				stdout: "",
+				stderr: "",
+				exitCode: null,
+				error: `MCP server for ${toolId} is not connected`,
+			};
+		}
+
+		const toolName = connection.toolNames.get(actionName) ?? actionName;
+
+		try {
+			const result = await connection.client.callTool(
+				{ name: toolName, arguments: args },
+				undefined,
+				timeout ? { timeout } : undefined,
+			);
+			return formatCallToolResult(result as CallToolResult);
+		} catch (error) {
+			return {
+				success: false,
+				stdout: "",
+				stderr: "",
+				exitCode: null,
+				error: `MCP server "${entry.name}": ${error instanceof Error ? error.message : String(error)}`,
+			};
+		}
+	}
+
+	/**
+	 * 关闭所有连接
+	 */
+	async closeAll(): Promise<void> {
+		await Promise.all(
+			[...this.servers.values()].map((entry) => this.disconnect(entry)),
+		);
+		this.servers.clear();
+	}
+
+	private async connect(entry: McpServerEntry): Promise<void> {
+		const client = new Client({ name: "axiomate", version: VERSION });
+
+		try {
+			await client.connect(createTransport(entry.config), {
+				timeout: CONNECT_TIMEOUT,
+			});
+
+			const actions: ToolAction[] = [];
+			const toolNames = new Map<string, string>();
+			let cursor: string | undefined;
+			do {
+				const page = await client.listTools(cursor ? { cursor } : undefined, {
+					timeout: CONNECT_TIMEOUT,
+				});
+				for (const remote of page.tools) {
+					const actionName = toActionName(remote.name);
+					toolNames.set(actionName, remote.name);
+					actions.push({
+						name: actionName,
+						description: remote.description || remote.title || remote.name,
+						parameters: schemaToParameters(remote.inputSchema),
+						commandTemplate: MCP_CALL_TEMPLATE,
+						inputSchema: remote.inputSchema,
+					});
+				}
+				cursor = page.nextCursor;
+			} while (cursor);
+
+			const serverInfo = client.getServerVersion();
+			entry.connection = {
+				client,
+				toolNames,
+				tool: {
+					id: entry.toolId,
+					name: entry.name,
+					description: serverInfo?.title || serverInfo?.name || entry.name,
+					category: "mcp",
+					capabilities: ["execute"],
+					executablePath: entry.config.command ?? entry.config.url ?? "",
+					version: serverInfo?.version,
+					actions,
+					installed: true,
+				},
+			};
+			entry.status = "connected";
+			entry.error = undefined;
+			entry.toolCount = actions.length;
+
+			// Server 进程退出或连接断开
+			client.onclose = () => {
+				if (entry.connection?.client !== client) return;
+				entry.connection = undefined;
+				entry.status = "error";
+				entry.error = "Connection closed";
+				entry.toolCount = 0;
+				this.notify();
+			};
+		} catch (error) {
+			entry.status = "error";
+			entry.error = error instanceof Error ? error.message : String(error);
+			await client.close().catch(() => {});
+		}
+	}
+
+	private async disconnect(entry: McpServerEntry): Promise<void> {
+		const connection = entry.connection;
+		if (!connection) return;
+
+		entry.connection = undefined;
+		entry.toolCount = 0;
+		await connection.client.close().catch(() => {});
+	}
+
+	/**
+	 * 将 Server 配置写回其来源（用户配置或项目配置）
+	 */
+	private saveServerConfig(entry: McpServerEntry): void {
+		if (entry.source === "project") {
+			updateLocalSettings({
+				mcpServers: {
+					...getLocalSettings().mcpServers,
+					[entry.name]: entry.config,
+				},
+			});
+		} else {
+			updateConfig({
+				mcpServers: {
+					...getConfig().mcpServers,
+					[entry.name]: entry.config,
+				},
+			});
+		}
+	}
+
+	private notify(): void {
+		const tools = this.getTools();
+		for (const listener of this.listeners) {
+			listener(tools);
+		}
+	}
+}
+
+// 单例实例
+let _instance: McpClientManager | null = null;
+
+/**
+ * 获取 MCP Client 管理器单例
+ */
+export function getMcpClientManager(): McpClientManager {
+	if (!_instance) {
+		_instance = new McpClientManager();
+	}
+	return _instance;
+}
@@ -0,0 +1,213 @@
+/**
+ * MCP Server HTTP 传输
+ * 基于 Streamable HTTP（响应可为 SSE 流），只监听本机地址并要求 Bearer Token
+ */
+
+import {
+	createServer,
+	type IncomingMessage,
+	type ServerResponse,
+} from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/** MCP 端点路径 */
+export const MCP_HTTP_PATH = "/mcp";
+
+const LOCAL_HOST = "127.0.0.1";
+
+// 请求体大小上限
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export type McpHttpServerOptions = {
+	/** 监听端口，0 表示随机端口 */
+	port: number;
+	/** 客户端需在 Authorization: Bearer <token> 中提供 */
+	token: string;
+	/** 每个 MCP 会话创建独立的 Server 实例 */
+	createServer: () => McpServer;
+};
+
+export type McpHttpServer = {
+	/** 端点地址，如 http://127.0.0.1:3920/mcp */
+	url: string;
+	close: () => Promise<void>;
+};
+
+type HttpFailure = {
+	status: number;
+	message: string;
+	/** JSON-RPC 错误码 */
+	code?: number;
+};
+
+/**
+ * 解析 --http 端口参数
+ * @returns 0-65535 的整数端口，缺失或无效时返回 null
+ */
+export function parseHttpPort(value: string | undefined): number | null {
+	if (!value || !/^\d+$/.test(value.trim())) {
+		return null;
+	}
+	const port = Number(value.trim());
+	return port <= 65535 ? port : null;
+}
+
+/**
+ * 校验 Bearer Token（常量时间比较）
+ */
+export function isAuthorized(
+	header: string | undefined,
+	token: string,
+): boolean {
+	const match = /^Bearer\s+(.+)$/i.exec(header ?? "");
+	if (!match) return false;
+
+	const expected = Buffer.from(token);
+	const actual = Buffer.from(match[1]!.trim());
+	return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+async function readJsonBody(
+	req: IncomingMessage,
+): Promise<{ body: unknown } | { failure: HttpFailure }> {
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req) {
+		size += (chunk as Buffer).length;
+		if (size > MAX_BODY_BYTES) {
+			return { failure: { status: 413, message: "Request body too large" } };
+		}
+		chunks.push(chunk as Buffer);
+	}
+
+	try {
+		return { body: JSON.parse(Buffer.concat(chunks).toString("utf-8")) };
+	} catch {
+		return { failure: { status: 400, message: "Parse error", code: -32700 } };
+	}
+}
+
+function sendError(res: ServerResponse, failure: HttpFailure): void {
+	if (res.headersSent) {
+		res.end();
+		return;
+	}
+	res.writeHead(failure.status, {
+		"Content-Type": "application/json",
+		...(failure.status === 401 && { "WWW-Authenticate": "Bearer" }),
+	});
+	res.end(
+		JSON.stringify({
+			jsonrpc: "2.0",
+			error: { code: failure.code ?? -32000, message: failure.message },
+			id: null,
+		}),
+	);
+}
+
+/**
+ * 启动 HTTP MCP Server
+ */
+export async function startMcpHttpServer(
+	options: McpHttpServerOptions,
+): Promise<McpHttpServer> {
+	const transports = new Map<string, StreamableHTTPServerTransport>();
+	let allowedHosts: string[] = [];
+
+	const handle = async (
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<HttpFailure | undefined> => {
+		const { pathname } = new URL(req.url ?? "/", `http://${LOCAL_HOST}`);
+		if (pathname !== MCP_HTTP_PATH) {
+			return { status: 404, message: "Not found" };
+		}
+		if (!isAuthorized(req.headers.authorization, options.token)) {
+			return { status: 401, message: "Unauthorized" };
+		}
+
+		let body: unknown;
+		if (req.method === "POST") {
+			const parsed = await readJsonBody(req);
+			if ("failure" in parsed) return parsed.failure;
+			body = parsed.body;
+		}
+
+		const sessionId = req.headers["mcp-session-id"];
+		let transport =
+			typeof sessionId === "string" ? transports.get(sessionId) : undefined;
+
+		if (!transport) {
+			if (sessionId !== undefined) {
+				return { status: 404, message: "Session not found" };
+			}
+			if (!isInitializeRequest(body)) {
+				return {
+					status: 400,
+					message: "Bad Request: No valid session ID provided",
+				};
+			}
+
+			const created: StreamableHTTPServerTransport =
+				new StreamableHTTPServerTransport({
+					sessionIdGenerator: () => randomUUID(),
+					enableDnsRebindingProtection: true,
+					allowedHosts,
+					onsessioninitialized: (id) => {
+						transports.set(id, created);
+					},
+				});
+			created.onclose = () => {
+				if (created.sessionId) {
+					transports.delete(created.sessionId);
+				}
+			};
+			await options.createServer().connect(created);
+			transport = created;
+		}
+
+		await transport.handleRequest(req, res, body);
+		return undefined;
+	};
+
+	const httpServer = createServer((req, res) => {
+		handle(req, res)
+			.then((failure) => {
+				if (failure) sendError(res, failure);
+			})
+			.catch((error: unknown) => {
+				sendError(res, {
+					status: 500,
+					message: error instanceof Error ? error.message : String(error),
+				});
+			});
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		httpServer.once("error", reject);
+		httpServer.listen(options.port, LOCAL_HOST, () => {
+			httpServer.off("error", reject);
+			resolve();
+		});
+	});
+
+	const { port } = httpServer.address() as AddressInfo;
+	// 拒绝其他 Host 头，防止 DNS rebinding
+	allowedHosts = [`${LOCAL_HOST}:${port}`, `localhost:${port}`];
+
+	return {
+		url: `http://${LOCAL_HOST}:${port}${MCP_HTTP_PATH}`,
+		close: async () => {
+			await Promise.all(
+				[...transports.values()].map((transport) => transport.close()),
+			);
+			transports.clear();
+			httpServer.closeAllConnections();
+			await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+		},
+	};
+}
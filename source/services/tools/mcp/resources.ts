@@ -0,0 +1,223 @@
+/**
+ * MCP Server 资源与提示词
+ * 暴露计划文件、已保存的 session、项目类型检测，以及 compact / plan 工作流提示词
+ */
+
+import * as fs from "node:fs";
+import {
+	ResourceTemplate,
+	type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { SessionStore } from "../../ai/sessionStore.js";
+import type { ChatMessage } from "../../ai/types.js";
+import { detectProjectType } from "../matcher.js";
+import { getPlanFilePath } from "../discoverers/plan.js";
+import { COMPACT_PROMPT, buildPlanPrompt } from "../../../constants/prompts.js";
+import { t } from "../../../i18n/index.js";
+
+export const PROJECT_RESOURCE_URI = "axiomate://project";
+export const PLAN_RESOURCE_URI = "axiomate://plan";
+export const SESSIONS_RESOURCE_URI = "axiomate://sessions";
+
+/**
+ * 资源与提示词的上下文
+ */
+export type McpResourceOptions = {
+	/** 项目目录（计划文件、项目类型） */
+	cwd: string;
+	/** 已保存的 session，未提供时不注册 session 资源 */
+	sessionStore?: SessionStore;
+};
+
+/**
+ * 读取计划文件，不存在时返回 undefined
+ */
+function readPlan(cwd: string): string | undefined {
+	try {
+		return fs.readFileSync(getPlanFilePath(cwd), "utf-8");
+	} catch {
+		return undefined;
+	}
+}
+
+function jsonContents(uri: string, data: unknown) {
+	return {
+		contents: [
+			{
+				uri,
+				mimeType: "application/json",
+				text: JSON.stringify(data, null, 2),
+			},
+		],
+	};
+}
+
+/**
+ * 将 session 消息格式化为文本记录（用于 compact 提示词）
+ */
+export function formatTranscript(messages: ChatMessage[]): string {
+	return messages
+		.map((message) => {
+			const calls = (message.tool_calls ?? []).map(
+				(call) =>
+					`[tool call] ${call.function.name}(${call.function.arguments})`,
+			);
+			return [`${message.role}: ${message.content}`, ...calls].join("\n");
+		})
+		.join("\n\n");
+}
+
+/**
+ * 注册资源：项目信息、计划文件、已保存的 session
+ */
+export function registerProjectResources(
+	server: McpServer,
+	options: McpResourceOptions,
+): void {
+	const { cwd, sessionStore } = options;
+
+	server.registerResource(
+		"project",
+		PROJECT_RESOURCE_URI,
+		{
+			description: t("mcpServer.projectResourceDesc"),
+			mimeType: "application/json",
+		},
+		async (uri) =>
+			jsonContents(uri.href, { cwd, projectType: detectProjectType(cwd) }),
+	);
+
+	server.registerResource(
+		"plan",
+		PLAN_RESOURCE_URI,
+		{
+			description: t("mcpServer.planResourceDesc"),
+			mimeType: "text/markdown",
+		},
+		async (uri) => ({
+			contents: [
+				{ uri: uri.href, mimeType: "text/markdown", text: readPlan(cwd) ?? "" },
+			],
+		}),
+	);
+
+	if (!sessionStore) return;
+
+	server.registerResource(
+		"sessions",
+		SESSIONS_RESOURCE_URI,
+		{
+			description: t("mcpServer.sessionsResourceDesc"),
+			mimeType: "application/json",
+		},
+		async (uri) => {
+			// CLI 可能在运行期间保存了新的 session
+			await sessionStore.reload();
+			return jsonContents(uri.href, sessionStore.listSessions());
+		},
+	);
+
+	server.registerResource(
+		"session",
+		new ResourceTemplate(`${SESSIONS_RESOURCE_URI}/{id}`, {
+			list: async () => {
+				await sessionStore.reload();
+				return {
+					resources: sessionStore.listSessions().map((info) => ({
+						uri: `${SESSIONS_RESOURCE_URI}/${info.id}`,
+						name: info.name,
+						mimeType: "application/json",
+					})),
+				};
+			},
+		}),
+		{
+			description: t("mcpServer.sessionResourceDesc"),
+			mimeType: "application/json",
+		},
+		async (uri, { id }) => {
+			await sessionStore.reload();
+			const data = sessionStore.readSession(String(id));
+			if (!data) {
+				throw new Error(t("mcpServer.sessionNotFound", { id: String(id) }));
+			}
+			return jsonContents(uri.href, {
+				info: data.info,
+				messages: data.messages.map((m) => m.message),
+			});
+		},
+	);
+}
+
+/**
+ * 注册提示词：compact（总结 session）与 plan（按计划文件格式制定计划）
+ */
+export function registerWorkflowPrompts(
+	server: McpServer,
+	options: McpResourceOptions,
+): void {
+	const { cwd, sessionStore } = options;
+
+	server.registerPrompt(
+		"compact",
+		{
+			description: t("mcpServer.compactPromptDesc"),
+			argsSchema: {
+				session: z
+					.string()
+					.optional()
+					.describe(t("mcpServer.compactSessionArg")),
+			},
+		},
+		async ({ session }) => {
+			let transcript = "";
+			if (sessionStore) {
+				await sessionStore.reload();
+				const id = session || sessionStore.getActiveSessionId();
+				const data = id ? sessionStore.readSession(id) : null;
+				if (session && !data) {
+					throw new Error(t("mcpServer.sessionNotFound", { id: session }));
+				}
+				if (data) {
+					transcript = formatTranscript(data.messages.map((m) => m.message));
+				}
+			}
+
+			return {
+				messages: [
+					{
+						role: "user" as const,
+						content: {
+							type: "text" as const,
+							text: transcript
+								? `${transcript}\n\n---\n\n${COMPACT_PROMPT}`
+								: COMPACT_PROMPT,
+						},
+					},
+				],
+			};
+		},
+	);
+
+	server.registerPrompt(
+		"plan",
+		{
+			description: t("mcpServer.planPromptDesc"),
+			argsSchema: {
+				task: z.string().describe(t("mcpServer.planTaskArg")),
+			},
+		},
+		async ({ task }) => ({
+			messages: [
+				{
+					role: "user" as const,
+					content: {
+						type: "text" as const,
+						text: buildPlanPrompt(task, readPlan(cwd)),
+					},
+				},
+			],
+		}),
+	);
+}
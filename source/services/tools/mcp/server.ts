@@ -1,6 +1,6 @@
 /**
  * MCP Server 核心实现
- * 将本地工具暴露为 MCP Tools
+ * 将本地工具暴露为 MCP Tools，并提供项目资源与工作流提示词
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
@@ -8,6 +8,11 @@ import { z } from "zod";
 import type { ToolRegistry } from "../registry.js";
 import type { DiscoveredTool, ToolAction, ToolParameter } from "../types.js";
 import { executeToolAction, paramsToJsonSchema } from "../executor.js";
+import {
+	registerProjectResources,
+	registerWorkflowPrompts,
+	type McpResourceOptions,
+} from "./resources.js";
 import { VERSION } from "../../../constants/meta.js";
 import { t } from "../../../i18n/index.js";
 
@@ -60,13 +65,24 @@ function generateToolId(tool: DiscoveredTool, action: ToolAction): string {
 
 /**
  * 创建 MCP Server
+ * @param options 资源与提示词的上下文，默认使用当前目录且不暴露 session
  */
-export function createToolsMcpServer(registry: ToolRegistry): McpServer {
+export function createToolsMcpServer(
+	registry: ToolRegistry,
+	options: Partial<McpResourceOptions> = {},
+): McpServer {
 	const server = new McpServer({
 		name: "axiomate-local-tools",
 		version: VERSION,
 	});
 
+	const resourceOptions: McpResourceOptions = {
+		cwd: options.cwd ?? process.cwd(),
+		sessionStore: options.sessionStore,
+	};
+	registerProjectResources(server, resourceOptions);
+	registerWorkflowPrompts(server, resourceOptions);
+
 	// 注册工具列表查询
 	server.registerTool(
 		"list_available_tools",
@@ -0,0 +1,729 @@
+/**
+ * Unified diff / multi-file patch application
+ *
+ * Parses plain and git-style unified diffs (including create, delete and
+ * rename) and applies them with fuzzy hunk matching. The whole patch is
+ * computed in memory first and only written when every hunk applies; if a
+ * write fails part-way, files already touched are restored from their
+ * original bytes.
+ *
+ * Each file keeps its detected encoding, BOM and dominant line ending.
+ */
+
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import { isAbsolute, join } from "node:path";
+import { readFileContent, writeFileContent } from "./fileOperations.js";
+import {
+	detectLineEnding,
+	getLineEndingSequence,
+} from "./lineEndingDetector.js";
+import { getUndoManager } from "../undo/undoManager.js";
+
+/**
+ * Maximum number of leading/trailing context lines that may be ignored
+ * when a hunk does not match (like `patch --fuzz=2`)
+ */
+const MAX_FUZZ = 2;
+
+export type PatchHunk = {
+	/** Original header line, e.g. "@@ -10,4 +10,5 @@" */
+	header: string;
+	/** 1-based start line in the old file, null when the header has no line numbers */
+	oldStart: number | null;
+	/** Body lines including their " ", "-" or "+" prefix */
+	lines: string[];
+	/** Old side has no newline at end of file */
+	oldNoNewline: boolean;
+	/** New side has no newline at end of file */
+	newNoNewline: boolean;
+};
+
+export type FilePatch = {
+	/** Source path, null for created files */
+	oldPath: string | null;
+	/** Target path, null for deleted files */
+	newPath: string | null;
+	hunks: PatchHunk[];
+};
+
+export type PatchOperation = "modify" | "create" | "delete" | "rename";
+
+export type PatchFileChange = {
+	operation: PatchOperation;
+	/** Target path as written in the patch (source path for deletes) */
+	path: string;
+	/** Source path for renames */
+	fromPath?: string;
+	/** Number of hunks applied */
+	hunks: number;
+	/** Fuzzy match notes, e.g. "hunk 2 applied at offset +3" */
+	notes: string[];
+};
+
+export type HunkFailure = {
+	path: string;
+	/** 1-based hunk index, null for file-level problems */
+	hunk: number | null;
+	header?: string;
+	reason: string;
+};
+
+export type ApplyPatchResult = {
+	success: boolean;
+	changes: PatchFileChange[];
+	failures: HunkFailure[];
+	error?: string;
+};
+
+type FileText = {
+	lines: string[];
+	eol: string;
+	finalNewline: boolean;
+};
+
+/**
+ * Pending state of a file while the patch is computed
+ */
+type PendingFile = {
+	/** New content, null when the file is deleted */
+	content: string | null;
+	encoding: string;
+	hasBOM: boolean;
+};
+
+const HUNK_HEADER_PATTERN =
+	/^@@+ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@+(?: .*)?$/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a header path ("--- a/src/x.ts\t2024-01-01 ..." -> "a/src/x.ts")
+ */
+function parseHeaderPath(raw: string): string | null {
+	let path = raw.split("\t")[0]!.trim();
+	if (path.startsWith('"') && path.endsWith('"') && path.length > 1) {
+		path = path.slice(1, -1);
+	}
+	return path === "/dev/null" ? null : path;
+}
+
+/**
+ * Strip git's a/ and b/ prefixes when both sides use them
+ */
+function stripGitPrefixes(
+	oldPath: string | null,
+	newPath: string | null,
+	force: boolean,
+): [string | null, string | null] {
+	const oldPrefixed = oldPath === null || oldPath.startsWith("a/");
+	const newPrefixed = newPath === null || newPath.startsWith("b/");
+	if (force || (oldPrefixed && newPrefixed)) {
+		return [
+			oldPath?.startsWith("a/") ? oldPath.slice(2) : oldPath,
+			newPath?.startsWith("b/") ? newPath.slice(2) : newPath,
+		];
+	}
+	return [oldPath, newPath];
+}
+
+function isFileHeader(lines: string[], i: number): boolean {
+	return (
+		lines[i]!.startsWith("diff --git ") ||
+		(lines[i]!.startsWith("--- ") && (lines[i + 1] ?? "").startsWith("+++ "))
+	);
+}
+
+function countSides(body: string[]): { old: number; new: number } {
+	let oldCount = 0;
+	let newCount = 0;
+	for (const line of body) {
+		if (line.startsWith("+")) newCount++;
+		else if (line.startsWith("-")) oldCount++;
+		else {
+			oldCount++;
+			newCount++;
+		}
+	}
+	return { old: oldCount, new: newCount };
+}
+
+/**
+ * Parse unified diff text into file patches
+ * Line counts in hunk headers are not trusted: a hunk ends at the next
+ * hunk or file header, or at the first line that is not a diff line
+ * @throws Error if the patch has no file headers or contains hunks without a file
+ */
+export function parsePatch(text: string): FilePatch[] {
+	const lines = text.replace(/\r\n/g, "\n").split("\n");
+	const patches: FilePatch[] = [];
+	let current: FilePatch | null = null;
+	// Current patch came from a "diff --git" line and has not seen ---/+++ yet
+	let gitHeaderOpen = false;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i]!;
+
+		if (line.startsWith("diff --git ")) {
+			const match = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/.exec(line);
+			current = {
+				oldPath: match?.[1] ?? null,
+				newPath: match?.[2] ?? null,
+				hunks: [],
+			};
+			patches.push(current);
+			gitHeaderOpen = true;
+			continue;
+		}
+
+		if (current && gitHeaderOpen) {
+			if (line.startsWith("new file mode")) {
+				current.oldPath = null;
+				continue;
+			}
+			if (line.startsWith("deleted file mode")) {
+				current.newPath = null;
+				continue;
+			}
+			if (line.startsWith("rename from ")) {
+				current.oldPath = line.slice("rename from ".length);
+				continue;
+			}
+			if (line.startsWith("rename to ")) {
+				current.newPath = line.slice("rename to ".length);
+				continue;
+			}
+		}
+
+		if (line.startsWith("--- ") && (lines[i + 1] ?? "").startsWith("+++ ")) {
+			const [oldPath, newPath] = stripGitPrefixes(
+				parseHeaderPath(line.slice(4)),
+				parseHeaderPath(lines[i + 1]!.slice(4)),
+				gitHeaderOpen,
+			);
+			if (current && gitHeaderOpen && current.hunks.length === 0) {
+				current.oldPath = oldPath;
+				current.newPath = newPath;
+			} else {
+				current = { oldPath, newPath, hunks: [] };
+				patches.push(current);
+			}
+			gitHeaderOpen = false;
+			i++;
+			continue;
+		}
+
+		if (line.startsWith("@@")) {
+			if (!current) {
+				throw new Error(`Hunk without a file header: ${line}`);
+			}
+			gitHeaderOpen = false;
+
+			const header = HUNK_HEADER_PATTERN.exec(line);
+			const hunk: PatchHunk = {
+				header: line,
+				oldStart: header ? Number(header[1]) : null,
+				lines: [],
+				oldNoNewline: false,
+				newNoNewline: false,
+			};
+
+			while (i + 1 < lines.length) {
+				const next = lines[i + 1]!;
+				if (next.startsWith("@@") || isFileHeader(lines, i + 1)) break;
+
+				if (next.startsWith("\\")) {
+					// "\ No newline at end of file" applies to the previous line
+					const previous = hunk.lines[hunk.lines.length - 1] ?? "";
+					if (!previous.startsWith("+")) hunk.oldNoNewline = true;
+					if (!previous.startsWith("-")) hunk.newNoNewline = true;
+				} else if (next === "" || /^[ +-]/.test(next)) {
+					// Empty lines are context lines whose trailing space was stripped
+					hunk.lines.push(next === "" ? " " : next);
+				} else {
+					break;
+				}
+				i++;
+			}
+
+			// Drop trailing blank context lines beyond the declared line counts
+			const declaredOld = header ? Number(header[2] ?? 1) : 0;
+			const declaredNew = header ? Number(header[4] ?? 1) : 0;
+			while (hunk.lines[hunk.lines.length - 1] === " ") {
+				const counts = countSides(hunk.lines);
+				if (header && counts.old <= declaredOld && counts.new <= declaredNew) {
+					break;
+				}
+				hunk.lines.pop();
+			}
+
+			current.hunks.push(hunk);
+		}
+	}
+
+	if (patches.length === 0) {
+		throw new Error("No file headers found (expected ---/+++ lines)");
+	}
+
+	return patches;
+}
+
+// ============================================================================
+// Hunk matching
+// ============================================================================
+
+/**
+ * Split text into lines, remembering its dominant line ending
+ */
+function splitText(content: string): FileText {
+	const { lineEnding, hasTrailingNewline: finalNewline } =
+		detectLineEnding(content);
+	const eol = getLineEndingSequence(lineEnding);
+	const body = finalNewline
+		? content.slice(0, content.endsWith("\r\n") ? -2 : -1)
+		: content;
+
+	return {
+		lines: body === "" && !finalNewline ? [] : body.split(/\r?\n/),
+		eol,
+		finalNewline,
+	};
+}
+
+function joinText(text: FileText): string {
+	if (text.lines.length === 0) return "";
+	return text.lines.join(text.eol) + (text.finalNewline ? text.eol : "");
+}
+
+type LineComparator = (a: string, b: string) => boolean;
+
+// Tried in order: exact, ignore trailing whitespace, ignore all whitespace changes
+const COMPARATORS: Array<{ name: string | null; equals: LineComparator }> = [
+	{ name: null, equals: (a, b) => a === b },
+	{
+		name: "trailing whitespace",
+		equals: (a, b) => a.trimEnd() === b.trimEnd(),
+	},
+	{
+		name: "whitespace",
+		equals: (a, b) =>
+			a.trim().replace(/\s+/g, " ") === b.trim().replace(/\s+/g, " "),
+	},
+];
+
+type HunkMatch = {
+	/** Index in the file where the (trimmed) hunk starts */
+	index: number;
+	/** Context lines ignored at the start / end of the hunk */
+	leading: number;
+	trailing: number;
+	/** Comparator name when the match ignored whitespace */
+	loose: string | null;
+};
+
+function matchesAt(
+	fileLines: string[],
+	oldLines: string[],
+	index: number,
+	equals: LineComparator,
+): boolean {
+	for (let j = 0; j < oldLines.length; j++) {
+		if (!equals(fileLines[index + j]!, oldLines[j]!)) return false;
+	}
+	return true;
+}
+
+/**
+ * Count leading/trailing context lines of a hunk body
+ */
+function contextRun(body: string[], fromEnd: boolean): number {
+	let count = 0;
+	for (let j = 0; j < body.length; j++) {
+		const line = body[fromEnd ? body.length - 1 - j : j]!;
+		if (!line.startsWith(" ")) break;
+		count++;
+	}
+	return count;
+}
+
+/**
+ * Find where a hunk applies, searching outward from the expected position
+ */
+function locateHunk(
+	fileLines: string[],
+	body: string[],
+	expected: number,
+	minIndex: number,
+): HunkMatch | null {
+	const leadingContext = contextRun(body, false);
+	const trailingContext = contextRun(body, true);
+
+	for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+		const leading = Math.min(fuzz, leadingContext);
+		const trailing = Math.min(fuzz, trailingContext);
+		if (fuzz > 0 && leading + trailing === 0) break;
+
+		const trimmed = body.slice(leading, body.length - trailing);
+		const oldLines = trimmed
+			.filter((line) => !line.startsWith("+"))
+			.map((line) => line.slice(1));
+		if (oldLines.length === 0) break;
+
+		const last = fileLines.length - oldLines.length;
+		const start = Math.min(Math.max(expected + leading, minIndex), last);
+
+		for (const comparator of COMPARATORS) {
+			for (let distance = 0; ; distance++) {
+				const after = start + distance;
+				const before = start - distance;
+				if (after > last && before < minIndex) break;
+
+				for (const index of distance === 0 ? [after] : [after, before]) {
+					if (
+						index >= minIndex &&
+						index <= last &&
+						matchesAt(fileLines, oldLines, index, comparator.equals)
+					) {
+						return { index, leading, trailing, loose: comparator.name };
+					}
+				}
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Describe why a hunk did not match (closest partial match)
+ */
+function describeMismatch(fileLines: string[], body: string[]): string {
+	const oldLines = body
+		.filter((line) => !line.startsWith("+"))
+		.map((line) => line.slice(1));
+	if (oldLines.length > fileLines.length) {
+		return `hunk expects ${oldLines.length} lines but the file has ${fileLines.length}`;
+	}
+
+	let best = { index: 0, matched: -1, firstDiff: 0 };
+	for (let index = 0; index + oldLines.length <= fileLines.length; index++) {
+		let matched = 0;
+		let firstDiff = -1;
+		for (let j = 0; j < oldLines.length; j++) {
+			if (fileLines[index + j]!.trim() === oldLines[j]!.trim()) {
+				matched++;
+			} else if (firstDiff === -1) {
+				firstDiff = j;
+			}
+		}
+		if (matched > best.matched) {
+			best = { index, matched, firstDiff };
+		}
+	}
+
+	const diffLine = best.index + best.firstDiff;
+	return (
+		`context not found; closest match at line ${best.index + 1} ` +
+		`(${best.matched}/${oldLines.length} lines), first difference at line ${diffLine + 1}: ` +
+		`expected ${JSON.stringify(oldLines[best.firstDiff])}, found ${JSON.stringify(fileLines[diffLine])}`
+	);
+}
+
+/**
+ * Apply hunks to file text
+ * All hunks are attempted so every failure is reported
+ */
+function applyHunks(
+	text: FileText,
+	hunks: PatchHunk[],
+	path: string,
+): { text: FileText; notes: string[]; failures: HunkFailure[] } {
+	const lines = [...text.lines];
+	let finalNewline = text.finalNewline;
+	const notes: string[] = [];
+	const failures: HunkFailure[] = [];
+	let lineDelta = 0; // Lines added minus removed by applied hunks
+	let lastOffset = 0; // Offset of the previous hunk from its header position
+	let minIndex = 0; // Hunks apply in order and never overlap
+
+	hunks.forEach((hunk, h) => {
+		const hasOldLines = hunk.lines.some((line) => !line.startsWith("+"));
+		let match: HunkMatch | null;
+
+		if (!hasOldLines) {
+			// Pure insertion: "@@ -5,0 +6,2 @@" inserts after line 5
+			const index =
+				hunk.oldStart === null
+					? lines.length
+					: hunk.oldStart + lineDelta + lastOffset;
+			match = {
+				index: Math.min(Math.max(index, minIndex), lines.length),
+				leading: 0,
+				trailing: 0,
+				loose: null,
+			};
+		} else {
+			const expected =
+				hunk.oldStart === null
+					? minIndex
+					: Math.max(0, hunk.oldStart - 1) + lineDelta + lastOffset;
+			match = locateHunk(lines, hunk.lines, expected, minIndex);
+			if (!match) {
+				failures.push({
+					path,
+					hunk: h + 1,
+					header: hunk.header,
+					reason: describeMismatch(lines, hunk.lines),
+				});
+				return;
+			}
+
+			const offset =
+				hunk.oldStart === null
+					? 0
+					: match.index - match.leading - (hunk.oldStart - 1) - lineDelta;
+			lastOffset = offset;
+			if (offset !== 0 && hunk.oldStart !== null) {
+				notes.push(
+					`hunk ${h + 1} applied at offset ${offset > 0 ? "+" : ""}${offset}`,
+				);
+			}
+			if (match.leading + match.trailing > 0) {
+				notes.push(
+					`hunk ${h + 1} applied with fuzz ${Math.max(match.leading, match.trailing)}`,
+				);
+			}
+			if (match.loose) {
+				notes.push(`hunk ${h + 1} applied ignoring ${match.loose}`);
+			}
+		}
+
+		// Context lines keep the file's own text (matters for loose matches)
+		const body = hunk.lines.slice(
+			match.leading,
+			hunk.lines.length - match.trailing,
+		);
+		const replacement: string[] = [];
+		let cursor = match.index;
+		for (const line of body) {
+			if (line.startsWith("+")) {
+				replacement.push(line.slice(1));
+			} else {
+				if (line.startsWith(" ")) replacement.push(lines[cursor]!);
+				cursor++;
+			}
+		}
+
+		const removed = cursor - match.index;
+		const reachesEnd = cursor === lines.length;
+		lines.splice(match.index, removed, ...replacement);
+		lineDelta += replacement.length - removed;
+		minIndex = match.index + replacement.length;
+
+		if (reachesEnd || !hasOldLines) {
+			if (hunk.newNoNewline) finalNewline = false;
+			else if (hunk.oldNoNewline) finalNewline = true;
+		}
+	});
+
+	return {
+		text: { lines, eol: text.eol, finalNewline },
+		notes,
+		failures,
+	};
+}
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+function getOperation(patch: FilePatch): PatchOperation {
+	if (patch.oldPath === null) return "create";
+	if (patch.newPath === null) return "delete";
+	return patch.oldPath === patch.newPath ? "modify" : "rename";
+}
+
+/**
+ * Apply a unified diff atomically
+ * @param cwd Directory that relative patch paths are resolved against
+ * @param patchText Unified diff (single or multi-file)
+ */
+export function applyPatch(cwd: string, patchText: string): ApplyPatchResult {
+	let patches: FilePatch[];
+	try {
+		patches = parsePatch(patchText);
+	} catch (err) {
+		return {
+			success: false,
+			changes: [],
+			failures: [],
+			error: err instanceof Error ? err.message : String(err),
+		};
+	}
+
+	const resolvePath = (path: string) =>
+		isAbsolute(path) ? path : join(cwd, path);
+
+	// Later file patches see the result of earlier ones
+	const pending = new Map<string, PendingFile>();
+	const exists = (path: string): boolean => {
+		const state = pending.get(resolvePath(path));
+		return state ? state.content !== null : existsSync(resolvePath(path));
+	};
+	const load = (path: string): PendingFile | string => {
+		const state = pending.get(resolvePath(path));
+		if (state) return state.content === null ? "File not found" : state;
+
+		const result = readFileContent(resolvePath(path));
+		if (!result.success || result.content === null) {
+			return result.error || "File not found";
+		}
+		return {
+			content: result.content,
+			encoding: result.encoding?.encoding || "utf-8",
+			hasBOM: result.encoding?.hasBOM || false,
+		};
+	};
+
+	const changes: PatchFileChange[] = [];
+	const failures: HunkFailure[] = [];
+
+	for (const patch of patches) {
+		const operation = getOperation(patch);
+		const sourcePath = patch.oldPath ?? patch.newPath;
+		if (sourcePath === null) {
+			failures.push({
+				path: "(unknown)",
+				hunk: null,
+				reason: "Both sides of the file header are /dev/null",
+			});
+			continue;
+		}
+		const targetPath = patch.newPath ?? sourcePath;
+		const fileFailure = (reason: string) =>
+			failures.push({ path: sourcePath, hunk: null, reason });
+
+		let source: PendingFile;
+		if (operation === "create") {
+			if (exists(targetPath)) {
+				fileFailure("File already exists");
+				continue;
+			}
+			source = { content: "", encoding: "utf-8", hasBOM: false };
+		} else {
+			const existing = load(sourcePath);
+			if (typeof existing === "string") {
+				fileFailure(existing);
+				continue;
+			}
+			if (operation === "rename" && exists(targetPath)) {
+				fileFailure(`Rename target already exists: ${targetPath}`);
+				continue;
+			}
+			source = existing;
+		}
+
+		const original = splitText(source.content!);
+		if (operation === "create") original.finalNewline = true;
+
+		const applied = applyHunks(original, patch.hunks, sourcePath);
+		if (applied.failures.length > 0) {
+			failures.push(...applied.failures);
+			continue;
+		}
+
+		if (
+			operation === "delete" &&
+			applied.text.lines.some((line) => line.trim() !== "")
+		) {
+			fileFailure("File still has content that is not removed by the patch");
+			continue;
+		}
+
+		if (operation === "delete" || operation === "rename") {
+			pending.set(resolvePath(sourcePath), {
+				...source,
+				content: null,
+			});
+		}
+		if (operation !== "delete") {
+			pending.set(resolvePath(targetPath), {
+				...source,
+				content: joinText(applied.text),
+			});
+		}
+
+		changes.push({
+			operation,
+			path: targetPath,
+			fromPath: operation === "rename" ? sourcePath : undefined,
+			hunks: patch.hunks.length,
+			notes: applied.notes,
+		});
+	}
+
+	if (failures.length > 0) {
+		return { success: false, changes: [], failures };
+	}
+
+	const writeError = commitPending(pending);
+	if (writeError) {
+		return { success: false, changes: [], failures: [], error: writeError };
+	}
+
+	return { success: true, changes, failures: [] };
+}
+
+/**
+ * Write all pending files, restoring the originals if any write fails
+ * @returns error message, or null on success
+ */
+function commitPending(pending: Map<string, PendingFile>): string | null {
+	const originals = new Map<string, Buffer | null>();
+
+	for (const [fullPath, state] of pending) {
+		try {
+			originals.set(
+				fullPath,
+				existsSync(fullPath) ? readFileSync(fullPath) : null,
+			);
+
+			if (state.content === null) {
+				// Snapshot before deleting so /undo can restore the file
+				getUndoManager().snapshot(fullPath);
+				if (existsSync(fullPath)) unlinkSync(fullPath);
+			} else {
+				const result = writeFileContent(
+					fullPath,
+					state.content,
+					"overwrite",
+					state.encoding,
+					state.hasBOM,
+					false, // Line endings were already applied per file
+				);
+				if (!result.success) throw new Error(result.error);
+			}
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			rollback(originals);
+			return `Failed to write ${fullPath}: ${message}. All changes were rolled back`;
+		}
+	}
+
+	return null;
+}
+
+function rollback(originals: Map<string, Buffer | null>): void {
+	for (const [fullPath, buffer] of [...originals].reverse()) {
+		try {
+			if (buffer) {
+				writeFileSync(fullPath, buffer);
+			} else if (existsSync(fullPath)) {
+				unlinkSync(fullPath);
+			}
+		} catch {
+			// Best effort, keep restoring the rest
+		}
+	}
+}
@@ -0,0 +1,310 @@
+/**
+ * Background process manager
+ *
+ * Keeps track of processes that outlive a single tool call: dev servers and
+ * watchers started with the process tool, and commands that were detached
+ * to the background after running too long. Output of each process is kept
+ * in a ring buffer so the model can poll it with a since-offset without
+ * re-reading everything.
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+import { killProcessTree } from "./executorUtils.js";
+import {
+	buildSandboxArgs,
+	createSandboxName,
+	killSandboxContainer,
+	type SandboxConfig,
+} from "./sandbox.js";
+
+/**
+ * Maximum output kept per process (characters), older output is dropped
+ */
+export const PROCESS_OUTPUT_BUFFER_SIZE = 256 * 1024;
+
+export type ProcessStatus = "running" | "exited" | "killed";
+
+/**
+ * Public information about a managed process
+ */
+export type ProcessInfo = {
+	id: string;
+	command: string;
+	pid?: number;
+	status: ProcessStatus;
+	/** Exit code, null while running or when killed by a signal */
+	exitCode: number | null;
+	startedAt: number;
+	endedAt?: number;
+	/** Total output length so far (next since-offset) */
+	outputLength: number;
+};
+
+/**
+ * Result of reading process output
+ */
+export type ProcessOutput = {
+	output: string;
+	/** Offset to pass as `since` on the next read */
+	offset: number;
+	/** Part of the requested output was already dropped from the buffer */
+	truncated: boolean;
+};
+
+/**
+ * Called when a process is added or its status changes
+ */
+export type ProcessChangeListener = () => void;
+
+type ManagedProcess = {
+	info: ProcessInfo;
+	child: ChildProcess;
+	/** Buffered output (stdout and stderr interleaved) */
+	buffer: string;
+	/** Number of characters dropped from the front of the buffer */
+	dropped: number;
+	/** Extra cleanup when stopped (e.g. killing the sandbox container) */
+	onStop?: () => void;
+};
+
+/**
+ * Tracks background processes for one AI service
+ */
+export class ProcessManager {
+	private processes = new Map<string, ManagedProcess>();
+	private idCounter = 0;
+	private listeners: ProcessChangeListener[] = [];
+
+	/**
+	 * Start a command in the background
+	 * The command runs through the system shell in its own process group,
+	 * so stopping it also stops the processes it started. With `sandbox`,
+	 * it runs inside a container that is killed when the process is stopped.
+	 * @returns Process ID
+	 */
+	start(
+		command: string,
+		options?: { cwd?: string; sandbox?: SandboxConfig },
+	): string {
+		const spawnOptions = {
+			cwd: options?.cwd,
+			env: process.env,
+			windowsHide: true,
+			detached: process.platform !== "win32",
+		};
+
+		const sandbox = options?.sandbox;
+		if (sandbox) {
+			const name = createSandboxName();
+			const child = spawn(
+				sandbox.runtime,
+				buildSandboxArgs(sandbox, command, {
+					cwd: options?.cwd || process.cwd(),
+					name,
+				}),
+				{ ...spawnOptions, shell: false },
+			);
+			return this.adopt(child, command, "", () =>
+				killSandboxContainer(sandbox.runtime, name),
+			);
+		}
+
+		const child = spawn(command, { ...spawnOptions, shell: true });
+		return this.adopt(child, command);
+	}
+
+	/**
+	 * Take over a running process
+	 * @param child Spawned process (stdout/stderr must still be readable)
+	 * @param command Command line shown in status output
+	 * @param initialOutput Output produced before the process was adopted
+	 * @param onStop Extra cleanup when the process is stopped
+	 * @returns Process ID
+	 */
+	adopt(
+		child: ChildProcess,
+		command: string,
+		initialOutput = "",
+		onStop?: () => void,
+	): string {
+		const id = `p${++this.idCounter}`;
+		const managed: ManagedProcess = {
+			info: {
+				id,
+				command,
+				pid: child.pid,
+				status: "running",
+				exitCode: null,
+				startedAt: Date.now(),
+				outputLength: 0,
+			},
+			child,
+			buffer: "",
+			dropped: 0,
+			onStop,
+		};
+		this.processes.set(id, managed);
+		this.append(managed, initialOutput);
+
+		const onData = (data: Buffer) => {
+			this.append(managed, data.toString("utf8"));
+		};
+		child.stdout?.on("data", onData);
+		child.stderr?.on("data", onData);
+		// Writing to a process that already exited must not crash the app
+		child.stdin?.on("error", () => {});
+		child.on("error", (err) => {
+			this.append(managed, `${err.message}\n`);
+			this.finish(managed, null);
+		});
+		child.on("close", (code) => {
+			this.finish(managed, code);
+		});
+
+		this.notify();
+		return id;
+	}
+
+	/**
+	 * Get information about a process
+	 */
+	get(id: string): ProcessInfo | undefined {
+		const managed = this.processes.get(id);
+		return managed ? { ...managed.info } : undefined;
+	}
+
+	/**
+	 * List all processes, oldest first
+	 */
+	list(): ProcessInfo[] {
+		return [...this.processes.values()].map((managed) => ({
+			...managed.info,
+		}));
+	}
+
+	/**
+	 * Read output produced after `since`
+	 * @returns undefined when the process does not exist
+	 */
+	readOutput(id: string, since = 0): ProcessOutput | undefined {
+		const managed = this.processes.get(id);
+		if (!managed) {
+			return undefined;
+		}
+		const start = Math.max(since, managed.dropped);
+		return {
+			output: managed.buffer.substring(start - managed.dropped),
+			offset: managed.info.outputLength,
+			truncated: since < managed.dropped,
+		};
+	}
+
+	/**
+	 * Number of processes that are still running
+	 */
+	getRunningCount(): number {
+		let count = 0;
+		for (const managed of this.processes.values()) {
+			if (managed.info.status === "running") {
+				count++;
+			}
+		}
+		return count;
+	}
+
+	/**
+	 * Write to the standard input of a running process
+	 * @returns false when the process does not exist or is no longer running
+	 */
+	sendInput(id: string, input: string): boolean {
+		const managed = this.processes.get(id);
+		const stdin = managed?.child.stdin;
+		if (!managed || managed.info.status !== "running" || !stdin?.writable) {
+			return false;
+		}
+		stdin.write(input);
+		return true;
+	}
+
+	/**
+	 * Listen for started, exited and stopped processes
+	 * @returns Function that removes the listener
+	 */
+	onChange(listener: ProcessChangeListener): () => void {
+		this.listeners.push(listener);
+		return () => {
+			this.listeners = this.listeners.filter((l) => l !== listener);
+		};
+	}
+
+	/**
+	 * Stop a process and its children
+	 * @returns false when the process does not exist
+	 */
+	stop(id: string): boolean {
+		const managed = this.processes.get(id);
+		if (!managed) {
+			return false;
+		}
+		if (managed.info.status === "running") {
+			managed.info.status = "killed";
+			killProcessTree(managed.child);
+			managed.onStop?.();
+			this.notify();
+		}
+		return true;
+	}
+
+	/**
+	 * Stop all running processes
+	 */
+	stopAll(): void {
+		for (const id of this.processes.keys()) {
+			this.stop(id);
+		}
+	}
+
+	private finish(managed: ManagedProcess, exitCode: number | null): void {
+		if (managed.info.endedAt !== undefined) {
+			return;
+		}
+		if (managed.info.status === "running") {
+			managed.info.status = "exited";
+		}
+		managed.info.exitCode = exitCode;
+		managed.info.endedAt = Date.now();
+		this.notify();
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+
+	private append(managed: ManagedProcess, text: string): void {
+		if (!text) {
+			return;
+		}
+		managed.buffer += text;
+		managed.info.outputLength += text.length;
+		const overflow = managed.buffer.length - PROCESS_OUTPUT_BUFFER_SIZE;
+		if (overflow > 0) {
+			managed.buffer = managed.buffer.substring(overflow);
+			managed.dropped += overflow;
+		}
+	}
+}
+
+// Shared instance (used by every AI service unless one is passed in)
+let processManagerInstance: ProcessManager | null = null;
+
+/**
+ * Get the shared process manager
+ */
+export function getProcessManager(): ProcessManager {
+	if (!processManagerInstance) {
+		processManagerInstance = new ProcessManager();
+	}
+	return processManagerInstance;
+}
@@ -0,0 +1,521 @@
+/**
+ * Project-wide file search (glob + grep)
+ *
+ * Walks the project lazily (directory by directory, in sorted order so
+ * pagination is stable), honouring .gitignore and .axiomateignore files at
+ * every level. Content search detects each file's encoding before matching.
+ */
+
+import { readdir, readFile, stat } from "node:fs/promises";
+import { existsSync, readFileSync } from "node:fs";
+import { isAbsolute, join, relative, resolve, sep } from "node:path";
+import { detectEncoding } from "./encodingDetector.js";
+import { decodeBuffer } from "./fileOperations.js";
+
+/**
+ * Ignore files read in every directory (later rules win)
+ */
+const IGNORE_FILENAMES = [".gitignore", ".axiomateignore"];
+
+/**
+ * Directories that are never walked
+ */
+const ALWAYS_SKIPPED_DIRS = new Set([".git"]);
+
+/**
+ * Files larger than this are skipped by grep (bytes)
+ */
+const MAX_GREP_FILE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Bytes inspected when checking for binary content
+ */
+const BINARY_SAMPLE_SIZE = 8000;
+
+/**
+ * Maximum number of context lines around a grep match
+ */
+export const MAX_CONTEXT_LINES = 10;
+
+export type IgnoreRule = {
+	/** Directory of the ignore file, relative to the project root (posix, "" for root) */
+	base: string;
+	regex: RegExp;
+	negate: boolean;
+	dirOnly: boolean;
+	/** Pattern has no slash: match against the basename at any depth */
+	matchBasename: boolean;
+};
+
+export type SearchPageOptions = {
+	/** Directory to search, relative to cwd (default: cwd) */
+	path?: string;
+	/** Only include files matching any of these globs */
+	include?: string[];
+	/** Skip files matching any of these globs */
+	exclude?: string[];
+	/** Number of results to skip (for pagination) */
+	offset?: number;
+	/** Page size */
+	maxResults?: number;
+};
+
+export type FindFilesResult = {
+	success: boolean;
+	/** Matching file paths relative to cwd (posix separators) */
+	files: string[];
+	offset: number;
+	/** More results exist after this page */
+	hasMore: boolean;
+	error?: string;
+};
+
+export type GrepMatch = {
+	/** File path relative to cwd (posix separators) */
+	path: string;
+	line: number; // 1-based line number
+	column: number; // 1-based column
+	content: string; // Full line content
+	match: string; // Matched text
+	before: string[]; // Context lines before the match
+	after: string[]; // Context lines after the match
+	encoding: string; // Detected file encoding
+};
+
+export type GrepResult = {
+	success: boolean;
+	matches: GrepMatch[];
+	offset: number;
+	/** More results exist after this page */
+	hasMore: boolean;
+	/** Number of files whose content was searched */
+	filesSearched: number;
+	error?: string;
+};
+
+/**
+ * Convert a glob to a regular expression
+ * Supports *, **, ?, [...] and {a,b}
+ */
+export function globToRegExp(glob: string): RegExp {
+	return new RegExp(`^${globToRegExpSource(glob)}$`);
+}
+
+function globToRegExpSource(glob: string): string {
+	let source = "";
+
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i]!;
+
+		if (char === "*") {
+			if (glob[i + 1] === "*") {
+				i++;
+				if (glob[i + 1] === "/") {
+					// "**/" matches zero or more directories
+					i++;
+					source += "(?:.*/)?";
+				} else {
+					source += ".*";
+				}
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "[") {
+			const end = glob.indexOf("]", i + 2);
+			if (end === -1) {
+				source += "\\[";
+			} else {
+				let body = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+				if (body.startsWith("!")) body = "^" + body.slice(1);
+				source += `[${body}]`;
+				i = end;
+			}
+		} else if (char === "{") {
+			const end = glob.indexOf("}", i);
+			if (end === -1) {
+				source += "\\{";
+			} else {
+				const alternatives = glob
+					.slice(i + 1, end)
+					.split(",")
+					.map(globToRegExpSource);
+				source += `(?:${alternatives.join("|")})`;
+				i = end;
+			}
+		} else if (char === "\\" && i + 1 < glob.length) {
+			i++;
+			source += escapeRegex(glob[i]!);
+		} else {
+			source += escapeRegex(char);
+		}
+	}
+
+	return source;
+}
+
+function escapeRegex(str: string): string {
+	return str.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Check a relative path against a glob
+ * Globs without a slash match the basename at any depth (like .gitignore)
+ */
+export function matchGlob(glob: string, relativePath: string): boolean {
+	const pattern = glob.replace(/^\.\//, "");
+	const target = pattern.includes("/")
+		? relativePath
+		: relativePath.slice(relativePath.lastIndexOf("/") + 1);
+	return globToRegExp(pattern).test(target);
+}
+
+/**
+ * Parse .gitignore-style content into rules
+ * @param content Ignore file content
+ * @param base Directory of the ignore file relative to the project root
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+	const rules: IgnoreRule[] = [];
+
+	for (const rawLine of content.split(/\r?\n/)) {
+		let line = rawLine.replace(/(?<!\\)\s+$/, "");
+		if (!line || line.startsWith("#")) continue;
+
+		const negate = line.startsWith("!");
+		if (negate) line = line.slice(1);
+		if (line.startsWith("\\#") || line.startsWith("\\!")) line = line.slice(1);
+
+		const dirOnly = line.endsWith("/");
+		if (dirOnly) line = line.slice(0, -1);
+		if (!line) continue;
+
+		// A slash at the start or in the middle anchors the pattern to the ignore file directory
+		const matchBasename = !line.includes("/");
+		if (line.startsWith("/")) line = line.slice(1);
+
+		rules.push({
+			base,
+			regex: new RegExp(`^${globToRegExpSource(line)}(?:/.*)?$`),
+			negate,
+			dirOnly,
+			matchBasename,
+		});
+	}
+
+	return rules;
+}
+
+/**
+ * Check whether a path is ignored (the last matching rule wins)
+ * @param relativePath Path relative to the project root (posix)
+ */
+export function isIgnored(
+	relativePath: string,
+	isDirectory: boolean,
+	rules: IgnoreRule[],
+): boolean {
+	let ignored = false;
+
+	for (const rule of rules) {
+		if (rule.dirOnly && !isDirectory) continue;
+		if (rule.base && !relativePath.startsWith(rule.base + "/")) continue;
+
+		const subPath = rule.base
+			? relativePath.slice(rule.base.length + 1)
+			: relativePath;
+		const target = rule.matchBasename
+			? subPath.slice(subPath.lastIndexOf("/") + 1)
+			: subPath;
+
+		if (rule.regex.test(target)) {
+			ignored = !rule.negate;
+		}
+	}
+
+	return ignored;
+}
+
+function toPosix(path: string): string {
+	return sep === "/" ? path : path.split(sep).join("/");
+}
+
+function loadIgnoreRules(dir: string, base: string): IgnoreRule[] {
+	const rules: IgnoreRule[] = [];
+	for (const name of IGNORE_FILENAMES) {
+		const filePath = join(dir, name);
+		if (existsSync(filePath)) {
+			try {
+				rules.push(...parseIgnoreFile(readFileSync(filePath, "utf-8"), base));
+			} catch {
+				// Unreadable ignore file, skip
+			}
+		}
+	}
+	return rules;
+}
+
+/**
+ * Walk project files lazily, yielding paths relative to cwd (posix)
+ * Ignore files between cwd and the start directory also apply; outside the
+ * project only ignore files below the start directory are used
+ * @param cwd Project root
+ * @param startDir Directory to walk (absolute)
+ */
+export async function* walkProjectFiles(
+	cwd: string,
+	startDir: string = cwd,
+): AsyncGenerator<string> {
+	const root = resolve(cwd);
+	const start = resolve(startDir);
+
+	// Collect rules from ancestors of the start directory inside the project
+	const rules: IgnoreRule[] = [];
+	const startRelative = toPosix(relative(root, start));
+	const insideProject =
+		!startRelative.startsWith("..") && !isAbsolute(startRelative);
+	if (insideProject && startRelative) {
+		const parts = startRelative.split("/");
+		for (let i = 0; i < parts.length; i++) {
+			const base = parts.slice(0, i).join("/");
+			rules.push(...loadIgnoreRules(join(root, ...parts.slice(0, i)), base));
+		}
+	}
+
+	const baseDir = insideProject ? root : start;
+
+	async function* walk(
+		dir: string,
+		inherited: IgnoreRule[],
+	): AsyncGenerator<string> {
+		const dirRelative = toPosix(relative(baseDir, dir));
+		const dirRules = [...inherited, ...loadIgnoreRules(dir, dirRelative)];
+
+		let entries;
+		try {
+			entries = await readdir(dir, { withFileTypes: true });
+		} catch {
+			return; // Unreadable directory
+		}
+		entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+		for (const entry of entries) {
+			const entryPath = join(dir, entry.name);
+			const entryRelative = dirRelative
+				? `${dirRelative}/${entry.name}`
+				: entry.name;
+
+			if (entry.isDirectory()) {
+				if (ALWAYS_SKIPPED_DIRS.has(entry.name)) continue;
+				if (isIgnored(entryRelative, true, dirRules)) continue;
+				yield* walk(entryPath, dirRules);
+			} else if (entry.isFile()) {
+				if (isIgnored(entryRelative, false, dirRules)) continue;
+				yield toPosix(relative(root, entryPath));
+			}
+			// Symlinks are skipped to avoid cycles
+		}
+	}
+
+	yield* walk(start, rules);
+}
+
+function matchesFilters(
+	relativePath: string,
+	include: string[] | undefined,
+	exclude: string[] | undefined,
+): boolean {
+	if (include?.length && !include.some((g) => matchGlob(g, relativePath))) {
+		return false;
+	}
+	if (exclude?.some((g) => matchGlob(g, relativePath))) {
+		return false;
+	}
+	return true;
+}
+
+function resolveSearchDir(cwd: string, path: string | undefined): string {
+	return resolve(cwd, path || ".");
+}
+
+/**
+ * Find files by glob
+ * @param cwd Project root
+ * @param pattern Glob to match (e.g. "*.md", "src/**")
+ * @param options Search directory, include/exclude globs and pagination
+ */
+export async function findFiles(
+	cwd: string,
+	pattern: string,
+	options: SearchPageOptions = {},
+): Promise<FindFilesResult> {
+	const offset = Math.max(0, options.offset ?? 0);
+	const maxResults = Math.max(1, options.maxResults ?? 100);
+	const searchDir = resolveSearchDir(cwd, options.path);
+
+	try {
+		if (!(await stat(searchDir)).isDirectory()) {
+			return notADirectory(options.path);
+		}
+	} catch {
+		return notADirectory(options.path);
+	}
+
+	const files: string[] = [];
+	let seen = 0;
+	let hasMore = false;
+
+	for await (const file of walkProjectFiles(cwd, searchDir)) {
+		const searchRelative = toPosix(relative(searchDir, join(cwd, file)));
+		if (!matchGlob(pattern, searchRelative)) continue;
+		if (!matchesFilters(searchRelative, options.include, options.exclude)) {
+			continue;
+		}
+
+		if (seen++ < offset) continue;
+		if (files.length === maxResults) {
+			hasMore = true;
+			break;
+		}
+		files.push(file);
+	}
+
+	return { success: true, files, offset, hasMore };
+}
+
+function notADirectory(path: string | undefined): FindFilesResult {
+	return {
+		success: false,
+		files: [],
+		offset: 0,
+		hasMore: false,
+		error: `Directory not found: ${path || "."}`,
+	};
+}
+
+/**
+ * Search file contents across the project
+ * @param cwd Project root
+ * @param pattern Search pattern (string or regex)
+ * @param options Search directory, include/exclude globs, context lines and pagination
+ */
+export async function grepFiles(
+	cwd: string,
+	pattern: string | RegExp,
+	options: SearchPageOptions & { contextLines?: number } = {},
+): Promise<GrepResult> {
+	const offset = Math.max(0, options.offset ?? 0);
+	const maxResults = Math.max(1, options.maxResults ?? 100);
+	const contextLines = Math.min(
+		MAX_CONTEXT_LINES,
+		Math.max(0, options.contextLines ?? 0),
+	);
+	const searchDir = resolveSearchDir(cwd, options.path);
+
+	try {
+		if (!(await stat(searchDir)).isDirectory()) {
+			return grepNotADirectory(options.path);
+		}
+	} catch {
+		return grepNotADirectory(options.path);
+	}
+
+	const regex =
+		typeof pattern === "string"
+			? new RegExp(escapeRegex(pattern), "g")
+			: new RegExp(
+					pattern.source,
+					pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g",
+				);
+
+	const matches: GrepMatch[] = [];
+	let seen = 0;
+	let hasMore = false;
+	let filesSearched = 0;
+
+	fileLoop: for await (const file of walkProjectFiles(cwd, searchDir)) {
+		const searchRelative = toPosix(relative(searchDir, join(cwd, file)));
+		if (!matchesFilters(searchRelative, options.include, options.exclude)) {
+			continue;
+		}
+
+		const decoded = await readTextFile(join(cwd, file));
+		if (!decoded) continue;
+		filesSearched++;
+
+		const lines = decoded.content.split(/\r?\n/);
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i]!;
+			regex.lastIndex = 0;
+			let match: RegExpExecArray | null;
+
+			while ((match = regex.exec(line)) !== null) {
+				if (seen++ >= offset) {
+					if (matches.length === maxResults) {
+						hasMore = true;
+						break fileLoop;
+					}
+					matches.push({
+						path: file,
+						line: i + 1,
+						column: match.index + 1,
+						content: line,
+						match: match[0],
+						before: lines.slice(Math.max(0, i - contextLines), i),
+						after: lines.slice(i + 1, i + 1 + contextLines),
+						encoding: decoded.encoding,
+					});
+				}
+
+				// Prevent infinite loop for zero-length matches
+				if (match[0].length === 0) {
+					regex.lastIndex++;
+				}
+			}
+		}
+	}
+
+	return { success: true, matches, offset, hasMore, filesSearched };
+}
+
+function grepNotADirectory(path: string | undefined): GrepResult {
+	return {
+		success: false,
+		matches: [],
+		offset: 0,
+		hasMore: false,
+		filesSearched: 0,
+		error: `Directory not found: ${path || "."}`,
+	};
+}
+
+/**
+ * Read and decode a text file, or null for binary / oversized / unreadable files
+ */
+async function readTextFile(
+	filePath: string,
+): Promise<{ content: string; encoding: string } | null> {
+	try {
+		if ((await stat(filePath)).size > MAX_GREP_FILE_SIZE) {
+			return null;
+		}
+		const buffer = await readFile(filePath);
+		const encodingInfo = detectEncoding(buffer);
+
+		// NUL bytes without a UTF-16/32 BOM mean binary content
+		if (
+			!encodingInfo.hasBOM &&
+			buffer.subarray(0, BINARY_SAMPLE_SIZE).includes(0)
+		) {
+			return null;
+		}
+
+		return {
+			content: decodeBuffer(buffer, encodingInfo),
+			encoding: encodingInfo.encoding,
+		};
+	} catch {
+		return null;
+	}
+}
@@ -89,9 +89,32 @@ export class ToolRegistry implements IToolRegistry {
 			.catch(() => {
 				// 发现失败也标记为完成，使用已有的内置工具
 				this._discoveryStatus = "completed";
+				for (const callback of this._discoveryCallbacks) {
+					callback([]);
+				}
+				this._discoveryCallbacks = [];
 			});
 	}
 
+	/**
+	 * 替换外部 MCP Server 提供的工具（连接状态变化时调用）
+	 * 已冻结的工具集合会随之刷新
+	 */
+	setMcpTools(tools: DiscoveredTool[]): void {
+		for (const [id, tool] of this.tools) {
+			if (tool.category === "mcp") {
+				this.tools.delete(id);
+			}
+		}
+		for (const tool of tools) {
+			this.tools.set(tool.id, tool);
+		}
+
+		if (this._allTools !== null) {
+			this.refreshFrozenTools();
+		}
+	}
+
 	/**
 	 * 注册发现完成回调
 	 */
@@ -277,9 +300,13 @@ export class ToolRegistry implements IToolRegistry {
 		// 获取项目类型对应的工具 ID
 		const projectToolIds = getToolsForProjectType(projectType);
 
-		// 集合B = 核心工具 + 项目工具（都必须在A中存在）
+		// 集合B = 核心工具 + 项目工具 + MCP 工具（都必须在A中存在）
+		// MCP 工具由用户显式配置，总是可用
 		return this._allTools!.filter(
-			(tool) => coreToolIds.has(tool.id) || projectToolIds.has(tool.id),
+			(tool) =>
+				coreToolIds.has(tool.id) ||
+				projectToolIds.has(tool.id) ||
+				tool.category === "mcp",
 		);
 	}
 
@@ -0,0 +1,250 @@
+/**
+ * Container sandbox for shell tool execution
+ *
+ * Runs bash/python/node commands inside a throwaway Docker or Podman
+ * container: the project directory is mounted at /workspace, network is
+ * disabled by default and memory/CPU/process limits apply.
+ *
+ * When sandboxing is requested but no container runtime is available,
+ * commands fall back to host execution with a warning.
+ */
+
+import { randomBytes } from "node:crypto";
+import { spawn } from "node:child_process";
+import { parse } from "node:path";
+import {
+	detectContainerRuntime,
+	type ContainerRuntime,
+} from "./discoverers/docker.js";
+import {
+	getLocalSettings,
+	type SandboxPolicy,
+} from "../../utils/localsettings.js";
+import { logger } from "../../utils/logger.js";
+import type { RiskAssessment } from "../permissions/types.js";
+
+export type { ContainerRuntime };
+
+/**
+ * Interpreters that can run inside the sandbox
+ */
+export type SandboxInterpreter = "bash" | "python" | "node";
+
+/**
+ * Resolved sandbox settings passed to executeCommand
+ */
+export type SandboxConfig = {
+	runtime: ContainerRuntime;
+	image: string;
+	network: boolean;
+	memory: string;
+	cpus: string;
+};
+
+/**
+ * How a command was (or was not) sandboxed, attached to execution metadata
+ */
+export type SandboxInfo = {
+	/** Runtime used, null when falling back to host execution */
+	runtime: ContainerRuntime | null;
+	image: string;
+	/** Set when the sandbox was requested but unavailable */
+	warning?: string;
+};
+
+/**
+ * Mount point of the project directory inside the container
+ */
+export const SANDBOX_WORKDIR = "/workspace";
+
+/**
+ * Maximum number of processes inside the container
+ */
+const SANDBOX_PIDS_LIMIT = 256;
+
+/**
+ * Default image per interpreter (used when the policy has no image)
+ */
+const DEFAULT_SANDBOX_IMAGES: Record<SandboxInterpreter, string> = {
+	bash: "bash:5",
+	python: "python:3-slim",
+	node: "node:lts-slim",
+};
+
+/**
+ * Tool IDs whose command actions can be sandboxed
+ */
+const SANDBOX_TOOL_INTERPRETERS: Record<string, SandboxInterpreter> = {
+	"a-c-bash": "bash",
+	"a-python": "python",
+	"a-node": "node",
+};
+
+const FALLBACK_WARNING =
+	"No container runtime (docker/podman) found, command ran on the host";
+
+// Runtime detection is cached for the lifetime of the process
+let runtimePromise: Promise<ContainerRuntime | null> | null = null;
+
+/**
+ * Get the container runtime (detected once and cached)
+ */
+export function getContainerRuntime(): Promise<ContainerRuntime | null> {
+	if (!runtimePromise) {
+		runtimePromise = detectContainerRuntime();
+	}
+	return runtimePromise;
+}
+
+/**
+ * Reset the cached runtime (for testing)
+ */
+export function resetContainerRuntime(): void {
+	runtimePromise = null;
+}
+
+/**
+ * Get the sandbox interpreter for a tool, or null if the tool is not sandboxable
+ */
+export function getSandboxInterpreter(
+	toolId: string,
+): SandboxInterpreter | null {
+	return SANDBOX_TOOL_INTERPRETERS[toolId] ?? null;
+}
+
+/**
+ * Decide whether a command should run in the sandbox
+ */
+export function shouldUseSandbox(
+	interpreter: SandboxInterpreter | null,
+	risk: RiskAssessment | undefined,
+	policy: SandboxPolicy,
+): boolean {
+	if (!interpreter) return false;
+	switch (policy.mode) {
+		case "always":
+			return true;
+		case "dangerous":
+			return risk?.level === "dangerous";
+		default:
+			return false;
+	}
+}
+
+/**
+ * Resolve the sandbox for a command
+ * @returns config to pass to executeCommand (absent = run on host) and info for metadata
+ */
+export async function resolveSandbox(
+	interpreter: SandboxInterpreter | null,
+	risk: RiskAssessment | undefined,
+	policy: SandboxPolicy = getLocalSettings().sandbox,
+): Promise<{ config?: SandboxConfig; info?: SandboxInfo }> {
+	if (!interpreter || !shouldUseSandbox(interpreter, risk, policy)) {
+		return {};
+	}
+
+	const image = policy.image || DEFAULT_SANDBOX_IMAGES[interpreter];
+	const runtime = await getContainerRuntime();
+	if (!runtime) {
+		logger.warn("Sandbox unavailable, falling back to host execution", {
+			interpreter,
+		});
+		return { info: { runtime: null, image, warning: FALLBACK_WARNING } };
+	}
+
+	return {
+		config: {
+			runtime,
+			image,
+			network: policy.network,
+			memory: policy.memory,
+			cpus: policy.cpus,
+		},
+		info: { runtime, image },
+	};
+}
+
+/**
+ * Generate a unique container name so a timed-out container can be killed
+ */
+export function createSandboxName(): string {
+	return `axiomate-sandbox-${randomBytes(6).toString("hex")}`;
+}
+
+/**
+ * Kill a sandbox container (killing the runtime client does not stop it)
+ */
+export function killSandboxContainer(
+	runtime: ContainerRuntime,
+	name: string,
+): void {
+	spawn(runtime, ["kill", name], {
+		stdio: "ignore",
+		windowsHide: true,
+	}).on("error", () => {});
+}
+
+/**
+ * Rewrite host project paths in a command to the container mount point
+ */
+export function toContainerCommand(command: string, cwd: string): string {
+	// A filesystem root is a prefix of every path, leave the command unchanged
+	if (parse(cwd).root === cwd) {
+		return command;
+	}
+	const forwardSlashCwd = cwd.replace(/\\/g, "/");
+	return command
+		.split(cwd)
+		.join(SANDBOX_WORKDIR)
+		.split(forwardSlashCwd)
+		.join(SANDBOX_WORKDIR);
+}
+
+/**
+ * Build the `docker run` / `podman run` arguments for a sandboxed command
+ */
+export function buildSandboxArgs(
+	config: SandboxConfig,
+	command: string,
+	options: { cwd: string; name: string; env?: Record<string, string> },
+): string[] {
+	const args = [
+		"run",
+		"--rm",
+		"-i",
+		"--name",
+		options.name,
+		"--memory",
+		config.memory,
+		"--cpus",
+		config.cpus,
+		"--pids-limit",
+		String(SANDBOX_PIDS_LIMIT),
+		"--security-opt",
+		"no-new-privileges",
+		"-v",
+		`${options.cwd}:${SANDBOX_WORKDIR}`,
+		"-w",
+		SANDBOX_WORKDIR,
+	];
+
+	if (!config.network) {
+		args.push("--network", "none");
+	}
+
+	// Keep files written to the mounted project owned by the current user
+	if (
+		typeof process.getuid === "function" &&
+		typeof process.getgid === "function"
+	) {
+		args.push("--user", `${process.getuid()}:${process.getgid()}`);
+	}
+
+	for (const [key, value] of Object.entries(options.env ?? {})) {
+		args.push("-e", `${key}=${value}`);
+	}
+
+	args.push(config.image, "sh", "-c", toContainerCommand(command, options.cwd));
+	return args;
+}
@@ -15,6 +15,7 @@ export type ToolCategory =
 	| "database" // 数据库工具 (mysql, psql, sqlite3)
 	| "web" // 网络工具 (web fetch)
 	| "utility" // 通用工具 (file, plan)
+	| "mcp" // 外部 MCP Server 提供的工具
 	| "other";
 
 // 工具能力
@@ -47,6 +48,10 @@ export type ToolAction = {
 	parameters: ToolParameter[];
 	// 命令模板，使用 {{param}} 占位符
 	commandTemplate: string;
+	// 原始 JSON Schema（MCP 远程工具），存在时代替 parameters 发送给模型
+	inputSchema?: Record<string, unknown>;
+	// 动作自身的能力，未设置时沿用工具的 capabilities（只读动作可并发执行）
+	capabilities?: ToolCapability[];
 };
 
 // 发现的本地工具
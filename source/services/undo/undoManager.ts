@@ -0,0 +1,393 @@
+/**
+ * 文件修改日志（撤销 / 重做）
+ *
+ * AI 通过文件工具写入、编辑、追加文件前，先把文件原始字节快照到 .axiomate/backups/，
+ * 快照按 AI 回合（消息队列 id）分组，/undo 和 /redo 以回合为单位恢复。
+ *
+ * 存储结构：
+ * - .axiomate/backups/journal.json        回合列表（按时间顺序）
+ * - .axiomate/backups/<turnId>/<n>.bak    回合开始前的文件内容
+ * - .axiomate/backups/<turnId>/<n>.redo   撤销时保存的回合结束后内容（用于重做）
+ *
+ * 快照保存原始字节，因此编码和 BOM 原样保留
+ */
+
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	writeFileSync,
+	unlinkSync,
+	rmSync,
+	statSync,
+} from "node:fs";
+import { dirname, join, relative, resolve, isAbsolute } from "node:path";
+import { detectEncoding } from "../tools/encodingDetector.js";
+
+/** 最多保留的回合数 */
+export const MAX_BACKUP_TURNS = 50;
+
+/** 所有备份的总大小上限（字节） */
+export const MAX_BACKUP_TOTAL_SIZE = 50 * 1024 * 1024;
+
+/** 单个文件的备份大小上限（字节），超过则不备份 */
+export const MAX_BACKUP_FILE_SIZE = 10 * 1024 * 1024;
+
+const BACKUPS_DIR = join(".axiomate", "backups");
+const JOURNAL_FILENAME = "journal.json";
+
+/**
+ * 单个文件的快照
+ */
+export type FileSnapshot = {
+	/** 文件绝对路径 */
+	path: string;
+	/** 回合前内容的备份文件名，null 表示回合前文件不存在 */
+	backup: string | null;
+	/** 撤销时保存的回合后内容，null 表示撤销时文件不存在 */
+	redoBackup?: string | null;
+	/** 文件过大未备份，无法恢复 */
+	skipped?: boolean;
+	/** 原始编码 */
+	encoding?: string;
+	/** 原始文件是否带 BOM */
+	hasBOM?: boolean;
+	/** 备份占用字节数 */
+	size: number;
+};
+
+/**
+ * 一个 AI 回合的修改记录
+ */
+export type TurnEntry = {
+	/** 消息队列 id */
+	id: string;
+	/** 显示标签（用户消息摘要） */
+	label: string;
+	/** 创建时间（ISO 字符串） */
+	createdAt: string;
+	/** 被修改的文件 */
+	files: FileSnapshot[];
+	/** 是否已撤销 */
+	undone: boolean;
+};
+
+type Journal = {
+	version: 1;
+	turns: TurnEntry[];
+};
+
+/**
+ * 撤销 / 重做结果
+ */
+export type UndoResult = {
+	success: boolean;
+	turn?: TurnEntry;
+	/** 已恢复的文件 */
+	restored: string[];
+	/** 无法恢复的文件（未备份） */
+	skipped: string[];
+	error?: string;
+};
+
+/**
+ * 文件修改日志管理器
+ */
+export class UndoManager {
+	private activeTurn: { id: string; cwd: string; label: string } | null = null;
+
+	/**
+	 * 开始一个 AI 回合，之后的文件写入会被快照
+	 * @param id 消息队列 id
+	 * @param cwd 项目目录
+	 * @param label 显示标签（通常是用户消息）
+	 */
+	beginTurn(id: string, cwd: string, label: string): void {
+		const firstLine = label.trim().split("\n")[0] ?? "";
+		this.activeTurn = {
+			id,
+			cwd,
+			label: firstLine.length > 50 ? `${firstLine.slice(0, 50)}…` : firstLine,
+		};
+	}
+
+	/**
+	 * 结束当前回合
+	 */
+	endTurn(): void {
+		this.activeTurn = null;
+	}
+
+	/**
+	 * 是否有进行中的回合
+	 */
+	isTurnActive(): boolean {
+		return this.activeTurn !== null;
+	}
+
+	/**
+	 * 在文件被修改前记录快照
+	 * 没有进行中的回合时不做任何事；同一回合内每个文件只记录第一次修改前的内容
+	 * @param filePath 即将被修改的文件路径
+	 */
+	snapshot(filePath: string): void {
+		const turn = this.activeTurn;
+		if (!turn) return;
+
+		const fullPath = resolve(turn.cwd, filePath);
+		const backupsDir = getBackupsDir(turn.cwd);
+		if (isInside(backupsDir, fullPath)) return;
+
+		const journal = loadJournal(turn.cwd);
+		let entry = journal.turns.find((t) => t.id === turn.id);
+		if (entry?.files.some((f) => f.path === fullPath)) return;
+
+		if (!entry) {
+			// 新回合产生修改后，已撤销的回合不能再重做
+			for (const undone of journal.turns.filter((t) => t.undone)) {
+				removeTurnDir(turn.cwd, undone.id);
+			}
+			journal.turns = journal.turns.filter((t) => !t.undone);
+
+			entry = {
+				id: turn.id,
+				label: turn.label,
+				createdAt: new Date().toISOString(),
+				files: [],
+				undone: false,
+			};
+			journal.turns.push(entry);
+		}
+
+		const index = entry.files.length;
+		const snapshot: FileSnapshot = { path: fullPath, backup: null, size: 0 };
+
+		if (existsSync(fullPath)) {
+			const stats = statSync(fullPath);
+			if (stats.size > MAX_BACKUP_FILE_SIZE) {
+				snapshot.skipped = true;
+			} else {
+				const buffer = readFileSync(fullPath);
+				const encoding = detectEncoding(buffer);
+				const backupName = `${index}.bak`;
+				writeBlob(turn.cwd, turn.id, backupName, buffer);
+				snapshot.backup = backupName;
+				snapshot.encoding = encoding.encoding;
+				snapshot.hasBOM = encoding.hasBOM;
+				snapshot.size = buffer.length;
+			}
+		}
+
+		entry.files.push(snapshot);
+		pruneJournal(turn.cwd, journal, turn.id);
+		saveJournal(turn.cwd, journal);
+	}
+
+	/**
+	 * 撤销最近一个未撤销的回合
+	 * @param cwd 项目目录
+	 */
+	undo(cwd: string = process.cwd()): UndoResult {
+		if (this.activeTurn) {
+			return { success: false, restored: [], skipped: [], error: "busy" };
+		}
+
+		const journal = loadJournal(cwd);
+		const entry = [...journal.turns].reverse().find((t) => !t.undone);
+		if (!entry) {
+			return { success: false, restored: [], skipped: [], error: "empty" };
+		}
+
+		const restored: string[] = [];
+		const skipped: string[] = [];
+
+		// 逆序恢复，同一回合内的修改不会相互覆盖
+		for (let i = entry.files.length - 1; i >= 0; i--) {
+			const file = entry.files[i]!;
+			if (file.skipped) {
+				skipped.push(file.path);
+				continue;
+			}
+
+			// 保存当前内容用于重做
+			if (existsSync(file.path)) {
+				const redoName = `${i}.redo`;
+				writeBlob(cwd, entry.id, redoName, readFileSync(file.path));
+				file.redoBackup = redoName;
+			} else {
+				file.redoBackup = null;
+			}
+
+			restoreFile(cwd, entry.id, file.path, file.backup);
+			restored.push(file.path);
+		}
+
+		entry.undone = true;
+		saveJournal(cwd, journal);
+		return { success: true, turn: entry, restored, skipped };
+	}
+
+	/**
+	 * 重做最早一个已撤销的回合
+	 * @param cwd 项目目录
+	 */
+	redo(cwd: string = process.cwd()): UndoResult {
+		if (this.activeTurn) {
+			return { success: false, restored: [], skipped: [], error: "busy" };
+		}
+
+		const journal = loadJournal(cwd);
+		const entry = journal.turns.find((t) => t.undone);
+		if (!entry) {
+			return { success: false, restored: [], skipped: [], error: "empty" };
+		}
+
+		const restored: string[] = [];
+		const skipped: string[] = [];
+
+		for (const file of entry.files) {
+			if (file.skipped || file.redoBackup === undefined) {
+				skipped.push(file.path);
+				continue;
+			}
+			restoreFile(cwd, entry.id, file.path, file.redoBackup);
+			if (file.redoBackup) {
+				removeBlob(cwd, entry.id, file.redoBackup);
+			}
+			delete file.redoBackup;
+			restored.push(file.path);
+		}
+
+		entry.undone = false;
+		saveJournal(cwd, journal);
+		return { success: true, turn: entry, restored, skipped };
+	}
+
+	/**
+	 * 列出所有记录的回合（按时间顺序）
+	 * @param cwd 项目目录
+	 */
+	list(cwd: string = process.cwd()): TurnEntry[] {
+		return loadJournal(cwd).turns;
+	}
+}
+
+/**
+ * 获取备份目录
+ */
+export function getBackupsDir(cwd: string): string {
+	return join(cwd, BACKUPS_DIR);
+}
+
+function isInside(parent: string, child: string): boolean {
+	const rel = relative(parent, child);
+	return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+function loadJournal(cwd: string): Journal {
+	try {
+		const content = readFileSync(
+			join(getBackupsDir(cwd), JOURNAL_FILENAME),
+			"utf-8",
+		);
+		const journal = JSON.parse(content) as Journal;
+		if (!Array.isArray(journal.turns)) {
+			return { version: 1, turns: [] };
+		}
+		return journal;
+	} catch {
+		return { version: 1, turns: [] };
+	}
+}
+
+function saveJournal(cwd: string, journal: Journal): void {
+	const dir = getBackupsDir(cwd);
+	mkdirSync(dir, { recursive: true });
+	writeFileSync(
+		join(dir, JOURNAL_FILENAME),
+		JSON.stringify(journal, null, 2),
+		"utf-8",
+	);
+}
+
+function writeBlob(
+	cwd: string,
+	turnId: string,
+	name: string,
+	data: Buffer,
+): void {
+	const dir = join(getBackupsDir(cwd), turnId);
+	mkdirSync(dir, { recursive: true });
+	writeFileSync(join(dir, name), data);
+}
+
+function removeBlob(cwd: string, turnId: string, name: string): void {
+	const blobPath = join(getBackupsDir(cwd), turnId, name);
+	if (existsSync(blobPath)) {
+		unlinkSync(blobPath);
+	}
+}
+
+function removeTurnDir(cwd: string, turnId: string): void {
+	rmSync(join(getBackupsDir(cwd), turnId), { recursive: true, force: true });
+}
+
+/**
+ * 把文件恢复为备份内容；backup 为 null 表示文件应不存在
+ */
+function restoreFile(
+	cwd: string,
+	turnId: string,
+	filePath: string,
+	backup: string | null,
+): void {
+	if (backup === null) {
+		if (existsSync(filePath)) {
+			unlinkSync(filePath);
+		}
+		return;
+	}
+	const data = readFileSync(join(getBackupsDir(cwd), turnId, backup));
+	mkdirSync(dirname(filePath), { recursive: true });
+	writeFileSync(filePath, data);
+}
+
+/**
+ * 按数量和总大小淘汰最旧的回合（不淘汰当前回合）
+ */
+function pruneJournal(cwd: string, journal: Journal, activeId: string): void {
+	const turnSize = (turn: TurnEntry) =>
+		turn.files.reduce((sum, f) => sum + f.size, 0);
+	let totalSize = journal.turns.reduce((sum, t) => sum + turnSize(t), 0);
+
+	while (
+		journal.turns.length > 1 &&
+		(journal.turns.length > MAX_BACKUP_TURNS ||
+			totalSize > MAX_BACKUP_TOTAL_SIZE) &&
+		journal.turns[0]!.id !== activeId
+	) {
+		const oldest = journal.turns.shift()!;
+		totalSize -= turnSize(oldest);
+		removeTurnDir(cwd, oldest.id);
+	}
+}
+
+// 单例实例
+let undoManagerInstance: UndoManager | null = null;
+
+/**
+ * 获取文件修改日志管理器单例
+ */
+export function getUndoManager(): UndoManager {
+	if (!undoManagerInstance) {
+		undoManagerInstance = new UndoManager();
+	}
+	return undoManagerInstance;
+}
+
+/**
+ * 重置单例（用于测试）
+ */
+export function resetUndoManager(): void {
+	undoManagerInstance = null;
+}
@@ -7,7 +7,8 @@ const CONFIG_FILENAME = ".axiomate.json";
 /**
  * API 协议类型
  */
-export type ApiProtocol = "openai" | "anthropic";
+export type ApiProtocol =
+	"openai" | "openai-responses" | "anthropic" | "gemini";
 
 /**
  * 模型配置（存储在配置文件中）
@@ -48,6 +49,56 @@ export type ModelConfig = {
 	baseUrl: string;
 	/** API Key（可选，本地 API 如 Ollama 可不填） */
 	apiKey?: string;
+	/**
+	 * 使用 previous_response_id 续接上一次响应，只发送新增消息
+	 * 仅 openai-responses 协议有效，服务端需要保存响应（store）
+	 */
+	usePreviousResponseId?: boolean;
+	/** 模型价格（可选，配置后统计费用） */
+	pricing?: ModelPricing;
+	/** 备用模型 ID 列表（当前模型重试耗尽后按顺序切换） */
+	fallbackModels?: string[];
+};
+
+/**
+ * 模型价格，单位为 USD / 百万 token
+ */
+export type ModelPricing = {
+	/** 输入价格 */
+	input: number;
+	/** 输出价格 */
+	output: number;
+	/** 命中缓存的输入价格（可选，未配置时按输入价格计算） */
+	cachedInput?: number;
+};
+
+/**
+ * Session 费用预算
+ */
+export type CostBudget = {
+	/** 单个 session 的费用上限（USD） */
+	limit: number;
+	/** 超出预算时的行为：warn 仅提示（默认），stop 停止工具调用循环 */
+	action?: "warn" | "stop";
+};
+
+/**
+ * 外部 MCP Server 配置
+ * 设置 command 时通过 stdio 启动子进程，设置 url 时连接本地 Streamable HTTP 端点
+ */
+export type McpServerConfig = {
+	/** stdio：启动命令 */
+	command?: string;
+	/** stdio：命令参数 */
+	args?: string[];
+	/** stdio：附加环境变量 */
+	env?: Record<string, string>;
+	/** HTTP：端点 URL（如 "http://127.0.0.1:3000/mcp"） */
+	url?: string;
+	/** HTTP：附加请求头 */
+	headers?: Record<string, string>;
+	/** 是否启用（默认 true） */
+	enabled?: boolean;
 };
 
 /**
@@ -66,6 +117,10 @@ export type Config = {
 	thinkingEnabled?: boolean;
 	/** 是否启用 Plan 模式（可选，默认 false，只有用户手动设置时才写入文件） */
 	planModeEnabled?: boolean;
+	/** 用户级外部 MCP Server，key 为服务名（可选） */
+	mcpServers?: Record<string, McpServerConfig>;
+	/** Session 费用预算（可选） */
+	costBudget?: CostBudget;
 };
 
 /**
@@ -83,6 +138,9 @@ const DEFAULT_CONFIG: Config = {
 // 运行时配置（单例）
 let runtimeConfig: Config | null = null;
 
+// 命令行 --model 指定的模型（仅本次运行有效，不写入配置文件）
+let modelOverride: string | null = null;
+
 /**
  * 获取当前配置（如果未初始化则自动初始化）
  * 返回深拷贝，防止外部直接修改内部状态
@@ -251,10 +309,19 @@ export function isFirstTimeUser(): boolean {
  * 获取当前模型 ID
  */
 export function getCurrentModelId(): string {
+	if (modelOverride) return modelOverride;
 	const config = getConfig();
 	return config.currentModel || "";
 }
 
+/**
+ * 设置本次运行使用的模型（不修改配置文件中的 currentModel）
+ * @param modelId 模型 ID，null 表示取消覆盖
+ */
+export function setModelOverride(modelId: string | null): void {
+	modelOverride = modelId;
+}
+
 /**
  * 设置当前模型 ID
  */
@@ -352,9 +419,11 @@ export function isThinkingEnabled(): boolean {
 
 /**
  * 检查当前模型是否支持思考模式（用于 UI 显示）
+ * @param modelId 模型 ID（默认当前模型，切换到备用模型时传入）
  */
-export function currentModelSupportsThinking(): boolean {
-	const modelId = getCurrentModelId();
+export function currentModelSupportsThinking(
+	modelId: string = getCurrentModelId(),
+): boolean {
 	if (!modelId) return false;
 	const model = getModelById(modelId);
 	return model?.supportsThinking === true;
@@ -362,9 +431,11 @@ export function currentModelSupportsThinking(): boolean {
 
 /**
  * 检查当前模型是否支持 tool_choice 参数（用于动态遮蔽工具）
+ * @param modelId 模型 ID（默认当前模型，切换到备用模型时传入）
  */
-export function currentModelSupportsToolChoice(): boolean {
-	const modelId = getCurrentModelId();
+export function currentModelSupportsToolChoice(
+	modelId: string = getCurrentModelId(),
+): boolean {
 	if (!modelId) return false;
 	const model = getModelById(modelId);
 	// 前提：模型必须支持工具
@@ -375,10 +446,12 @@ export function currentModelSupportsToolChoice(): boolean {
 /**
  * 获取当前模型的 thinking 参数配置
  * 根据用户开关状态和模型能力返回相应的参数，用于附加到请求 body
+ * @param modelId 模型 ID（默认当前模型，切换到备用模型时传入）
  * @returns 参数对象，或 null（不需要附加任何参数）
  */
-export function getThinkingParams(): Record<string, unknown> | null {
-	const modelId = getCurrentModelId();
+export function getThinkingParams(
+	modelId: string = getCurrentModelId(),
+): Record<string, unknown> | null {
 	if (!modelId) return null;
 	const model = getModelById(modelId);
 
@@ -434,3 +507,13 @@ export function isPlanModeEnabled(): boolean {
 export function setPlanModeEnabled(enabled: boolean): void {
 	updateConfig({ planModeEnabled: enabled });
 }
+
+/**
+ * 获取 session 费用预算
+ * 未配置或上限无效时返回 null
+ */
+export function getCostBudget(): CostBudget | null {
+	const budget = getConfig().costBudget;
+	if (!budget || !(budget.limit > 0)) return null;
+	return budget;
+}
@@ -5,7 +5,7 @@
  *
  * 采用两阶段初始化策略实现瞬间启动：
  * 1. 快速阶段：加载内置工具 + 创建 AI 服务（毫秒级）
- * 2. 后台阶段：发现外部工具（不阻塞 UI）
+ * 2. 后台阶段：发现外部工具、连接外部 MCP Server（不阻塞 UI）
  */
 
 import { getToolRegistry } from "../services/tools/registry.js";
@@ -17,12 +17,23 @@ import {
 } from "../services/ai/index.js";
 import { t } from "../i18n/index.js";
 import { cleanupScriptsDir } from "../services/tools/scriptWriter.js";
+import { getMcpClientManager } from "../services/tools/mcp/client.js";
 
 export type InitResult = {
 	aiService: IAIService | null;
 	currentModel: ModelConfig | null;
 };
 
+// 是否已开始连接外部 MCP Server
+let mcpStarted = false;
+
+export type InitOptions = {
+	/** 等待外部工具发现与 MCP 连接完成后再返回（print 模式无需快速显示 UI） */
+	waitForTools?: boolean;
+	/** 最大工具调用轮数 */
+	maxToolCallRounds?: number;
+};
+
 export type InitProgress = {
 	stage: "tools" | "ai" | "done";
 	message: string;
@@ -35,10 +46,12 @@ export type InitProgress = {
  * 启动时间从几秒缩短到毫秒级
  *
  * @param onProgress 进度回调，用于更新 Splash 显示
+ * @param options 初始化选项
  * @returns 初始化结果，包含 AI 服务实例
  */
 export async function initApp(
 	onProgress?: (progress: InitProgress) => void,
+	options: InitOptions = {},
 ): Promise<InitResult> {
 	// 阶段 0: 清理上次运行的临时脚本文件（快速）
 	cleanupScriptsDir(process.cwd());
@@ -50,18 +63,37 @@ export async function initApp(
 
 	// 阶段 2: 创建 AI 服务（使用已加载的内置工具）
 	onProgress?.({ stage: "ai", message: t("splash.loadingAI") });
-	const aiService = createAIServiceFromConfig(registry);
+	const aiService = createAIServiceFromConfig(registry, undefined, {
+		maxToolCallRounds: options.maxToolCallRounds,
+	});
 	const currentModel = getCurrentModel();
 
 	// 阶段 3: 后台发现外部工具（不阻塞）
 	registry.discoverExternalAsync();
 
 	// 注册回调：外部工具发现完成后冻结工具列表
-	registry.onDiscoveryComplete(() => {
-		// 冻结工具列表，之后不再变化，优化 KV cache
-		registry.freezeTools();
+	const discovered = new Promise<void>((resolve) => {
+		registry.onDiscoveryComplete(() => {
+			// 冻结工具列表，之后不再变化，优化 KV cache
+			registry.freezeTools();
+			resolve();
+		});
 	});
 
+	// 阶段 4: 后台连接外部 MCP Server（不阻塞），工具变化时同步到注册表
+	// 只连接一次（Welcome 完成后重新初始化时跳过）
+	let mcpConnected = Promise.resolve();
+	if (!mcpStarted) {
+		mcpStarted = true;
+		const mcpManager = getMcpClientManager();
+		mcpManager.onToolsChanged((tools) => registry.setMcpTools(tools));
+		mcpConnected = mcpManager.connectAll();
+	}
+
+	if (options.waitForTools) {
+		await Promise.all([discovered, mcpConnected]);
+	}
+
 	// 完成
 	onProgress?.({ stage: "done", message: t("splash.loading") });
 
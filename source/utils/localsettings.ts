@@ -1,14 +1,66 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
+import type { McpServerConfig } from "./config.js";
 
 const LOCAL_DIR_NAME = ".axiomate";
 const LOCAL_SETTINGS_FILENAME = "localsettings.json";
 
 /**
  * 权限配置
+ * 每一项是工具调用名模式（如 "a-c-git_push"、"a-c-file_*"），支持 * 通配符
  */
 export type Permissions = {
+	/** 无需确认直接执行 */
 	allow: string[];
+	/** 直接拒绝执行 */
+	deny: string[];
+	/** 总是弹出确认（即使默认允许） */
+	ask: string[];
+};
+
+/**
+ * 命令风险策略
+ */
+export type RiskPolicy = {
+	/** 禁止执行的命令模式（正则表达式，不区分大小写），可随项目共享 */
+	forbiddenPatterns: string[];
+	/** 是否阻止所有 dangerous 级别的命令 */
+	blockDangerous: boolean;
+};
+
+/**
+ * 沙箱模式
+ * - off: 总是在本机执行
+ * - dangerous: 仅 dangerous 级别的命令在容器中执行
+ * - always: bash/python/node 命令总是在容器中执行
+ */
+export type SandboxMode = "off" | "dangerous" | "always";
+
+/**
+ * 容器沙箱配置
+ */
+export type SandboxPolicy = {
+	mode: SandboxMode;
+	/** 容器镜像，为空时按解释器选择默认镜像 */
+	image: string;
+	/** 是否允许容器访问网络 */
+	network: boolean;
+	/** 内存上限（如 "1g"） */
+	memory: string;
+	/** CPU 上限（如 "1"） */
+	cpus: string;
+};
+
+/**
+ * 工具执行配置
+ */
+export type ToolExecutionPolicy = {
+	/** 按工具调用名设置超时（毫秒），支持 * 通配，最长匹配优先 */
+	timeouts: Record<string, number>;
+	/** 命令运行超过该时长（毫秒）后转入后台，0 表示不转入后台 */
+	detachAfter: number;
+	/** 一轮中连续的只读调用（read/search）的最大并发数，1 表示全部串行 */
+	maxParallel: number;
 };
 
 /**
@@ -16,6 +68,11 @@ export type Permissions = {
  */
 export type LocalSettings = {
 	permissions: Permissions;
+	risk: RiskPolicy;
+	sandbox: SandboxPolicy;
+	tools: ToolExecutionPolicy;
+	/** 项目级外部 MCP Server，同名时覆盖用户配置 */
+	mcpServers: Record<string, McpServerConfig>;
 };
 
 /**
@@ -27,7 +84,26 @@ export type LocalSettingsFile = Partial<LocalSettings>;
 const DEFAULT_LOCAL_SETTINGS: LocalSettings = {
 	permissions: {
 		allow: [],
+		deny: [],
+		ask: [],
+	},
+	risk: {
+		forbiddenPatterns: [],
+		blockDangerous: false,
+	},
+	sandbox: {
+		mode: "off",
+		image: "",
+		network: false,
+		memory: "1g",
+		cpus: "1",
+	},
+	tools: {
+		timeouts: {},
+		detachAfter: 0,
+		maxParallel: 4,
 	},
+	mcpServers: {},
 };
 
 // 运行时本地设置（单例）
@@ -45,15 +121,33 @@ export function getLocalSettings(): LocalSettings {
 
 /**
  * 更新本地设置并保存到文件（懒创建）
+ * permissions、risk、sandbox 和 tools 按字段合并，mcpServers 整体替换，未提供的字段保持不变
  */
-export function updateLocalSettings(
-	updates: Partial<LocalSettings>,
-): LocalSettings {
+export function updateLocalSettings(updates: {
+	permissions?: Partial<Permissions>;
+	risk?: Partial<RiskPolicy>;
+	sandbox?: Partial<SandboxPolicy>;
+	tools?: Partial<ToolExecutionPolicy>;
+	mcpServers?: Record<string, McpServerConfig>;
+}): LocalSettings {
 	const newSettings: LocalSettings = {
 		permissions: {
 			...runtimeLocalSettings.permissions,
 			...updates.permissions,
 		},
+		risk: {
+			...runtimeLocalSettings.risk,
+			...updates.risk,
+		},
+		sandbox: {
+			...runtimeLocalSettings.sandbox,
+			...updates.sandbox,
+		},
+		tools: {
+			...runtimeLocalSettings.tools,
+			...updates.tools,
+		},
+		mcpServers: updates.mcpServers ?? runtimeLocalSettings.mcpServers,
 	};
 	runtimeLocalSettings = newSettings;
 	saveLocalSettingsFile(newSettings);
@@ -75,6 +169,19 @@ export function initLocalSettings(): LocalSettings {
 			...DEFAULT_LOCAL_SETTINGS.permissions,
 			...fileSettings.permissions,
 		},
+		risk: {
+			...DEFAULT_LOCAL_SETTINGS.risk,
+			...fileSettings.risk,
+		},
+		sandbox: {
+			...DEFAULT_LOCAL_SETTINGS.sandbox,
+			...fileSettings.sandbox,
+		},
+		tools: {
+			...DEFAULT_LOCAL_SETTINGS.tools,
+			...fileSettings.tools,
+		},
+		mcpServers: fileSettings.mcpServers ?? {},
 	};
 
 	return runtimeLocalSettings;
@@ -0,0 +1,331 @@
+/**
+ * 非交互 print 模式
+ *
+ * `axiomate -p "prompt"` 或 `cat file | axiomate -p` 不渲染 UI，
+ * 直接调用 AIService.streamMessage 并把结果写到 stdout，用于 git hooks 和 CI
+ *
+ * 退出码：0 成功，1 请求失败，2 参数或配置错误，130 被中断
+ */
+
+import { initApp } from "./init.js";
+import { readPipedInput } from "./stdin.js";
+import { getAllModels, getModelById, setModelOverride } from "./config.js";
+import {
+	buildMessageContent,
+	extractFileReferences,
+} from "../services/ai/contentBuilder.js";
+import { matchPermissionPattern } from "../services/permissions/permissionManager.js";
+import type { PermissionCallback } from "../services/permissions/types.js";
+import type {
+	ModelFallbackEvent,
+	ToolCallCallbacks,
+} from "../services/ai/types.js";
+import type { RetryCallback } from "../services/ai/retry.js";
+import { t } from "../i18n/index.js";
+
+export const OUTPUT_FORMATS = ["text", "json", "stream-json"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const PRINT_EXIT_CODES = {
+	success: 0,
+	error: 1,
+	usage: 2,
+	interrupted: 130,
+} as const;
+
+export type PrintModeOptions = {
+	/** 命令行中的 prompt（可为空，此时使用管道输入） */
+	prompt: string;
+	/** 输出格式（默认 text） */
+	outputFormat?: string;
+	/** 最大工具调用轮数 */
+	maxRounds?: number;
+	/** 本次运行使用的模型 ID */
+	model?: string;
+	/** 以 Plan 模式运行（只读） */
+	planMode?: boolean;
+	/** 无需确认即可执行的工具调用（支持 * 通配符，如 "a-c-git_*"） */
+	allowedTools?: string[];
+};
+
+/**
+ * print 模式的最终结果（json / stream-json 输出）
+ */
+export type PrintResult = {
+	type: "result";
+	success: boolean;
+	/** AI 的最终回复 */
+	result?: string;
+	error?: string;
+	model?: string;
+	/** 因需要确认而被拒绝的工具调用 */
+	deniedTools: string[];
+	durationMs: number;
+};
+
+function writeLine(stream: NodeJS.WriteStream, text: string): void {
+	stream.write(text.endsWith("\n") ? text : text + "\n");
+}
+
+function fail(message: string, code: number): number {
+	writeLine(process.stderr, message);
+	return code;
+}
+
+/**
+ * 拆分 --allowed-tools 参数（支持重复传入和逗号分隔）
+ */
+export function parseAllowedTools(values: string[] = []): string[] {
+	return values
+		.flatMap((value) => value.split(","))
+		.map((value) => value.trim())
+		.filter(Boolean);
+}
+
+/**
+ * 创建非交互权限回调：只放行 allow-list 中的调用，其余拒绝并记录
+ */
+export function createPrintPermissionCallback(
+	allowedTools: string[],
+	deniedTools: string[],
+): PermissionCallback {
+	return async (request) => {
+		if (
+			allowedTools.some((pattern) =>
+				matchPermissionPattern(pattern, request.callName),
+			)
+		) {
+			return "allow_once";
+		}
+		if (!deniedTools.includes(request.callName)) {
+			deniedTools.push(request.callName);
+		}
+		return "deny";
+	};
+}
+
+/**
+ * 运行 print 模式
+ * @returns 进程退出码
+ */
+export async function runPrintMode(options: PrintModeOptions): Promise<number> {
+	const startTime = Date.now();
+	const outputFormat = options.outputFormat ?? "text";
+	if (!(OUTPUT_FORMATS as readonly string[]).includes(outputFormat)) {
+		return fail(
+			t("print.invalidOutputFormat", { format: outputFormat }),
+			PRINT_EXIT_CODES.usage,
+		);
+	}
+
+	const { maxRounds } = options;
+	if (
+		maxRounds !== undefined &&
+		(!Number.isInteger(maxRounds) || maxRounds < 1)
+	) {
+		return fail(t("print.invalidMaxRounds"), PRINT_EXIT_CODES.usage);
+	}
+
+	if (options.model) {
+		if (!getModelById(options.model)) {
+			return fail(
+				t("print.unknownModel", {
+					model: options.model,
+					models: getAllModels()
+						.map((m) => m.model)
+						.join(", "),
+				}),
+				PRINT_EXIT_CODES.usage,
+			);
+		}
+		setModelOverride(options.model);
+	}
+
+	// 命令行 prompt 在前，管道输入（如 git diff）在后
+	const piped = (await readPipedInput()).trim();
+	const prompt = [options.prompt.trim(), piped].filter(Boolean).join("\n\n");
+	if (!prompt) {
+		return fail(t("print.noPrompt"), PRINT_EXIT_CODES.usage);
+	}
+
+	const { aiService, currentModel } = await initApp(undefined, {
+		waitForTools: true,
+		maxToolCallRounds: maxRounds,
+	});
+	if (!aiService) {
+		return fail(t("ai.notConfigured"), PRINT_EXIT_CODES.usage);
+	}
+
+	const cwd = process.cwd();
+	const files = extractFileReferences(prompt, cwd);
+	const buildResult = await buildMessageContent({
+		userMessage: prompt,
+		files,
+		cwd,
+		availableTokens: aiService.getAvailableTokens(),
+	});
+	if (buildResult.wasTruncated) {
+		writeLine(process.stderr, buildResult.truncationNotice);
+	}
+	const compactCheck = aiService.shouldCompact(buildResult.estimatedTokens);
+	if (compactCheck.isContextFull) {
+		return fail(
+			t("ai.contextFull", {
+				percent: compactCheck.projectedPercent.toFixed(0),
+			}),
+			PRINT_EXIT_CODES.error,
+		);
+	}
+
+	// 切换到备用模型后记录实际回答的模型
+	let model = currentModel?.model;
+	const emit = (event: Record<string, unknown>) => {
+		process.stdout.write(JSON.stringify(event) + "\n");
+	};
+	if (outputFormat === "stream-json") {
+		emit({ type: "init", model, cwd, planMode: options.planMode === true });
+	}
+
+	// 流式回调给出的是累积内容，只输出新增部分
+	let writtenContent = "";
+	let writtenReasoning = "";
+	const onChunk = ({
+		content,
+		reasoning,
+	}: {
+		content: string;
+		reasoning: string;
+	}) => {
+		const delta = content.slice(writtenContent.length);
+		const reasoningDelta = reasoning.slice(writtenReasoning.length);
+		writtenContent = content;
+		writtenReasoning = reasoning;
+
+		if (outputFormat === "text" && delta) {
+			process.stdout.write(delta);
+		} else if (outputFormat === "stream-json") {
+			if (reasoningDelta) emit({ type: "reasoning", delta: reasoningDelta });
+			if (delta) emit({ type: "text", delta });
+		}
+	};
+
+	// stream-json 额外输出工具调用事件
+	const toolCallbacks: ToolCallCallbacks =
+		outputFormat === "stream-json"
+			? {
+					onToolStart: (event) => emit({ type: "tool_start", ...event }),
+					onToolProgress: (event) => emit({ type: "tool_progress", ...event }),
+					onToolEnd: (event) => emit({ type: "tool_end", ...event }),
+				}
+			: {};
+
+	// 重试进度：stream-json 输出事件，其他格式写到 stderr
+	const onRetry: RetryCallback = (event) => {
+		if (outputFormat === "stream-json") {
+			emit({ type: "retry", ...event });
+			return;
+		}
+		writeLine(
+			process.stderr,
+			t(`ai.retry.${event.reason}`, {
+				seconds: Math.ceil(event.delayMs / 1000),
+				status: event.status ?? "",
+				attempt: event.attempt,
+				max: event.maxRetries,
+			}),
+		);
+	};
+
+	// 切换到备用模型：stream-json 输出事件，其他格式写到 stderr
+	const onModelFallback = (event: ModelFallbackEvent) => {
+		model = event.to;
+		if (outputFormat === "stream-json") {
+			emit({ type: "model_fallback", ...event });
+			return;
+		}
+		writeLine(process.stderr, t("ai.modelFallback", event));
+	};
+
+	const deniedTools: string[] = [];
+	const controller = new AbortController();
+	const onInterrupt = () => controller.abort();
+	process.once("SIGINT", onInterrupt);
+
+	let result: PrintResult;
+	let exitCode: number;
+	try {
+		const content = await aiService.streamMessage(
+			buildResult.content,
+			{ cwd, selectedFiles: files.map((f) => f.path) },
+			{ onChunk, onModelFallback, ...toolCallbacks },
+			{
+				signal: controller.signal,
+				planMode: options.planMode === true,
+				onRetry,
+			},
+			undefined,
+			prompt,
+			createPrintPermissionCallback(
+				parseAllowedTools(options.allowedTools),
+				deniedTools,
+			),
+		);
+
+		// 未经流式输出的剩余内容（如非流式客户端）
+		if (outputFormat === "text") {
+			process.stdout.write(content.slice(writtenContent.length));
+			if (content && !content.endsWith("\n")) {
+				process.stdout.write("\n");
+			}
+		} else if (outputFormat === "stream-json") {
+			const rest = content.slice(writtenContent.length);
+			if (rest) emit({ type: "text", delta: rest });
+		}
+
+		result = {
+			type: "result",
+			success: true,
+			result: content,
+			model,
+			deniedTools,
+			durationMs: Date.now() - startTime,
+		};
+		exitCode = PRINT_EXIT_CODES.success;
+	} catch (error) {
+		const interrupted = error instanceof Error && error.name === "AbortError";
+		const message = interrupted
+			? t("print.interrupted")
+			: error instanceof Error
+				? error.message
+				: String(error);
+		result = {
+			type: "result",
+			success: false,
+			error: message,
+			model,
+			deniedTools,
+			durationMs: Date.now() - startTime,
+		};
+		exitCode = interrupted
+			? PRINT_EXIT_CODES.interrupted
+			: PRINT_EXIT_CODES.error;
+		if (outputFormat === "text") {
+			writeLine(process.stderr, message);
+		}
+	} finally {
+		process.off("SIGINT", onInterrupt);
+		// 后台进程不能比 print 模式活得更久
+		aiService.getProcessManager().stopAll();
+	}
+
+	if (outputFormat === "text") {
+		for (const callName of deniedTools) {
+			writeLine(process.stderr, t("print.toolDenied", { name: callName }));
+		}
+	} else {
+		emit(result);
+	}
+
+	return exitCode;
+}
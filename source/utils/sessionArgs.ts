@@ -0,0 +1,257 @@
+/**
+ * 命令行 session 选择
+ *
+ * axiomate --continue                    继续当前目录最近的 session
+ * axiomate --resume <id|name>            恢复指定 session
+ * axiomate --new-session [name]          以新 session 启动
+ * axiomate sessions list [--json] [--all]
+ * axiomate sessions export <id|name> [--format md|json|html] [--output path]
+ * axiomate sessions import <file>
+ */
+
+import * as path from "node:path";
+import { SessionStore, type SessionInfo } from "../services/ai/sessionStore.js";
+import {
+	TRANSCRIPT_FORMATS,
+	getDefaultExportPath,
+	readSessionExport,
+	renderTranscript,
+	writeTranscript,
+	type TranscriptFormat,
+} from "../services/ai/sessionTranscript.js";
+import { t } from "../i18n/index.js";
+
+/**
+ * 启动时要使用的 session
+ */
+export type SessionStartup =
+	| { type: "continue" }
+	| { type: "resume"; query: string }
+	| { type: "new"; name?: string };
+
+export type SessionFlags = {
+	continue?: boolean;
+	resume?: string;
+	/** 不带值时为空字符串 */
+	newSession?: string;
+};
+
+export type ParseStartupResult =
+	| { success: true; startup: SessionStartup | null }
+	| { success: false; error: string };
+
+export type ApplyStartupResult =
+	{ success: true; session: SessionInfo } | { success: false; error: string };
+
+/**
+ * 解析 --continue / --resume / --new-session（三者互斥）
+ */
+export function parseSessionStartup(flags: SessionFlags): ParseStartupResult {
+	const startups: SessionStartup[] = [];
+	if (flags.continue) {
+		startups.push({ type: "continue" });
+	}
+	if (flags.resume !== undefined) {
+		if (!flags.resume.trim()) {
+			return { success: false, error: t("session.resumeMissing") };
+		}
+		startups.push({ type: "resume", query: flags.resume.trim() });
+	}
+	if (flags.newSession !== undefined) {
+		startups.push({ type: "new", name: flags.newSession.trim() || undefined });
+	}
+
+	if (startups.length > 1) {
+		return { success: false, error: t("session.conflictingFlags") };
+	}
+	return { success: true, startup: startups[0] ?? null };
+}
+
+/**
+ * 按启动参数切换活跃 session（在 UI 加载 session 之前调用）
+ * --continue 在当前目录没有 session 时创建新 session
+ */
+export function applySessionStartup(
+	store: SessionStore,
+	startup: SessionStartup,
+	cwd: string,
+): ApplyStartupResult {
+	let session: SessionInfo | null;
+	switch (startup.type) {
+		case "continue":
+			session =
+				store.getLatestSession(cwd) ?? store.createSession(undefined, cwd);
+			break;
+		case "resume":
+			session = store.findSession(startup.query);
+			if (!session) {
+				return {
+					success: false,
+					error: t("session.resumeNotFound", { query: startup.query }),
+				};
+			}
+			break;
+		case "new":
+			session = store.createSession(startup.name, cwd);
+			break;
+	}
+
+	store.setActiveSessionId(session.id);
+	return { success: true, session };
+}
+
+/**
+ * 格式化 session 列表（纯文本）
+ */
+export function formatSessionList(
+	sessions: SessionInfo[],
+	activeId: string | null,
+	showProject: boolean,
+): string {
+	return sessions
+		.map((session) => {
+			const marker = session.id === activeId ? "▸" : "○";
+			const date = new Date(session.updatedAt).toLocaleString();
+			const line = `${marker} ${session.id.substring(0, 8)}  ${session.name}  (${session.messageCount} msgs, ${date})`;
+			return showProject ? `${line}\n  ${session.cwd ?? "-"}` : line;
+		})
+		.join("\n");
+}
+
+export type SessionsCommandOptions = {
+	/** list：输出 JSON */
+	json?: boolean;
+	/** list：列出所有项目的 session */
+	all?: boolean;
+	/** export：导出格式（默认 md） */
+	format?: string;
+	/** export：输出路径，"-" 表示 stdout（默认写入项目导出目录） */
+	output?: string;
+	cwd: string;
+};
+
+/**
+ * axiomate sessions list
+ */
+function listCommand(store: SessionStore, options: SessionsCommandOptions) {
+	const sessions = options.all
+		? store.listSessions({ sortBy: "project" })
+		: store.listSessions({ cwd: options.cwd });
+
+	if (options.json) {
+		console.log(JSON.stringify(sessions, null, 2));
+	} else if (sessions.length === 0) {
+		console.log(t("session.listEmpty"));
+	} else {
+		console.log(
+			formatSessionList(sessions, store.getActiveSessionId(), !!options.all),
+		);
+	}
+	return 0;
+}
+
+/**
+ * axiomate sessions export <id|name> [--format md|json|html] [--output path]
+ */
+function exportCommand(
+	store: SessionStore,
+	query: string | undefined,
+	options: SessionsCommandOptions,
+) {
+	const format = options.format ?? "md";
+	if (!(TRANSCRIPT_FORMATS as readonly string[]).includes(format)) {
+		console.error(
+			t("session.invalidFormat", { formats: TRANSCRIPT_FORMATS.join(", ") }),
+		);
+		return 2;
+	}
+	if (!query) {
+		console.error(t("session.usage"));
+		return 2;
+	}
+
+	const info = store.findSession(query);
+	const data = info ? store.readSession(info.id) : null;
+	if (!data) {
+		console.error(t("session.resumeNotFound", { query }));
+		return 1;
+	}
+
+	if (options.output === "-") {
+		process.stdout.write(renderTranscript(data, format as TranscriptFormat));
+		return 0;
+	}
+
+	const outputPath = options.output
+		? path.resolve(options.cwd, options.output)
+		: getDefaultExportPath(options.cwd, data.info, format as TranscriptFormat);
+	try {
+		writeTranscript(data, format as TranscriptFormat, outputPath);
+	} catch (error) {
+		console.error(
+			t("session.exportFailed", {
+				error: error instanceof Error ? error.message : String(error),
+			}),
+		);
+		return 1;
+	}
+	console.log(t("session.exported", { path: outputPath }));
+	return 0;
+}
+
+/**
+ * axiomate sessions import <file>
+ */
+function importCommand(
+	store: SessionStore,
+	file: string | undefined,
+	options: SessionsCommandOptions,
+) {
+	if (!file) {
+		console.error(t("session.usage"));
+		return 2;
+	}
+
+	const filePath = path.resolve(options.cwd, file);
+	const result = readSessionExport(filePath);
+	if (!result.success) {
+		console.error(t("session.importFailed", { error: result.error }));
+		return 1;
+	}
+
+	const info = store.importSession(result.data, options.cwd);
+	console.log(t("session.imported", { name: info.name, path: filePath }));
+	console.log(t("session.importedResume", { id: info.id }));
+	return 0;
+}
+
+/**
+ * 运行 `axiomate sessions <command>` 子命令
+ * 只读取 session 索引，不会清理 session 或切换活跃 session
+ * @returns 进程退出码
+ */
+export async function runSessionsCommand(
+	args: string[],
+	options: SessionsCommandOptions,
+): Promise<number> {
+	const [command, arg] = args;
+	if (command !== "list" && command !== "export" && command !== "import") {
+		if (command) {
+			console.error(t("session.unknownCommand", { command }));
+		}
+		console.error(t("session.usage"));
+		return 2;
+	}
+
+	const store = new SessionStore(0);
+	await store.reload();
+
+	switch (command) {
+		case "list":
+			return listCommand(store, options);
+		case "export":
+			return exportCommand(store, arg, options);
+		case "import":
+			return importCommand(store, arg, options);
+	}
+}
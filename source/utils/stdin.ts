@@ -3,6 +3,8 @@
  *
  * 应用启动时暂停 stdin，防止 Splash 阶段接受输入
  * 等 Welcome/App 组件准备好后再恢复
+ *
+ * print 模式下读取管道输入作为 prompt
  */
 
 let isPaused = false;
@@ -28,3 +30,19 @@ export function resumeInput(): void {
 		isPaused = false;
 	}
 }
+
+/**
+ * 读取管道输入（stdin 不是终端时）
+ * @returns 输入内容，stdin 是终端时返回空字符串
+ */
+export async function readPipedInput(): Promise<string> {
+	if (process.stdin.isTTY) {
+		return "";
+	}
+
+	const chunks: Buffer[] = [];
+	for await (const chunk of process.stdin) {
+		chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+	}
+	return Buffer.concat(chunks).toString("utf-8");
+}
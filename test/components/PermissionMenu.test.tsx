@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import React from "react";
+import { render } from "ink-testing-library";
+import { PermissionMenu } from "../../source/components/PermissionMenu.js";
+
+// Mock dependencies
+vi.mock("../../source/i18n/index.js", () => ({
+	t: vi.fn((key: string, params?: Record<string, string | number>) => {
+		const translations: Record<string, string> = {
+			"permission.question": `Allow ${params?.["tool"]}?`,
+			"permission.allow_once": "Allow once",
+			"permission.allow_session": "Allow for this session",
+			"permission.allow_always": "Always allow in this project",
+			"permission.deny": "Deny",
+			"permission.moreLines": `… ${params?.["count"]} more line(s)`,
+			"permission.navigationHint": "↑/↓ navigate · Enter select · Esc deny",
+			"permission.riskLabel": `Risk: ${params?.["level"]}`,
+			"permission.riskLevel.dangerous": "dangerous",
+		};
+		return translations[key] || key;
+	}),
+}));
+
+const delay = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("PermissionMenu", () => {
+	const defaultProps = {
+		request: {
+			callName: "a-c-bash_run",
+			toolId: "a-c-bash",
+			actionName: "run",
+			toolName: "Bash",
+			args: { command: "npm install" },
+		},
+		onSelect: vi.fn(),
+		onCancel: vi.fn(),
+		columns: 80,
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("rendering", () => {
+		it("should render the question with tool and action", () => {
+			const { lastFrame } = render(<PermissionMenu {...defaultProps} />);
+			const frame = lastFrame() ?? "";
+
+			expect(frame).toContain("Allow Bash:run?");
+			expect(frame).toContain("a-c-bash_run");
+		});
+
+		it("should render arguments preview", () => {
+			const { lastFrame } = render(<PermissionMenu {...defaultProps} />);
+
+			expect(lastFrame()).toContain("command: npm install");
+		});
+
+		it("should render all decisions", () => {
+			const { lastFrame } = render(<PermissionMenu {...defaultProps} />);
+			const frame = lastFrame() ?? "";
+
+			expect(frame).toContain("Allow once");
+			expect(frame).toContain("Allow for this session");
+			expect(frame).toContain("Always allow in this project");
+			expect(frame).toContain("Deny");
+		});
+
+		it("should truncate long argument previews", () => {
+			const props = {
+				...defaultProps,
+				request: {
+					...defaultProps.request,
+					args: { content: "1\n2\n3\n4\n5" },
+				},
+				maxPreviewLines: 2,
+			};
+			const { lastFrame } = render(<PermissionMenu {...props} />);
+			const frame = lastFrame() ?? "";
+
+			expect(frame).toContain("content: 1");
+			expect(frame).not.toContain("  3");
+			expect(frame).toContain("… 3 more line(s)");
+		});
+	});
+
+	describe("risk", () => {
+		const dangerousProps = {
+			...defaultProps,
+			request: {
+				...defaultProps.request,
+				args: { command: "rm -rf build" },
+				risk: {
+					level: "dangerous" as const,
+					reasons: ["recursive forced delete"],
+					blocked: false,
+				},
+			},
+		};
+
+		it("should render risk level and reasons", () => {
+			const { lastFrame } = render(<PermissionMenu {...dangerousProps} />);
+
+			expect(lastFrame()).toContain(
+				"Risk: dangerous · recursive forced delete",
+			);
+		});
+
+		it("should only offer one-time approval for dangerous calls", () => {
+			const { lastFrame } = render(<PermissionMenu {...dangerousProps} />);
+			const frame = lastFrame() ?? "";
+
+			expect(frame).toContain("Allow once");
+			expect(frame).toContain("Deny");
+			expect(frame).not.toContain("Allow for this session");
+			expect(frame).not.toContain("Always allow in this project");
+		});
+	});
+
+	describe("keyboard", () => {
+		it("should select allow_once with Enter", async () => {
+			const { stdin } = render(<PermissionMenu {...defaultProps} />);
+			await delay();
+			stdin.write("\r");
+			await delay();
+
+			expect(defaultProps.onSelect).toHaveBeenCalledWith("allow_once");
+		});
+
+		it("should navigate down and select", async () => {
+			const { stdin } = render(<PermissionMenu {...defaultProps} />);
+			await delay();
+			stdin.write("\x1B[B");
+			await delay();
+			stdin.write("\x1B[B");
+			await delay();
+			stdin.write("\r");
+			await delay();
+
+			expect(defaultProps.onSelect).toHaveBeenCalledWith("allow_always");
+		});
+
+		it("should wrap to deny when navigating up from first option", async () => {
+			const { stdin } = render(<PermissionMenu {...defaultProps} />);
+			await delay();
+			stdin.write("\x1B[A");
+			await delay();
+			stdin.write("\r");
+			await delay();
+
+			expect(defaultProps.onSelect).toHaveBeenCalledWith("deny");
+		});
+
+		it("should call onCancel on Escape", async () => {
+			const { stdin } = render(<PermissionMenu {...defaultProps} />);
+			await delay();
+			stdin.write("\x1B");
+			await delay();
+
+			expect(defaultProps.onCancel).toHaveBeenCalled();
+		});
+	});
+});
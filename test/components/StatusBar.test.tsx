@@ -6,13 +6,18 @@ import StatusBar from "../../source/components/StatusBar.js";
 // Mock useTranslation
 vi.mock("../../source/hooks/useTranslation.js", () => ({
 	useTranslation: () => ({
-		t: (key: string) => {
+		t: (key: string, params?: Record<string, unknown>) => {
 			const translations: Record<string, string> = {
 				"statusBar.notConfigured": "N/A",
 				"statusBar.planMode": "Plan",
 				"statusBar.actionMode": "Action",
+				"statusBar.jobs": "{{count}} job(s)",
+				"statusBar.subAgents": "sub-agents {{tokens}}",
+				"statusBar.cacheHitRate": "cache {{percent}}%",
 			};
-			return translations[key] || key;
+			return (translations[key] || key).replace(/\{\{(\w+)\}\}/g, (_, name) =>
+				String(params?.[name]),
+			);
 		},
 	}),
 }));
@@ -88,4 +93,49 @@ describe("StatusBar", () => {
 			expect(lastFrame()).toContain("(0%)");
 		});
 	});
+
+	describe("background jobs", () => {
+		it("should hide the job count when nothing runs in the background", () => {
+			const { lastFrame } = render(<StatusBar jobCount={0} />);
+			expect(lastFrame()).not.toContain("job(s)");
+		});
+
+		it("should show the number of running background processes", () => {
+			const { lastFrame } = render(<StatusBar jobCount={2} />);
+			expect(lastFrame()).toContain("[2 job(s)]");
+		});
+	});
+
+	describe("sub-agents", () => {
+		it("should hide sub-agent usage when no sub-agent has run", () => {
+			const { lastFrame } = render(<StatusBar />);
+			expect(lastFrame()).not.toContain("sub-agents");
+		});
+
+		it("should show sub-agent token usage separately", () => {
+			const { lastFrame } = render(
+				<StatusBar
+					contextWindow={32000}
+					usedTokens={0}
+					subAgentTokens={1500}
+				/>,
+			);
+			expect(lastFrame()).toContain("[sub-agents 1.5k]");
+			expect(lastFrame()).toContain("0/32k");
+		});
+	});
+
+	describe("cache hit rate", () => {
+		it("should hide cache hit rate when the provider reports no cache info", () => {
+			const { lastFrame } = render(<StatusBar />);
+			expect(lastFrame()).not.toContain("cache");
+		});
+
+		it("should show rounded cache hit rate", () => {
+			const { lastFrame } = render(
+				<StatusBar contextWindow={32000} usedTokens={0} cacheHitRate={66.6} />,
+			);
+			expect(lastFrame()).toContain("[cache 67%]");
+		});
+	});
 });
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from "vitest";
+import React from "react";
+import { render } from "ink-testing-library";
+import ToolCallBlock, {
+	formatDuration,
+	type ToolCallInfo,
+} from "../../source/components/ToolCallBlock.js";
+
+// Mock useTranslation
+vi.mock("../../source/hooks/useTranslation.js", () => ({
+	useTranslation: () => ({
+		t: (key: string) => {
+			const translations: Record<string, string> = {
+				"message.toolAwaitingPermission": "waiting for permission",
+			};
+			return translations[key] || key;
+		},
+	}),
+}));
+
+const baseCall: ToolCallInfo = {
+	id: "call_1",
+	toolId: "a-c-git",
+	action: "status",
+	argsSummary: "short=true",
+	status: "success",
+	durationMs: 1200,
+	outputPreview: "On branch main\nnothing to commit",
+};
+
+describe("ToolCallBlock", () => {
+	it("should show a finished call with duration and output", () => {
+		const { lastFrame } = render(<ToolCallBlock call={baseCall} />);
+		const frame = lastFrame()!;
+
+		expect(frame).toContain("✓ a-c-git:status short=true 1.2s");
+		expect(frame).toContain("│ On branch main");
+		expect(frame).toContain("│ nothing to commit");
+	});
+
+	it("should hide the output when collapsed", () => {
+		const { lastFrame } = render(
+			<ToolCallBlock call={baseCall} collapsed={true} />,
+		);
+
+		expect(lastFrame()).toContain("a-c-git:status");
+		expect(lastFrame()).not.toContain("On branch main");
+	});
+
+	it("should always show errors", () => {
+		const { lastFrame } = render(
+			<ToolCallBlock
+				call={{ ...baseCall, status: "error", outputPreview: "not a repo" }}
+				collapsed={true}
+			/>,
+		);
+
+		expect(lastFrame()).toContain("✗ a-c-git:status");
+		expect(lastFrame()).toContain("│ not a repo");
+	});
+
+	it("should show elapsed time while running", () => {
+		const { lastFrame, unmount } = render(
+			<ToolCallBlock
+				call={{
+					...baseCall,
+					status: "running",
+					durationMs: undefined,
+					outputPreview: undefined,
+					startedAt: Date.now() - 2500,
+				}}
+			/>,
+		);
+
+		expect(lastFrame()).toMatch(/a-c-git:status short=true [⠋-⠿] 2\.\ds/);
+		expect(lastFrame()).not.toContain("On branch main");
+		unmount();
+	});
+
+	it("should show live output while running", () => {
+		const { lastFrame, unmount } = render(
+			<ToolCallBlock
+				call={{
+					...baseCall,
+					status: "running",
+					startedAt: Date.now(),
+					outputPreview: "compiling",
+				}}
+			/>,
+		);
+
+		expect(lastFrame()).toContain("│ compiling");
+		unmount();
+	});
+
+	it("should show calls waiting for permission", () => {
+		const { lastFrame } = render(
+			<ToolCallBlock call={{ ...baseCall, status: "awaiting_permission" }} />,
+		);
+
+		expect(lastFrame()).toContain("waiting for permission");
+	});
+});
+
+describe("formatDuration", () => {
+	it("should format milliseconds, seconds and minutes", () => {
+		expect(formatDuration(120)).toBe("120ms");
+		expect(formatDuration(3400)).toBe("3.4s");
+		expect(formatDuration(65000)).toBe("1m 5s");
+	});
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from "vitest";
 import {
+	buildPlanPrompt,
 	buildSystemPrompt,
+	COMPACT_PROMPT,
 	SYSTEM_PROMPT,
 } from "../../source/constants/prompts.js";
 
@@ -90,4 +92,27 @@ describe("prompts", () => {
 			expect(result).toContain("Tool Usage");
 		});
 	});
+
+	describe("COMPACT_PROMPT", () => {
+		it("should ask for a summary only", () => {
+			expect(COMPACT_PROMPT).toContain("Summarize our conversation");
+			expect(COMPACT_PROMPT).toContain("only the summary");
+		});
+	});
+
+	describe("buildPlanPrompt", () => {
+		it("should describe the plan file workflow", () => {
+			const result = buildPlanPrompt("Add dark mode");
+			expect(result).toContain("Add dark mode");
+			expect(result).toContain(".axiomate/plans/plan.md");
+			expect(result).toContain("- [ ]");
+			expect(result).not.toContain("current plan");
+		});
+
+		it("should include the existing plan", () => {
+			const result = buildPlanPrompt("Add dark mode", "# Plan\n- [x] Step 1\n");
+			expect(result).toContain("The current plan");
+			expect(result).toContain("# Plan\n- [x] Step 1");
+		});
+	});
 });
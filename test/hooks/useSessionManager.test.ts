@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { parseHistoryToUIMessages } from "../../source/hooks/useSessionManager.js";
+
+describe("parseHistoryToUIMessages", () => {
+	it("should restore tool call blocks with their results", () => {
+		const messages = parseHistoryToUIMessages([
+			{ role: "user", content: "full content", displayContent: "check" },
+			{
+				role: "assistant",
+				content: "Checking",
+				tool_calls: [
+					{
+						id: "call_1",
+						function: { name: "a-c-git_status", arguments: "{}" },
+					},
+					{
+						id: "call_2",
+						function: {
+							name: "a-c-bash_run",
+							arguments: '{"command":"npm test"}',
+						},
+					},
+					{
+						id: "call_3",
+						function: { name: "a-c-file_read", arguments: "{}" },
+					},
+				],
+			},
+			{
+				role: "tool",
+				tool_call_id: "call_1",
+				content: "[Git:status] (12ms)\nclean",
+			},
+			{
+				role: "tool",
+				tool_call_id: "call_2",
+				content: "[Bash:run] (30ms)\nError: exit code 1",
+			},
+			{ role: "assistant", content: "Done" },
+		]);
+
+		expect(messages).toHaveLength(3);
+		expect(messages[0]).toEqual({ content: "check", type: "user" });
+		expect(messages[1]).toMatchObject({
+			content: "Checking",
+			toolCallsCollapsed: true,
+			toolCalls: [
+				{
+					id: "call_1",
+					toolId: "a-c-git",
+					action: "status",
+					argsSummary: "",
+					status: "success",
+					durationMs: 12,
+					outputPreview: "clean",
+				},
+				{
+					id: "call_2",
+					argsSummary: "command=npm test",
+					status: "error",
+					outputPreview: "exit code 1",
+				},
+				// 没有结果的调用视为中断
+				{ id: "call_3", status: "error" },
+			],
+		});
+		expect(messages[2]).toMatchObject({ content: "Done" });
+		expect(messages[2]!.toolCalls).toBeUndefined();
+	});
+
+	it("should restore ask_user answers on the assistant message", () => {
+		const messages = parseHistoryToUIMessages([
+			{
+				role: "assistant",
+				content: "",
+				tool_calls: [
+					{
+						id: "call_ask",
+						function: {
+							name: "a-c-askuser_ask",
+							arguments: '{"question":"Which?","options":"[\\"a\\",\\"b\\"]"}',
+						},
+					},
+				],
+			},
+			{
+				role: "tool",
+				tool_call_id: "call_ask",
+				content: "[Ask User] User answered: a",
+			},
+		]);
+
+		expect(messages).toHaveLength(1);
+		expect(messages[0]).toMatchObject({
+			askUserQA: { question: "Which?", options: ["a", "b"], answer: "a" },
+			askUserCollapsed: true,
+		});
+		expect(messages[0]!.toolCalls).toBeUndefined();
+	});
+});
@@ -6,6 +6,7 @@ import {
 	buildAnthropicToolResultMessage,
 	toAnthropicMessages,
 	extractSystemMessage,
+	addMessageCacheBreakpoint,
 } from "../../../../source/services/ai/adapters/anthropic.js";
 import type { DiscoveredTool } from "../../../../source/services/tools/types.js";
 import type { ChatMessage } from "../../../../source/services/ai/types.js";
@@ -308,4 +309,64 @@ describe("Anthropic Adapter", () => {
 			expect(result).toBeUndefined();
 		});
 	});
+
+	describe("addMessageCacheBreakpoint", () => {
+		it("should convert a text message to a block with cache_control", () => {
+			const result = addMessageCacheBreakpoint([
+				{ role: "user", content: "First" },
+				{ role: "user", content: "Second" },
+			]);
+
+			expect(result).toEqual([
+				{ role: "user", content: "First" },
+				{
+					role: "user",
+					content: [
+						{
+							type: "text",
+							text: "Second",
+							cache_control: { type: "ephemeral" },
+						},
+					],
+				},
+			]);
+		});
+
+		it("should mark the last tool result", () => {
+			const result = addMessageCacheBreakpoint([
+				{
+					role: "user",
+					content: [
+						{ type: "tool_result", tool_use_id: "t1", content: "a" },
+						{ type: "tool_result", tool_use_id: "t2", content: "b" },
+					],
+				},
+			]);
+
+			expect(result[0]!.content).toEqual([
+				{ type: "tool_result", tool_use_id: "t1", content: "a" },
+				{
+					type: "tool_result",
+					tool_use_id: "t2",
+					content: "b",
+					cache_control: { type: "ephemeral" },
+				},
+			]);
+		});
+
+		it("should skip thinking blocks and empty text", () => {
+			const messages = [
+				{
+					role: "assistant" as const,
+					content: [
+						{ type: "thinking", thinking: "hmm" },
+						{ type: "text", text: "" },
+					],
+				},
+			];
+
+			expect(addMessageCacheBreakpoint(messages)).toBe(messages);
+			expect(addMessageCacheBreakpoint([])).toEqual([]);
+		});
+	});
 });
@@ -0,0 +1,252 @@
+import { describe, it, expect } from "vitest";
+import {
+	toGeminiFunctionDeclarations,
+	parseGeminiFunctionCalls,
+	toGeminiContents,
+} from "../../../../source/services/ai/adapters/gemini.js";
+import type {
+	ChatMessage,
+	OpenAITool,
+} from "../../../../source/services/ai/types.js";
+
+describe("Gemini Adapter", () => {
+	describe("toGeminiFunctionDeclarations", () => {
+		it("should convert OpenAI tools to function declarations", () => {
+			const tools: OpenAITool[] = [
+				{
+					type: "function",
+					function: {
+						name: "a-c-file_read",
+						description: "[File] Read a file",
+						parameters: {
+							type: "object",
+							properties: {
+								path: { type: "string", description: "File path" },
+							},
+							required: ["path"],
+						},
+					},
+				},
+			];
+
+			expect(toGeminiFunctionDeclarations(tools)).toEqual([
+				{
+					name: "a-c-file_read",
+					description: "[File] Read a file",
+					parameters: {
+						type: "object",
+						properties: {
+							path: { type: "string", description: "File path" },
+						},
+						required: ["path"],
+					},
+				},
+			]);
+		});
+
+		it("should omit parameters for functions without arguments", () => {
+			const tools: OpenAITool[] = [
+				{
+					type: "function",
+					function: {
+						name: "a-c-git_status",
+						description: "[Git] Status",
+						parameters: { type: "object", properties: {}, required: [] },
+					},
+				},
+			];
+
+			expect(toGeminiFunctionDeclarations(tools)[0]).toEqual({
+				name: "a-c-git_status",
+				description: "[Git] Status",
+			});
+		});
+
+		it("should drop schema fields Gemini does not support", () => {
+			const tools = [
+				{
+					type: "function",
+					function: {
+						name: "mcp_tool",
+						description: "MCP tool",
+						parameters: {
+							$schema: "http://json-schema.org/draft-07/schema#",
+							type: "object",
+							additionalProperties: false,
+							properties: {
+								tags: {
+									type: "array",
+									items: { type: "string", additionalProperties: false },
+								},
+							},
+							required: [],
+						},
+					},
+				},
+			] as unknown as OpenAITool[];
+
+			expect(toGeminiFunctionDeclarations(tools)[0]!.parameters).toEqual({
+				type: "object",
+				properties: {
+					tags: { type: "array", items: { type: "string" } },
+				},
+				required: [],
+			});
+		});
+	});
+
+	describe("parseGeminiFunctionCalls", () => {
+		it("should convert function calls to tool calls", () => {
+			const result = parseGeminiFunctionCalls([
+				{ text: "Reading" },
+				{
+					functionCall: {
+						id: "fc_1",
+						name: "a-c-file_read",
+						args: { path: "a.ts" },
+					},
+				},
+			]);
+
+			expect(result).toEqual([
+				{
+					id: "fc_1",
+					type: "function",
+					function: { name: "a-c-file_read", arguments: '{"path":"a.ts"}' },
+				},
+			]);
+		});
+
+		it("should generate unique IDs when Gemini returns none", () => {
+			const result = parseGeminiFunctionCalls([
+				{ functionCall: { name: "a-c-git_status" } },
+				{ functionCall: { name: "a-c-git_status" } },
+			]);
+
+			expect(result[0]!.id).toMatch(/^call_/);
+			expect(result[0]!.id).not.toBe(result[1]!.id);
+			expect(result[0]!.function.arguments).toBe("{}");
+		});
+
+		it("should keep thought signatures", () => {
+			const result = parseGeminiFunctionCalls([
+				{
+					functionCall: { id: "fc_1", name: "a-c-git_status" },
+					thoughtSignature: "sig-1",
+				},
+			]);
+
+			expect(result[0]!.thought_signature).toBe("sig-1");
+		});
+	});
+
+	describe("toGeminiContents", () => {
+		it("should skip system messages and map assistant to model", () => {
+			const messages: ChatMessage[] = [
+				{ role: "system", content: "You are helpful" },
+				{ role: "user", content: "Hi" },
+				{ role: "assistant", content: "Hello", reasoning_content: "greet" },
+			];
+
+			expect(toGeminiContents(messages)).toEqual([
+				{ role: "user", parts: [{ text: "Hi" }] },
+				{ role: "model", parts: [{ text: "Hello" }] },
+			]);
+		});
+
+		it("should send tool results as function responses with the call name", () => {
+			const messages: ChatMessage[] = [
+				{ role: "user", content: "Check" },
+				{
+					role: "assistant",
+					content: "",
+					tool_calls: [
+						{
+							id: "c1",
+							type: "function",
+							function: { name: "a-c-git_status", arguments: "" },
+						},
+						{
+							id: "c2",
+							type: "function",
+							function: {
+								name: "a-c-file_read",
+								arguments: '{"path":"a.ts"}',
+							},
+						},
+					],
+				},
+				{ role: "tool", tool_call_id: "c1", content: "clean" },
+				{ role: "tool", tool_call_id: "c2", content: "code" },
+			];
+
+			expect(toGeminiContents(messages)).toEqual([
+				{ role: "user", parts: [{ text: "Check" }] },
+				{
+					role: "model",
+					parts: [
+						{ functionCall: { name: "a-c-git_status", args: {} } },
+						{
+							functionCall: { name: "a-c-file_read", args: { path: "a.ts" } },
+						},
+					],
+				},
+				{
+					role: "user",
+					parts: [
+						{
+							functionResponse: {
+								name: "a-c-git_status",
+								response: { content: "clean" },
+							},
+						},
+						{
+							functionResponse: {
+								name: "a-c-file_read",
+								response: { content: "code" },
+							},
+						},
+					],
+				},
+			]);
+		});
+
+		it("should echo thought signatures on function calls", () => {
+			const messages: ChatMessage[] = [
+				{ role: "user", content: "Check" },
+				{
+					role: "assistant",
+					content: "",
+					tool_calls: [
+						{
+							id: "c1",
+							type: "function",
+							function: { name: "a-c-git_status", arguments: "{}" },
+							thought_signature: "sig-1",
+						},
+					],
+				},
+				{ role: "tool", tool_call_id: "c1", content: "clean" },
+			];
+
+			expect(toGeminiContents(messages)[1]).toEqual({
+				role: "model",
+				parts: [
+					{
+						functionCall: { name: "a-c-git_status", args: {} },
+						thoughtSignature: "sig-1",
+					},
+				],
+			});
+		});
+
+		it("should skip empty assistant messages", () => {
+			const messages: ChatMessage[] = [
+				{ role: "user", content: "Hi" },
+				{ role: "assistant", content: "" },
+			];
+
+			expect(toGeminiContents(messages)).toHaveLength(1);
+		});
+	});
+});
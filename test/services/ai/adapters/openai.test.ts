@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import {
 	paramsToJsonSchema,
+	actionToJsonSchema,
 	toolToOpenAI,
 	toOpenAITools,
 	parseOpenAIToolCalls,
@@ -179,6 +180,39 @@ describe("OpenAI Adapter", () => {
 		});
 	});
 
+	describe("actionToJsonSchema", () => {
+		it("should prefer the raw input schema of MCP tools", () => {
+			const schema = actionToJsonSchema({
+				name: "search",
+				description: "Search",
+				parameters: [
+					{ name: "filter", description: "", type: "string", required: true },
+				],
+				commandTemplate: "__MCP_CALL__",
+				inputSchema: {
+					type: "object",
+					properties: {
+						filter: {
+							type: "object",
+							properties: { glob: { type: "string" } },
+						},
+					},
+				},
+			});
+
+			expect(schema).toEqual({
+				type: "object",
+				properties: {
+					filter: {
+						type: "object",
+						properties: { glob: { type: "string" } },
+					},
+				},
+				required: [],
+			});
+		});
+	});
+
 	describe("toOpenAITools", () => {
 		it("should convert multiple tools to OpenAI format", () => {
 			const tools: DiscoveredTool[] = [
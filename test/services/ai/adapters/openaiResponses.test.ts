@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+	toResponsesTools,
+	toResponsesInput,
+	parseResponsesFunctionCalls,
+} from "../../../../source/services/ai/adapters/openaiResponses.js";
+import type { ChatMessage } from "../../../../source/services/ai/types.js";
+
+describe("OpenAI Responses Adapter", () => {
+	describe("toResponsesTools", () => {
+		it("should flatten the function wrapper", () => {
+			const parameters = {
+				type: "object" as const,
+				properties: { path: { type: "string" as const } },
+				required: ["path"],
+			};
+
+			expect(
+				toResponsesTools([
+					{
+						type: "function",
+						function: {
+							name: "a-c-file_read",
+							description: "[File] Read",
+							parameters,
+						},
+					},
+				]),
+			).toEqual([
+				{
+					type: "function",
+					name: "a-c-file_read",
+					description: "[File] Read",
+					parameters,
+				},
+			]);
+		});
+	});
+
+	describe("toResponsesInput", () => {
+		it("should convert messages, tool calls and tool results to input items", () => {
+			const messages: ChatMessage[] = [
+				{ role: "system", content: "Be brief" },
+				{ role: "user", content: "Check" },
+				{
+					role: "assistant",
+					content: "Checking",
+					reasoning_content: "thinking",
+					tool_calls: [
+						{
+							id: "call_1",
+							type: "function",
+							function: { name: "a-c-git_status", arguments: "" },
+						},
+					],
+				},
+				{ role: "tool", tool_call_id: "call_1", content: "clean" },
+				{ role: "assistant", content: "All clean" },
+			];
+
+			expect(toResponsesInput(messages)).toEqual([
+				{ role: "user", content: "Check" },
+				{ role: "assistant", content: "Checking" },
+				{
+					type: "function_call",
+					call_id: "call_1",
+					name: "a-c-git_status",
+					arguments: "{}",
+				},
+				{ type: "function_call_output", call_id: "call_1", output: "clean" },
+				{ role: "assistant", content: "All clean" },
+			]);
+		});
+
+		it("should omit empty assistant text", () => {
+			expect(
+				toResponsesInput([
+					{
+						role: "assistant",
+						content: "",
+						tool_calls: [
+							{
+								id: "call_1",
+								type: "function",
+								function: { name: "a-c-git_status", arguments: "{}" },
+							},
+						],
+					},
+				]),
+			).toEqual([
+				{
+					type: "function_call",
+					call_id: "call_1",
+					name: "a-c-git_status",
+					arguments: "{}",
+				},
+			]);
+		});
+	});
+
+	describe("parseResponsesFunctionCalls", () => {
+		it("should only return function call items", () => {
+			expect(
+				parseResponsesFunctionCalls([
+					{ type: "reasoning", id: "rs_1", summary: [] },
+					{ type: "web_search_call", id: "ws_1" },
+					{
+						type: "function_call",
+						id: "fc_1",
+						call_id: "call_1",
+						name: "a-c-file_read",
+						arguments: '{"path":"a.ts"}',
+					},
+				]),
+			).toEqual([
+				{
+					id: "call_1",
+					type: "function",
+					function: { name: "a-c-file_read", arguments: '{"path":"a.ts"}' },
+				},
+			]);
+		});
+	});
+});
@@ -19,6 +19,7 @@ vi.mock("../../../../source/services/ai/adapters/anthropic.js", () => ({
 		const sys = msgs.find((m: any) => m.role === "system");
 		return sys?.content || null;
 	}),
+	addMessageCacheBreakpoint: vi.fn((msgs) => msgs),
 	parseAnthropicToolUse: vi.fn((blocks) =>
 		blocks.map((b: any) => ({
 			id: b.id,
@@ -33,6 +34,7 @@ import {
 	isThinkingEnabled,
 	currentModelSupportsThinking,
 } from "../../../../source/utils/config.js";
+import { addMessageCacheBreakpoint } from "../../../../source/services/ai/adapters/anthropic.js";
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -382,6 +384,7 @@ describe("AnthropicClient", () => {
 				apiKey: "test-key",
 				model: "claude-3-opus",
 				baseUrl: "https://api.anthropic.com/v1",
+				maxRetries: 1,
 			});
 
 			await expect(async () => {
@@ -575,6 +578,119 @@ describe("AnthropicClient", () => {
 			}).rejects.toThrow("Anthropic streaming error: Rate limit exceeded");
 		});
 
+		it("should retry overloaded error events before any content", async () => {
+			const encoder = new TextEncoder();
+			const streams = [
+				[
+					'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n',
+				],
+				[
+					'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}\n\n',
+					'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hello"}}\n\n',
+					'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+				],
+			];
+			const createReader = (events: string[]) => {
+				let eventIndex = 0;
+				return {
+					read: vi.fn(async () => {
+						if (eventIndex < events.length) {
+							const value = encoder.encode(events[eventIndex]!);
+							eventIndex++;
+							return { done: false, value };
+						}
+						return { done: true, value: undefined };
+					}),
+				};
+			};
+
+			for (const events of streams) {
+				mockFetch.mockResolvedValueOnce({
+					ok: true,
+					body: { getReader: () => createReader(events) },
+				});
+			}
+			const onRetry = vi.fn();
+
+			const client = new AnthropicClient({
+				apiKey: "test-key",
+				model: "claude-3-opus",
+				baseUrl: "https://api.anthropic.com/v1",
+				maxRetries: 3,
+			});
+
+			const resultsPromise = (async () => {
+				const results: string[] = [];
+				for await (const chunk of client.streamChat(
+					[{ role: "user", content: "Hi" }],
+					undefined,
+					{ onRetry },
+				)) {
+					if (chunk.delta.content) {
+						results.push(chunk.delta.content);
+					}
+				}
+				return results;
+			})();
+			await vi.advanceTimersByTimeAsync(1000);
+
+			expect(await resultsPromise).toEqual(["Hello"]);
+			expect(mockFetch).toHaveBeenCalledTimes(2);
+			expect(onRetry).toHaveBeenCalledWith(
+				expect.objectContaining({ reason: "server_error", status: 529 }),
+			);
+		});
+
+		it("should wait for the Anthropic rate limit reset", async () => {
+			const reset = new Date(Date.now() + 5000).toISOString();
+			mockFetch
+				.mockResolvedValueOnce({
+					ok: false,
+					status: 429,
+					statusText: "Too Many Requests",
+					headers: new Headers({
+						"anthropic-ratelimit-tokens-remaining": "0",
+						"anthropic-ratelimit-tokens-reset": reset,
+					}),
+					text: async () => "Rate limited",
+				})
+				.mockResolvedValueOnce({
+					ok: true,
+					json: async () => ({
+						id: "msg_123",
+						type: "message",
+						role: "assistant",
+						content: [{ type: "text", text: "Done" }],
+						model: "claude-3-opus",
+						stop_reason: "end_turn",
+						stop_sequence: null,
+						usage: { input_tokens: 10, output_tokens: 5 },
+					}),
+				});
+			const onRetry = vi.fn();
+
+			const client = new AnthropicClient({
+				apiKey: "test-key",
+				model: "claude-3-opus",
+				baseUrl: "https://api.anthropic.com/v1",
+				maxRetries: 3,
+			});
+
+			const resultPromise = client.chat(
+				[{ role: "user", content: "Hi" }],
+				undefined,
+				{ onRetry },
+			);
+			await vi.advanceTimersByTimeAsync(5000);
+
+			const result = await resultPromise;
+			expect(result.message.content).toBe("Done");
+			const [event] = onRetry.mock.calls[0]!;
+			expect(event.reason).toBe("rate_limit");
+			expect(event.delayMs).toBeGreaterThan(4000);
+			expect(event.delayMs).toBeLessThanOrEqual(5000);
+		});
+
 		it("should handle stream ending without explicit finish", async () => {
 			const encoder = new TextEncoder();
 			const events = [
@@ -716,4 +832,126 @@ describe("AnthropicClient", () => {
 			);
 		});
 	});
+
+	describe("prompt caching", () => {
+		const client = () =>
+			new AnthropicClient({
+				apiKey: "test-key",
+				model: "claude-3-opus",
+				baseUrl: "https://api.anthropic.com/v1",
+			});
+
+		it("should set cache breakpoints on system prompt, tools and history", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					id: "msg_123",
+					type: "message",
+					role: "assistant",
+					content: [{ type: "text", text: "Response" }],
+					stop_reason: "end_turn",
+					usage: { input_tokens: 10, output_tokens: 5 },
+				}),
+			});
+			const tool = (name: string) => ({
+				type: "function" as const,
+				function: {
+					name,
+					description: name,
+					parameters: { type: "object" as const, properties: {}, required: [] },
+				},
+			});
+
+			await client().chat(
+				[
+					{ role: "system", content: "You are helpful" },
+					{ role: "user", content: "Hi" },
+				],
+				[tool("first"), tool("last")],
+			);
+
+			const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+			expect(body.system).toEqual([
+				{
+					type: "text",
+					text: "You are helpful",
+					cache_control: { type: "ephemeral" },
+				},
+			]);
+			expect(body.tools[0].cache_control).toBeUndefined();
+			expect(body.tools[1].cache_control).toEqual({ type: "ephemeral" });
+			expect(addMessageCacheBreakpoint).toHaveBeenCalledWith([
+				{ role: "user", content: "Hi" },
+			]);
+		});
+
+		it("should include cache tokens in prompt tokens", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					id: "msg_123",
+					type: "message",
+					role: "assistant",
+					content: [{ type: "text", text: "Response" }],
+					stop_reason: "end_turn",
+					usage: {
+						input_tokens: 10,
+						output_tokens: 5,
+						cache_creation_input_tokens: 100,
+						cache_read_input_tokens: 900,
+					},
+				}),
+			});
+
+			const result = await client().chat([{ role: "user", content: "Hi" }]);
+
+			expect(result.usage).toEqual({
+				prompt_tokens: 1010,
+				completion_tokens: 5,
+				total_tokens: 1015,
+				cache_creation_input_tokens: 100,
+				cache_read_input_tokens: 900,
+			});
+		});
+
+		it("should report cache usage from the stream", async () => {
+			const encoder = new TextEncoder();
+			const events = [
+				'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","usage":{"input_tokens":4,"output_tokens":1,"cache_creation_input_tokens":0,"cache_read_input_tokens":2000}}}\n\n',
+				'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":12}}\n\n',
+				'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+			];
+			let eventIndex = 0;
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				body: {
+					getReader: () => ({
+						read: vi.fn(async () =>
+							eventIndex < events.length
+								? {
+										done: false,
+										value: encoder.encode(events[eventIndex++]!),
+									}
+								: { done: true, value: undefined },
+						),
+					}),
+				},
+			});
+
+			const chunks = [];
+			for await (const chunk of client().streamChat([
+				{ role: "user", content: "Hi" },
+			])) {
+				chunks.push(chunk);
+			}
+
+			expect(chunks.at(-1)!.usage).toEqual({
+				prompt_tokens: 2004,
+				completion_tokens: 12,
+				total_tokens: 2016,
+				cache_creation_input_tokens: 0,
+				cache_read_input_tokens: 2000,
+			});
+		});
+	});
 });
@@ -0,0 +1,511 @@
+import {
+	describe,
+	it,
+	expect,
+	vi,
+	beforeAll,
+	afterAll,
+	beforeEach,
+} from "vitest";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+// Mock config module
+vi.mock("../../../../source/utils/config.js", () => ({
+	isThinkingEnabled: vi.fn(() => false),
+	currentModelSupportsThinking: vi.fn(() => false),
+	currentModelSupportsToolChoice: vi.fn(() => false),
+}));
+
+import { GeminiClient } from "../../../../source/services/ai/clients/gemini.js";
+import {
+	isThinkingEnabled,
+	currentModelSupportsThinking,
+	currentModelSupportsToolChoice,
+} from "../../../../source/utils/config.js";
+import type {
+	AIStreamChunk,
+	ChatMessage,
+	OpenAITool,
+} from "../../../../source/services/ai/types.js";
+
+type RecordedRequest = {
+	url: string;
+	headers: http.IncomingHttpHeaders;
+	body: Record<string, any>;
+};
+
+type Reply = (res: http.ServerResponse) => void;
+
+/**
+ * Reply with a JSON body
+ */
+function json(body: unknown, status = 200): Reply {
+	return (res) => {
+		res.writeHead(status, { "Content-Type": "application/json" });
+		res.end(JSON.stringify(body));
+	};
+}
+
+/**
+ * Reply with one SSE event per chunk
+ */
+function sse(chunks: unknown[]): Reply {
+	return (res) => {
+		res.writeHead(200, { "Content-Type": "text/event-stream" });
+		for (const chunk of chunks) {
+			res.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`);
+		}
+		res.end();
+	};
+}
+
+async function collect(
+	stream: AsyncIterable<AIStreamChunk>,
+): Promise<AIStreamChunk[]> {
+	const chunks: AIStreamChunk[] = [];
+	for await (const chunk of stream) {
+		chunks.push(chunk);
+	}
+	return chunks;
+}
+
+const readTool: OpenAITool = {
+	type: "function",
+	function: {
+		name: "a-c-file_read",
+		description: "[File] Read a file",
+		parameters: {
+			type: "object",
+			properties: { path: { type: "string" } },
+			required: ["path"],
+		},
+	},
+};
+
+describe("GeminiClient", () => {
+	let server: http.Server;
+	let baseUrl: string;
+	let requests: RecordedRequest[];
+	let replies: Reply[];
+
+	beforeAll(async () => {
+		server = http.createServer((req, res) => {
+			let data = "";
+			req.on("data", (chunk) => (data += chunk));
+			req.on("end", () => {
+				requests.push({
+					url: req.url ?? "",
+					headers: req.headers,
+					body: JSON.parse(data || "{}"),
+				});
+				const reply = replies.shift() ?? json({ error: "no reply" }, 500);
+				reply(res);
+			});
+		});
+		await new Promise<void>((resolve) =>
+			server.listen(0, "127.0.0.1", resolve),
+		);
+		const { port } = server.address() as AddressInfo;
+		baseUrl = `http://127.0.0.1:${port}/v1beta`;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(isThinkingEnabled).mockReturnValue(false);
+		vi.mocked(currentModelSupportsThinking).mockReturnValue(false);
+		vi.mocked(currentModelSupportsToolChoice).mockReturnValue(false);
+		requests = [];
+		replies = [];
+	});
+
+	function createClient(): GeminiClient {
+		return new GeminiClient({
+			apiKey: "test-key",
+			model: "gemini-2.5-pro",
+			baseUrl,
+			maxRetries: 1,
+		});
+	}
+
+	describe("constructor", () => {
+		it("should default to the Gemini API endpoint", () => {
+			const client = new GeminiClient({ model: "gemini-2.5-pro" });
+
+			const config = client.getConfig();
+			expect(config.baseUrl).toBe(
+				"https://generativelanguage.googleapis.com/v1beta",
+			);
+			expect(config.timeout).toBe(60000);
+			expect(config.maxRetries).toBe(3);
+		});
+	});
+
+	describe("chat", () => {
+		it("should send contents, system instruction and API key", async () => {
+			replies.push(
+				json({
+					candidates: [
+						{
+							content: { role: "model", parts: [{ text: "Hello!" }] },
+							finishReason: "STOP",
+						},
+					],
+					usageMetadata: {
+						promptTokenCount: 10,
+						candidatesTokenCount: 5,
+						totalTokenCount: 15,
+					},
+				}),
+			);
+
+			const result = await createClient().chat([
+				{ role: "system", content: "Be brief" },
+				{ role: "user", content: "Hi" },
+			]);
+
+			expect(requests[0]!.url).toBe(
+				"/v1beta/models/gemini-2.5-pro:generateContent",
+			);
+			expect(requests[0]!.headers["x-goog-api-key"]).toBe("test-key");
+			expect(requests[0]!.body).toEqual({
+				contents: [{ role: "user", parts: [{ text: "Hi" }] }],
+				systemInstruction: { parts: [{ text: "Be brief" }] },
+			});
+			expect(result.message.content).toBe("Hello!");
+			expect(result.finish_reason).toBe("stop");
+			expect(result.usage).toEqual({
+				prompt_tokens: 10,
+				completion_tokens: 5,
+				total_tokens: 15,
+			});
+		});
+
+		it("should send function declarations and parse function calls", async () => {
+			replies.push(
+				json({
+					candidates: [
+						{
+							content: {
+								role: "model",
+								parts: [
+									{
+										functionCall: {
+											name: "a-c-file_read",
+											args: { path: "a.ts" },
+										},
+									},
+								],
+							},
+							finishReason: "STOP",
+						},
+					],
+				}),
+			);
+
+			const result = await createClient().chat(
+				[{ role: "user", content: "Read a.ts" }],
+				[readTool],
+			);
+
+			expect(requests[0]!.body.tools).toEqual([
+				{
+					functionDeclarations: [
+						{
+							name: "a-c-file_read",
+							description: "[File] Read a file",
+							parameters: {
+								type: "object",
+								properties: { path: { type: "string" } },
+								required: ["path"],
+							},
+						},
+					],
+				},
+			]);
+			expect(result.finish_reason).toBe("tool_calls");
+			expect(result.message.tool_calls).toEqual([
+				{
+					id: expect.stringMatching(/^call_/),
+					type: "function",
+					function: { name: "a-c-file_read", arguments: '{"path":"a.ts"}' },
+				},
+			]);
+		});
+
+		it("should force the required tool when tool choice is supported", async () => {
+			vi.mocked(currentModelSupportsToolChoice).mockReturnValue(true);
+			replies.push(json({ candidates: [{ content: { parts: [] } }] }));
+
+			await createClient().chat(
+				[{ role: "user", content: "Read" }],
+				[readTool],
+				{
+					toolMask: {
+						mode: "a",
+						allowedTools: new Set(["a-c-file"]),
+						requiredTool: "a-c-file_read",
+					},
+				},
+			);
+
+			expect(requests[0]!.body.toolConfig).toEqual({
+				functionCallingConfig: {
+					mode: "ANY",
+					allowedFunctionNames: ["a-c-file_read"],
+				},
+			});
+		});
+
+		it("should map thoughts to reasoning content when thinking is enabled", async () => {
+			vi.mocked(isThinkingEnabled).mockReturnValue(true);
+			vi.mocked(currentModelSupportsThinking).mockReturnValue(true);
+			replies.push(
+				json({
+					candidates: [
+						{
+							content: {
+								parts: [
+									{ text: "Let me think", thought: true },
+									{ text: "Answer" },
+								],
+							},
+							finishReason: "STOP",
+						},
+					],
+					usageMetadata: {
+						promptTokenCount: 10,
+						cachedContentTokenCount: 4,
+						candidatesTokenCount: 5,
+						thoughtsTokenCount: 20,
+						totalTokenCount: 35,
+					},
+				}),
+			);
+
+			const result = await createClient().chat([
+				{ role: "user", content: "Why?" },
+			]);
+
+			expect(requests[0]!.body.generationConfig).toEqual({
+				thinkingConfig: { includeThoughts: true },
+			});
+			expect(result.message.content).toBe("Answer");
+			expect(result.message.reasoning_content).toBe("Let me think");
+			expect(result.usage?.completion_tokens).toBe(25);
+			expect(result.usage?.cache_read_input_tokens).toBe(4);
+		});
+
+		it("should map MAX_TOKENS to length", async () => {
+			replies.push(
+				json({
+					candidates: [
+						{
+							content: { parts: [{ text: "Cut" }] },
+							finishReason: "MAX_TOKENS",
+						},
+					],
+				}),
+			);
+
+			const result = await createClient().chat([
+				{ role: "user", content: "Long" },
+			]);
+
+			expect(result.finish_reason).toBe("length");
+		});
+
+		it("should throw on API errors", async () => {
+			replies.push(json({ error: { message: "API key not valid" } }, 400));
+
+			await expect(
+				createClient().chat([{ role: "user", content: "Hi" }]),
+			).rejects.toThrow("Gemini API error: 400");
+		});
+	});
+
+	describe("streamChat", () => {
+		it("should stream text, thoughts and usage", async () => {
+			replies.push(
+				sse([
+					{
+						candidates: [
+							{ content: { parts: [{ text: "Hmm", thought: true }] } },
+						],
+					},
+					{ candidates: [{ content: { parts: [{ text: "Hel" }] } }] },
+					{
+						candidates: [
+							{ content: { parts: [{ text: "lo" }] }, finishReason: "STOP" },
+						],
+						usageMetadata: {
+							promptTokenCount: 8,
+							candidatesTokenCount: 2,
+							thoughtsTokenCount: 3,
+							totalTokenCount: 13,
+						},
+					},
+				]),
+			);
+
+			const chunks = await collect(
+				createClient().streamChat([{ role: "user", content: "Hi" }]),
+			);
+
+			expect(requests[0]!.url).toBe(
+				"/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse",
+			);
+			expect(chunks).toEqual([
+				{ delta: { reasoning_content: "Hmm" } },
+				{ delta: { content: "Hel" } },
+				{ delta: { content: "lo" } },
+				{
+					delta: { content: "" },
+					finish_reason: "stop",
+					usage: { prompt_tokens: 8, completion_tokens: 5, total_tokens: 13 },
+				},
+			]);
+		});
+
+		it("should yield function calls at the end of the stream", async () => {
+			replies.push(
+				sse([
+					{ candidates: [{ content: { parts: [{ text: "Reading" }] } }] },
+					{
+						candidates: [
+							{
+								content: {
+									parts: [
+										{
+											functionCall: {
+												id: "fc_1",
+												name: "a-c-file_read",
+												args: { path: "a.ts" },
+											},
+										},
+									],
+								},
+								finishReason: "STOP",
+							},
+						],
+					},
+				]),
+			);
+
+			const chunks = await collect(
+				createClient().streamChat(
+					[{ role: "user", content: "Read a.ts" }],
+					[readTool],
+				),
+			);
+
+			expect(chunks.at(-1)).toEqual({
+				delta: {
+					content: "",
+					tool_calls: [
+						{
+							id: "fc_1",
+							type: "function",
+							function: { name: "a-c-file_read", arguments: '{"path":"a.ts"}' },
+						},
+					],
+				},
+				finish_reason: "tool_calls",
+				usage: undefined,
+			});
+		});
+
+		it("should send thought signatures back with the function calls", async () => {
+			replies.push(
+				sse([
+					{
+						candidates: [
+							{
+								content: {
+									parts: [
+										{
+											functionCall: {
+												id: "fc_1",
+												name: "a-c-file_read",
+												args: { path: "a.ts" },
+											},
+											thoughtSignature: "sig-1",
+										},
+									],
+								},
+								finishReason: "STOP",
+							},
+						],
+					},
+				]),
+				json({
+					candidates: [
+						{
+							content: { role: "model", parts: [{ text: "Done" }] },
+							finishReason: "STOP",
+						},
+					],
+				}),
+			);
+			const client = createClient();
+			const messages: ChatMessage[] = [{ role: "user", content: "Read a.ts" }];
+
+			const chunks = await collect(client.streamChat(messages, [readTool]));
+			const toolCalls = chunks.at(-1)!.delta.tool_calls!;
+			expect(toolCalls[0]!.thought_signature).toBe("sig-1");
+
+			await client.chat(
+				[
+					...messages,
+					{ role: "assistant", content: "", tool_calls: toolCalls },
+					{ role: "tool", tool_call_id: "fc_1", content: "code" },
+				],
+				[readTool],
+			);
+
+			expect(requests[1]!.body.contents[1]).toEqual({
+				role: "model",
+				parts: [
+					{
+						functionCall: { name: "a-c-file_read", args: { path: "a.ts" } },
+						thoughtSignature: "sig-1",
+					},
+				],
+			});
+		});
+
+		it("should throw on error events", async () => {
+			replies.push(sse([{ error: { code: 500, message: "Internal error" } }]));
+
+			await expect(
+				collect(createClient().streamChat([{ role: "user", content: "Hi" }])),
+			).rejects.toThrow("Gemini streaming error: Internal error");
+		});
+
+		it("should throw on API errors", async () => {
+			replies.push(json({ error: { message: "Quota exceeded" } }, 429));
+
+			await expect(
+				collect(createClient().streamChat([{ role: "user", content: "Hi" }])),
+			).rejects.toThrow("Gemini API error: 429");
+		});
+
+		it("should reject when the signal is already aborted", async () => {
+			const controller = new AbortController();
+			controller.abort();
+
+			await expect(
+				collect(
+					createClient().streamChat([{ role: "user", content: "Hi" }], [], {
+						signal: controller.signal,
+					}),
+				),
+			).rejects.toThrow("Request was aborted");
+			expect(requests).toHaveLength(0);
+		});
+	});
+});
@@ -230,6 +230,73 @@ describe("OpenAIClient", () => {
 			expect(mockFetch).toHaveBeenCalledTimes(2);
 		});
 
+		it("should not retry client errors", async () => {
+			mockFetch.mockResolvedValue({
+				ok: false,
+				status: 400,
+				statusText: "Bad Request",
+				text: async () => "Invalid request",
+			});
+
+			const client = new OpenAIClient({
+				apiKey: "test-key",
+				model: "gpt-4",
+				maxRetries: 3,
+			});
+
+			await expect(
+				client.chat([{ role: "user", content: "Hi" }]),
+			).rejects.toThrow("OpenAI API error: 400 Bad Request");
+			expect(mockFetch).toHaveBeenCalledTimes(1);
+		});
+
+		it("should wait for Retry-After on rate limits", async () => {
+			mockFetch
+				.mockResolvedValueOnce({
+					ok: false,
+					status: 429,
+					statusText: "Too Many Requests",
+					headers: new Headers({ "retry-after": "8" }),
+					text: async () => "Rate limit reached",
+				})
+				.mockResolvedValueOnce({
+					ok: true,
+					json: async () => ({
+						id: "chatcmpl-123",
+						choices: [
+							{
+								message: { role: "assistant", content: "Done" },
+								finish_reason: "stop",
+							},
+						],
+					}),
+				});
+			const onRetry = vi.fn();
+
+			const client = new OpenAIClient({
+				apiKey: "test-key",
+				model: "gpt-4",
+				maxRetries: 3,
+			});
+
+			const resultPromise = client.chat(
+				[{ role: "user", content: "Hi" }],
+				undefined,
+				{ onRetry },
+			);
+			await vi.advanceTimersByTimeAsync(8000);
+
+			const result = await resultPromise;
+			expect(result.message.content).toBe("Done");
+			expect(onRetry).toHaveBeenCalledWith({
+				reason: "rate_limit",
+				status: 429,
+				attempt: 1,
+				maxRetries: 2,
+				delayMs: 8000,
+			});
+		});
+
 		it("should handle empty choices", async () => {
 			// Reset mock to ensure clean state
 			mockFetch.mockReset();
@@ -474,6 +541,7 @@ describe("OpenAIClient", () => {
 				apiKey: "test-key",
 				model: "gpt-4",
 				baseUrl: "https://api.openai.com/v1",
+				maxRetries: 1,
 			});
 
 			await expect(async () => {
@@ -485,6 +553,100 @@ describe("OpenAIClient", () => {
 			}).rejects.toThrow("OpenAI API error: 500 Internal Server Error");
 		});
 
+		it("should retry the stream when it fails before any content", async () => {
+			const encoder = new TextEncoder();
+			let sent = false;
+			const mockReader = {
+				read: vi.fn(async () => {
+					if (!sent) {
+						sent = true;
+						return {
+							done: false,
+							value: encoder.encode(
+								'data: {"choices":[{"delta":{"content":"Hello"},"finish_reason":"stop"}]}\n\n',
+							),
+						};
+					}
+					return { done: true, value: undefined };
+				}),
+			};
+
+			mockFetch
+				.mockResolvedValueOnce({
+					ok: false,
+					status: 503,
+					statusText: "Service Unavailable",
+					text: async () => "Overloaded",
+				})
+				.mockResolvedValueOnce({
+					ok: true,
+					body: { getReader: () => mockReader },
+				});
+
+			const client = new OpenAIClient({
+				apiKey: "test-key",
+				model: "gpt-4",
+				maxRetries: 3,
+			});
+
+			const resultsPromise = (async () => {
+				const results: string[] = [];
+				for await (const chunk of client.streamChat([
+					{ role: "user", content: "Hi" },
+				])) {
+					if (chunk.delta.content) {
+						results.push(chunk.delta.content);
+					}
+				}
+				return results;
+			})();
+			await vi.advanceTimersByTimeAsync(1000);
+
+			expect(await resultsPromise).toEqual(["Hello"]);
+			expect(mockFetch).toHaveBeenCalledTimes(2);
+		});
+
+		it("should not retry the stream after content was received", async () => {
+			const encoder = new TextEncoder();
+			let sent = false;
+			const mockReader = {
+				read: vi.fn(async () => {
+					if (!sent) {
+						sent = true;
+						return {
+							done: false,
+							value: encoder.encode(
+								'data: {"choices":[{"delta":{"content":"Hel"},"finish_reason":null}]}\n\n',
+							),
+						};
+					}
+					throw new TypeError("terminated");
+				}),
+			};
+
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				body: { getReader: () => mockReader },
+			});
+
+			const client = new OpenAIClient({
+				apiKey: "test-key",
+				model: "gpt-4",
+				maxRetries: 3,
+			});
+
+			const results: string[] = [];
+			await expect(async () => {
+				for await (const chunk of client.streamChat([
+					{ role: "user", content: "Hi" },
+				])) {
+					results.push(chunk.delta.content ?? "");
+				}
+			}).rejects.toThrow("terminated");
+			expect(results).toEqual(["Hel"]);
+			expect(mockFetch).toHaveBeenCalledTimes(1);
+		});
+
 		it("should handle null response body", async () => {
 			mockFetch.mockResolvedValueOnce({
 				ok: true,
@@ -756,4 +918,107 @@ describe("OpenAIClient", () => {
 			);
 		});
 	});
+
+	describe("cache usage", () => {
+		const client = () =>
+			new OpenAIClient({
+				apiKey: "test-key",
+				model: "gpt-4",
+				baseUrl: "https://api.openai.com/v1",
+			});
+
+		it("should read cached tokens from prompt_tokens_details", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					choices: [
+						{
+							index: 0,
+							message: { role: "assistant", content: "Hi" },
+							finish_reason: "stop",
+						},
+					],
+					usage: {
+						prompt_tokens: 1000,
+						completion_tokens: 5,
+						total_tokens: 1005,
+						prompt_tokens_details: { cached_tokens: 768 },
+					},
+				}),
+			});
+
+			const result = await client().chat([{ role: "user", content: "Hi" }]);
+
+			expect(result.usage).toEqual({
+				prompt_tokens: 1000,
+				completion_tokens: 5,
+				total_tokens: 1005,
+				cache_read_input_tokens: 768,
+			});
+		});
+
+		it("should leave cache fields out when the API does not report them", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					choices: [
+						{
+							index: 0,
+							message: { role: "assistant", content: "Hi" },
+							finish_reason: "stop",
+						},
+					],
+					usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+				}),
+			});
+
+			const result = await client().chat([{ role: "user", content: "Hi" }]);
+
+			expect(result.usage).toEqual({
+				prompt_tokens: 10,
+				completion_tokens: 5,
+				total_tokens: 15,
+			});
+		});
+
+		it("should read DeepSeek cache hits from the stream", async () => {
+			const encoder = new TextEncoder();
+			const chunks = [
+				'data: {"choices":[{"delta":{"content":"Hi"},"finish_reason":"stop"}],"usage":{"prompt_tokens":500,"completion_tokens":2,"total_tokens":502,"prompt_cache_hit_tokens":448,"prompt_cache_miss_tokens":52}}\n\n',
+				"data: [DONE]\n\n",
+			];
+			let chunkIndex = 0;
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				body: {
+					getReader: () => ({
+						read: vi.fn(async () =>
+							chunkIndex < chunks.length
+								? {
+										done: false,
+										value: encoder.encode(chunks[chunkIndex++]!),
+									}
+								: { done: true, value: undefined },
+						),
+					}),
+				},
+			});
+
+			const usages = [];
+			for await (const chunk of client().streamChat([
+				{ role: "user", content: "Hi" },
+			])) {
+				if (chunk.usage) {
+					usages.push(chunk.usage);
+				}
+			}
+
+			expect(usages.at(-1)).toEqual({
+				prompt_tokens: 500,
+				completion_tokens: 2,
+				total_tokens: 502,
+				cache_read_input_tokens: 448,
+			});
+		});
+	});
 });
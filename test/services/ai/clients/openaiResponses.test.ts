@@ -0,0 +1,463 @@
+import {
+	describe,
+	it,
+	expect,
+	vi,
+	beforeAll,
+	afterAll,
+	beforeEach,
+} from "vitest";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+// Mock config module
+vi.mock("../../../../source/utils/config.js", () => ({
+	getThinkingParams: vi.fn(() => null),
+	currentModelSupportsToolChoice: vi.fn(() => false),
+}));
+
+import { OpenAIResponsesClient } from "../../../../source/services/ai/clients/openaiResponses.js";
+import { getThinkingParams } from "../../../../source/utils/config.js";
+import type {
+	AIStreamChunk,
+	ChatMessage,
+	OpenAITool,
+} from "../../../../source/services/ai/types.js";
+
+type RecordedRequest = {
+	url: string;
+	headers: http.IncomingHttpHeaders;
+	body: Record<string, any>;
+};
+
+type Reply = (res: http.ServerResponse) => void;
+
+/**
+ * Reply with a JSON body
+ */
+function json(body: unknown, status = 200): Reply {
+	return (res) => {
+		res.writeHead(status, { "Content-Type": "application/json" });
+		res.end(JSON.stringify(body));
+	};
+}
+
+/**
+ * Reply with one SSE event per object, using its type as event name
+ */
+function sse(events: Array<{ type: string } & Record<string, unknown>>): Reply {
+	return (res) => {
+		res.writeHead(200, { "Content-Type": "text/event-stream" });
+		for (const event of events) {
+			res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+		}
+		res.end();
+	};
+}
+
+/**
+ * Streamed reply with plain text and a completed event
+ */
+function textStream(id: string, text: string): Reply {
+	return sse([
+		{ type: "response.created", response: { id } },
+		{ type: "response.output_text.delta", delta: text },
+		{
+			type: "response.completed",
+			response: {
+				id,
+				status: "completed",
+				usage: { input_tokens: 10, output_tokens: 2, total_tokens: 12 },
+			},
+		},
+	]);
+}
+
+async function collect(
+	stream: AsyncIterable<AIStreamChunk>,
+): Promise<AIStreamChunk[]> {
+	const chunks: AIStreamChunk[] = [];
+	for await (const chunk of stream) {
+		chunks.push(chunk);
+	}
+	return chunks;
+}
+
+const readTool: OpenAITool = {
+	type: "function",
+	function: {
+		name: "a-c-file_read",
+		description: "[File] Read a file",
+		parameters: {
+			type: "object",
+			properties: { path: { type: "string" } },
+			required: ["path"],
+		},
+	},
+};
+
+describe("OpenAIResponsesClient", () => {
+	let server: http.Server;
+	let baseUrl: string;
+	let requests: RecordedRequest[];
+	let replies: Reply[];
+
+	beforeAll(async () => {
+		server = http.createServer((req, res) => {
+			let data = "";
+			req.on("data", (chunk) => (data += chunk));
+			req.on("end", () => {
+				requests.push({
+					url: req.url ?? "",
+					headers: req.headers,
+					body: JSON.parse(data || "{}"),
+				});
+				const reply = replies.shift() ?? json({ error: "no reply" }, 500);
+				reply(res);
+			});
+		});
+		await new Promise<void>((resolve) =>
+			server.listen(0, "127.0.0.1", resolve),
+		);
+		const { port } = server.address() as AddressInfo;
+		baseUrl = `http://127.0.0.1:${port}/v1`;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(getThinkingParams).mockReturnValue(null);
+		requests = [];
+		replies = [];
+	});
+
+	function createClient(usePreviousResponseId = false): OpenAIResponsesClient {
+		return new OpenAIResponsesClient({
+			apiKey: "test-key",
+			model: "gpt-5",
+			baseUrl,
+			maxRetries: 1,
+			usePreviousResponseId,
+		});
+	}
+
+	describe("chat", () => {
+		it("should send input items and parse text, reasoning and usage", async () => {
+			vi.mocked(getThinkingParams).mockReturnValue({
+				reasoning: { effort: "low", summary: "auto" },
+			});
+			replies.push(
+				json({
+					id: "resp_1",
+					status: "completed",
+					output: [
+						{
+							type: "reasoning",
+							id: "rs_1",
+							summary: [{ type: "summary_text", text: "Greeting" }],
+						},
+						{
+							type: "message",
+							id: "msg_1",
+							role: "assistant",
+							content: [{ type: "output_text", text: "Hello!" }],
+						},
+					],
+					usage: {
+						input_tokens: 10,
+						output_tokens: 5,
+						total_tokens: 15,
+						input_tokens_details: { cached_tokens: 6 },
+					},
+				}),
+			);
+
+			const result = await createClient().chat([
+				{ role: "system", content: "Be brief" },
+				{ role: "user", content: "Hi" },
+			]);
+
+			expect(requests[0]!.url).toBe("/v1/responses");
+			expect(requests[0]!.headers.authorization).toBe("Bearer test-key");
+			expect(requests[0]!.body).toEqual({
+				model: "gpt-5",
+				instructions: "Be brief",
+				input: [{ role: "user", content: "Hi" }],
+				reasoning: { effort: "low", summary: "auto" },
+			});
+			expect(result.message.content).toBe("Hello!");
+			expect(result.message.reasoning_content).toBe("Greeting");
+			expect(result.finish_reason).toBe("stop");
+			expect(result.usage).toEqual({
+				prompt_tokens: 10,
+				completion_tokens: 5,
+				total_tokens: 15,
+				cache_read_input_tokens: 6,
+			});
+		});
+
+		it("should send tools and parse function call items", async () => {
+			replies.push(
+				json({
+					id: "resp_1",
+					status: "completed",
+					output: [
+						{
+							type: "function_call",
+							id: "fc_1",
+							call_id: "call_1",
+							name: "a-c-file_read",
+							arguments: '{"path":"a.ts"}',
+						},
+					],
+				}),
+			);
+
+			const result = await createClient().chat(
+				[{ role: "user", content: "Read a.ts" }],
+				[readTool],
+			);
+
+			expect(requests[0]!.body.tools).toEqual([
+				{
+					type: "function",
+					name: "a-c-file_read",
+					description: "[File] Read a file",
+					parameters: readTool.function.parameters,
+				},
+			]);
+			expect(requests[0]!.body.tool_choice).toBe("auto");
+			expect(result.finish_reason).toBe("tool_calls");
+			expect(result.message.tool_calls).toEqual([
+				{
+					id: "call_1",
+					type: "function",
+					function: { name: "a-c-file_read", arguments: '{"path":"a.ts"}' },
+				},
+			]);
+		});
+
+		it("should map incomplete responses to length", async () => {
+			replies.push(
+				json({
+					id: "resp_1",
+					status: "incomplete",
+					incomplete_details: { reason: "max_output_tokens" },
+					output: [],
+				}),
+			);
+
+			const result = await createClient().chat([
+				{ role: "user", content: "Long" },
+			]);
+
+			expect(result.finish_reason).toBe("length");
+		});
+
+		it("should throw on API errors", async () => {
+			replies.push(json({ error: { message: "bad request" } }, 400));
+
+			await expect(
+				createClient().chat([{ role: "user", content: "Hi" }]),
+			).rejects.toThrow("OpenAI Responses API error: 400");
+		});
+	});
+
+	describe("streamChat", () => {
+		it("should stream text and reasoning deltas with usage", async () => {
+			replies.push(
+				sse([
+					{ type: "response.created", response: { id: "resp_1" } },
+					{ type: "response.reasoning_summary_text.delta", delta: "Plan" },
+					{ type: "response.output_text.delta", delta: "Hel" },
+					{ type: "response.output_text.delta", delta: "lo" },
+					{
+						type: "response.completed",
+						response: {
+							id: "resp_1",
+							status: "completed",
+							usage: { input_tokens: 8, output_tokens: 4, total_tokens: 12 },
+						},
+					},
+				]),
+			);
+
+			const chunks = await collect(
+				createClient().streamChat([{ role: "user", content: "Hi" }]),
+			);
+
+			expect(requests[0]!.body.stream).toBe(true);
+			expect(chunks).toEqual([
+				{ delta: { reasoning_content: "Plan" } },
+				{ delta: { content: "Hel" } },
+				{ delta: { content: "lo" } },
+				{
+					delta: { content: "" },
+					finish_reason: "stop",
+					usage: { prompt_tokens: 8, completion_tokens: 4, total_tokens: 12 },
+				},
+			]);
+		});
+
+		it("should yield completed function calls and ignore built-in tool items", async () => {
+			replies.push(
+				sse([
+					{
+						type: "response.output_item.done",
+						item: { type: "web_search_call", id: "ws_1", status: "completed" },
+					},
+					{
+						type: "response.function_call_arguments.delta",
+						delta: '{"path"',
+					},
+					{
+						type: "response.output_item.done",
+						item: {
+							type: "function_call",
+							id: "fc_1",
+							call_id: "call_1",
+							name: "a-c-file_read",
+							arguments: '{"path":"a.ts"}',
+						},
+					},
+					{
+						type: "response.completed",
+						response: { id: "resp_1", status: "completed" },
+					},
+				]),
+			);
+
+			const chunks = await collect(
+				createClient().streamChat(
+					[{ role: "user", content: "Read a.ts" }],
+					[readTool],
+				),
+			);
+
+			expect(chunks).toEqual([
+				{
+					delta: {
+						content: "",
+						tool_calls: [
+							{
+								id: "call_1",
+								type: "function",
+								function: {
+									name: "a-c-file_read",
+									arguments: '{"path":"a.ts"}',
+								},
+							},
+						],
+					},
+					finish_reason: "tool_calls",
+					usage: undefined,
+				},
+			]);
+		});
+
+		it("should throw on failed responses", async () => {
+			replies.push(
+				sse([
+					{
+						type: "response.failed",
+						response: { id: "resp_1", error: { message: "server_error" } },
+					},
+				]),
+			);
+
+			await expect(
+				collect(createClient().streamChat([{ role: "user", content: "Hi" }])),
+			).rejects.toThrow("OpenAI Responses streaming error: server_error");
+		});
+	});
+
+	describe("previous_response_id", () => {
+		const history: ChatMessage[] = [
+			{ role: "system", content: "Be brief" },
+			{ role: "user", content: "Hi" },
+		];
+
+		it("should only send new messages after a recorded response", async () => {
+			const client = createClient(true);
+			replies.push(textStream("resp_1", "Hello"), textStream("resp_2", "Bye"));
+
+			await collect(client.streamChat(history));
+			await collect(
+				client.streamChat([
+					...history,
+					{ role: "assistant", content: "Hello" },
+					{ role: "user", content: "Bye" },
+				]),
+			);
+
+			expect(requests[0]!.body.previous_response_id).toBeUndefined();
+			expect(requests[1]!.body).toMatchObject({
+				previous_response_id: "resp_1",
+				instructions: "Be brief",
+				input: [{ role: "user", content: "Bye" }],
+			});
+		});
+
+		it("should send the full history when earlier messages changed", async () => {
+			const client = createClient(true);
+			replies.push(textStream("resp_1", "Hello"), textStream("resp_2", "Ok"));
+
+			await collect(client.streamChat(history));
+			await collect(
+				client.streamChat([
+					{ role: "system", content: "Be brief" },
+					{ role: "user", content: "[summary of earlier conversation]" },
+					{ role: "assistant", content: "Hello" },
+					{ role: "user", content: "Continue" },
+				]),
+			);
+
+			expect(requests[1]!.body.previous_response_id).toBeUndefined();
+			expect(requests[1]!.body.input).toHaveLength(3);
+		});
+
+		it("should resend the full history when the previous response is gone", async () => {
+			const client = createClient(true);
+			replies.push(
+				textStream("resp_1", "Hello"),
+				json({ error: { message: "Previous response not found" } }, 404),
+				textStream("resp_2", "Bye"),
+			);
+
+			await collect(client.streamChat(history));
+			const chunks = await collect(
+				client.streamChat([
+					...history,
+					{ role: "assistant", content: "Hello" },
+					{ role: "user", content: "Bye" },
+				]),
+			);
+
+			expect(requests).toHaveLength(3);
+			expect(requests[1]!.body.previous_response_id).toBe("resp_1");
+			expect(requests[2]!.body.previous_response_id).toBeUndefined();
+			expect(requests[2]!.body.input).toHaveLength(3);
+			expect(chunks[0]).toEqual({ delta: { content: "Bye" } });
+		});
+
+		it("should not chain responses when disabled", async () => {
+			const client = createClient(false);
+			replies.push(textStream("resp_1", "Hello"), textStream("resp_2", "Bye"));
+
+			await collect(client.streamChat(history));
+			await collect(
+				client.streamChat([
+					...history,
+					{ role: "assistant", content: "Hello" },
+					{ role: "user", content: "Bye" },
+				]),
+			);
+
+			expect(requests[1]!.body.previous_response_id).toBeUndefined();
+			expect(requests[1]!.body.input).toHaveLength(3);
+		});
+	});
+});
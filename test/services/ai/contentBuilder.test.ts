@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach, beforeAll } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 import { initI18n, setLocale } from "../../../source/i18n/index.js";
 
 beforeAll(() => {
@@ -29,6 +32,7 @@ vi.mock("../../../source/services/ai/tokenEstimator.js", () => ({
 
 import {
 	buildMessageContent,
+	extractFileReferences,
 	transformUserMessage,
 } from "../../../source/services/ai/contentBuilder.js";
 import { readFileContents } from "../../../source/services/ai/fileReader.js";
@@ -328,4 +332,26 @@ describe("contentBuilder", () => {
 			expect(result.fileSummary).toContain("components");
 		});
 	});
+
+	describe("extractFileReferences", () => {
+		it("should resolve existing @ paths relative to cwd", () => {
+			const cwd = mkdtempSync(join(tmpdir(), "axiomate-refs-"));
+			try {
+				mkdirSync(join(cwd, "src"));
+				writeFileSync(join(cwd, "src", "app.ts"), "");
+
+				expect(
+					extractFileReferences(
+						"Review @src/app.ts, then @src. Ignore @missing.ts and me@example.com @src/app.ts",
+						cwd,
+					),
+				).toEqual([
+					{ path: "src/app.ts", isDirectory: false },
+					{ path: "src", isDirectory: true },
+				]);
+			} finally {
+				rmSync(cwd, { recursive: true, force: true });
+			}
+		});
+	});
 });
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+	calculateCost,
+	sumCost,
+	getLastTurnRecords,
+	summarizeCosts,
+	formatCost,
+	type CostRecord,
+} from "../../../source/services/ai/cost.js";
+
+function record(
+	model: string,
+	cost: number,
+	round: number,
+	timestamp = new Date(2026, 0, 15, 12).getTime(),
+): CostRecord {
+	return { model, cost, round, timestamp };
+}
+
+describe("cost", () => {
+	describe("calculateCost", () => {
+		it("should price input and output tokens per million", () => {
+			const cost = calculateCost(
+				{ prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+				{ input: 3, output: 15 },
+			);
+			expect(cost).toBeCloseTo(0.003 + 0.0075);
+		});
+
+		it("should price cached input tokens separately", () => {
+			const cost = calculateCost(
+				{
+					prompt_tokens: 1000,
+					completion_tokens: 0,
+					total_tokens: 1000,
+					cache_read_input_tokens: 800,
+				},
+				{ input: 3, output: 15, cachedInput: 0.3 },
+			);
+			expect(cost).toBeCloseTo((200 * 3 + 800 * 0.3) / 1_000_000);
+		});
+
+		it("should fall back to the input price without a cached price", () => {
+			const cost = calculateCost(
+				{
+					prompt_tokens: 1000,
+					completion_tokens: 0,
+					total_tokens: 1000,
+					cache_read_input_tokens: 800,
+				},
+				{ input: 3, output: 15 },
+			);
+			expect(cost).toBeCloseTo(0.003);
+		});
+	});
+
+	describe("getLastTurnRecords", () => {
+		it("should return records since the last first round", () => {
+			const records = [
+				record("a", 1, 0),
+				record("a", 2, 1),
+				record("a", 3, 0),
+				record("a", 4, 1),
+				record("a", 5, 2),
+			];
+			expect(sumCost(getLastTurnRecords(records))).toBe(12);
+		});
+
+		it("should return an empty list without records", () => {
+			expect(getLastTurnRecords([])).toEqual([]);
+		});
+	});
+
+	describe("summarizeCosts", () => {
+		it("should group cost by session, model and day", () => {
+			const day1 = new Date(2026, 0, 15, 12).getTime();
+			const day2 = new Date(2026, 0, 16, 12).getTime();
+
+			const summary = summarizeCosts([
+				{
+					name: "First",
+					records: [
+						record("claude", 0.5, 0, day1),
+						record("gpt", 0.25, 1, day1),
+					],
+				},
+				{ name: "Second", records: [record("claude", 1, 0, day2)] },
+				{ name: "Unpriced", records: [] },
+			]);
+
+			expect(summary.total).toBe(1.75);
+			expect(summary.bySession).toEqual([
+				{ key: "Second", cost: 1 },
+				{ key: "First", cost: 0.75 },
+			]);
+			expect(summary.byModel).toEqual([
+				{ key: "claude", cost: 1.5 },
+				{ key: "gpt", cost: 0.25 },
+			]);
+			expect(summary.byDay).toEqual([
+				{ key: "2026-01-16", cost: 1 },
+				{ key: "2026-01-15", cost: 0.75 },
+			]);
+		});
+	});
+
+	describe("formatCost", () => {
+		it("should keep more decimals for small amounts", () => {
+			expect(formatCost(0.01234)).toBe("$0.0123");
+			expect(formatCost(12.345)).toBe("$12.35");
+		});
+	});
+});
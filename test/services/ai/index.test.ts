@@ -6,6 +6,8 @@ import {
 } from "../../../source/services/ai/index.js";
 import { OpenAIClient } from "../../../source/services/ai/clients/openai.js";
 import { AnthropicClient } from "../../../source/services/ai/clients/anthropic.js";
+import { GeminiClient } from "../../../source/services/ai/clients/gemini.js";
+import { OpenAIResponsesClient } from "../../../source/services/ai/clients/openaiResponses.js";
 import { AIService } from "../../../source/services/ai/service.js";
 import type { ModelConfig } from "../../../source/constants/models.js";
 import type { IToolRegistry } from "../../../source/services/tools/types.js";
@@ -78,6 +80,36 @@ describe("AI Service index", () => {
 			expect(result).toBeInstanceOf(AnthropicClient);
 		});
 
+		it("should create Gemini client for gemini protocol", () => {
+			vi.mocked(getModelApiConfig).mockReturnValue({
+				protocol: "gemini",
+				apiKey: "test-api-key",
+				baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+				apiModel: "gemini-2.5-pro",
+			});
+
+			const result = createAIClient(baseModel);
+
+			expect(result).toBeInstanceOf(GeminiClient);
+		});
+
+		it("should create Responses client for openai-responses protocol", () => {
+			vi.mocked(getModelApiConfig).mockReturnValue({
+				protocol: "openai-responses",
+				apiKey: "test-api-key",
+				baseUrl: "https://api.openai.com/v1",
+				apiModel: "gpt-5",
+			});
+
+			const result = createAIClient({
+				...baseModel,
+				usePreviousResponseId: true,
+			} as ModelConfig);
+
+			expect(result).toBeInstanceOf(OpenAIResponsesClient);
+			expect(result!.getConfig().usePreviousResponseId).toBe(true);
+		});
+
 		it("should default to OpenAI client for unknown protocol", () => {
 			vi.mocked(getModelApiConfig).mockReturnValue({
 				protocol: "unknown" as any,
@@ -327,6 +327,47 @@ describe("MessageQueue", () => {
 			});
 		});
 
+		it("should forward tool call callbacks", async () => {
+			const start = {
+				id: "call_1",
+				toolId: "a-c-git",
+				action: "status",
+				argsSummary: "",
+			};
+			const progress = { id: "call_1", status: "running" as const };
+			const end = {
+				id: "call_1",
+				success: true,
+				durationMs: 5,
+				outputPreview: "clean",
+			};
+			const processor: MessageProcessor = vi
+				.fn()
+				.mockImplementation((_, options) => {
+					options?.streamCallbacks?.onToolStart?.(start);
+					options?.streamCallbacks?.onToolProgress?.(progress);
+					options?.streamCallbacks?.onToolEnd?.(end);
+					return Promise.resolve("done");
+				});
+			const onToolStart = vi.fn();
+			const onToolProgress = vi.fn();
+			const onToolEnd = vi.fn();
+
+			const queue = new MessageQueue(processor, {
+				...mockCallbacks,
+				onToolStart,
+				onToolProgress,
+				onToolEnd,
+			});
+			const id = queue.enqueue("message");
+
+			await vi.waitFor(() => {
+				expect(onToolEnd).toHaveBeenCalledWith(id, end);
+			});
+			expect(onToolStart).toHaveBeenCalledWith(id, start);
+			expect(onToolProgress).toHaveBeenCalledWith(id, progress);
+		});
+
 		it("should not forward callbacks when stopped", async () => {
 			let triggerChunk: (() => void) | null = null;
 			const processor: MessageProcessor = vi
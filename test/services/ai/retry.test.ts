@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	parseRetryAfter,
+	createApiError,
+	getRetryReason,
+	getRetryDelay,
+	withRetry,
+	withStreamRetry,
+	type RetryEvent,
+} from "../../../source/services/ai/retry.js";
+
+function networkError(): Error {
+	return Object.assign(new Error("fetch failed"), { network: true });
+}
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+	const items: T[] = [];
+	for await (const item of stream) {
+		items.push(item);
+	}
+	return items;
+}
+
+describe("retry", () => {
+	describe("parseRetryAfter", () => {
+		const now = Date.parse("2026-01-15T12:00:00Z");
+
+		it("should return undefined without headers", () => {
+			expect(parseRetryAfter(undefined, now)).toBeUndefined();
+			expect(parseRetryAfter(new Headers(), now)).toBeUndefined();
+		});
+
+		it("should prefer retry-after-ms", () => {
+			const headers = new Headers({
+				"retry-after-ms": "1500",
+				"retry-after": "10",
+			});
+			expect(parseRetryAfter(headers, now)).toBe(1500);
+		});
+
+		it("should parse retry-after seconds and HTTP dates", () => {
+			expect(parseRetryAfter(new Headers({ "retry-after": "8" }), now)).toBe(
+				8000,
+			);
+			expect(
+				parseRetryAfter(
+					new Headers({ "retry-after": "Thu, 15 Jan 2026 12:00:05 GMT" }),
+					now,
+				),
+			).toBe(5000);
+		});
+
+		it("should use the latest reset of exhausted Anthropic limits", () => {
+			const headers = new Headers({
+				"anthropic-ratelimit-requests-remaining": "0",
+				"anthropic-ratelimit-requests-reset": "2026-01-15T12:00:03Z",
+				"anthropic-ratelimit-tokens-remaining": "0",
+				"anthropic-ratelimit-tokens-reset": "2026-01-15T12:00:07Z",
+				"anthropic-ratelimit-output-tokens-remaining": "5000",
+				"anthropic-ratelimit-output-tokens-reset": "2026-01-15T12:00:30Z",
+			});
+			expect(parseRetryAfter(headers, now)).toBe(7000);
+		});
+	});
+
+	describe("getRetryReason", () => {
+		it("should retry rate limits, server errors and network errors", () => {
+			expect(getRetryReason(createApiError("x", 429))).toBe("rate_limit");
+			expect(getRetryReason(createApiError("x", 500))).toBe("server_error");
+			expect(getRetryReason(createApiError("x", 529))).toBe("server_error");
+			expect(getRetryReason(createApiError("x", 408))).toBe("network");
+			expect(getRetryReason(networkError())).toBe("network");
+		});
+
+		it("should not retry client errors, aborts or unknown errors", () => {
+			expect(getRetryReason(createApiError("x", 400))).toBeNull();
+			expect(getRetryReason(createApiError("x", 401))).toBeNull();
+			expect(
+				getRetryReason(new DOMException("Request was aborted", "AbortError")),
+			).toBeNull();
+			expect(getRetryReason(new Error("Response body is null"))).toBeNull();
+		});
+	});
+
+	describe("getRetryDelay", () => {
+		it("should use the server-requested delay", () => {
+			const error = createApiError(
+				"x",
+				429,
+				new Headers({ "retry-after": "3" }),
+			);
+			expect(getRetryDelay(error, 0)).toBe(3000);
+		});
+
+		it("should add jitter to exponential backoff", () => {
+			const random = vi.spyOn(Math, "random");
+			random.mockReturnValue(0);
+			expect(getRetryDelay(networkError(), 2)).toBe(2000);
+			random.mockReturnValue(1);
+			expect(getRetryDelay(networkError(), 2)).toBe(4000);
+			expect(getRetryDelay(networkError(), 10)).toBe(30000);
+			random.mockRestore();
+		});
+	});
+
+	describe("withRetry", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should retry retryable errors and report progress", async () => {
+			const request = vi
+				.fn()
+				.mockRejectedValueOnce(
+					createApiError("x", 429, new Headers({ "retry-after": "8" })),
+				)
+				.mockResolvedValueOnce("ok");
+			const events: RetryEvent[] = [];
+
+			const promise = withRetry(request, {
+				maxAttempts: 3,
+				onRetry: (event) => events.push(event),
+			});
+			await vi.advanceTimersByTimeAsync(8000);
+
+			await expect(promise).resolves.toBe("ok");
+			expect(request).toHaveBeenCalledTimes(2);
+			expect(events).toEqual([
+				{
+					reason: "rate_limit",
+					status: 429,
+					attempt: 1,
+					maxRetries: 2,
+					delayMs: 8000,
+				},
+			]);
+		});
+
+		it("should not retry client errors", async () => {
+			const request = vi.fn().mockRejectedValue(createApiError("bad", 400));
+
+			await expect(withRetry(request, { maxAttempts: 3 })).rejects.toThrow(
+				"bad",
+			);
+			expect(request).toHaveBeenCalledTimes(1);
+		});
+
+		it("should give up after the last attempt", async () => {
+			const request = vi.fn().mockRejectedValue(createApiError("down", 503));
+
+			const promise = withRetry(request, { maxAttempts: 2 });
+			const assertion = expect(promise).rejects.toThrow("down");
+			await vi.advanceTimersByTimeAsync(2000);
+
+			await assertion;
+			expect(request).toHaveBeenCalledTimes(2);
+		});
+
+		it("should not wait longer than the retry limit", async () => {
+			const request = vi
+				.fn()
+				.mockRejectedValue(
+					createApiError("x", 429, new Headers({ "retry-after": "120" })),
+				);
+
+			await expect(withRetry(request, { maxAttempts: 3 })).rejects.toThrow();
+			expect(request).toHaveBeenCalledTimes(1);
+		});
+
+		it("should stop waiting when aborted", async () => {
+			const controller = new AbortController();
+			const request = vi.fn().mockRejectedValue(networkError());
+
+			const promise = withRetry(request, {
+				maxAttempts: 3,
+				signal: controller.signal,
+			});
+			const assertion = expect(promise).rejects.toThrow("Request was aborted");
+			controller.abort();
+
+			await assertion;
+			expect(request).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("withStreamRetry", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should retry when the stream fails before any output", async () => {
+			let calls = 0;
+			const start = async function* () {
+				calls++;
+				if (calls === 1) {
+					throw createApiError("overloaded", 529);
+				}
+				yield "a";
+				yield "b";
+			};
+
+			const promise = collect(withStreamRetry(start, { maxAttempts: 3 }));
+			await vi.advanceTimersByTimeAsync(1000);
+
+			await expect(promise).resolves.toEqual(["a", "b"]);
+			expect(calls).toBe(2);
+		});
+
+		it("should not retry after output was yielded", async () => {
+			let calls = 0;
+			const start = async function* () {
+				calls++;
+				yield "a";
+				throw networkError();
+			};
+
+			await expect(
+				collect(withStreamRetry(start, { maxAttempts: 3 })),
+			).rejects.toThrow("fetch failed");
+			expect(calls).toBe(1);
+		});
+	});
+});
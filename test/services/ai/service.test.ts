@@ -16,6 +16,9 @@ const mockToolCallHandlerInstance = {
 	handleToolCalls: vi.fn(async () => []),
 };
 
+// Options passed to each ToolCallHandler (one per AIService)
+const toolCallHandlerOptions: Array<Record<string, any>> = [];
+
 // Mock dependencies - use class syntax for constructors
 vi.mock("../../../source/services/tools/matcher.js", () => ({
 	ToolMatcher: class {
@@ -28,6 +31,9 @@ vi.mock("../../../source/services/tools/matcher.js", () => ({
 vi.mock("../../../source/services/ai/tool-call-handler.js", () => ({
 	ToolCallHandler: class {
 		handleToolCalls = mockToolCallHandlerInstance.handleToolCalls;
+		constructor(_registry: unknown, options: Record<string, any>) {
+			toolCallHandlerOptions.push(options);
+		}
 	},
 }));
 
@@ -40,6 +46,7 @@ vi.mock("../../../source/services/ai/adapters/openai.js", () => ({
 vi.mock("../../../source/constants/prompts.js", () => ({
 	SYSTEM_PROMPT: "Test system prompt",
 	buildSystemPrompt: vi.fn(() => "Built system prompt"),
+	buildSubAgentPrompt: vi.fn(() => "Sub-agent prompt"),
 	buildModeReminder: vi.fn(() => ""),
 }));
 
@@ -57,6 +64,8 @@ import type {
 	ToolDefinition,
 } from "../../../source/services/tools/types.js";
 import { detectProjectType } from "../../../source/services/tools/matcher.js";
+import { createApiError } from "../../../source/services/ai/retry.js";
+import type { ModelConfig } from "../../../source/utils/config.js";
 import { buildSystemPrompt } from "../../../source/constants/prompts.js";
 
 // Helper to create mock client
@@ -101,6 +110,7 @@ describe("AIService", () => {
 
 	beforeEach(() => {
 		vi.clearAllMocks();
+		toolCallHandlerOptions.length = 0;
 		mockClient = createMockClient();
 		mockRegistry = createMockRegistry();
 	});
@@ -901,6 +911,446 @@ describe("AIService", () => {
 		});
 	});
 
+	describe("sub-agents", () => {
+		const fileTool = {
+			id: "a-c-file",
+			name: "File",
+			description: "File operations",
+			category: "utility",
+			capabilities: ["read", "write"],
+			installed: true,
+			actions: [{ name: "read", capabilities: ["read"] }, { name: "write" }],
+		};
+		const bashTool = {
+			id: "a-c-bash",
+			name: "Bash",
+			description: "Bash shell",
+			category: "shell",
+			capabilities: ["execute"],
+			installed: true,
+			actions: [{ name: "run" }],
+		};
+
+		it("should run delegated tasks in a read-only sub-agent and record its usage", async () => {
+			const registry = createMockRegistry([
+				fileTool,
+				bashTool,
+			] as unknown as ToolDefinition[]);
+			mockClient.streamChat = vi.fn(async function* () {
+				yield {
+					delta: { content: "Configured in src/db.ts:12" },
+					finish_reason: "stop",
+					usage: {
+						prompt_tokens: 1200,
+						completion_tokens: 300,
+						total_tokens: 1500,
+					},
+				} as StreamChunk;
+			});
+			const onPermission = vi.fn();
+
+			const service = new AIService(
+				{ client: mockClient, cwd: "/project" },
+				registry,
+			);
+			const delegate = toolCallHandlerOptions[0]!.delegate;
+			const summary = await delegate("Find the database config", {
+				onPermission,
+			});
+
+			expect(summary).toBe("Configured in src/db.ts:12");
+			// Sub-agents cannot delegate again
+			expect(toolCallHandlerOptions[1]!.delegate).toBeUndefined();
+
+			const [messages, tools, options] = vi.mocked(mockClient.streamChat!).mock
+				.calls[0]!;
+			expect(messages[0]).toEqual({
+				role: "system",
+				content: "Sub-agent prompt",
+			});
+			expect(messages[1]).toMatchObject({
+				role: "user",
+				content: "Find the database config",
+			});
+			expect(tools).toEqual([
+				{ type: "function", function: { name: "a-c-file" } },
+			]);
+			expect(options?.toolMask).toMatchObject({ readOnly: true });
+
+			// The parent conversation only tracks the sub-agent's token usage
+			expect(service.getHistory()).toEqual([]);
+			expect(service.getSessionStatus().subAgentTokens).toBe(1500);
+		});
+
+		it("should record the tokens of every sub-agent round", async () => {
+			const registry = createMockRegistry([
+				fileTool,
+			] as unknown as ToolDefinition[]);
+			mockToolCallHandlerInstance.handleToolCalls.mockResolvedValue([
+				{
+					role: "tool" as const,
+					content: "file content",
+					tool_call_id: "call_1",
+				},
+			]);
+			let round = 0;
+			mockClient.streamChat = vi.fn(async function* () {
+				round++;
+				if (round < 3) {
+					yield {
+						delta: {
+							content: "",
+							tool_calls: [
+								{
+									id: "call_1",
+									type: "function",
+									function: { name: "a-c-file_read", arguments: "{}" },
+								},
+							],
+						},
+						finish_reason: "tool_calls",
+						usage: {
+							prompt_tokens: 1000 * round,
+							completion_tokens: 100,
+							total_tokens: 1000 * round + 100,
+						},
+					} as StreamChunk;
+					return;
+				}
+				yield {
+					delta: { content: "Done" },
+					finish_reason: "stop",
+					usage: {
+						prompt_tokens: 3000,
+						completion_tokens: 200,
+						total_tokens: 3200,
+					},
+				} as StreamChunk;
+			});
+
+			const service = new AIService(
+				{ client: mockClient, cwd: "/project" },
+				registry,
+			);
+			await toolCallHandlerOptions[0]!.delegate("Read the config", {});
+
+			// 1100 + 2100 + 3200, not just the final context size
+			expect(service.getSessionStatus().subAgentTokens).toBe(6400);
+		});
+	});
+
+	describe("cost", () => {
+		const tools: ToolDefinition[] = [
+			{
+				id: "test-tool",
+				name: "Test Tool",
+				description: "A test tool",
+				type: "node",
+				installed: true,
+				parameters: {},
+			},
+		];
+		// 1M prompt tokens at $2 + 0.5M completion tokens at $4 = $4 per round
+		const usage = {
+			prompt_tokens: 1_000_000,
+			completion_tokens: 500_000,
+			total_tokens: 1_500_000,
+		};
+
+		beforeEach(() => {
+			mockMatcherInstance.autoSelect.mockReturnValue([tools[0]]);
+			mockMatcherInstance.match.mockReturnValue([]);
+			mockToolCallHandlerInstance.handleToolCalls.mockResolvedValue([
+				{
+					role: "tool" as const,
+					content: "Tool result",
+					tool_call_id: "call_1",
+				},
+			]);
+
+			let streamCallCount = 0;
+			mockClient.streamChat = vi.fn(() => {
+				streamCallCount++;
+				if (streamCallCount === 1) {
+					async function* toolStream(): AsyncGenerator<StreamChunk> {
+						yield {
+							delta: {
+								content: "",
+								tool_calls: [
+									{
+										id: "call_1",
+										type: "function",
+										function: { name: "test-tool", arguments: "{}" },
+									},
+								],
+							},
+							finish_reason: "tool_calls",
+							usage,
+						};
+					}
+					return toolStream();
+				}
+				async function* finalStream(): AsyncGenerator<StreamChunk> {
+					yield { delta: { content: "Final" }, finish_reason: "stop", usage };
+				}
+				return finalStream();
+			});
+		});
+
+		it("should record the cost of each tool round with model pricing", async () => {
+			const service = new AIService(
+				{
+					client: mockClient,
+					model: "priced-model",
+					pricing: { input: 2, output: 4 },
+				},
+				createMockRegistry(tools),
+			);
+
+			await service.streamMessage("Use tool", { cwd: "/project" });
+
+			const records = service.getSession().getCostRecords();
+			expect(records.map((r) => [r.model, r.cost, r.round])).toEqual([
+				["priced-model", 4, 0],
+				["priced-model", 4, 1],
+			]);
+			expect(service.getSessionStatus().totalCost).toBe(8);
+			expect(service.getSessionStatus().turnCost).toBe(8);
+		});
+
+		it("should not record cost without pricing", async () => {
+			const service = new AIService(
+				{ client: mockClient },
+				createMockRegistry(tools),
+			);
+
+			await service.streamMessage("Use tool", { cwd: "/project" });
+
+			expect(service.getSessionStatus().totalCost).toBe(0);
+		});
+
+		it("should stop the tool loop when a stop budget is exceeded", async () => {
+			const service = new AIService(
+				{
+					client: mockClient,
+					model: "priced-model",
+					pricing: { input: 2, output: 4 },
+					costBudget: { limit: 3, action: "stop" },
+				},
+				createMockRegistry(tools),
+			);
+
+			const result = await service.streamMessage("Use tool", {
+				cwd: "/project",
+			});
+
+			expect(mockClient.streamChat).toHaveBeenCalledTimes(1);
+			expect(result).toContain("Cost budget exceeded ($4.00 / $3.00)");
+		});
+
+		it("should keep looping when the budget only warns", async () => {
+			const service = new AIService(
+				{
+					client: mockClient,
+					model: "priced-model",
+					pricing: { input: 2, output: 4 },
+					costBudget: { limit: 3 },
+				},
+				createMockRegistry(tools),
+			);
+
+			const result = await service.streamMessage("Use tool", {
+				cwd: "/project",
+			});
+
+			expect(mockClient.streamChat).toHaveBeenCalledTimes(2);
+			expect(result).toBe("Final");
+		});
+	});
+
+	describe("model fallback", () => {
+		const backup: ModelConfig = {
+			model: "backup-model",
+			name: "Backup",
+			protocol: "openai",
+			supportsTools: true,
+			contextWindow: 32768,
+			baseUrl: "https://backup.example.com/v1",
+			pricing: { input: 2, output: 4 },
+		};
+		const usage = {
+			prompt_tokens: 1_000_000,
+			completion_tokens: 500_000,
+			total_tokens: 1_500_000,
+		};
+
+		function failingClient(error: Error, content = ""): IAIClient {
+			return createMockClient({
+				streamChat: vi.fn(async function* (): AsyncGenerator<StreamChunk> {
+					if (content) {
+						yield { delta: { content } };
+					}
+					throw error;
+				}),
+			});
+		}
+
+		function backupClient(): IAIClient {
+			return createMockClient({
+				streamChat: vi.fn(async function* (): AsyncGenerator<StreamChunk> {
+					yield {
+						delta: { content: "From backup" },
+						finish_reason: "stop",
+						usage,
+					};
+				}),
+			});
+		}
+
+		it("should switch to the next model when retries are exhausted", async () => {
+			const primary = failingClient(
+				createApiError("OpenAI API error: 503 Service Unavailable", 503),
+			);
+			const fallback = backupClient();
+			const createClient = vi.fn(() => fallback);
+			const onModelFallback = vi.fn();
+			const service = new AIService(
+				{
+					client: primary,
+					model: "primary-model",
+					fallbackModels: [backup],
+					createClient,
+				},
+				mockRegistry,
+			);
+
+			const result = await service.streamMessage(
+				"Hello",
+				{ cwd: "/project" },
+				{ onModelFallback },
+			);
+
+			expect(result).toBe("From backup");
+			expect(createClient).toHaveBeenCalledWith(backup);
+			expect(onModelFallback).toHaveBeenCalledWith({
+				from: "primary-model",
+				to: "backup-model",
+				reason: "OpenAI API error: 503 Service Unavailable",
+			});
+			expect(service.getSession().getModelSwitches()).toEqual([
+				expect.objectContaining({ from: "primary-model", to: "backup-model" }),
+			]);
+			// Cost is recorded with the fallback model's pricing
+			expect(service.getSession().getCostRecords()).toEqual([
+				expect.objectContaining({ model: "backup-model", cost: 4 }),
+			]);
+
+			// The next message starts from the primary model with the full chain
+			await service.streamMessage("Again", { cwd: "/project" });
+			expect(primary.streamChat).toHaveBeenCalledTimes(2);
+			expect(fallback.streamChat).toHaveBeenCalledTimes(2);
+			expect(service.getSession().getModelSwitches()).toHaveLength(2);
+		});
+
+		it("should return to the primary model once it recovers", async () => {
+			let primaryCalls = 0;
+			const primary = createMockClient({
+				streamChat: vi.fn(async function* (): AsyncGenerator<StreamChunk> {
+					if (++primaryCalls === 1) {
+						throw createApiError(
+							"OpenAI API error: 429 Too Many Requests",
+							429,
+						);
+					}
+					yield { delta: { content: "From primary" }, finish_reason: "stop" };
+				}),
+			});
+			const service = new AIService(
+				{
+					client: primary,
+					model: "primary-model",
+					fallbackModels: [backup],
+					createClient: vi.fn(() => backupClient()),
+				},
+				mockRegistry,
+			);
+
+			await expect(
+				service.streamMessage("Hello", { cwd: "/project" }),
+			).resolves.toBe("From backup");
+			await expect(
+				service.streamMessage("Again", { cwd: "/project" }),
+			).resolves.toBe("From primary");
+			expect(service.getSession().getModelSwitches()).toHaveLength(1);
+		});
+
+		it("should not switch on errors that are not retryable", async () => {
+			const createClient = vi.fn(() => backupClient());
+			const service = new AIService(
+				{
+					client: failingClient(
+						createApiError("OpenAI API error: 400 Bad Request", 400),
+					),
+					fallbackModels: [backup],
+					createClient,
+				},
+				mockRegistry,
+			);
+
+			await expect(
+				service.streamMessage("Hello", { cwd: "/project" }),
+			).rejects.toThrow("400 Bad Request");
+			expect(createClient).not.toHaveBeenCalled();
+			expect(service.getSession().getModelSwitches()).toEqual([]);
+		});
+
+		it("should not switch after the round produced content", async () => {
+			const createClient = vi.fn(() => backupClient());
+			const service = new AIService(
+				{
+					client: failingClient(
+						createApiError("OpenAI API error: 503 Service Unavailable", 503),
+						"Partial",
+					),
+					fallbackModels: [backup],
+					createClient,
+				},
+				mockRegistry,
+			);
+
+			await expect(
+				service.streamMessage("Hello", { cwd: "/project" }),
+			).rejects.toThrow("503");
+			expect(createClient).not.toHaveBeenCalled();
+		});
+
+		it("should skip fallback models that cannot be created", async () => {
+			const fallback = backupClient();
+			const createClient = vi
+				.fn()
+				.mockReturnValueOnce(null)
+				.mockReturnValueOnce(fallback);
+			const service = new AIService(
+				{
+					client: failingClient(
+						createApiError("OpenAI API error: 429 Too Many Requests", 429),
+					),
+					model: "primary-model",
+					fallbackModels: [{ ...backup, model: "missing-model" }, backup],
+					createClient,
+				},
+				mockRegistry,
+			);
+
+			const result = await service.streamMessage("Hello", {
+				cwd: "/project",
+			});
+
+			expect(result).toBe("From backup");
+			expect(createClient).toHaveBeenCalledTimes(2);
+		});
+	});
+
 	describe("createAIService", () => {
 		it("should create an AIService instance", () => {
 			const service = createAIService({ client: mockClient }, mockRegistry);
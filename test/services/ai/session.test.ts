@@ -128,6 +128,22 @@ describe("Session", () => {
 			const status = session.getStatus();
 			expect(status.usedTokens).toBe(150);
 		});
+
+		it("should store per-turn usage on the message", () => {
+			const session = new Session(defaultConfig);
+			const usage: TokenUsage = {
+				prompt_tokens: 100,
+				completion_tokens: 50,
+				total_tokens: 150,
+				cache_read_input_tokens: 80,
+			};
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Response" },
+				usage,
+			);
+
+			expect(session.getInternalState().messages[0]!.usage).toEqual(usage);
+		});
 	});
 
 	describe("addToolMessage", () => {
@@ -170,6 +186,28 @@ describe("Session", () => {
 		});
 	});
 
+	describe("getConsumedTokens", () => {
+		it("should add up the tokens of every request", () => {
+			const session = new Session(defaultConfig);
+			session.addUserMessage("Hello");
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Hi" },
+				{ prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+			);
+			session.addUserMessage("Again");
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Hi again" },
+				{ prompt_tokens: 130, completion_tokens: 10, total_tokens: 140 },
+			);
+
+			expect(session.getConsumedTokens()).toBe(260);
+			expect(session.getUsedTokens()).toBe(160);
+
+			session.clear();
+			expect(session.getConsumedTokens()).toBe(0);
+		});
+	});
+
 	describe("getAvailableTokens", () => {
 		it("should return full context window when empty", () => {
 			const session = new Session(defaultConfig);
@@ -234,6 +272,44 @@ describe("Session", () => {
 			const status = session.getStatus();
 			expect(status.isFull).toBe(true);
 		});
+
+		it("should leave cache hit rate undefined without cache info", () => {
+			const session = new Session(defaultConfig);
+			session.addUserMessage("Hello");
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Hi" },
+				{ prompt_tokens: 100, completion_tokens: 10, total_tokens: 110 },
+			);
+
+			expect(session.getStatus().cacheHitRate).toBeUndefined();
+		});
+
+		it("should compute cache hit rate from per-turn usage", () => {
+			const session = new Session(defaultConfig);
+			session.addUserMessage("Hello");
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Hi" },
+				{
+					prompt_tokens: 100,
+					completion_tokens: 10,
+					total_tokens: 110,
+					cache_creation_input_tokens: 100,
+					cache_read_input_tokens: 0,
+				},
+			);
+			session.addUserMessage("Again");
+			session.addAssistantMessage(
+				{ role: "assistant", content: "Hi again" },
+				{
+					prompt_tokens: 300,
+					completion_tokens: 10,
+					total_tokens: 310,
+					cache_read_input_tokens: 200,
+				},
+			);
+
+			expect(session.getStatus().cacheHitRate).toBe(50);
+		});
 	});
 
 	describe("getMessages", () => {
@@ -582,6 +658,83 @@ describe("Session", () => {
 		});
 	});
 
+	describe("sub-agent usage", () => {
+		it("should track sub-agent tokens outside the context usage", () => {
+			const session = new Session(defaultConfig);
+			session.addSubAgentUsage(1500);
+			session.addSubAgentUsage(500);
+
+			const status = session.getStatus();
+			expect(status.subAgentTokens).toBe(2000);
+			expect(status.usedTokens).toBe(0);
+		});
+
+		it("should keep sub-agent tokens in the internal state and reset on clear", () => {
+			const session = new Session(defaultConfig);
+			session.addSubAgentUsage(800);
+
+			const newSession = new Session(defaultConfig);
+			newSession.restoreFromState(session.getInternalState());
+			expect(newSession.getStatus().subAgentTokens).toBe(800);
+
+			newSession.clear();
+			expect(newSession.getStatus().subAgentTokens).toBe(0);
+		});
+	});
+
+	describe("cost", () => {
+		it("should accumulate cost per tool round and per turn", () => {
+			const session = new Session(defaultConfig);
+			session.addUserMessage("First");
+			session.addCost("model-a", 0.5);
+			session.addCost("model-a", 0.25);
+			session.addUserMessage("Second");
+			session.addCost("model-b", 0.125);
+
+			expect(session.getCostRecords().map((r) => r.round)).toEqual([0, 1, 0]);
+			const status = session.getStatus();
+			expect(status.totalCost).toBe(0.875);
+			expect(status.turnCost).toBe(0.125);
+		});
+
+		it("should keep cost across compaction and reset on clear", () => {
+			const session = new Session(defaultConfig);
+			session.addUserMessage("Hello");
+			session.addCost("model-a", 0.5);
+			session.compactWith("Summary");
+			expect(session.getStatus().totalCost).toBe(0.5);
+
+			const newSession = new Session(defaultConfig);
+			newSession.restoreFromState(session.getInternalState());
+			expect(newSession.getStatus().totalCost).toBe(0.5);
+
+			newSession.clear();
+			expect(newSession.getStatus().totalCost).toBe(0);
+		});
+	});
+
+	describe("model switches", () => {
+		it("should record switches and keep them across compaction and restore", () => {
+			const session = new Session(defaultConfig);
+			session.addUserMessage("Hello");
+			session.addModelSwitch("model-a", "model-b", "503 Service Unavailable");
+			session.compactWith("Summary");
+
+			const newSession = new Session(defaultConfig);
+			newSession.restoreFromState(session.getInternalState());
+			expect(newSession.getModelSwitches()).toEqual([
+				expect.objectContaining({
+					from: "model-a",
+					to: "model-b",
+					reason: "503 Service Unavailable",
+				}),
+			]);
+
+			newSession.clear();
+			expect(newSession.getModelSwitches()).toEqual([]);
+		});
+	});
+
 	describe("createSession", () => {
 		it("should create session instance", () => {
 			const session = createSession({ contextWindow: 4096 });
@@ -0,0 +1,277 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, utimesSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+	extractAttachmentPaths,
+	getDefaultExportPath,
+	listExportFiles,
+	parseSessionExport,
+	readSessionExport,
+	renderHtml,
+	renderJson,
+	renderMarkdown,
+	writeTranscript,
+} from "../../../source/services/ai/sessionTranscript.js";
+import {
+	SessionStore,
+	type SerializedSession,
+} from "../../../source/services/ai/sessionStore.js";
+
+const sessionsDir = vi.hoisted(() => ({ path: "" }));
+
+vi.mock("../../../source/utils/appdata.js", () => ({
+	getSessionsPath: vi.fn(() => sessionsDir.path),
+}));
+
+const entry = (message: SerializedSession["messages"][number]["message"]) => ({
+	message,
+	tokens: 10,
+	isActual: false,
+	timestamp: 1,
+});
+
+const session: SerializedSession = {
+	info: {
+		id: "abc-123",
+		name: "Fix login <bug>",
+		createdAt: Date.UTC(2026, 0, 2, 3, 4, 5),
+		updatedAt: Date.UTC(2026, 0, 2, 4, 0, 0),
+		tokenUsage: 500,
+		messageCount: 4,
+		isActive: true,
+		cwd: "/work/app",
+	},
+	messages: [
+		entry({
+			role: "user",
+			content:
+				'Fix @src/login.ts\n\n<file path="src/login.ts">\nexport const x = 1;\n</file>',
+			displayContent: "Fix @src/login.ts",
+		}),
+		entry({
+			role: "assistant",
+			content: "",
+			reasoning_content: "Need to read the file",
+			tool_calls: [
+				{
+					id: "call_1",
+					type: "function",
+					function: {
+						name: "a-c-file_read",
+						arguments: '{"path":"src/login.ts"}',
+					},
+				},
+			],
+		}),
+		entry({
+			role: "tool",
+			content: "```ts\nexport const x = 1;\n```",
+			tool_call_id: "call_1",
+		}),
+		entry({ role: "assistant", content: "Fixed the <form> handler." }),
+	],
+	tokenState: { actualPromptTokens: 100, actualCompletionTokens: 20 },
+};
+
+describe("sessionTranscript", () => {
+	describe("renderMarkdown", () => {
+		it("should render messages with collapsed tool calls and reasoning", () => {
+			const md = renderMarkdown(session);
+
+			expect(md).toContain("# Fix login <bug>");
+			expect(md).toContain("- Directory: `/work/app`");
+			expect(md).toContain("## User\n\nFix @src/login.ts");
+			expect(md).toContain("Attachments: `src/login.ts`");
+			expect(md).not.toContain("export const x = 1;\n</file>");
+			expect(md).toContain(
+				"<details>\n<summary>Reasoning</summary>\n\nNeed to read the file",
+			);
+			expect(md).toContain(
+				'<summary>Tool call: a-c-file_read</summary>\n\n```json\n{\n  "path": "src/login.ts"\n}\n```',
+			);
+			// 结果中包含 ``` 时使用更长的围栏
+			expect(md).toContain(
+				"<summary>Tool result: a-c-file_read</summary>\n\n````\n```ts",
+			);
+			expect(md).toContain("Fixed the <form> handler.");
+		});
+	});
+
+	describe("renderHtml", () => {
+		it("should render an escaped standalone page", () => {
+			const html = renderHtml(session);
+
+			expect(html).toMatch(/^<!DOCTYPE html>/);
+			expect(html).toContain("<title>Fix login &lt;bug&gt;</title>");
+			expect(html).toContain("Fixed the &lt;form&gt; handler.");
+			expect(html).toContain("<code>src/login.ts</code>");
+			expect(html).toContain("<summary>Reasoning</summary>");
+			expect(html).toContain(
+				'<details class="tool"><summary>Tool call: a-c-file_read</summary>',
+			);
+			expect(html).not.toContain("<form>");
+		});
+	});
+
+	describe("renderJson / parseSessionExport", () => {
+		it("should round-trip an exported session", () => {
+			const json = renderJson(session, 42);
+			const result = parseSessionExport(json);
+
+			expect(result).toEqual({
+				success: true,
+				data: {
+					format: "axiomate-session",
+					version: 1,
+					exportedAt: 42,
+					...session,
+				},
+			});
+		});
+
+		it("should keep Gemini thought signatures on tool calls", () => {
+			const exported = JSON.parse(renderJson(session));
+			exported.messages[1].message.tool_calls[0].thought_signature = "sig-1";
+
+			const result = parseSessionExport(JSON.stringify(exported));
+			expect(
+				result.success &&
+					result.data.messages[1]!.message.tool_calls![0]!.thought_signature,
+			).toBe("sig-1");
+		});
+
+		it("should reject invalid exports with the failing field", () => {
+			expect(parseSessionExport("{")).toMatchObject({ success: false });
+
+			const invalid = JSON.parse(renderJson(session));
+			invalid.messages[0].message.role = "robot";
+			const result = parseSessionExport(JSON.stringify(invalid));
+			expect(result.success).toBe(false);
+			expect(!result.success && result.error).toMatch(
+				/^messages\.0\.message\.role: /,
+			);
+
+			expect(
+				parseSessionExport(JSON.stringify({ ...session, format: "other" })),
+			).toMatchObject({ success: false });
+		});
+	});
+
+	describe("export and import", () => {
+		beforeEach(() => {
+			sessionsDir.path = mkdtempSync(join(tmpdir(), "axiomate-sessions-"));
+		});
+
+		afterEach(() => {
+			rmSync(sessionsDir.path, { recursive: true, force: true });
+		});
+
+		it("should keep the cost history through export and import", async () => {
+			const store = new SessionStore(4096);
+			await store.initialize();
+			const costRecords = [
+				{ model: "model-a", cost: 0.25, timestamp: 1, round: 0 },
+				{ model: "model-a", cost: 0.5, timestamp: 2, round: 1 },
+			];
+
+			const parsed = parseSessionExport(
+				renderJson({
+					...session,
+					info: { ...session.info, totalCost: 0.75 },
+					costRecords,
+				}),
+			);
+			expect(parsed.success).toBe(true);
+			const info = store.importSession(
+				parsed.success ? parsed.data : session,
+				"/work/app",
+			);
+
+			const imported = store.readSession(info.id);
+			expect(imported?.costRecords).toEqual(costRecords);
+			expect(imported?.info.totalCost).toBe(0.75);
+		});
+
+		it("should keep model switches through export and import", async () => {
+			const store = new SessionStore(4096);
+			await store.initialize();
+			const modelSwitches = [
+				{
+					from: "model-a",
+					to: "model-b",
+					reason: "503 Service Unavailable",
+					timestamp: 3,
+				},
+			];
+
+			const parsed = parseSessionExport(
+				renderJson({ ...session, modelSwitches }),
+			);
+			expect(parsed.success).toBe(true);
+			const info = store.importSession(
+				parsed.success ? parsed.data : session,
+				"/work/app",
+			);
+
+			expect(store.readSession(info.id)?.modelSwitches).toEqual(modelSwitches);
+		});
+	});
+
+	describe("extractAttachmentPaths", () => {
+		it("should list unique file and directory paths", () => {
+			expect(
+				extractAttachmentPaths(
+					'<file path="a &amp; b.ts">x</file><directory path="src">y</directory><file path="src" error="true">z</file>',
+				),
+			).toEqual(["a & b.ts", "src"]);
+		});
+	});
+
+	describe("files", () => {
+		let cwd: string;
+
+		beforeEach(() => {
+			cwd = mkdtempSync(join(tmpdir(), "axiomate-transcript-"));
+		});
+
+		afterEach(() => {
+			rmSync(cwd, { recursive: true, force: true });
+		});
+
+		it("should build the default export path from the session name", () => {
+			expect(
+				getDefaultExportPath(
+					cwd,
+					session.info,
+					"md",
+					new Date(2026, 0, 2, 3, 4, 5),
+				),
+			).toBe(
+				join(cwd, ".axiomate", "exports", "fix-login-bug-20260102-030405.md"),
+			);
+		});
+
+		it("should write, list and read exports", () => {
+			const older = join(cwd, ".axiomate", "exports", "older.json");
+			const newer = join(cwd, ".axiomate", "exports", "newer.json");
+			writeTranscript(session, "json", older);
+			writeTranscript(session, "json", newer);
+			writeTranscript(session, "md", join(cwd, ".axiomate", "exports", "a.md"));
+			utimesSync(older, new Date(1000), new Date(1000));
+
+			expect(listExportFiles(cwd)).toEqual(["newer.json", "older.json"]);
+			expect(readFileSync(newer, "utf-8")).toContain('"axiomate-session"');
+
+			const result = readSessionExport(newer);
+			expect(result.success && result.data.messages).toEqual(session.messages);
+			expect(readSessionExport(join(cwd, "missing.json"))).toMatchObject({
+				success: false,
+			});
+		});
+
+		it("should return no exports when the directory does not exist", () => {
+			expect(listExportFiles(cwd)).toEqual([]);
+		});
+	});
+});
@@ -5,6 +5,9 @@ import {
 } from "../../../source/services/ai/tool-call-handler.js";
 import type { IToolRegistry } from "../../../source/services/tools/types.js";
 import type { ToolCall } from "../../../source/services/ai/types.js";
+import { PermissionManager } from "../../../source/services/permissions/permissionManager.js";
+import { detectGit } from "../../../source/services/tools/discoverers/git.js";
+import { detectFile } from "../../../source/services/tools/discoverers/file.js";
 import { initI18n, setLocale } from "../../../source/i18n/index.js";
 
 beforeAll(() => {
@@ -16,13 +19,38 @@ beforeAll(() => {
 vi.mock("../../../source/services/tools/executor.js", () => ({
 	executeToolAction: vi.fn(),
 	getToolAction: vi.fn(),
+	assessToolActionRisk: vi.fn(() => null),
 }));
 
 import {
 	executeToolAction,
 	getToolAction,
+	assessToolActionRisk,
 } from "../../../source/services/tools/executor.js";
 
+// Mock tool detection so the real git definition is available
+vi.mock(
+	"../../../source/services/tools/discoverers/base.js",
+	async (importOriginal) => ({
+		...(await importOriginal()),
+		commandExists: vi.fn(async () => true),
+		getExecutablePath: vi.fn(async () => "/usr/bin/git"),
+		getVersion: vi.fn(async () => "2.43.0"),
+	}),
+);
+
+// Mock local settings (per-tool timeouts, background detaching, parallel reads and permissions)
+vi.mock("../../../source/utils/localsettings.js", () => ({
+	getLocalSettings: vi.fn(() => ({
+		tools: {
+			timeouts: { "a-c-bash_*": 600000 },
+			detachAfter: 30000,
+			maxParallel: 2,
+		},
+		permissions: { allow: [], deny: [], ask: [] },
+	})),
+}));
+
 describe("ToolCallHandler", () => {
 	let registry: IToolRegistry;
 	let handler: ToolCallHandler;
@@ -323,9 +351,9 @@ describe("ToolCallHandler", () => {
 				actions: [action1, action2],
 			});
 
-			vi.mocked(getToolAction)
-				.mockReturnValueOnce(action1)
-				.mockReturnValueOnce(action2);
+			vi.mocked(getToolAction).mockImplementation((_tool, name) =>
+				name === "status" ? action1 : action2,
+			);
 
 			vi.mocked(executeToolAction)
 				.mockResolvedValueOnce({
@@ -643,6 +671,673 @@ describe("ToolCallHandler", () => {
 		});
 	});
 
+	describe("permission gate", () => {
+		const action = {
+			name: "run",
+			description: "Run command",
+			parameters: [],
+		};
+		const toolCalls: ToolCall[] = [
+			{
+				id: "call_perm",
+				type: "function",
+				function: {
+					name: "a-c-bash_run",
+					arguments: '{"command":"npm install"}',
+				},
+			},
+		];
+		let permissions: PermissionManager;
+
+		beforeEach(() => {
+			vi.mocked(registry.getTool).mockReturnValue({
+				id: "a-c-bash",
+				name: "Bash",
+				description: "Bash shell",
+				category: "shell",
+				installed: true,
+				actions: [action],
+			});
+			vi.mocked(getToolAction).mockReturnValue(action);
+			vi.mocked(executeToolAction).mockResolvedValue({
+				success: true,
+				stdout: "done",
+				stderr: "",
+				exitCode: 0,
+			});
+			permissions = {
+				check: vi.fn(() => "ask"),
+				approve: vi.fn(),
+				clearSessionApprovals: vi.fn(),
+			} as unknown as PermissionManager;
+			handler = new ToolCallHandler(registry, { permissions });
+		});
+
+		it("should execute allowed calls without asking", async () => {
+			vi.mocked(permissions.check).mockReturnValue("allow");
+			const onPermission = vi.fn();
+
+			const results = await handler.handleToolCalls(
+				toolCalls,
+				undefined,
+				undefined,
+				onPermission,
+			);
+
+			expect(onPermission).not.toHaveBeenCalled();
+			expect(executeToolAction).toHaveBeenCalled();
+			expect(results[0].content).toContain("done");
+		});
+
+		it("should reject denied calls without executing", async () => {
+			vi.mocked(permissions.check).mockReturnValue("deny");
+
+			const results = await handler.handleToolCalls(toolCalls);
+
+			expect(executeToolAction).not.toHaveBeenCalled();
+			expect(results[0].content).toContain("Permission denied");
+		});
+
+		it("should ask user and record approval", async () => {
+			const onPermission = vi.fn(async () => "allow_session" as const);
+
+			const results = await handler.handleToolCalls(
+				toolCalls,
+				undefined,
+				undefined,
+				onPermission,
+			);
+
+			expect(onPermission).toHaveBeenCalledWith({
+				callName: "a-c-bash_run",
+				toolId: "a-c-bash",
+				actionName: "run",
+				toolName: "Bash",
+				args: { command: "npm install" },
+				risk: undefined,
+			});
+			expect(permissions.approve).toHaveBeenCalledWith(
+				"a-c-bash_run",
+				"allow_session",
+			);
+			expect(executeToolAction).toHaveBeenCalled();
+			expect(results[0].content).toContain("done");
+		});
+
+		it("should not execute when user denies", async () => {
+			const onPermission = vi.fn(async () => "deny" as const);
+
+			const results = await handler.handleToolCalls(
+				toolCalls,
+				undefined,
+				undefined,
+				onPermission,
+			);
+
+			expect(executeToolAction).not.toHaveBeenCalled();
+			expect(permissions.approve).not.toHaveBeenCalled();
+			expect(results[0].content).toContain("user rejected");
+		});
+
+		it("should block calls rejected by risk policy", async () => {
+			vi.mocked(assessToolActionRisk).mockReturnValueOnce({
+				level: "dangerous",
+				reasons: ["recursive forced delete"],
+				blocked: true,
+			});
+			const onPermission = vi.fn();
+
+			const results = await handler.handleToolCalls(
+				toolCalls,
+				undefined,
+				undefined,
+				onPermission,
+			);
+
+			expect(onPermission).not.toHaveBeenCalled();
+			expect(executeToolAction).not.toHaveBeenCalled();
+			expect(results[0].content).toContain("Blocked by risk policy");
+		});
+
+		it("should ask for dangerous calls even when allowed", async () => {
+			vi.mocked(permissions.check).mockReturnValue("allow");
+			const risk = {
+				level: "dangerous" as const,
+				reasons: ["force push rewrites remote history"],
+				blocked: false,
+			};
+			vi.mocked(assessToolActionRisk).mockReturnValueOnce(risk);
+			const onPermission = vi.fn(async () => "allow_session" as const);
+
+			await handler.handleToolCalls(
+				toolCalls,
+				undefined,
+				undefined,
+				onPermission,
+			);
+
+			expect(onPermission).toHaveBeenCalledWith(
+				expect.objectContaining({ risk }),
+			);
+			// Dangerous approvals are not remembered
+			expect(permissions.approve).not.toHaveBeenCalled();
+			expect(executeToolAction).toHaveBeenCalled();
+		});
+
+		it("should include non-safe risk level in tool result", async () => {
+			vi.mocked(permissions.check).mockReturnValue("allow");
+			vi.mocked(executeToolAction).mockResolvedValue({
+				success: true,
+				stdout: "done",
+				stderr: "",
+				exitCode: 0,
+				metadata: {
+					risk: {
+						level: "moderate",
+						reasons: ["deletes files"],
+						blocked: false,
+					},
+				},
+			});
+
+			const results = await handler.handleToolCalls(toolCalls);
+
+			expect(results[0].content).toContain("[risk: moderate]");
+		});
+
+		it("should include sandbox info in tool result", async () => {
+			vi.mocked(permissions.check).mockReturnValue("allow");
+			vi.mocked(executeToolAction).mockResolvedValue({
+				success: true,
+				stdout: "done",
+				stderr: "",
+				exitCode: 0,
+				metadata: { sandbox: { runtime: "docker", image: "bash:5" } },
+			});
+
+			const results = await handler.handleToolCalls(toolCalls);
+
+			expect(results[0].content).toContain("[sandbox: docker bash:5]");
+		});
+
+		it("should warn when the sandbox fell back to the host", async () => {
+			vi.mocked(permissions.check).mockReturnValue("allow");
+			vi.mocked(executeToolAction).mockResolvedValue({
+				success: true,
+				stdout: "done",
+				stderr: "",
+				exitCode: 0,
+				metadata: {
+					sandbox: {
+						runtime: null,
+						image: "bash:5",
+						warning: "No container runtime found",
+					},
+				},
+			});
+
+			const results = await handler.handleToolCalls(toolCalls);
+
+			expect(results[0].content).toContain(
+				"[warning: No container runtime found]",
+			);
+		});
+
+		it("should return error when confirmation is not available", async () => {
+			const results = await handler.handleToolCalls(toolCalls);
+
+			expect(executeToolAction).not.toHaveBeenCalled();
+			expect(results[0].content).toContain("Permission required");
+		});
+	});
+
+	describe("tool activity callbacks", () => {
+		const action = {
+			name: "run",
+			description: "Run command",
+			parameters: [],
+		};
+
+		beforeEach(() => {
+			vi.mocked(registry.getTool).mockReturnValue({
+				id: "a-c-bash",
+				name: "Bash",
+				description: "Bash shell",
+				category: "shell",
+				installed: true,
+				actions: [action],
+			});
+			vi.mocked(getToolAction).mockReturnValue(action);
+		});
+
+		it("should report start, progress and end of a confirmed call", async () => {
+			vi.mocked(executeToolAction).mockResolvedValue({
+				success: true,
+				stdout: "line 1\nline 2",
+				stderr: "",
+				exitCode: 0,
+			});
+			const permissions = {
+				check: vi.fn(() => "ask"),
+				approve: vi.fn(),
+				clearSessionApprovals: vi.fn(),
+			} as unknown as PermissionManager;
+			handler = new ToolCallHandler(registry, { permissions });
+			const events: unknown[] = [];
+
+			await handler.handleToolCalls(
+				[
+					{
+						id: "call_1",
+						type: "function",
+						function: {
+							name: "a-c-bash_run",
+							arguments: '{"command":"npm   test"}',
+						},
+					},
+				],
+				undefined,
+				undefined,
+				async () => "allow_once",
+				{
+					onToolStart: (e) => events.push(["start", e]),
+					onToolProgress: (e) => events.push(["progress", e]),
+					onToolEnd: (e) => events.push(["end", e]),
+				},
+			);
+
+			expect(events).toEqual([
+				[
+					"start",
+					{
+						id: "call_1",
+						toolId: "a-c-bash",
+						action: "run",
+						argsSummary: "command=npm test",
+					},
+				],
+				["progress", { id: "call_1", status: "awaiting_permission" }],
+				["progress", { id: "call_1", status: "running" }],
+				[
+					"end",
+					{
+						id: "call_1",
+						success: true,
+						durationMs: expect.any(Number),
+						outputPreview: "line 1\nline 2",
+					},
+				],
+			]);
+		});
+
+		it("should report failures with the error message", async () => {
+			vi.mocked(executeToolAction).mockResolvedValue({
+				success: false,
+				stdout: "",
+				stderr: "",
+				exitCode: 1,
+				error: "command not found",
+			});
+			const onToolEnd = vi.fn();
+
+			await handler.handleToolCalls(
+				[
+					{
+						id: "call_1",
+						type: "function",
+						function: { name: "a-c-bash_run", arguments: "{}" },
+					},
+				],
+				undefined,
+				undefined,
+				undefined,
+				{ onToolEnd },
+			);
+
+			expect(onToolEnd).toHaveBeenCalledWith(
+				expect.objectContaining({
+					success: false,
+					outputPreview: "command not found",
+				}),
+			);
+		});
+
+		it("should not report ask_user calls", async () => {
+			const onToolStart = vi.fn();
+			const onToolEnd = vi.fn();
+
+			await handler.handleToolCalls(
+				[
+					{
+						id: "call_ask",
+						type: "function",
+						function: {
+							name: "a-c-askuser_ask",
+							arguments: '{"question":"Continue?"}',
+						},
+					},
+				],
+				async () => "yes",
+				undefined,
+				undefined,
+				{ onToolStart, onToolEnd },
+			);
+
+			expect(onToolStart).not.toHaveBeenCalled();
+			expect(onToolEnd).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("command execution", () => {
+		const action = {
+			name: "run",
+			description: "Run command",
+			parameters: [],
+		};
+		const bashCall = (id: string): ToolCall => ({
+			id,
+			type: "function",
+			function: { name: "a-c-bash_run", arguments: "{}" },
+		});
+
+		beforeEach(() => {
+			vi.mocked(registry.getTool).mockReturnValue({
+				id: "a-c-bash",
+				name: "Bash",
+				description: "Bash shell",
+				category: "shell",
+				installed: true,
+				actions: [action],
+			});
+			vi.mocked(getToolAction).mockReturnValue(action);
+			vi.mocked(executeToolAction).mockResolvedValue({
+				success: true,
+				stdout: "ok",
+				stderr: "",
+				exitCode: 0,
+			});
+		});
+
+		it("should use the configured timeout unless one is fixed", async () => {
+			await new ToolCallHandler(registry).handleToolCalls([bashCall("c1")]);
+			expect(vi.mocked(executeToolAction).mock.calls[0]![3]).toMatchObject({
+				timeout: 600000,
+				detachAfter: 30000,
+			});
+
+			await handler.handleToolCalls([bashCall("c2")]);
+			expect(vi.mocked(executeToolAction).mock.calls[1]![3]).toMatchObject({
+				timeout: 5000,
+			});
+		});
+
+		it("should report live output as progress", async () => {
+			vi.mocked(executeToolAction).mockImplementation(
+				async (_tool, _action, _params, options) => {
+					options?.onOutput?.("compiling\r50%\r100%\nlinking\n", "stdout");
+					return { success: true, stdout: "done", stderr: "", exitCode: 0 };
+				},
+			);
+			const onToolProgress = vi.fn();
+
+			await handler.handleToolCalls(
+				[bashCall("c1")],
+				undefined,
+				undefined,
+				undefined,
+				{ onToolProgress },
+			);
+
+			expect(onToolProgress).toHaveBeenLastCalledWith({
+				id: "c1",
+				status: "running",
+				output: "100%\nlinking",
+			});
+		});
+
+		it("should stop the running command and skip the rest when aborted", async () => {
+			const controller = new AbortController();
+			vi.mocked(executeToolAction).mockImplementation(
+				async (_tool, _action, _params, options) => {
+					expect(options?.signal).toBe(controller.signal);
+					controller.abort();
+					return {
+						success: false,
+						stdout: "",
+						stderr: "",
+						exitCode: null,
+						error: "Command execution aborted",
+					};
+				},
+			);
+
+			const results = await handler.handleToolCalls(
+				[bashCall("c1"), bashCall("c2")],
+				undefined,
+				undefined,
+				undefined,
+				undefined,
+				controller.signal,
+			);
+
+			expect(executeToolAction).toHaveBeenCalledTimes(1);
+			expect(results).toHaveLength(2);
+			expect(results[0]!.content).toContain("Command execution aborted");
+			expect(results[1]).toEqual({
+				role: "tool",
+				tool_call_id: "c2",
+				content: "Error: Aborted by user",
+			});
+		});
+	});
+
+	describe("parallel execution", () => {
+		const readAction = {
+			name: "read",
+			description: "Read file",
+			parameters: [],
+			capabilities: ["read" as const],
+		};
+		const writeAction = {
+			name: "write",
+			description: "Write file",
+			parameters: [],
+		};
+		const fileCall = (id: string, action = "read"): ToolCall => ({
+			id,
+			type: "function",
+			function: { name: `a-c-file_${action}`, arguments: "{}" },
+		});
+
+		let running: string[];
+		let overlaps: string[][];
+
+		beforeEach(() => {
+			vi.mocked(registry.getTool).mockReturnValue({
+				id: "a-c-file",
+				name: "File",
+				description: "File operations",
+				category: "utility",
+				capabilities: ["read", "write", "search"],
+				installed: true,
+				actions: [readAction, writeAction],
+			});
+			vi.mocked(getToolAction).mockImplementation((_tool, name) =>
+				name === "read" ? readAction : writeAction,
+			);
+
+			// Record which calls were already running when each call started
+			running = [];
+			overlaps = [];
+			vi.mocked(executeToolAction).mockImplementation(async (_tool, action) => {
+				const id = `${action.name}#${overlaps.length}`;
+				overlaps.push([...running]);
+				running.push(id);
+				await new Promise((resolve) => setTimeout(resolve, 10));
+				running.splice(running.indexOf(id), 1);
+				return { success: true, stdout: id, stderr: "", exitCode: 0 };
+			});
+		});
+
+		it("should run read-only calls concurrently and keep their order", async () => {
+			const results = await handler.handleToolCalls([
+				fileCall("c1"),
+				fileCall("c2"),
+				fileCall("c3"),
+			]);
+
+			expect(results.map((r) => r.tool_call_id)).toEqual(["c1", "c2", "c3"]);
+			expect(results[0]!.content).toContain("read#0");
+			expect(results[2]!.content).toContain("read#2");
+			// At most maxParallel (2) calls run at the same time
+			expect(overlaps).toEqual([[], ["read#0"], [expect.any(String)]]);
+		});
+
+		it("should run writes on their own", async () => {
+			const results = await handler.handleToolCalls([
+				fileCall("c1"),
+				fileCall("c2", "write"),
+				fileCall("c3"),
+			]);
+
+			expect(results.map((r) => r.tool_call_id)).toEqual(["c1", "c2", "c3"]);
+			expect(overlaps).toEqual([[], [], []]);
+		});
+
+		it("should not run calls that need confirmation concurrently", async () => {
+			const permissions = {
+				check: vi.fn(() => "ask"),
+				approve: vi.fn(),
+				clearSessionApprovals: vi.fn(),
+			} as unknown as PermissionManager;
+			handler = new ToolCallHandler(registry, { permissions });
+
+			await handler.handleToolCalls(
+				[fileCall("c1"), fileCall("c2")],
+				undefined,
+				undefined,
+				async () => "allow_once",
+			);
+
+			expect(overlaps).toEqual([[], []]);
+		});
+
+		it("should run git and file reads allowed by default concurrently", async () => {
+			const tools = [await detectGit(), await detectFile()];
+			vi.mocked(registry.getTool).mockImplementation((id) =>
+				tools.find((tool) => tool.id === id),
+			);
+			vi.mocked(getToolAction).mockImplementation((tool, name) =>
+				tool.actions.find((action) => action.name === name),
+			);
+			handler = new ToolCallHandler(registry, {
+				permissions: new PermissionManager(),
+			});
+
+			const results = await handler.handleToolCalls([
+				{
+					id: "c1",
+					type: "function",
+					function: { name: "a-c-git_status", arguments: "{}" },
+				},
+				fileCall("c2"),
+			]);
+
+			expect(results.map((r) => r.tool_call_id)).toEqual(["c1", "c2"]);
+			expect(overlaps).toEqual([[], ["status#0"]]);
+		});
+	});
+
+	describe("sub-agents", () => {
+		const readAction = {
+			name: "read",
+			description: "Read file",
+			parameters: [],
+			capabilities: ["read" as const],
+		};
+		const writeAction = {
+			name: "write",
+			description: "Write file",
+			parameters: [],
+		};
+
+		beforeEach(() => {
+			vi.mocked(registry.getTool).mockReturnValue({
+				id: "a-c-file",
+				name: "File",
+				description: "File operations",
+				category: "utility",
+				capabilities: ["read", "write"],
+				installed: true,
+				actions: [readAction, writeAction],
+			});
+			vi.mocked(getToolAction).mockImplementation((_tool, name) =>
+				name === "read" ? readAction : writeAction,
+			);
+			vi.mocked(executeToolAction).mockResolvedValue({
+				success: true,
+				stdout: "ok",
+				stderr: "",
+				exitCode: 0,
+			});
+		});
+
+		it("should reject actions that are not read-only in a read-only mask", async () => {
+			const toolMask = {
+				mode: "a" as const,
+				allowedTools: new Set(["a-c-file"]),
+				readOnly: true,
+			};
+
+			const results = await handler.handleToolCalls(
+				[
+					{
+						id: "c1",
+						type: "function",
+						function: { name: "a-c-file_read", arguments: "{}" },
+					},
+					{
+						id: "c2",
+						type: "function",
+						function: { name: "a-c-file_write", arguments: "{}" },
+					},
+				],
+				undefined,
+				toolMask,
+			);
+
+			expect(results[0]!.content).toContain("ok");
+			expect(results[1]!.content).toContain("not available to sub-agents");
+			expect(executeToolAction).toHaveBeenCalledTimes(1);
+		});
+
+		it("should pass the permission callback to the sub-agent runner", async () => {
+			const delegate = vi.fn(async () => "summary");
+			const onPermission = vi.fn();
+			vi.mocked(executeToolAction).mockImplementation(
+				async (_tool, _action, _params, options) => {
+					const summary = await options!.delegate!("task", {});
+					return { success: true, stdout: summary, stderr: "", exitCode: 0 };
+				},
+			);
+
+			await new ToolCallHandler(registry, { delegate }).handleToolCalls(
+				[
+					{
+						id: "c1",
+						type: "function",
+						function: { name: "a-c-file_read", arguments: "{}" },
+					},
+				],
+				undefined,
+				undefined,
+				onPermission,
+			);
+
+			expect(delegate).toHaveBeenCalledWith("task", { onPermission });
+		});
+	});
+
 	describe("createToolCallHandler", () => {
 		it("should create a ToolCallHandler instance", () => {
 			const result = createToolCallHandler(registry);
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+	parseToolResultContent,
+	previewToolOutput,
+	summarizeToolArgs,
+	tailToolOutput,
+} from "../../../source/services/ai/toolActivity.js";
+
+describe("toolActivity", () => {
+	describe("summarizeToolArgs", () => {
+		it("should list arguments on one line", () => {
+			expect(
+				summarizeToolArgs(
+					'{"path":"src/a.ts","content":"a\\n  b","force":true}',
+				),
+			).toBe("path=src/a.ts, content=a b, force=true");
+			expect(summarizeToolArgs("{}")).toBe("");
+		});
+
+		it("should truncate long summaries", () => {
+			const summary = summarizeToolArgs(
+				JSON.stringify({ command: "x".repeat(200) }),
+				20,
+			);
+			expect(summary).toHaveLength(20);
+			expect(summary.endsWith("…")).toBe(true);
+		});
+
+		it("should fall back to the raw arguments when they are not JSON", () => {
+			expect(summarizeToolArgs("not json")).toBe("not json");
+		});
+	});
+
+	describe("previewToolOutput", () => {
+		it("should keep the first lines and count the rest", () => {
+			const output = ["1", "2", "3", "4", "5"].join("\n") + "\n";
+			expect(previewToolOutput(output, 3)).toBe("1\n2\n3\n… (+2 lines)");
+			expect(previewToolOutput("1\n2\n", 3)).toBe("1\n2");
+			expect(previewToolOutput("  \n")).toBe("");
+		});
+	});
+
+	describe("tailToolOutput", () => {
+		it("should keep the last lines", () => {
+			expect(tailToolOutput("1\n2\n\n3\n4\n", 2)).toBe("3\n4");
+			expect(tailToolOutput("")).toBe("");
+		});
+
+		it("should only keep the last carriage-return segment of a line", () => {
+			expect(tailToolOutput("done\n 10%\r 55%\r 90%")).toBe("done\n 90%");
+		});
+	});
+
+	describe("parseToolResultContent", () => {
+		it("should parse successful results with execution info", () => {
+			expect(
+				parseToolResultContent("[Git:status] (12ms) [risk: caution]\nclean"),
+			).toEqual({ success: true, durationMs: 12, output: "clean" });
+			expect(
+				parseToolResultContent(
+					"[Git:init] (3ms)\n(execution succeeded, no output)",
+				),
+			).toEqual({ success: true, durationMs: 3, output: "" });
+		});
+
+		it("should parse errors with and without execution info", () => {
+			expect(
+				parseToolResultContent("[Bash:run] (40ms)\nError: exit code 1"),
+			).toEqual({ success: false, durationMs: 40, output: "exit code 1" });
+			expect(
+				parseToolResultContent('Error: Permission denied: "a-c-bash_run"'),
+			).toEqual({
+				success: false,
+				durationMs: undefined,
+				output: 'Permission denied: "a-c-bash_run"',
+			});
+		});
+
+		it("should keep plain output without execution info", () => {
+			expect(parseToolResultContent("[1, 2]")).toEqual({
+				success: true,
+				durationMs: undefined,
+				output: "[1, 2]",
+			});
+		});
+	});
+});
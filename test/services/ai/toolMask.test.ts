@@ -6,6 +6,17 @@ vi.mock("../../../source/utils/config.js", () => ({
 	currentModelSupportsToolChoice: vi.fn(() => false),
 }));
 
+// Mock tool detection so the real git definition is available
+vi.mock(
+	"../../../source/services/tools/discoverers/base.js",
+	async (importOriginal) => ({
+		...(await importOriginal()),
+		commandExists: vi.fn(async () => true),
+		getExecutablePath: vi.fn(async () => "/usr/bin/git"),
+		getVersion: vi.fn(async () => "2.43.0"),
+	}),
+);
+
 beforeAll(() => {
 	initI18n();
 	setLocale("en");
@@ -15,8 +26,12 @@ import {
 	buildToolMask,
 	isToolAllowed,
 	getToolNotAllowedError,
+	isReadOnlyAction,
+	getReadOnlyTools,
+	buildReadOnlyToolMask,
 } from "../../../source/services/ai/toolMask.js";
 import type { DiscoveredTool } from "../../../source/services/tools/types.js";
+import { detectGit } from "../../../source/services/tools/discoverers/git.js";
 import { currentModelSupportsToolChoice } from "../../../source/utils/config.js";
 
 // Helper to create mock tool
@@ -48,6 +63,7 @@ const mockPlatformTools: DiscoveredTool[] = [
 	createMockTool("a-c-pwsh", "PowerShell Core", "shell"),
 	createMockTool("a-c-enterplan", "Enter Plan Mode", "utility"),
 	createMockTool("p-plan", "Plan", "utility", ["read", "write"]),
+	createMockTool("a-c-scratchpad", "Scratchpad", "utility", ["read", "write"]),
 ];
 
 // Mock project tools (版本B：平台工具 + 项目工具)
@@ -107,6 +123,20 @@ describe("toolMask", () => {
 				expect(mask.allowedTools.has("p-plan")).toBe(true);
 				expect(mask.useDynamicFiltering).toBe(true);
 			});
+
+			it("should allow the scratchpad in plan mode", () => {
+				vi.mocked(currentModelSupportsToolChoice).mockReturnValue(true);
+
+				const mask = buildToolMask(
+					"Create a plan",
+					undefined, // projectType
+					true, // planMode
+					mockPlatformTools,
+				);
+
+				expect(mask.allowedTools.has("a-c-scratchpad")).toBe(true);
+				expect(mask.allowedTools.has("a-c-file")).toBe(false);
+			});
 		});
 
 		describe("Action mode", () => {
@@ -124,6 +154,27 @@ describe("toolMask", () => {
 				expect(mask.allowedTools.has("a-c-askuser")).toBe(true);
 				expect(mask.allowedTools.has("a-c-file")).toBe(true);
 				expect(mask.allowedTools.has("a-c-web")).toBe(true);
+				expect(mask.allowedTools.has("a-c-scratchpad")).toBe(true);
+			});
+
+			it("should always include MCP server tools", () => {
+				vi.mocked(currentModelSupportsToolChoice).mockReturnValue(false);
+
+				const mask = buildToolMask("Hello", undefined, false, [
+					...mockProjectTools,
+					createMockTool("mcp-docs", "docs", "mcp"),
+				]);
+
+				expect(mask.allowedTools.has("mcp-docs")).toBe(true);
+			});
+
+			it("should not include MCP server tools in plan mode", () => {
+				const mask = buildToolMask("Hello", undefined, true, [
+					...mockProjectTools,
+					createMockTool("mcp-docs", "docs", "mcp"),
+				]);
+
+				expect(mask.allowedTools.has("mcp-docs")).toBe(false);
 			});
 
 			it("should include git by default", () => {
@@ -554,4 +605,67 @@ describe("toolMask", () => {
 			expect(error).toContain("p-plan");
 		});
 	});
+
+	describe("read-only tools", () => {
+		const action = (
+			name: string,
+			capabilities?: DiscoveredTool["capabilities"],
+		) => ({
+			name,
+			description: name,
+			parameters: [],
+			commandTemplate: "",
+			capabilities,
+		});
+		const fileTool: DiscoveredTool = {
+			...createMockTool("a-c-file", "File", "utility", ["read", "write"]),
+			actions: [
+				action("read", ["read"]),
+				action("grep", ["search"]),
+				action("write"),
+			],
+		};
+		const planTool: DiscoveredTool = {
+			...createMockTool("p-plan", "Plan", "utility", ["read", "search"]),
+			actions: [action("read")],
+		};
+		const bashTool: DiscoveredTool = {
+			...createMockTool("a-c-bash", "Bash", "shell"),
+			actions: [action("run")],
+		};
+
+		it("should use the action capabilities before the tool capabilities", () => {
+			expect(isReadOnlyAction(fileTool, fileTool.actions[0]!)).toBe(true);
+			expect(isReadOnlyAction(fileTool, fileTool.actions[2]!)).toBe(false);
+			expect(isReadOnlyAction(planTool, planTool.actions[0]!)).toBe(true);
+			expect(isReadOnlyAction(bashTool, bashTool.actions[0]!)).toBe(false);
+		});
+
+		it("should keep only read-only actions", () => {
+			const tools = getReadOnlyTools([fileTool, planTool, bashTool]);
+
+			expect(tools.map((t) => [t.id, t.actions.map((a) => a.name)])).toEqual([
+				["a-c-file", ["read", "grep"]],
+				["p-plan", ["read"]],
+			]);
+			expect(fileTool.actions).toHaveLength(3);
+		});
+
+		it("should keep only the git read actions", async () => {
+			const tools = getReadOnlyTools([await detectGit()]);
+
+			expect(tools.map((t) => [t.id, t.actions.map((a) => a.name)])).toEqual([
+				["a-c-git", ["status", "diff", "log", "blame", "show", "stash_list"]],
+			]);
+		});
+
+		it("should build a read-only mask", () => {
+			const mask = buildReadOnlyToolMask(
+				getReadOnlyTools([fileTool, bashTool]),
+			);
+
+			expect(mask.readOnly).toBe(true);
+			expect([...mask.allowedTools]).toEqual(["a-c-file"]);
+		});
+	});
 });
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as path from "node:path";
 
 // Mock dependencies
 vi.mock("../../source/constants/commands.js", () => ({
@@ -172,6 +173,95 @@ vi.mock("../../source/constants/commands.js", () => ({
 					description: "Delete with empty",
 					action: { type: "internal", handler: "session_delete" },
 				},
+				{
+					name: "export",
+					children: [
+						{
+							name: "md",
+							description: "Markdown",
+							action: { type: "internal", handler: "session_export" },
+						},
+						{
+							name: "xml",
+							description: "Unsupported",
+							action: { type: "internal", handler: "session_export" },
+						},
+					],
+				},
+				{
+					name: "import",
+					children: [
+						{
+							name: "chat.json",
+							description: "Exported session",
+							action: { type: "internal", handler: "session_import" },
+						},
+					],
+					action: { type: "internal", handler: "session_import_empty" },
+				},
+			],
+		},
+		{
+			name: "undo",
+			action: { type: "internal", handler: "undo_last" },
+			children: [
+				{
+					name: "last",
+					description: "Undo last",
+					action: { type: "internal", handler: "undo_last" },
+				},
+				{
+					name: "list",
+					description: "List turns",
+					action: { type: "internal", handler: "undo_list" },
+				},
+			],
+		},
+		{
+			name: "redo",
+			description: "Redo",
+			action: { type: "internal", handler: "redo" },
+		},
+		{
+			name: "jobs",
+			description: "List background processes",
+			action: { type: "internal", handler: "jobs_list" },
+		},
+		{
+			name: "cost",
+			description: "Show token cost",
+			action: { type: "internal", handler: "cost_show" },
+		},
+		{
+			name: "mcp",
+			children: [
+				{
+					name: "list",
+					description: "List MCP servers",
+					action: { type: "internal", handler: "mcp_list" },
+				},
+				{
+					name: "enable",
+					children: [
+						{
+							name: "docs",
+							description: "mcp-docs",
+							action: { type: "internal", handler: "mcp_enable" },
+						},
+					],
+					action: { type: "internal", handler: "mcp_enable_empty" },
+				},
+				{
+					name: "disable",
+					children: [
+						{
+							name: "github",
+							description: "mcp-github",
+							action: { type: "internal", handler: "mcp_disable" },
+						},
+					],
+					action: { type: "internal", handler: "mcp_disable_empty" },
+				},
 			],
 		},
 		{
@@ -250,6 +340,7 @@ vi.mock("../../source/utils/config.js", () => ({
 	setSuggestionModelId: vi.fn(),
 	setSuggestionEnabled: vi.fn(),
 	setThinkingEnabled: vi.fn(),
+	getCostBudget: vi.fn(() => null),
 }));
 
 vi.mock("../../source/i18n/index.js", () => ({
@@ -270,6 +361,7 @@ vi.mock("../../source/services/ai/sessionStore.js", () => ({
 				name: "Session 1",
 				updatedAt: Date.now(),
 				messageCount: 5,
+				totalCost: 0.75,
 			},
 			{
 				id: "session-2",
@@ -279,6 +371,81 @@ vi.mock("../../source/services/ai/sessionStore.js", () => ({
 			},
 		]),
 		getActiveSessionId: vi.fn(() => "session-1"),
+		readSession: vi.fn((id: string) =>
+			id === "session-1"
+				? {
+						costRecords: [
+							{
+								model: "model-a",
+								cost: 0.5,
+								timestamp: new Date(2026, 0, 15).getTime(),
+								round: 0,
+							},
+							{
+								model: "model-b",
+								cost: 0.25,
+								timestamp: new Date(2026, 0, 15).getTime(),
+								round: 1,
+							},
+						],
+					}
+				: null,
+		),
+	})),
+}));
+
+vi.mock("../../source/services/undo/undoManager.js", () => ({
+	getUndoManager: vi.fn(() => ({
+		undo: vi.fn(() => ({
+			success: true,
+			turn: { id: "q1", label: "fix bug", files: [] },
+			restored: ["/project/a.ts"],
+			skipped: ["/project/big.bin"],
+		})),
+		redo: vi.fn(() => ({
+			success: false,
+			restored: [],
+			skipped: [],
+			error: "busy",
+		})),
+		list: vi.fn(() => [
+			{
+				id: "q1",
+				label: "fix bug",
+				createdAt: new Date().toISOString(),
+				files: [{ path: "/project/a.ts", backup: "0.bak", size: 10 }],
+				undone: true,
+			},
+		]),
+	})),
+}));
+
+vi.mock("../../source/services/tools/mcp/client.js", () => ({
+	getMcpClientManager: vi.fn(() => ({
+		listServers: vi.fn(() => [
+			{
+				name: "docs",
+				toolId: "mcp-docs",
+				config: { url: "http://127.0.0.1:3000/mcp" },
+				source: "project",
+				status: "error",
+				error: "fetch failed",
+				toolCount: 0,
+			},
+			{
+				name: "github",
+				toolId: "mcp-github",
+				config: { command: "npx", args: ["github-mcp"] },
+				source: "user",
+				status: "connected",
+				toolCount: 12,
+			},
+		]),
+		setServerEnabled: vi.fn(async (name: string, enabled: boolean) => ({
+			name,
+			status: enabled ? "connected" : "disabled",
+			toolCount: enabled ? 4 : 0,
+		})),
 	})),
 }));
 
@@ -289,6 +456,7 @@ import {
 	type CommandContext,
 	type CommandCallbacks,
 } from "../../source/services/commandHandler.js";
+import { getCostBudget } from "../../source/utils/config.js";
 
 describe("commandHandler", () => {
 	const context: CommandContext = {
@@ -308,6 +476,9 @@ describe("commandHandler", () => {
 		sessionSwitch: vi.fn().mockResolvedValue(undefined),
 		sessionDelete: vi.fn(),
 		sessionClear: vi.fn().mockResolvedValue(undefined),
+		sessionExport: vi.fn(),
+		sessionImport: vi.fn().mockResolvedValue(undefined),
+		listJobs: vi.fn(() => []),
 	});
 
 	beforeEach(() => {
@@ -448,6 +619,137 @@ describe("commandHandler", () => {
 			expect(callbacks.sessionClear).toHaveBeenCalled();
 		});
 
+		it("should handle undo last command", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["undo", "last"], context, callbacks);
+
+			const message = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(message).toContain("undo.undone");
+			expect(message).toContain("/project/a.ts");
+			expect(message).toContain("undo.skipped");
+			expect(message).toContain("/project/big.bin");
+		});
+
+		it("should undo the last turn for bare undo command", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["undo"], context, callbacks);
+
+			const message = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(message).toContain("undo.undone");
+			expect(message).toContain("/project/a.ts");
+		});
+
+		it("should handle undo list command", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["undo", "list"], context, callbacks);
+
+			const message = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(message).toContain("undo.listTitle");
+			expect(message).toContain("fix bug");
+			expect(message).toContain("undo.undoneLabel");
+		});
+
+		it("should list background processes", async () => {
+			const callbacks = createMockCallbacks();
+			vi.mocked(callbacks.listJobs).mockReturnValue([
+				{
+					id: "p1",
+					command: "npm run dev",
+					pid: 4321,
+					status: "running",
+					exitCode: null,
+					startedAt: Date.now() - 5000,
+					outputLength: 120,
+				},
+				{
+					id: "p2",
+					command: "npm test",
+					status: "exited",
+					exitCode: 1,
+					startedAt: 1000,
+					endedAt: 4000,
+					outputLength: 0,
+				},
+			]);
+			await handleCommand(["jobs"], context, callbacks);
+
+			const message = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(message).toContain("jobs.listTitle");
+			expect(message).toContain("▸ **p1** `npm run dev` jobs.status.running");
+			expect(message).toContain("pid 4321 · 5s");
+			expect(message).toContain(
+				'○ **p2** `npm test` jobs.status.exited (jobs.exitCode: {"code":1})',
+			);
+		});
+
+		it("should show a hint when there are no background processes", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["jobs"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith("jobs.listEmpty");
+		});
+
+		it("should show cost by session, model and day", async () => {
+			const callbacks = createMockCallbacks();
+			vi.mocked(getCostBudget).mockReturnValueOnce({
+				limit: 5,
+				action: "stop",
+			});
+			await handleCommand(["cost"], context, callbacks);
+
+			const message = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(message).toContain("cost.title");
+			expect(message).toContain(
+				'cost.currentSession: {"total":"$0.7500","turn":"$0.7500"}',
+			);
+			expect(message).toContain(
+				'cost.budget: {"limit":"$5.00","action":"stop"}',
+			);
+			expect(message).toContain("- Session 1: $0.7500");
+			expect(message).not.toContain("Session 2");
+			expect(message).toContain("- model-a: $0.5000");
+			expect(message).toContain("- model-b: $0.2500");
+			expect(message).toContain("- 2026-01-15: $0.7500");
+		});
+
+		it("should list MCP servers with connection state", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["mcp", "list"], context, callbacks);
+
+			const message = vi.mocked(callbacks.showMessage).mock.calls[0]![0];
+			expect(message).toContain("mcp.listTitle");
+			expect(message).toContain(
+				"✗ **docs** `mcp-docs` mcp.status.error: fetch failed",
+			);
+			expect(message).toContain(
+				"http://127.0.0.1:3000/mcp · mcp.source.project",
+			);
+			expect(message).toContain("▸ **github**");
+			expect(message).toContain("npx github-mcp · mcp.source.user");
+		});
+
+		it("should enable and disable MCP servers", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["mcp", "enable", "docs"], context, callbacks);
+			await handleCommand(["mcp", "disable", "github"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenNthCalledWith(
+				1,
+				'mcp.enabled: {"name":"docs","count":4}',
+			);
+			expect(callbacks.showMessage).toHaveBeenNthCalledWith(
+				2,
+				'mcp.disabled: {"name":"github"}',
+			);
+		});
+
+		it("should refuse redo while AI is working", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["redo"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith("undo.busy");
+		});
+
 		it("should handle tools list command", async () => {
 			const callbacks = createMockCallbacks();
 			await handleCommand(["tools", "list"], context, callbacks);
@@ -505,11 +807,9 @@ describe("commandHandler", () => {
 			vi.mocked(getToolRegistry).mockReturnValue({
 				isDiscovered: false,
 				discover: vi.fn(),
-				formatToolList: vi
-					.fn()
-					.mockImplementation(() => {
-						throw new Error("Format failed");
-					}),
+				formatToolList: vi.fn().mockImplementation(() => {
+					throw new Error("Format failed");
+				}),
 				getStats: vi.fn(),
 			} as any);
 
@@ -544,6 +844,46 @@ describe("commandHandler", () => {
 			expect(callbacks.sessionDelete).toHaveBeenCalledWith("session-2");
 		});
 
+		it("should handle session export command", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["session", "export", "md"], context, callbacks);
+
+			expect(callbacks.sessionExport).toHaveBeenCalledWith("md");
+		});
+
+		it("should reject unknown export formats", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["session", "export", "xml"], context, callbacks);
+
+			expect(callbacks.sessionExport).not.toHaveBeenCalled();
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("session.invalidFormat"),
+			);
+		});
+
+		it("should import files from the project exports directory", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(
+				["session", "import", "chat.json"],
+				context,
+				callbacks,
+			);
+
+			expect(callbacks.stop).toHaveBeenCalled();
+			expect(callbacks.sessionImport).toHaveBeenCalledWith(
+				path.join(process.cwd(), ".axiomate", "exports", "chat.json"),
+			);
+		});
+
+		it("should explain how to export when there is nothing to import", async () => {
+			const callbacks = createMockCallbacks();
+			await handleCommand(["session", "import"], context, callbacks);
+
+			expect(callbacks.showMessage).toHaveBeenCalledWith(
+				expect.stringContaining("session.noExportsToImport"),
+			);
+		});
+
 		it("should handle suggestion model selection", async () => {
 			const callbacks = createMockCallbacks();
 			// path 需要是完整的命令路径，最后一个元素是 model id
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock localsettings module
+vi.mock("../../../source/utils/localsettings.js", () => ({
+	getLocalSettings: vi.fn(),
+	updateLocalSettings: vi.fn(),
+}));
+
+import {
+	getLocalSettings,
+	updateLocalSettings,
+} from "../../../source/utils/localsettings.js";
+import {
+	PermissionManager,
+	matchPermissionPattern,
+	getPermissionManager,
+	resetPermissionManager,
+} from "../../../source/services/permissions/permissionManager.js";
+
+function mockPermissions(
+	permissions: Partial<{ allow: string[]; deny: string[]; ask: string[] }>,
+) {
+	vi.mocked(getLocalSettings).mockReturnValue({
+		permissions: { allow: [], deny: [], ask: [], ...permissions },
+	});
+}
+
+describe("matchPermissionPattern", () => {
+	it("should match exact call names", () => {
+		expect(matchPermissionPattern("a-c-git_push", "a-c-git_push")).toBe(true);
+		expect(matchPermissionPattern("a-c-git_push", "a-c-git_pull")).toBe(false);
+	});
+
+	it("should support * wildcard", () => {
+		expect(matchPermissionPattern("a-c-file_*", "a-c-file_write")).toBe(true);
+		expect(matchPermissionPattern("*", "a-c-bash_run")).toBe(true);
+		expect(matchPermissionPattern("a-c-file_*", "a-c-git_status")).toBe(false);
+	});
+
+	it("should treat regex characters literally", () => {
+		expect(matchPermissionPattern("a.c", "abc")).toBe(false);
+		expect(matchPermissionPattern("a.c", "a.c")).toBe(true);
+	});
+});
+
+describe("PermissionManager", () => {
+	let manager: PermissionManager;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockPermissions({});
+		manager = new PermissionManager();
+	});
+
+	describe("check", () => {
+		it("should allow read-only actions by default", () => {
+			expect(manager.check("a-c-file_read", true)).toBe("allow");
+			expect(manager.check("a-c-git_status", true)).toBe("allow");
+			expect(manager.check("p-plan_write")).toBe("allow");
+		});
+
+		it("should ask for other tools by default", () => {
+			expect(manager.check("a-c-file_write")).toBe("ask");
+			expect(manager.check("a-c-bash_run")).toBe("ask");
+			expect(manager.check("a-c-git_status")).toBe("ask");
+		});
+
+		it("should ask for read-only actions matching ask patterns", () => {
+			mockPermissions({ ask: ["a-c-git_*"] });
+			expect(manager.check("a-c-git_status", true)).toBe("ask");
+		});
+
+		it("should allow tools matching allow patterns", () => {
+			mockPermissions({ allow: ["a-c-file_*"] });
+			expect(manager.check("a-c-file_write")).toBe("allow");
+		});
+
+		it("should deny tools matching deny patterns", () => {
+			mockPermissions({ deny: ["a-c-git_push"], allow: ["a-c-git_*"] });
+			expect(manager.check("a-c-git_push")).toBe("deny");
+			expect(manager.check("a-c-git_commit")).toBe("allow");
+		});
+
+		it("should ask for default-allowed tools matching ask patterns", () => {
+			mockPermissions({ ask: ["a-c-scratchpad_*"] });
+			expect(manager.check("a-c-scratchpad_update")).toBe("ask");
+		});
+
+		it("should prefer allow over ask patterns", () => {
+			mockPermissions({ allow: ["a-c-bash_run"], ask: ["a-c-bash_*"] });
+			expect(manager.check("a-c-bash_run")).toBe("allow");
+		});
+	});
+
+	describe("approve", () => {
+		it("should remember session approvals", () => {
+			manager.approve("a-c-bash_run", "allow_session");
+			expect(manager.check("a-c-bash_run")).toBe("allow");
+			expect(updateLocalSettings).not.toHaveBeenCalled();
+		});
+
+		it("should not remember one-time approvals", () => {
+			manager.approve("a-c-bash_run", "allow_once");
+			expect(manager.check("a-c-bash_run")).toBe("ask");
+		});
+
+		it("should persist always approvals to localsettings", () => {
+			mockPermissions({ allow: ["a-c-file_write"] });
+			manager.approve("a-c-bash_run", "allow_always");
+			expect(updateLocalSettings).toHaveBeenCalledWith({
+				permissions: { allow: ["a-c-file_write", "a-c-bash_run"] },
+			});
+		});
+
+		it("should not duplicate existing allow entries", () => {
+			mockPermissions({ allow: ["a-c-bash_run"] });
+			manager.approve("a-c-bash_run", "allow_always");
+			expect(updateLocalSettings).not.toHaveBeenCalled();
+		});
+
+		it("should not let session approvals override deny patterns", () => {
+			mockPermissions({ deny: ["a-c-bash_run"] });
+			manager.approve("a-c-bash_run", "allow_session");
+			expect(manager.check("a-c-bash_run")).toBe("deny");
+		});
+
+		it("should clear session approvals", () => {
+			manager.approve("a-c-bash_run", "allow_session");
+			manager.clearSessionApprovals();
+			expect(manager.check("a-c-bash_run")).toBe("ask");
+		});
+	});
+
+	describe("getPermissionManager", () => {
+		it("should return singleton instance", () => {
+			resetPermissionManager();
+			expect(getPermissionManager()).toBe(getPermissionManager());
+		});
+	});
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from "vitest";
+import { detectAgent } from "../../../../source/services/tools/discoverers/agent.js";
+
+// Mock base module
+vi.mock("../../../../source/services/tools/discoverers/base.js", () => ({
+	createInstalledTool: vi.fn((def, path, version) => ({
+		...def,
+		executablePath: path,
+		version,
+		installed: true,
+	})),
+}));
+
+describe("agent discoverer", () => {
+	describe("detectAgent", () => {
+		it("should return an installed builtin tool", async () => {
+			const result = await detectAgent();
+
+			expect(result.installed).toBe(true);
+			expect(result.id).toBe("a-c-agent");
+			expect(result.executablePath).toBe("builtin");
+		});
+
+		it("should have a delegate action with a required task", async () => {
+			const result = await detectAgent();
+
+			expect(result.actions.map((a) => [a.name, a.commandTemplate])).toEqual([
+				["delegate", "__AGENT_DELEGATE__"],
+			]);
+			expect(result.actions[0]!.parameters).toMatchObject([
+				{ name: "task", required: true },
+			]);
+		});
+	});
+});
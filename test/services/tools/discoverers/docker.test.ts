@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
 	detectDocker,
 	detectDockerCompose,
+	detectContainerRuntime,
 } from "../../../../source/services/tools/discoverers/docker.js";
 
 // Mock base module
@@ -203,4 +204,26 @@ describe("docker discoverer", () => {
 			expect(result.actions.some((a) => a.name === "logs")).toBe(true);
 		});
 	});
+
+	describe("detectContainerRuntime", () => {
+		it("should prefer docker", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+
+			expect(await detectContainerRuntime()).toBe("docker");
+		});
+
+		it("should fall back to podman", async () => {
+			vi.mocked(commandExists).mockImplementation(
+				async (cmd) => cmd === "podman",
+			);
+
+			expect(await detectContainerRuntime()).toBe("podman");
+		});
+
+		it("should return null when no runtime is installed", async () => {
+			vi.mocked(commandExists).mockResolvedValue(false);
+
+			expect(await detectContainerRuntime()).toBeNull();
+		});
+	});
 });
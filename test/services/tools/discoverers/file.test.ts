@@ -150,16 +150,69 @@ describe("file discoverer", () => {
 			expect(maxMatchesParam?.default).toBe(100);
 		});
 
-		it("should have all 5 actions", async () => {
+		it("should have find_files action with pagination parameters", async () => {
 			const result = await detectFile();
 
-			expect(result.actions?.length).toBe(5);
+			const findAction = result.actions?.find((a) => a.name === "find_files");
+			expect(findAction).toBeDefined();
+			expect(findAction?.commandTemplate).toBe("__FILE_FIND__");
+
+			const patternParam = findAction?.parameters?.find(
+				(p) => p.name === "pattern",
+			);
+			expect(patternParam?.required).toBe(true);
+
+			const offsetParam = findAction?.parameters?.find(
+				(p) => p.name === "offset",
+			);
+			expect(offsetParam?.default).toBe(0);
+		});
+
+		it("should have grep action with correct parameters", async () => {
+			const result = await detectFile();
+
+			const grepAction = result.actions?.find((a) => a.name === "grep");
+			expect(grepAction).toBeDefined();
+			expect(grepAction?.commandTemplate).toBe("__FILE_GREP__");
+
+			const paramNames = grepAction?.parameters?.map((p) => p.name);
+			expect(paramNames).toEqual(
+				expect.arrayContaining([
+					"pattern",
+					"regex",
+					"ignore_case",
+					"include",
+					"exclude",
+					"context_lines",
+					"max_results",
+					"offset",
+				]),
+			);
+		});
+
+		it("should have apply_patch action", async () => {
+			const result = await detectFile();
+
+			const patchAction = result.actions?.find((a) => a.name === "apply_patch");
+			expect(patchAction).toBeDefined();
+			expect(patchAction?.commandTemplate).toBe("__FILE_APPLY_PATCH__");
+			expect(patchAction?.parameters?.[0]?.name).toBe("patch");
+			expect(patchAction?.parameters?.[0]?.required).toBe(true);
+		});
+
+		it("should have all 8 actions", async () => {
+			const result = await detectFile();
+
+			expect(result.actions?.length).toBe(8);
 			const actionNames = result.actions?.map((a) => a.name);
 			expect(actionNames).toContain("read");
 			expect(actionNames).toContain("read_lines");
 			expect(actionNames).toContain("write");
 			expect(actionNames).toContain("edit");
+			expect(actionNames).toContain("apply_patch");
 			expect(actionNames).toContain("search");
+			expect(actionNames).toContain("find_files");
+			expect(actionNames).toContain("grep");
 		});
 
 		it("should call createInstalledTool with correct arguments", async () => {
@@ -104,6 +104,23 @@ describe("git discoverer", () => {
 			expect(result.actions.some((a) => a.name === "commit")).toBe(true);
 		});
 
+		it("should route argv-sensitive actions to the git handler", async () => {
+			vi.mocked(commandExists).mockResolvedValue(true);
+			vi.mocked(getExecutablePath).mockResolvedValue("/usr/bin/git");
+			vi.mocked(getVersion).mockResolvedValue("2.43.0");
+
+			const result = await detectGit();
+			const template = (name: string) =>
+				result.actions.find((a) => a.name === name)?.commandTemplate;
+
+			expect(template("status")).toBe("__GIT_STATUS__");
+			expect(template("commit")).toBe("__GIT_COMMIT__");
+			expect(template("blame")).toBe("__GIT_BLAME__");
+			expect(template("show")).toBe("__GIT_SHOW__");
+			expect(template("stash_push")).toBe("__GIT_STASH_PUSH__");
+			expect(template("branch_delete")).toBe("__GIT_BRANCH_DELETE__");
+		});
+
 		it("should return fallback version when parsing fails", async () => {
 			vi.mocked(commandExists).mockResolvedValue(true);
 			vi.mocked(getExecutablePath).mockResolvedValue("/usr/bin/git");
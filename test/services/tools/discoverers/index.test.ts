@@ -127,8 +127,8 @@ describe("discoverers index", () => {
 		});
 
 		it("should contain expected number of discoverers", () => {
-			// builtinDiscoverers: web, file, plan, enterplan, ask_user = 5
-			expect(builtinDiscoverers.length).toBe(5);
+			// builtinDiscoverers: web, file, plan, enterplan, ask_user, scratchpad, process, agent = 8
+			expect(builtinDiscoverers.length).toBe(8);
 			// discoverableDiscoverers: 23 external tools
 			expect(discoverableDiscoverers.length).toBe(23);
 		});
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from "vitest";
+import { detectProcess } from "../../../../source/services/tools/discoverers/process.js";
+
+// Mock base module
+vi.mock("../../../../source/services/tools/discoverers/base.js", () => ({
+	createInstalledTool: vi.fn((def, path, version) => ({
+		...def,
+		executablePath: path,
+		version,
+		installed: true,
+	})),
+}));
+
+describe("process discoverer", () => {
+	describe("detectProcess", () => {
+		it("should return an installed builtin tool", async () => {
+			const result = await detectProcess();
+
+			expect(result.installed).toBe(true);
+			expect(result.id).toBe("a-c-process");
+			expect(result.executablePath).toBe("builtin");
+		});
+
+		it("should have start, status, read_output, send_input and stop actions", async () => {
+			const result = await detectProcess();
+
+			expect(result.actions.map((a) => [a.name, a.commandTemplate])).toEqual([
+				["start", "__PROCESS_START__"],
+				["status", "__PROCESS_STATUS__"],
+				["read_output", "__PROCESS_READ_OUTPUT__"],
+				["send_input", "__PROCESS_SEND_INPUT__"],
+				["stop", "__PROCESS_STOP__"],
+			]);
+			const readOutput = result.actions.find((a) => a.name === "read_output");
+			expect(readOutput?.parameters.map((p) => p.name)).toEqual([
+				"id",
+				"since",
+			]);
+		});
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+	detectScratchpad,
+	getScratchpadFilePath,
+	SCRATCHPAD_TASK_MAX_LINES,
+} from "../../../../source/services/tools/discoverers/scratchpad.js";
+
+// Mock base module
+vi.mock("../../../../source/services/tools/discoverers/base.js", () => ({
+	createInstalledTool: vi.fn((def, path, version) => ({
+		...def,
+		executablePath: path,
+		version,
+		installed: true,
+	})),
+}));
+
+describe("scratchpad discoverer", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("detectScratchpad", () => {
+		it("should return an installed builtin tool", async () => {
+			const result = await detectScratchpad();
+
+			expect(result.installed).toBe(true);
+			expect(result.id).toBe("a-c-scratchpad");
+			expect(result.executablePath).toBe("builtin");
+		});
+
+		it("should have read and update actions", async () => {
+			const result = await detectScratchpad();
+
+			const read = result.actions.find((a) => a.name === "read");
+			const update = result.actions.find((a) => a.name === "update");
+			expect(read?.commandTemplate).toBe("__SCRATCHPAD_READ__");
+			expect(update?.commandTemplate).toBe("__SCRATCHPAD_UPDATE__");
+			expect(update?.parameters.map((p) => p.name)).toEqual([
+				"section",
+				"content",
+			]);
+		});
+
+		it("should mention the task line limit", async () => {
+			const result = await detectScratchpad();
+
+			const update = result.actions.find((a) => a.name === "update");
+			expect(update?.description).toContain(
+				`at most ${SCRATCHPAD_TASK_MAX_LINES} lines`,
+			);
+		});
+	});
+
+	describe("getScratchpadFilePath", () => {
+		it("should return the scratchpad path under .axiomate", () => {
+			const result = getScratchpadFilePath("/project");
+
+			expect(result).toContain(".axiomate");
+			expect(result).toContain("scratchpad.md");
+		});
+	});
+});
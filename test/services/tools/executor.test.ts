@@ -8,6 +8,7 @@ import {
 	getToolAction,
 	paramsToJsonSchema,
 	executeScript,
+	assessToolActionRisk,
 } from "../../../source/services/tools/executor.js";
 import type {
 	ToolAction,
@@ -15,7 +16,12 @@ import type {
 } from "../../../source/services/tools/types.js";
 import * as scriptWriter from "../../../source/services/tools/scriptWriter.js";
 import * as fileOperations from "../../../source/services/tools/fileOperations.js";
+import * as projectSearch from "../../../source/services/tools/projectSearch.js";
+import * as patchApplier from "../../../source/services/tools/patchApplier.js";
 import * as config from "../../../source/utils/config.js";
+import { ProcessManager } from "../../../source/services/tools/processManager.js";
+import { resolveSandbox } from "../../../source/services/tools/sandbox.js";
+import { stopRunningCommands } from "../../../source/services/tools/executorUtils.js";
 
 // Mock config module
 vi.mock("../../../source/utils/config.js", () => ({
@@ -33,6 +39,28 @@ vi.mock("../../../source/services/tools/fileOperations.js", () => ({
 	searchInFile: vi.fn(),
 }));
 
+// Mock project search
+vi.mock("../../../source/services/tools/projectSearch.js", () => ({
+	findFiles: vi.fn(),
+	grepFiles: vi.fn(),
+}));
+
+// Mock patch applier
+vi.mock("../../../source/services/tools/patchApplier.js", () => ({
+	applyPatch: vi.fn(),
+}));
+
+// Mock sandbox resolution (host execution unless a test overrides it)
+vi.mock(
+	"../../../source/services/tools/sandbox.js",
+	async (importOriginal) => ({
+		...(await importOriginal<
+			typeof import("../../../source/services/tools/sandbox.js")
+		>()),
+		resolveSandbox: vi.fn(async () => ({})),
+	}),
+);
+
 // Mock plan discoverer
 vi.mock("../../../source/services/tools/discoverers/plan.js", () => ({
 	getPlanFilePath: vi.fn(() => "/test/.axiomate/plans/plan.md"),
@@ -331,6 +359,76 @@ describe("Tool Executor", () => {
 			// Note: On Windows with shell=true, env variable expansion might differ
 			expect(result.success).toBe(true);
 		});
+
+		it("should pass args without a shell", async () => {
+			const arg = "a b; echo injected $HOME";
+			const result = await executeCommand(process.execPath, {
+				args: ["-e", "process.stdout.write(process.argv[1])", arg],
+				timeout: 5000,
+			});
+
+			expect(result.success).toBe(true);
+			expect(result.stdout).toBe(arg);
+		});
+
+		it("should stream output as it arrives", async () => {
+			const chunks: string[] = [];
+			const result = await executeCommand(process.execPath, {
+				args: [
+					"-e",
+					"process.stdout.write('a'); setTimeout(() => process.stderr.write('b'), 50)",
+				],
+				timeout: 5000,
+				onOutput: (chunk, stream) => chunks.push(`${stream}:${chunk}`),
+			});
+
+			expect(result.success).toBe(true);
+			expect(chunks).toEqual(["stdout:a", "stderr:b"]);
+		});
+
+		it("should kill the command when aborted", async () => {
+			const controller = new AbortController();
+			setTimeout(() => controller.abort(), 100);
+			const result = await executeCommand(process.execPath, {
+				args: ["-e", "setInterval(() => {}, 1000)"],
+				timeout: 5000,
+				signal: controller.signal,
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("Command execution aborted");
+		});
+
+		it("should detach long-running commands to the background", async () => {
+			const processes = new ProcessManager();
+			const result = await executeCommand(process.execPath, {
+				args: ["-e", "console.log('started'); setInterval(() => {}, 1000)"],
+				timeout: 5000,
+				detach: { after: 300, processes },
+			});
+
+			expect(result.success).toBe(true);
+			expect(result.stdout).toContain("started");
+			expect(result.stdout).toContain("process p1");
+			expect(processes.get("p1")?.status).toBe("running");
+			expect(processes.readOutput("p1")?.output).toContain("started");
+
+			processes.stopAll();
+			expect(processes.get("p1")?.status).toBe("killed");
+		});
+
+		it("should kill running commands on shutdown", async () => {
+			const pending = executeCommand(process.execPath, {
+				args: ["-e", "setInterval(() => {}, 1000)"],
+				timeout: 5000,
+			});
+
+			stopRunningCommands();
+			const result = await pending;
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBeUndefined();
+		});
 	});
 
 	describe("executeToolAction", () => {
@@ -511,6 +609,71 @@ describe("Tool Executor", () => {
 		});
 	});
 
+	describe("assessToolActionRisk", () => {
+		const tool: DiscoveredTool = {
+			id: "a-c-bash",
+			name: "Bash",
+			description: "Bash",
+			category: "shell",
+			installed: true,
+			actions: [],
+		};
+
+		it("should assess rendered command templates", () => {
+			const action: ToolAction = {
+				name: "push",
+				description: "Push",
+				commandTemplate: "git push {{flags}}",
+				parameters: [{ name: "flags", type: "string", description: "Flags" }],
+			};
+
+			const risk = assessToolActionRisk(tool, action, { flags: "--force" });
+			expect(risk?.level).toBe("dangerous");
+		});
+
+		it("should assess script content", () => {
+			const action: ToolAction = {
+				name: "run_script_content",
+				description: "Run script",
+				commandTemplate: "__SCRIPT_EXECUTION__",
+				parameters: [],
+			};
+
+			const risk = assessToolActionRisk(tool, action, {
+				content: "rm -rf build",
+			});
+			expect(risk?.level).toBe("dangerous");
+		});
+
+		it("should return null for special actions", () => {
+			const action: ToolAction = {
+				name: "read",
+				description: "Read",
+				commandTemplate: "__FILE_READ__",
+				parameters: [],
+			};
+
+			expect(assessToolActionRisk(tool, action, {})).toBeNull();
+		});
+
+		it("should attach risk metadata to command results", async () => {
+			const action: ToolAction = {
+				name: "run",
+				description: "Run",
+				commandTemplate: "echo hello",
+				parameters: [],
+			};
+
+			const result = await executeToolAction(
+				tool,
+				action,
+				{},
+				{ timeout: 5000 },
+			);
+			expect(result.metadata?.risk?.level).toBe("safe");
+		});
+	});
+
 	describe("getToolAction", () => {
 		it("should find action by name", () => {
 			const tool: DiscoveredTool = {
@@ -1125,6 +1288,40 @@ describe("Tool Executor", () => {
 			expect(result.stdout).toContain("[Encoding: utf-8]");
 		});
 
+		it("should report line endings and warnings for __FILE_READ__", async () => {
+			vi.mocked(fileOperations.readFileContent).mockReturnValue({
+				success: true,
+				content: "a\r\nb\nc",
+				encoding: { encoding: "utf-8", hasBOM: false },
+				lineEnding: {
+					lineEnding: "crlf",
+					hasTrailingNewline: false,
+					mixed: true,
+					lfCount: 1,
+					crlfCount: 1,
+				},
+				warning: "Mixed line endings (1 LF, 1 CRLF)",
+			});
+
+			const action: ToolAction = {
+				name: "read",
+				description: "Read file",
+				commandTemplate: "__FILE_READ__",
+				parameters: [
+					{ name: "path", type: "string", description: "Path", required: true },
+				],
+			};
+
+			const result = await executeToolAction(fileTool, action, {
+				path: "/test/file.txt",
+			});
+
+			expect(result.stdout).toContain(
+				"[Encoding: utf-8, Line endings: CRLF, no trailing newline]\n" +
+					"[Warning: Mixed line endings (1 LF, 1 CRLF)]\n",
+			);
+		});
+
 		it("should handle __FILE_READ__ failure", async () => {
 			vi.mocked(fileOperations.readFileContent).mockReturnValue({
 				success: false,
@@ -1335,6 +1532,229 @@ describe("Tool Executor", () => {
 			expect(result.success).toBe(true);
 			expect(result.stdout).toBe("(no matches)");
 		});
+
+		it("should handle __FILE_APPLY_PATCH__ action", async () => {
+			vi.mocked(patchApplier.applyPatch).mockReturnValue({
+				success: true,
+				changes: [
+					{
+						operation: "modify",
+						path: "src/a.ts",
+						hunks: 2,
+						notes: ["hunk 2 applied at offset +3"],
+					},
+					{ operation: "create", path: "src/b.ts", hunks: 1, notes: [] },
+					{
+						operation: "rename",
+						path: "src/d.ts",
+						fromPath: "src/c.ts",
+						hunks: 0,
+						notes: [],
+					},
+				],
+				failures: [],
+			});
+
+			const action: ToolAction = {
+				name: "apply_patch",
+				description: "Apply patch",
+				commandTemplate: "__FILE_APPLY_PATCH__",
+				parameters: [],
+			};
+
+			const result = await executeToolAction(fileTool, action, {
+				patch: "--- a/src/a.ts\n+++ b/src/a.ts\n",
+			});
+
+			expect(patchApplier.applyPatch).toHaveBeenCalledWith(
+				expect.any(String),
+				"--- a/src/a.ts\n+++ b/src/a.ts\n",
+			);
+			expect(result.success).toBe(true);
+			expect(result.stdout).toBe(
+				[
+					"Applied patch to 3 file(s):",
+					"M src/a.ts (2 hunk(s))",
+					"  hunk 2 applied at offset +3",
+					"A src/b.ts (1 hunk(s))",
+					"R src/c.ts -> src/d.ts",
+				].join("\n"),
+			);
+		});
+
+		it("should report failed hunks from __FILE_APPLY_PATCH__", async () => {
+			vi.mocked(patchApplier.applyPatch).mockReturnValue({
+				success: false,
+				changes: [],
+				failures: [
+					{
+						path: "src/a.ts",
+						hunk: 2,
+						header: "@@ -10,3 +10,3 @@",
+						reason: "context not found",
+					},
+					{ path: "src/b.ts", hunk: null, reason: "File not found" },
+				],
+			});
+
+			const action: ToolAction = {
+				name: "apply_patch",
+				description: "Apply patch",
+				commandTemplate: "__FILE_APPLY_PATCH__",
+				parameters: [],
+			};
+
+			const result = await executeToolAction(fileTool, action, {
+				patch: "...",
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("no files were changed");
+			expect(result.error).toContain(
+				"src/a.ts hunk 2 (@@ -10,3 +10,3 @@): context not found",
+			);
+			expect(result.error).toContain("src/b.ts: File not found");
+		});
+
+		it("should handle __FILE_FIND__ action with pagination", async () => {
+			vi.mocked(projectSearch.findFiles).mockResolvedValue({
+				success: true,
+				files: ["src/a.ts", "src/b.ts"],
+				offset: 0,
+				hasMore: true,
+			});
+
+			const action: ToolAction = {
+				name: "find_files",
+				description: "Find files",
+				commandTemplate: "__FILE_FIND__",
+				parameters: [],
+			};
+
+			const result = await executeToolAction(fileTool, action, {
+				pattern: "*.ts",
+				exclude: "dist/**, *.d.ts",
+				max_results: 2,
+			});
+
+			expect(projectSearch.findFiles).toHaveBeenCalledWith(
+				expect.any(String),
+				"*.ts",
+				expect.objectContaining({
+					exclude: ["dist/**", "*.d.ts"],
+					maxResults: 2,
+					offset: 0,
+				}),
+			);
+			expect(result.success).toBe(true);
+			expect(result.stdout).toBe(
+				"[Files 1-2, more available: offset=2]\nsrc/a.ts\nsrc/b.ts",
+			);
+		});
+
+		it("should handle __FILE_GREP__ action with context lines", async () => {
+			vi.mocked(projectSearch.grepFiles).mockResolvedValue({
+				success: true,
+				matches: [
+					{
+						path: "src/a.ts",
+						line: 5,
+						column: 3,
+						content: "  hello",
+						match: "hello",
+						before: ["line 4"],
+						after: ["line 6"],
+						encoding: "utf-8",
+					},
+					{
+						path: "src/b.ts",
+						line: 1,
+						column: 1,
+						content: "hello",
+						match: "hello",
+						before: [],
+						after: ["line 2"],
+						encoding: "gbk",
+					},
+				],
+				offset: 0,
+				hasMore: false,
+				filesSearched: 4,
+			});
+
+			const action: ToolAction = {
+				name: "grep",
+				description: "Grep",
+				commandTemplate: "__FILE_GREP__",
+				parameters: [],
+			};
+
+			const result = await executeToolAction(fileTool, action, {
+				pattern: "hello",
+				context_lines: 1,
+			});
+
+			expect(result.success).toBe(true);
+			expect(result.stdout).toBe(
+				[
+					"[Matches 1-2 in 4 file(s) searched]",
+					"src/a.ts-4- line 4",
+					"src/a.ts:5:3:   hello",
+					"src/a.ts-6- line 6",
+					"--",
+					"src/b.ts:1:1: hello",
+					"src/b.ts-2- line 2",
+				].join("\n"),
+			);
+		});
+
+		it("should pass a case-insensitive regex to grep", async () => {
+			vi.mocked(projectSearch.grepFiles).mockResolvedValue({
+				success: true,
+				matches: [],
+				offset: 0,
+				hasMore: false,
+				filesSearched: 0,
+			});
+
+			const action: ToolAction = {
+				name: "grep",
+				description: "Grep",
+				commandTemplate: "__FILE_GREP__",
+				parameters: [],
+			};
+
+			const result = await executeToolAction(fileTool, action, {
+				pattern: "a.b",
+				ignore_case: true,
+			});
+
+			const pattern = vi.mocked(projectSearch.grepFiles).mock.calls[0]![1];
+			expect(pattern).toBeInstanceOf(RegExp);
+			expect((pattern as RegExp).test("A.B")).toBe(true);
+			expect((pattern as RegExp).test("axb")).toBe(false);
+			expect(result.stdout).toBe(
+				"[Matches in 0 file(s) searched]\n(no matches)",
+			);
+		});
+
+		it("should reject an invalid grep regex", async () => {
+			const action: ToolAction = {
+				name: "grep",
+				description: "Grep",
+				commandTemplate: "__FILE_GREP__",
+				parameters: [],
+			};
+
+			const result = await executeToolAction(fileTool, action, {
+				pattern: "(unclosed",
+				regex: true,
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("Invalid regex");
+			expect(projectSearch.grepFiles).not.toHaveBeenCalled();
+		});
 	});
 
 	describe("executeToolAction - plan operations", () => {
@@ -1574,4 +1994,448 @@ describe("Tool Executor", () => {
 			expect(config.setPlanModeEnabled).toHaveBeenCalledWith(false);
 		});
 	});
+
+	describe("executeToolAction - scratchpad operations", () => {
+		const scratchpadTool: DiscoveredTool = {
+			id: "a-c-scratchpad",
+			name: "Scratchpad",
+			description: "Scratchpad",
+			category: "utility",
+			installed: true,
+			actions: [],
+		};
+
+		const readAction: ToolAction = {
+			name: "read",
+			description: "Read scratchpad",
+			commandTemplate: "__SCRATCHPAD_READ__",
+			parameters: [],
+		};
+
+		const updateAction: ToolAction = {
+			name: "update",
+			description: "Update scratchpad",
+			commandTemplate: "__SCRATCHPAD_UPDATE__",
+			parameters: [
+				{
+					name: "section",
+					type: "string",
+					description: "Section",
+					required: true,
+				},
+				{
+					name: "content",
+					type: "string",
+					description: "Content",
+					required: true,
+				},
+			],
+		};
+
+		const existing = [
+			"# Scratchpad",
+			"",
+			"## Current Task",
+			"",
+			"Old goal",
+			"",
+			"## Todo",
+			"",
+			"- [x] step one",
+			"- [ ] step two",
+			"",
+		].join("\n");
+
+		beforeEach(() => {
+			vi.clearAllMocks();
+			vi.mocked(fileOperations.writeFileContent).mockReturnValue({
+				success: true,
+				path: "/test/.axiomate/scratchpad.md",
+			});
+		});
+
+		it("should report an empty scratchpad", async () => {
+			vi.mocked(fileOperations.readFileContent).mockReturnValue({
+				success: false,
+			});
+
+			const result = await executeToolAction(scratchpadTool, readAction, {});
+
+			expect(result.success).toBe(true);
+			expect(result.stdout).toBe("[Scratchpad is empty]");
+		});
+
+		it("should read the scratchpad sections", async () => {
+			vi.mocked(fileOperations.readFileContent).mockReturnValue({
+				success: true,
+				content: existing,
+			});
+
+			const result = await executeToolAction(scratchpadTool, readAction, {});
+
+			expect(result.stdout).toContain("## Current Task\n\nOld goal");
+			expect(result.stdout).toContain("- [ ] step two");
+		});
+
+		it("should rewrite one section and return OK", async () => {
+			vi.mocked(fileOperations.readFileContent).mockReturnValue({
+				success: true,
+				content: existing,
+			});
+
+			const result = await executeToolAction(scratchpadTool, updateAction, {
+				section: "task",
+				content: "New goal\nKeep API stable",
+			});
+
+			expect(result.success).toBe(true);
+			expect(result.stdout).toBe("OK");
+			const written = vi.mocked(fileOperations.writeFileContent).mock
+				.calls[0]![1];
+			expect(written).toContain("## Current Task\n\nNew goal\nKeep API stable");
+			expect(written).not.toContain("Old goal");
+			// The other section is preserved
+			expect(written).toContain("- [x] step one\n- [ ] step two");
+		});
+
+		it("should create the file with both sections", async () => {
+			vi.mocked(fileOperations.readFileContent).mockReturnValue({
+				success: false,
+			});
+
+			await executeToolAction(scratchpadTool, updateAction, {
+				section: "todo",
+				content: "- [ ] first",
+			});
+
+			const written = vi.mocked(fileOperations.writeFileContent).mock
+				.calls[0]![1];
+			expect(written).toBe(
+				"# Scratchpad\n\n## Current Task\n\n## Todo\n\n- [ ] first\n",
+			);
+		});
+
+		it("should reject a task longer than 10 lines", async () => {
+			const result = await executeToolAction(scratchpadTool, updateAction, {
+				section: "task",
+				content: Array.from({ length: 11 }, (_, i) => `line ${i}`).join("\n"),
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("at most 10 lines");
+			expect(fileOperations.writeFileContent).not.toHaveBeenCalled();
+		});
+
+		it("should reject todo lines that are not checklist items", async () => {
+			const result = await executeToolAction(scratchpadTool, updateAction, {
+				section: "todo",
+				content: "- [ ] ok\njust a note",
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("just a note");
+		});
+
+		it("should reject headings inside a section", async () => {
+			const result = await executeToolAction(scratchpadTool, updateAction, {
+				section: "task",
+				content: "## Todo\n- [ ] sneaky",
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("headings");
+		});
+
+		it("should reject unknown sections", async () => {
+			const result = await executeToolAction(scratchpadTool, updateAction, {
+				section: "notes",
+				content: "anything",
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("Invalid section");
+		});
+	});
+
+	describe("executeToolAction - process operations", () => {
+		const processTool: DiscoveredTool = {
+			id: "a-c-process",
+			name: "Background Processes",
+			description: "Background processes",
+			category: "utility",
+			installed: true,
+			actions: [],
+		};
+		const action = (name: string, template: string): ToolAction => ({
+			name,
+			description: name,
+			commandTemplate: template,
+			parameters: [],
+		});
+		const statusAction = action("status", "__PROCESS_STATUS__");
+		const readAction = action("read_output", "__PROCESS_READ_OUTPUT__");
+		const stopAction = action("stop", "__PROCESS_STOP__");
+
+		it("should fail without a process manager", async () => {
+			const result = await executeToolAction(processTool, statusAction, {});
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("not available");
+		});
+
+		it("should list, read and stop background processes", async () => {
+			const processes = new ProcessManager();
+			const options = { processes };
+
+			const empty = await executeToolAction(
+				processTool,
+				statusAction,
+				{},
+				options,
+			);
+			expect(empty.stdout).toBe("No background processes");
+
+			await executeCommand(process.execPath, {
+				args: [
+					"-e",
+					"process.stdout.write('tick'); setInterval(() => {}, 1000)",
+				],
+				timeout: 5000,
+				detach: { after: 300, processes },
+			});
+
+			const status = await executeToolAction(
+				processTool,
+				statusAction,
+				{},
+				options,
+			);
+			expect(status.stdout).toMatch(/^p1 running \(pid \d+, \d+s\) /);
+
+			const output = await executeToolAction(
+				processTool,
+				readAction,
+				{ id: "p1" },
+				options,
+			);
+			expect(output.success).toBe(true);
+			expect(output.stdout).toContain("offset: 4");
+			expect(output.stdout).toContain("tick");
+
+			const newOutput = await executeToolAction(
+				processTool,
+				readAction,
+				{ id: "p1", since: 4 },
+				options,
+			);
+			expect(newOutput.stdout).not.toContain("tick");
+
+			const stopped = await executeToolAction(
+				processTool,
+				stopAction,
+				{ id: "p1" },
+				options,
+			);
+			expect(stopped.stdout).toBe("Stopped p1");
+			expect(processes.get("p1")?.status).toBe("killed");
+		});
+
+		it("should start processes and send them input", async () => {
+			const processes = new ProcessManager();
+			const startAction: ToolAction = {
+				name: "start",
+				description: "start",
+				commandTemplate: "__PROCESS_START__",
+				parameters: [
+					{
+						name: "command",
+						description: "Command",
+						type: "string",
+						required: true,
+					},
+				],
+			};
+			const sendAction = action("send_input", "__PROCESS_SEND_INPUT__");
+
+			const started = await executeToolAction(
+				processTool,
+				startAction,
+				{
+					command: `"${process.execPath}" -e "process.stdin.pipe(process.stdout)"`,
+				},
+				{ processes },
+			);
+			expect(started.success).toBe(true);
+			expect(started.stdout).toMatch(/^Started p1: /);
+
+			const sent = await executeToolAction(
+				processTool,
+				sendAction,
+				{ id: "p1", input: "hello" },
+				{ processes },
+			);
+			expect(sent.stdout).toBe("Sent 6 characters to p1");
+
+			processes.stopAll();
+			const again = await executeToolAction(
+				processTool,
+				sendAction,
+				{ id: "p1", input: "hello" },
+				{ processes },
+			);
+			expect(again.error).toBe("Process p1 is not running");
+		});
+
+		it("should start processes in the sandbox when the policy applies", async () => {
+			const processes = new ProcessManager();
+			const start = vi.spyOn(processes, "start").mockReturnValue("p1");
+			const sandbox = {
+				runtime: "docker" as const,
+				image: "bash:5",
+				network: false,
+				memory: "1g",
+				cpus: "1",
+			};
+			vi.mocked(resolveSandbox).mockResolvedValueOnce({
+				config: sandbox,
+				info: { runtime: "docker", image: "bash:5" },
+			});
+
+			const result = await executeToolAction(
+				processTool,
+				action("start", "__PROCESS_START__"),
+				{ command: "npm run dev" },
+				{ processes, cwd: "/project" },
+			);
+
+			expect(resolveSandbox).toHaveBeenCalledWith(
+				"bash",
+				expect.objectContaining({ level: expect.any(String) }),
+			);
+			expect(start).toHaveBeenCalledWith("npm run dev", {
+				cwd: "/project",
+				sandbox,
+			});
+			expect(result.metadata?.sandbox).toEqual({
+				runtime: "docker",
+				image: "bash:5",
+			});
+		});
+
+		it("should assess the risk of started commands", () => {
+			const startAction = action("start", "__PROCESS_START__");
+
+			expect(
+				assessToolActionRisk(processTool, startAction, {
+					command: "rm -rf /",
+				})?.level,
+			).toBe("dangerous");
+		});
+
+		it("should report unknown processes", async () => {
+			const result = await executeToolAction(
+				processTool,
+				readAction,
+				{ id: "p9" },
+				{ processes: new ProcessManager() },
+			);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("Unknown process: p9");
+		});
+	});
+
+	describe("executeToolAction - agent operations", () => {
+		const agentTool: DiscoveredTool = {
+			id: "a-c-agent",
+			name: "Sub-agent",
+			description: "Sub-agent",
+			category: "utility",
+			installed: true,
+			actions: [],
+		};
+		const delegateAction: ToolAction = {
+			name: "delegate",
+			description: "delegate",
+			commandTemplate: "__AGENT_DELEGATE__",
+			parameters: [],
+		};
+
+		it("should fail without a sub-agent runner", async () => {
+			const result = await executeToolAction(agentTool, delegateAction, {
+				task: "Find the config",
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("not available");
+		});
+
+		it("should return the summary of the sub-agent", async () => {
+			const onOutput = vi.fn();
+			const delegate = vi.fn(async (_task: string, options) => {
+				options.onOutput?.("a-c-file:grep pattern=db\n", "stdout");
+				return "Found in src/db.ts\n";
+			});
+
+			const result = await executeToolAction(
+				agentTool,
+				delegateAction,
+				{ task: "  Find the config " },
+				{ delegate, onOutput },
+			);
+
+			expect(delegate).toHaveBeenCalledWith("Find the config", {
+				onOutput,
+				signal: undefined,
+			});
+			expect(onOutput).toHaveBeenCalledWith(
+				"a-c-file:grep pattern=db\n",
+				"stdout",
+			);
+			expect(result).toMatchObject({
+				success: true,
+				stdout: "Found in src/db.ts",
+			});
+		});
+
+		it("should require a task", async () => {
+			const delegate = vi.fn();
+
+			const result = await executeToolAction(
+				agentTool,
+				delegateAction,
+				{ task: " " },
+				{ delegate },
+			);
+
+			expect(result.error).toBe("Task is required");
+			expect(delegate).not.toHaveBeenCalled();
+		});
+
+		it("should report aborted and failed sub-agents", async () => {
+			const aborted = await executeToolAction(
+				agentTool,
+				delegateAction,
+				{ task: "Find the config" },
+				{
+					delegate: async () => {
+						throw new DOMException("Request was aborted", "AbortError");
+					},
+				},
+			);
+			expect(aborted.error).toBe("Sub-agent aborted");
+
+			const failed = await executeToolAction(
+				agentTool,
+				delegateAction,
+				{ task: "Find the config" },
+				{
+					delegate: async () => {
+						throw new Error("API error");
+					},
+				},
+			);
+			expect(failed.error).toBe("Sub-agent failed: API error");
+		});
+	});
 });
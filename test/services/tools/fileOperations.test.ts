@@ -161,6 +161,31 @@ describe("fileOperations", () => {
 			expect(result.encoding?.encoding).toBe("utf-8");
 		});
 
+		it("should report line endings and warn about mixed endings", () => {
+			vi.mocked(existsSync).mockReturnValue(true);
+			vi.mocked(statSync).mockReturnValue({
+				size: 1024,
+			} as ReturnType<typeof statSync>);
+			vi.mocked(readFileSync).mockReturnValue(Buffer.from("a\r\nb\r\nc\nd"));
+			vi.mocked(detectEncoding).mockReturnValue({
+				encoding: "utf-8",
+				confidence: 0.85,
+				hasBOM: false,
+				bomBytes: 0,
+			});
+
+			const result = readFileContent("/path/to/file.txt");
+
+			expect(result.lineEnding).toEqual({
+				lineEnding: "crlf",
+				hasTrailingNewline: false,
+				mixed: true,
+				lfCount: 1,
+				crlfCount: 2,
+			});
+			expect(result.warning).toContain("Mixed line endings (1 LF, 2 CRLF)");
+		});
+
 		it("should read file with UTF-8 BOM and strip it", () => {
 			vi.mocked(existsSync).mockReturnValue(true);
 			vi.mocked(statSync).mockReturnValue({
@@ -285,6 +310,85 @@ describe("fileOperations", () => {
 			expect(result.success).toBe(true);
 		});
 
+		it("should normalise content to existing CRLF line endings", () => {
+			vi.mocked(existsSync).mockImplementation((path) => {
+				return path === "/path/to/file.txt";
+			});
+			vi.mocked(readFileSync).mockReturnValue(Buffer.from("old\r\ntext\r\n"));
+			vi.mocked(detectEncoding).mockReturnValue({
+				encoding: "utf-8",
+				confidence: 0.85,
+				hasBOM: false,
+				bomBytes: 0,
+			});
+
+			const result = writeFileContent("/path/to/file.txt", "new\ntext");
+
+			expect(result.lineEnding).toBe("crlf");
+			expect(vi.mocked(writeFileSync).mock.calls[0]![1]!.toString()).toBe(
+				"new\r\ntext\r\n",
+			);
+		});
+
+		it("should keep a missing trailing newline", () => {
+			vi.mocked(existsSync).mockImplementation((path) => {
+				return path === "/path/to/file.txt";
+			});
+			vi.mocked(readFileSync).mockReturnValue(Buffer.from("old\ntext"));
+			vi.mocked(detectEncoding).mockReturnValue({
+				encoding: "utf-8",
+				confidence: 0.85,
+				hasBOM: false,
+				bomBytes: 0,
+			});
+
+			writeFileContent("/path/to/file.txt", "new\ntext\n");
+
+			expect(vi.mocked(writeFileSync).mock.calls[0]![1]!.toString()).toBe(
+				"new\ntext",
+			);
+		});
+
+		it("should only convert line breaks when appending", () => {
+			vi.mocked(existsSync).mockImplementation((path) => {
+				return path === "/path/to/file.txt";
+			});
+			vi.mocked(readFileSync).mockReturnValue(Buffer.from("a\r\n"));
+			vi.mocked(detectEncoding).mockReturnValue({
+				encoding: "utf-8",
+				confidence: 0.85,
+				hasBOM: false,
+				bomBytes: 0,
+			});
+
+			writeFileContent("/path/to/file.txt", "b\nc", "append");
+
+			expect(vi.mocked(appendFileSync).mock.calls[0]![1]!.toString()).toBe(
+				"b\r\nc",
+			);
+		});
+
+		it("should not touch line endings when preservation is disabled", () => {
+			vi.mocked(existsSync).mockImplementation((path) => {
+				return path === "/path/to/file.txt";
+			});
+
+			const result = writeFileContent(
+				"/path/to/file.txt",
+				"a\nb",
+				"overwrite",
+				"utf-8",
+				false,
+				false,
+			);
+
+			expect(result.lineEnding).toBeUndefined();
+			expect(readFileSync).not.toHaveBeenCalled();
+			expect(vi.mocked(writeFileSync).mock.calls[0]![1]!.toString()).toBe(
+				"a\nb",
+			);
+		});
+
 		it("should use specified encoding", () => {
 			vi.mocked(existsSync).mockReturnValue(false);
 
@@ -451,6 +555,24 @@ describe("fileOperations", () => {
 			expect(result.error).toBe("Cannot read");
 		});
 
+		it("should match LF old content against a CRLF file", () => {
+			vi.mocked(readFileSync).mockReturnValue(
+				Buffer.from("one\r\ntwo\r\nthree\r\n"),
+			);
+
+			const result = editFileContent(
+				"/path/to/file.txt",
+				"one\ntwo",
+				"ONE\nTWO\nextra",
+			);
+
+			expect(result.success).toBe(true);
+			expect(result.lineEnding).toBe("crlf");
+			expect(vi.mocked(writeFileSync).mock.calls[0]![1]!.toString()).toBe(
+				"ONE\r\nTWO\r\nextra\r\nthree\r\n",
+			);
+		});
+
 		it("should default to utf-8 when encoding is undefined", () => {
 			vi.mocked(detectEncoding).mockReturnValue({
 				encoding: "utf-8",
@@ -570,6 +692,18 @@ describe("fileOperations", () => {
 			expect(result.totalLines).toBe(3);
 		});
 
+		it("should include line ending info in result", () => {
+			vi.mocked(readFileSync).mockReturnValue(
+				Buffer.from("Line 1\r\nLine 2\r\n"),
+			);
+
+			const result = readFileLines("/path/to/file.txt", 1, 1);
+
+			expect(result.lineEnding?.lineEnding).toBe("crlf");
+			expect(result.lineEnding?.hasTrailingNewline).toBe(true);
+			expect(result.warning).toBeUndefined();
+		});
+
 		it("should include encoding info in result", () => {
 			vi.mocked(readFileSync).mockReturnValue(Buffer.from("Line 1"));
 			vi.mocked(detectEncoding).mockReturnValue({
@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { execFileSync } from "node:child_process";
+import {
+	buildGitArgs,
+	detectGitOperation,
+	gitHandler,
+	parseGitStatus,
+} from "../../../../source/services/tools/handlers/gitHandler.js";
+import type {
+	DiscoveredTool,
+	ToolAction,
+} from "../../../../source/services/tools/types.js";
+
+describe("gitHandler", () => {
+	describe("buildGitArgs", () => {
+		it("should pass commit messages as a single argument", () => {
+			const message = 'fix: handle "quotes" and $(subshells); rm -rf /';
+			expect(buildGitArgs("__GIT_COMMIT__", { message })).toEqual([
+				"commit",
+				"-m",
+				message,
+			]);
+		});
+
+		it("should build diff args for staged, ref and file", () => {
+			expect(buildGitArgs("__GIT_DIFF__", {})).toEqual(["diff"]);
+			expect(
+				buildGitArgs("__GIT_DIFF__", {
+					staged: true,
+					ref: "main",
+					file: "a.ts",
+				}),
+			).toEqual(["diff", "--cached", "main", "--", "a.ts"]);
+			expect(buildGitArgs("__GIT_DIFF__", { staged: "false" })).toEqual([
+				"diff",
+			]);
+		});
+
+		it("should build blame line ranges", () => {
+			expect(
+				buildGitArgs("__GIT_BLAME__", {
+					file: "a.ts",
+					start_line: 10,
+					end_line: 20,
+				}),
+			).toEqual(["blame", "--date=short", "-L", "10,20", "--", "a.ts"]);
+			expect(
+				buildGitArgs("__GIT_BLAME__", { file: "a.ts", start_line: 5 }),
+			).toEqual(["blame", "--date=short", "-L", "5,", "--", "a.ts"]);
+			expect(buildGitArgs("__GIT_BLAME__", { file: "a.ts" })).toEqual([
+				"blame",
+				"--date=short",
+				"--",
+				"a.ts",
+			]);
+		});
+
+		it("should build stash and branch args", () => {
+			expect(
+				buildGitArgs("__GIT_STASH_PUSH__", {
+					message: "wip",
+					include_untracked: true,
+				}),
+			).toEqual(["stash", "push", "--include-untracked", "-m", "wip"]);
+			expect(buildGitArgs("__GIT_STASH_POP__", { index: 2 })).toEqual([
+				"stash",
+				"pop",
+				"stash@{2}",
+			]);
+			expect(
+				buildGitArgs("__GIT_BRANCH_CREATE__", {
+					name: "feature",
+					start_point: "main",
+				}),
+			).toEqual(["branch", "feature", "main"]);
+			expect(
+				buildGitArgs("__GIT_BRANCH_DELETE__", { name: "feature", force: true }),
+			).toEqual(["branch", "-D", "feature"]);
+		});
+
+		it("should reject refs that look like options", () => {
+			expect(buildGitArgs("__GIT_SHOW__", { ref: "--output=x" })).toBe(
+				"Invalid ref: --output=x",
+			);
+			expect(buildGitArgs("__GIT_CHECKOUT__", { branch: "-f" })).toBe(
+				"Invalid branch: -f",
+			);
+		});
+
+		it("should report unknown actions", () => {
+			expect(buildGitArgs("__GIT_UNKNOWN__", {})).toBe(
+				"Unknown git action: __GIT_UNKNOWN__",
+			);
+		});
+	});
+
+	describe("parseGitStatus", () => {
+		it("should parse branch headers and entries", () => {
+			const output = [
+				"# branch.oid 1234567890abcdef",
+				"# branch.head main",
+				"# branch.upstream origin/main",
+				"# branch.ab +2 -1",
+				"1 M. N... 100644 100644 100644 aaa bbb staged.ts",
+				"1 .M N... 100644 100644 100644 aaa aaa dir/with space.ts",
+				"1 MD N... 100644 100644 000000 aaa bbb both.ts",
+				"2 R. N... 100644 100644 100644 aaa aaa R100 new.ts",
+				"old.ts",
+				"u UU N... 100644 100644 100644 100644 aaa bbb ccc conflict.ts",
+				"? untracked.ts",
+				"",
+			].join("\0");
+
+			const status = parseGitStatus(output);
+
+			expect(status.branch).toEqual({
+				head: "main",
+				oid: "1234567890abcdef",
+				upstream: "origin/main",
+				ahead: 2,
+				behind: 1,
+			});
+			expect(status.staged).toEqual([
+				{ path: "staged.ts", status: "modified" },
+				{ path: "both.ts", status: "modified" },
+				{ path: "new.ts", status: "renamed", origPath: "old.ts" },
+			]);
+			expect(status.unstaged).toEqual([
+				{ path: "dir/with space.ts", status: "modified" },
+				{ path: "both.ts", status: "deleted" },
+			]);
+			expect(status.conflicted).toEqual([{ path: "conflict.ts", code: "UU" }]);
+			expect(status.untracked).toEqual(["untracked.ts"]);
+		});
+
+		it("should handle initial commit and detached HEAD", () => {
+			const status = parseGitStatus(
+				"# branch.oid (initial)\0# branch.head (detached)\0",
+			);
+
+			expect(status.branch.oid).toBeNull();
+			expect(status.branch.head).toBeNull();
+			expect(status.branch.upstream).toBeNull();
+		});
+	});
+
+	describe("detectGitOperation", () => {
+		let gitDir: string;
+
+		beforeEach(() => {
+			gitDir = mkdtempSync(join(tmpdir(), "axiomate-gitdir-"));
+		});
+
+		afterEach(() => {
+			rmSync(gitDir, { recursive: true, force: true });
+		});
+
+		it("should return null when nothing is in progress", () => {
+			expect(detectGitOperation(gitDir)).toBeNull();
+		});
+
+		it("should detect an interactive rebase with progress", () => {
+			mkdirSync(join(gitDir, "rebase-merge"));
+			writeFileSync(
+				join(gitDir, "rebase-merge", "head-name"),
+				"refs/heads/feature\n",
+			);
+			writeFileSync(join(gitDir, "rebase-merge", "msgnum"), "2\n");
+			writeFileSync(join(gitDir, "rebase-merge", "end"), "5\n");
+
+			expect(detectGitOperation(gitDir)).toEqual({
+				type: "rebase",
+				branch: "feature",
+				step: 2,
+				total: 5,
+			});
+		});
+
+		it("should detect merge and cherry-pick", () => {
+			writeFileSync(join(gitDir, "MERGE_HEAD"), "abc\n");
+			expect(detectGitOperation(gitDir)).toEqual({ type: "merge" });
+
+			rmSync(join(gitDir, "MERGE_HEAD"));
+			writeFileSync(join(gitDir, "CHERRY_PICK_HEAD"), "abc\n");
+			expect(detectGitOperation(gitDir)).toEqual({ type: "cherry-pick" });
+		});
+	});
+
+	describe("handle", () => {
+		let repoDir: string;
+		const tool = { id: "a-c-git", executablePath: "git" } as DiscoveredTool;
+
+		const run = (commandTemplate: string, params = {}) =>
+			gitHandler.handle({
+				tool,
+				action: { name: "test", commandTemplate } as ToolAction,
+				params,
+				options: { cwd: repoDir, timeout: 10000 },
+			});
+
+		beforeEach(() => {
+			repoDir = mkdtempSync(join(tmpdir(), "axiomate-git-"));
+			const git = (...args: string[]) =>
+				execFileSync("git", args, { cwd: repoDir, stdio: "ignore" });
+			git("init", "-q", "-b", "main");
+			git("config", "user.name", "Test");
+			git("config", "user.email", "test@example.com");
+			git("config", "commit.gpgsign", "false");
+		});
+
+		afterEach(() => {
+			rmSync(repoDir, { recursive: true, force: true });
+		});
+
+		it("should return structured status as JSON", async () => {
+			writeFileSync(join(repoDir, "new file.txt"), "hello world\n");
+
+			const result = await run("__GIT_STATUS__");
+
+			expect(result.success).toBe(true);
+			const status = JSON.parse(result.stdout);
+			expect(status.branch.head).toBe("main");
+			expect(status.untracked).toEqual(["new file.txt"]);
+			expect(status.operation).toBeNull();
+			expect(status.clean).toBe(false);
+		});
+
+		it("should add and commit with a message containing shell characters", async () => {
+			writeFileSync(join(repoDir, "a.txt"), "first line of content\n");
+			const message = 'Add "a.txt" && echo `whoami` $HOME';
+
+			expect((await run("__GIT_ADD__", { file: "a.txt" })).success).toBe(true);
+			const commit = await run("__GIT_COMMIT__", { message });
+			expect(commit.success).toBe(true);
+
+			const log = execFileSync("git", ["log", "-1", "--format=%s"], {
+				cwd: repoDir,
+				encoding: "utf-8",
+			});
+			expect(log.trim()).toBe(message);
+
+			const status = JSON.parse((await run("__GIT_STATUS__")).stdout);
+			expect(status.clean).toBe(true);
+			expect(status.branch.oid).toMatch(/^[0-9a-f]{40}$/);
+		});
+
+		it("should report git errors", async () => {
+			const result = await run("__GIT_SHOW__", { ref: "does-not-exist" });
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBeTruthy();
+		});
+
+		it("should report an empty stash list", async () => {
+			const result = await run("__GIT_STASH_LIST__");
+
+			expect(result.success).toBe(true);
+			expect(result.stdout).toBe("(no stashes)");
+		});
+	});
+});
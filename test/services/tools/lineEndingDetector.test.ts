@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+	detectLineEnding,
+	getLineEndingSequence,
+	getMixedLineEndingWarning,
+	matchLineEndings,
+	normalizeLineEndings,
+} from "../../../source/services/tools/lineEndingDetector.js";
+
+describe("lineEndingDetector", () => {
+	describe("detectLineEnding", () => {
+		it("should detect LF", () => {
+			expect(detectLineEnding("a\nb\n")).toEqual({
+				lineEnding: "lf",
+				hasTrailingNewline: true,
+				mixed: false,
+				lfCount: 2,
+				crlfCount: 0,
+			});
+		});
+
+		it("should detect CRLF without trailing newline", () => {
+			const info = detectLineEnding("a\r\nb\r\nc");
+
+			expect(info.lineEnding).toBe("crlf");
+			expect(info.hasTrailingNewline).toBe(false);
+			expect(info.mixed).toBe(false);
+		});
+
+		it("should use the dominant ending for mixed content", () => {
+			const info = detectLineEnding("a\r\nb\r\nc\nd\r\n");
+
+			expect(info.lineEnding).toBe("crlf");
+			expect(info.mixed).toBe(true);
+			expect(info.lfCount).toBe(1);
+			expect(info.crlfCount).toBe(3);
+		});
+
+		it("should default to LF for text without line breaks", () => {
+			expect(detectLineEnding("single line").lineEnding).toBe("lf");
+		});
+	});
+
+	describe("normalizeLineEndings", () => {
+		it("should convert all line breaks", () => {
+			expect(normalizeLineEndings("a\nb\r\nc", "crlf")).toBe("a\r\nb\r\nc");
+			expect(normalizeLineEndings("a\r\nb\nc", "lf")).toBe("a\nb\nc");
+		});
+
+		it("should map endings to sequences", () => {
+			expect(getLineEndingSequence("lf")).toBe("\n");
+			expect(getLineEndingSequence("crlf")).toBe("\r\n");
+		});
+	});
+
+	describe("matchLineEndings", () => {
+		it("should convert endings and add a trailing newline", () => {
+			const original = detectLineEnding("x\r\ny\r\n");
+
+			expect(matchLineEndings("a\nb", original)).toBe("a\r\nb\r\n");
+		});
+
+		it("should remove a trailing newline the original lacks", () => {
+			const original = detectLineEnding("x\ny");
+
+			expect(matchLineEndings("a\nb\n", original)).toBe("a\nb");
+		});
+
+		it("should leave content unchanged when the original has no line breaks", () => {
+			const original = detectLineEnding("");
+
+			expect(matchLineEndings("a\r\nb\n", original)).toBe("a\r\nb\n");
+		});
+
+		it("should leave empty content unchanged", () => {
+			expect(matchLineEndings("", detectLineEnding("x\r\n"))).toBe("");
+		});
+	});
+
+	describe("getMixedLineEndingWarning", () => {
+		it("should warn only for mixed endings", () => {
+			expect(getMixedLineEndingWarning(detectLineEnding("a\nb\n"))).toBe(
+				undefined,
+			);
+			expect(getMixedLineEndingWarning(detectLineEnding("a\nb\r\nc\r\n"))).toBe(
+				"Mixed line endings (1 LF, 2 CRLF), writes are normalised to CRLF",
+			);
+		});
+	});
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { z } from "zod";
+
+const mocks = vi.hoisted(() => ({
+	userServers: {} as Record<string, unknown>,
+	projectServers: {} as Record<string, unknown>,
+	spawned: [] as Array<{ command: string; env?: Record<string, string> }>,
+}));
+
+// Replace stdio child processes with in-memory fake servers
+vi.mock("@modelcontextprotocol/sdk/client/stdio.js", () => ({
+	getDefaultEnvironment: () => ({ PATH: "/usr/bin" }),
+	StdioClientTransport: vi.fn(function (params: {
+		command: string;
+		env?: Record<string, string>;
+	}) {
+		mocks.spawned.push(params);
+		if (params.command === "missing-server") {
+			throw new Error("spawn missing-server ENOENT");
+		}
+		const [clientTransport, serverTransport] =
+			InMemoryTransport.createLinkedPair();
+		void createFakeServer().connect(serverTransport);
+		return clientTransport;
+	}),
+}));
+
+vi.mock("../../../../source/utils/config.js", () => ({
+	getConfig: vi.fn(() => ({ mcpServers: mocks.userServers })),
+	updateConfig: vi.fn(),
+}));
+
+vi.mock("../../../../source/utils/localsettings.js", () => ({
+	getLocalSettings: vi.fn(() => ({ mcpServers: mocks.projectServers })),
+	updateLocalSettings: vi.fn(),
+}));
+
+import {
+	McpClientManager,
+	formatCallToolResult,
+	getMcpToolId,
+	schemaToParameters,
+} from "../../../../source/services/tools/mcp/client.js";
+import { updateConfig } from "../../../../source/utils/config.js";
+import { updateLocalSettings } from "../../../../source/utils/localsettings.js";
+
+function createFakeServer(): McpServer {
+	const server = new McpServer({ name: "fake-server", version: "1.2.3" });
+
+	server.registerTool(
+		"echo",
+		{
+			description: "Echo text",
+			inputSchema: {
+				text: z.string().describe("Text to echo"),
+				times: z.number().optional(),
+			},
+		},
+		async ({ text, times }) => ({
+			content: [{ type: "text", text: text.repeat(times ?? 1) }],
+		}),
+	);
+
+	server.registerTool(
+		"search.files",
+		{
+			description: "Search with a nested filter",
+			inputSchema: { filter: z.object({ glob: z.string() }) },
+		},
+		async ({ filter }) => ({
+			content: [{ type: "text", text: `glob=${filter.glob}` }],
+		}),
+	);
+
+	server.registerTool("fail", { description: "Always fails" }, async () => ({
+		content: [{ type: "text", text: "boom" }],
+		isError: true,
+	}));
+
+	return server;
+}
+
+describe("McpClientManager", () => {
+	let manager: McpClientManager;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.userServers = {};
+		mocks.projectServers = {};
+		mocks.spawned = [];
+		manager = new McpClientManager();
+	});
+
+	afterEach(async () => {
+		await manager.closeAll();
+	});
+
+	it("should connect servers and map remote tools", async () => {
+		mocks.userServers = {
+			fake: { command: "fake-server", env: { TOKEN: "secret" } },
+		};
+
+		await manager.connectAll();
+
+		const [tool] = manager.getTools();
+		expect(tool).toMatchObject({
+			id: "mcp-fake",
+			name: "fake",
+			category: "mcp",
+			version: "1.2.3",
+			installed: true,
+		});
+		expect(tool!.actions.map((a) => a.name)).toEqual([
+			"echo",
+			"search_files",
+			"fail",
+		]);
+
+		const echo = tool!.actions[0]!;
+		expect(echo.commandTemplate).toBe("__MCP_CALL__");
+		expect(echo.parameters).toEqual([
+			{
+				name: "text",
+				description: "Text to echo",
+				type: "string",
+				required: true,
+			},
+			{ name: "times", description: "", type: "number", required: false },
+		]);
+		expect(echo.inputSchema).toMatchObject({ type: "object" });
+
+		expect(mocks.spawned[0]!.env).toEqual({
+			PATH: "/usr/bin",
+			TOKEN: "secret",
+		});
+		expect(manager.listServers()).toEqual([
+			expect.objectContaining({
+				name: "fake",
+				status: "connected",
+				source: "user",
+				toolCount: 3,
+			}),
+		]);
+	});
+
+	it("should let project settings override user servers", async () => {
+		mocks.userServers = { fake: { command: "user-server" } };
+		mocks.projectServers = { fake: { command: "project-server" } };
+
+		await manager.connectAll();
+
+		expect(mocks.spawned.map((s) => s.command)).toEqual(["project-server"]);
+		expect(manager.listServers()[0]!.source).toBe("project");
+	});
+
+	it("should skip disabled servers and record connection errors", async () => {
+		mocks.userServers = {
+			off: { command: "fake-server", enabled: false },
+			broken: { command: "missing-server" },
+			empty: {},
+			fake: { command: "fake-server" },
+		};
+
+		await manager.connectAll();
+
+		const states = Object.fromEntries(
+			manager.listServers().map((s) => [s.name, s]),
+		);
+		expect(states.off!.status).toBe("disabled");
+		expect(states.broken).toMatchObject({
+			status: "error",
+			error: "spawn missing-server ENOENT",
+		});
+		expect(states.empty!.status).toBe("error");
+		expect(states.fake!.status).toBe("connected");
+		expect(manager.getTools().map((t) => t.id)).toEqual(["mcp-fake"]);
+	});
+
+	it("should forward calls using the remote tool name", async () => {
+		mocks.userServers = { fake: { command: "fake-server" } };
+		await manager.connectAll();
+
+		const echo = await manager.callTool("mcp-fake", "echo", {
+			text: "ab",
+			times: 2,
+		});
+		expect(echo).toMatchObject({ success: true, stdout: "abab" });
+
+		const search = await manager.callTool("mcp-fake", "search_files", {
+			filter: { glob: "*.ts" },
+		});
+		expect(search.stdout).toBe("glob=*.ts");
+
+		const fail = await manager.callTool("mcp-fake", "fail", {});
+		expect(fail).toMatchObject({ success: false, error: "boom" });
+	});
+
+	it("should report calls to servers that are not connected", async () => {
+		const result = await manager.callTool("mcp-nope", "echo", {});
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain("not connected");
+	});
+
+	it("should disable and re-enable servers and persist to their source", async () => {
+		mocks.userServers = { user: { command: "fake-server" } };
+		mocks.projectServers = { project: { command: "fake-server" } };
+		const listener = vi.fn();
+		manager.onToolsChanged(listener);
+
+		await manager.connectAll();
+		expect(listener).toHaveBeenLastCalledWith([
+			expect.objectContaining({ id: "mcp-project" }),
+			expect.objectContaining({ id: "mcp-user" }),
+		]);
+
+		const disabled = await manager.setServerEnabled("project", false);
+		expect(disabled?.status).toBe("disabled");
+		expect(updateLocalSettings).toHaveBeenCalledWith({
+			mcpServers: { project: { command: "fake-server", enabled: false } },
+		});
+		expect(listener).toHaveBeenLastCalledWith([
+			expect.objectContaining({ id: "mcp-user" }),
+		]);
+
+		await manager.setServerEnabled("user", false);
+		expect(updateConfig).toHaveBeenCalledWith({
+			mcpServers: { user: { command: "fake-server", enabled: false } },
+		});
+
+		const enabled = await manager.setServerEnabled("project", true);
+		expect(enabled).toMatchObject({ status: "connected", toolCount: 3 });
+		expect(manager.getTools().map((t) => t.id)).toEqual(["mcp-project"]);
+	});
+
+	it("should return undefined when enabling an unknown server", async () => {
+		await manager.connectAll();
+
+		expect(await manager.setServerEnabled("nope", true)).toBeUndefined();
+	});
+});
+
+describe("getMcpToolId", () => {
+	it("should replace characters not allowed in tool ids", () => {
+		expect(getMcpToolId("github")).toBe("mcp-github");
+		expect(getMcpToolId("my_server.local")).toBe("mcp-my-server-local");
+	});
+});
+
+describe("schemaToParameters", () => {
+	it("should map top-level properties and required fields", () => {
+		expect(
+			schemaToParameters({
+				type: "object",
+				properties: {
+					count: { type: "integer" },
+					verbose: { type: "boolean", description: "Verbose output" },
+					tags: { type: "array", items: { type: "string" } },
+				},
+				required: ["count"],
+			}),
+		).toEqual([
+			{ name: "count", description: "", type: "number", required: true },
+			{
+				name: "verbose",
+				description: "Verbose output",
+				type: "boolean",
+				required: false,
+			},
+			{ name: "tags", description: "", type: "string", required: false },
+		]);
+	});
+});
+
+describe("formatCallToolResult", () => {
+	it("should describe non-text content", () => {
+		const result = formatCallToolResult({
+			content: [
+				{ type: "text", text: "done" },
+				{ type: "image", data: "", mimeType: "image/png" },
+				{
+					type: "resource",
+					resource: { uri: "file:///a.txt", text: "file text" },
+				},
+				{ type: "resource_link", uri: "file:///b.txt", name: "b" },
+			],
+		});
+
+		expect(result.stdout).toBe(
+			"done\n[image: image/png]\nfile text\n[resource: file:///b.txt]",
+		);
+	});
+
+	it("should fall back to structured content", () => {
+		const result = formatCallToolResult({
+			content: [],
+			structuredContent: { total: 2 },
+		});
+
+		expect(JSON.parse(result.stdout)).toEqual({ total: 2 });
+	});
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import {
+	isAuthorized,
+	parseHttpPort,
+	startMcpHttpServer,
+	type McpHttpServer,
+} from "../../../../source/services/tools/mcp/http.js";
+
+const TOKEN = "test-token";
+
+function createServer(): McpServer {
+	const server = new McpServer({ name: "test", version: "1.0.0" });
+	server.registerTool("ping", { description: "Ping" }, async () => ({
+		content: [{ type: "text", text: "pong" }],
+	}));
+	return server;
+}
+
+describe("startMcpHttpServer", () => {
+	let httpServer: McpHttpServer;
+
+	beforeEach(async () => {
+		httpServer = await startMcpHttpServer({
+			port: 0,
+			token: TOKEN,
+			createServer,
+		});
+	});
+
+	afterEach(async () => {
+		await httpServer.close();
+	});
+
+	it("should listen on localhost only", () => {
+		expect(httpServer.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+	});
+
+	it("should serve MCP requests with a valid token", async () => {
+		const client = new Client({ name: "test-client", version: "1.0.0" });
+		const transport = new StreamableHTTPClientTransport(
+			new URL(httpServer.url),
+			{ requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } } },
+		);
+		await client.connect(transport);
+
+		const { tools } = await client.listTools();
+		expect(tools.map((t) => t.name)).toEqual(["ping"]);
+
+		const result = await client.callTool({ name: "ping", arguments: {} });
+		expect(result.content).toEqual([{ type: "text", text: "pong" }]);
+
+		await transport.terminateSession();
+		await client.close();
+	});
+
+	it("should reject requests without the token", async () => {
+		const response = await fetch(httpServer.url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: "{}",
+		});
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get("www-authenticate")).toBe("Bearer");
+	});
+
+	it("should reject unknown paths, sessions and non-initialize requests", async () => {
+		const headers = {
+			Authorization: `Bearer ${TOKEN}`,
+			"Content-Type": "application/json",
+			Accept: "application/json, text/event-stream",
+		};
+		const base = httpServer.url.replace(/\/mcp$/, "");
+		const listTools = JSON.stringify({
+			jsonrpc: "2.0",
+			id: 1,
+			method: "tools/list",
+		});
+
+		expect((await fetch(`${base}/other`, { headers })).status).toBe(404);
+
+		const unknownSession = await fetch(httpServer.url, {
+			method: "POST",
+			headers: { ...headers, "mcp-session-id": "nope" },
+			body: listTools,
+		});
+		expect(unknownSession.status).toBe(404);
+
+		const noSession = await fetch(httpServer.url, {
+			method: "POST",
+			headers,
+			body: listTools,
+		});
+		expect(noSession.status).toBe(400);
+
+		const invalidJson = await fetch(httpServer.url, {
+			method: "POST",
+			headers,
+			body: "{",
+		});
+		expect(invalidJson.status).toBe(400);
+		expect((await invalidJson.json()).error.code).toBe(-32700);
+	});
+});
+
+describe("isAuthorized", () => {
+	it("should accept only the matching bearer token", () => {
+		expect(isAuthorized("Bearer secret", "secret")).toBe(true);
+		expect(isAuthorized("bearer secret", "secret")).toBe(true);
+		expect(isAuthorized("Bearer other", "secret")).toBe(false);
+		expect(isAuthorized("Bearer secret2", "secret")).toBe(false);
+		expect(isAuthorized("secret", "secret")).toBe(false);
+		expect(isAuthorized(undefined, "secret")).toBe(false);
+	});
+});
+
+describe("parseHttpPort", () => {
+	it("should accept integer ports from 0 to 65535", () => {
+		expect(parseHttpPort("3920")).toBe(3920);
+		expect(parseHttpPort("0")).toBe(0);
+		expect(parseHttpPort("65535")).toBe(65535);
+	});
+
+	it("should reject missing and invalid ports", () => {
+		expect(parseHttpPort(undefined)).toBeNull();
+		expect(parseHttpPort("")).toBeNull();
+		expect(parseHttpPort("39z0")).toBeNull();
+		expect(parseHttpPort("-1")).toBeNull();
+		expect(parseHttpPort("3.5")).toBeNull();
+		expect(parseHttpPort("65536")).toBeNull();
+	});
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+	formatTranscript,
+	registerProjectResources,
+	registerWorkflowPrompts,
+	type McpResourceOptions,
+} from "../../../../source/services/tools/mcp/resources.js";
+import type { SessionStore } from "../../../../source/services/ai/sessionStore.js";
+
+const sessionInfo = {
+	id: "s1",
+	name: "Fix login",
+	createdAt: 1000,
+	updatedAt: 2000,
+	tokenUsage: 120,
+	messageCount: 2,
+	isActive: true,
+};
+
+const sessionData = {
+	info: sessionInfo,
+	messages: [
+		{
+			message: { role: "user", content: "Fix the login bug" },
+			tokens: 5,
+			isActual: false,
+			timestamp: 1,
+		},
+		{
+			message: {
+				role: "assistant",
+				content: "Reading the file",
+				tool_calls: [
+					{
+						id: "call_1",
+						type: "function",
+						function: {
+							name: "a-c-file_read",
+							arguments: '{"path":"login.ts"}',
+						},
+					},
+				],
+			},
+			tokens: 10,
+			isActual: true,
+			timestamp: 2,
+		},
+	],
+	tokenState: { actualPromptTokens: 0, actualCompletionTokens: 0 },
+};
+
+function createMockSessionStore(): SessionStore {
+	return {
+		reload: vi.fn(async () => {}),
+		listSessions: vi.fn(() => [sessionInfo]),
+		getActiveSessionId: vi.fn(() => "s1"),
+		readSession: vi.fn((id: string) => (id === "s1" ? sessionData : null)),
+	} as unknown as SessionStore;
+}
+
+describe("MCP resources and prompts", () => {
+	let cwd: string;
+	let client: Client;
+
+	const connect = async (options: McpResourceOptions) => {
+		const server = new McpServer({ name: "test", version: "1.0.0" });
+		registerProjectResources(server, options);
+		registerWorkflowPrompts(server, options);
+
+		const [clientTransport, serverTransport] =
+			InMemoryTransport.createLinkedPair();
+		await server.connect(serverTransport);
+		client = new Client({ name: "test-client", version: "1.0.0" });
+		await client.connect(clientTransport);
+	};
+
+	const readText = async (uri: string) => {
+		const result = await client.readResource({ uri });
+		return (result.contents[0] as { text: string }).text;
+	};
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "axiomate-mcp-resources-"));
+	});
+
+	afterEach(async () => {
+		await client?.close();
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	it("should expose the project type and plan file", async () => {
+		writeFileSync(join(cwd, "package.json"), "{}");
+		mkdirSync(join(cwd, ".axiomate", "plans"), { recursive: true });
+		writeFileSync(
+			join(cwd, ".axiomate", "plans", "plan.md"),
+			"# Plan\n- [ ] Step 1\n",
+		);
+		await connect({ cwd });
+
+		const { resources } = await client.listResources();
+		expect(resources.map((r) => r.uri)).toEqual([
+			"axiomate://project",
+			"axiomate://plan",
+		]);
+
+		expect(JSON.parse(await readText("axiomate://project"))).toEqual({
+			cwd,
+			projectType: "node",
+		});
+		expect(await readText("axiomate://plan")).toBe("# Plan\n- [ ] Step 1\n");
+	});
+
+	it("should return an empty plan when no plan file exists", async () => {
+		await connect({ cwd });
+
+		expect(await readText("axiomate://plan")).toBe("");
+	});
+
+	it("should list and read saved sessions", async () => {
+		const sessionStore = createMockSessionStore();
+		await connect({ cwd, sessionStore });
+
+		const { resources } = await client.listResources();
+		expect(resources).toContainEqual(
+			expect.objectContaining({
+				uri: "axiomate://sessions/s1",
+				name: "Fix login",
+			}),
+		);
+
+		expect(JSON.parse(await readText("axiomate://sessions"))).toEqual([
+			sessionInfo,
+		]);
+
+		const session = JSON.parse(await readText("axiomate://sessions/s1"));
+		expect(session.info).toEqual(sessionInfo);
+		expect(session.messages[0]).toEqual({
+			role: "user",
+			content: "Fix the login bug",
+		});
+		expect(sessionStore.reload).toHaveBeenCalled();
+
+		await expect(
+			client.readResource({ uri: "axiomate://sessions/missing" }),
+		).rejects.toThrow("Session not found: missing");
+	});
+
+	it("should build the compact prompt from the active session", async () => {
+		await connect({ cwd, sessionStore: createMockSessionStore() });
+
+		const { prompts } = await client.listPrompts();
+		expect(prompts.map((p) => p.name)).toEqual(["compact", "plan"]);
+
+		const result = await client.getPrompt({ name: "compact", arguments: {} });
+		const text = (result.messages[0]!.content as { text: string }).text;
+		expect(text).toContain("user: Fix the login bug");
+		expect(text).toContain('[tool call] a-c-file_read({"path":"login.ts"})');
+		expect(text).toContain("Summarize our conversation");
+	});
+
+	it("should reject compact for an unknown session", async () => {
+		await connect({ cwd, sessionStore: createMockSessionStore() });
+
+		await expect(
+			client.getPrompt({ name: "compact", arguments: { session: "nope" } }),
+		).rejects.toThrow("Session not found: nope");
+	});
+
+	it("should build the plan prompt with the current plan", async () => {
+		mkdirSync(join(cwd, ".axiomate", "plans"), { recursive: true });
+		writeFileSync(join(cwd, ".axiomate", "plans", "plan.md"), "# Old plan\n");
+		await connect({ cwd });
+
+		const result = await client.getPrompt({
+			name: "plan",
+			arguments: { task: "Add dark mode" },
+		});
+		const text = (result.messages[0]!.content as { text: string }).text;
+		expect(text).toContain("Add dark mode");
+		expect(text).toContain("# Old plan");
+	});
+});
+
+describe("formatTranscript", () => {
+	it("should format messages and tool calls", () => {
+		expect(
+			formatTranscript([
+				{ role: "user", content: "hi" },
+				{ role: "tool", content: "ok", tool_call_id: "call_1" },
+			]),
+		).toBe("user: hi\n\ntool: ok");
+	});
+});
@@ -14,10 +14,15 @@ beforeAll(() => {
 
 // Mock MCP SDK
 const mockRegisterTool = vi.fn();
+const mockRegisterResource = vi.fn();
+const mockRegisterPrompt = vi.fn();
 vi.mock("@modelcontextprotocol/sdk/server/mcp.js", () => ({
 	McpServer: class {
 		registerTool = mockRegisterTool;
+		registerResource = mockRegisterResource;
+		registerPrompt = mockRegisterPrompt;
 	},
+	ResourceTemplate: class {},
 }));
 
 // Mock executor module
@@ -151,6 +156,33 @@ describe("MCP Server", () => {
 			);
 		});
 
+		it("should register project resources and workflow prompts", () => {
+			createToolsMcpServer(mockRegistry);
+
+			expect(mockRegisterResource.mock.calls.map((c) => c[0])).toEqual([
+				"project",
+				"plan",
+			]);
+			expect(mockRegisterPrompt.mock.calls.map((c) => c[0])).toEqual([
+				"compact",
+				"plan",
+			]);
+		});
+
+		it("should register session resources when a session store is given", () => {
+			createToolsMcpServer(mockRegistry, {
+				cwd: "/project",
+				sessionStore: {} as never,
+			});
+
+			expect(mockRegisterResource.mock.calls.map((c) => c[0])).toEqual([
+				"project",
+				"plan",
+				"sessions",
+				"session",
+			]);
+		});
+
 		it("should register tools for each action", () => {
 			createToolsMcpServer(mockRegistry);
 
@@ -0,0 +1,443 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+	existsSync,
+	mkdtempSync,
+	mkdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import { tmpdir } from "node:os";
+import iconv from "iconv-lite";
+import {
+	applyPatch,
+	parsePatch,
+} from "../../../source/services/tools/patchApplier.js";
+
+const patch = (...lines: string[]) => lines.join("\n") + "\n";
+
+describe("patchApplier", () => {
+	describe("parsePatch", () => {
+		it("should parse a plain unified diff", () => {
+			const patches = parsePatch(
+				patch(
+					"--- src/a.ts\t2024-01-01 00:00:00",
+					"+++ src/a.ts\t2024-01-02 00:00:00",
+					"@@ -1,2 +1,2 @@",
+					" one",
+					"-two",
+					"+TWO",
+				),
+			);
+
+			expect(patches).toHaveLength(1);
+			expect(patches[0]!.oldPath).toBe("src/a.ts");
+			expect(patches[0]!.newPath).toBe("src/a.ts");
+			expect(patches[0]!.hunks[0]!.oldStart).toBe(1);
+			expect(patches[0]!.hunks[0]!.lines).toEqual([" one", "-two", "+TWO"]);
+		});
+
+		it("should parse git headers for create, delete and rename", () => {
+			const patches = parsePatch(
+				patch(
+					"diff --git a/new.txt b/new.txt",
+					"new file mode 100644",
+					"index 0000000..e69de29",
+					"--- /dev/null",
+					"+++ b/new.txt",
+					"@@ -0,0 +1 @@",
+					"+hello",
+					"diff --git a/old.txt b/old.txt",
+					"deleted file mode 100644",
+					"--- a/old.txt",
+					"+++ /dev/null",
+					"@@ -1 +0,0 @@",
+					"-bye",
+					"diff --git a/x.txt b/y.txt",
+					"similarity index 100%",
+					"rename from x.txt",
+					"rename to y.txt",
+				),
+			);
+
+			expect(
+				patches.map((p) => [p.oldPath, p.newPath, p.hunks.length]),
+			).toEqual([
+				[null, "new.txt", 1],
+				["old.txt", null, 1],
+				["x.txt", "y.txt", 0],
+			]);
+		});
+
+		it("should accept hunk headers without line numbers", () => {
+			const patches = parsePatch(
+				patch("--- a/a.txt", "+++ b/a.txt", "@@", "-x", "+y"),
+			);
+
+			expect(patches[0]!.hunks[0]!.oldStart).toBeNull();
+		});
+
+		it("should record missing newlines at end of file", () => {
+			const patches = parsePatch(
+				patch(
+					"--- a.txt",
+					"+++ a.txt",
+					"@@ -1 +1 @@",
+					"-x",
+					"\\ No newline at end of file",
+					"+y",
+				),
+			);
+
+			expect(patches[0]!.hunks[0]!.oldNoNewline).toBe(true);
+			expect(patches[0]!.hunks[0]!.newNoNewline).toBe(false);
+		});
+
+		it("should reject text without file headers", () => {
+			expect(() => parsePatch("just some text")).toThrow("No file headers");
+		});
+	});
+
+	describe("applyPatch", () => {
+		let cwd: string;
+
+		beforeEach(() => {
+			cwd = mkdtempSync(join(tmpdir(), "axiomate-patch-"));
+		});
+
+		afterEach(() => {
+			rmSync(cwd, { recursive: true, force: true });
+		});
+
+		const write = (name: string, content: string | Buffer) => {
+			const filePath = join(cwd, name);
+			mkdirSync(dirname(filePath), { recursive: true });
+			writeFileSync(filePath, content);
+		};
+		const read = (name: string) => readFileSync(join(cwd, name), "utf-8");
+
+		it("should apply multiple hunks to a file", () => {
+			write("a.txt", "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n");
+
+			const result = applyPatch(
+				cwd,
+				patch(
+					"--- a/a.txt",
+					"+++ b/a.txt",
+					"@@ -1,3 +1,3 @@",
+					" 1",
+					"-2",
+					"+two",
+					" 3",
+					"@@ -8,3 +8,4 @@",
+					" 8",
+					" 9",
+					"+9.5",
+					" 10",
+				),
+			);
+
+			expect(result.success).toBe(true);
+			expect(result.changes).toEqual([
+				expect.objectContaining({
+					operation: "modify",
+					path: "a.txt",
+					hunks: 2,
+				}),
+			]);
+			expect(read("a.txt")).toBe("1\ntwo\n3\n4\n5\n6\n7\n8\n9\n9.5\n10\n");
+		});
+
+		it("should find hunks at an offset", () => {
+			write("a.txt", "new\nlines\nfirst\nalpha\nbeta\n");
+
+			const result = applyPatch(
+				cwd,
+				patch(
+					"--- a.txt",
+					"+++ a.txt",
+					"@@ -1,2 +1,2 @@",
+					" alpha",
+					"-beta",
+					"+BETA",
+				),
+			);
+
+			expect(result.success).toBe(true);
+			expect(result.changes[0]!.notes).toContain("hunk 1 applied at offset +3");
+			expect(read("a.txt")).toBe("new\nlines\nfirst\nalpha\nBETA\n");
+		});
+
+		it("should match hunks ignoring whitespace and keep file context", () => {
+			write("a.ts", "function f() {\n\treturn 1;  \n}\n");
+
+			const result = applyPatch(
+				cwd,
+				patch(
+					"--- a.ts",
+					"+++ a.ts",
+					"@@ -1,3 +1,3 @@",
+					" function f() {",
+					"-    return 1;",
+					"+\treturn 2;",
+					" }",
+				),
+			);
+
+			expect(result.success).toBe(true);
+			expect(result.changes[0]!.notes).toContain(
+				"hunk 1 applied ignoring whitespace",
+			);
+			expect(read("a.ts")).toBe("function f() {\n\treturn 2;\n}\n");
+		});
+
+		it("should apply with fuzz when outer context differs", () => {
+			write("a.txt", "header changed\nkeep\nold\nkeep2\n");
+
+			const result = applyPatch(
+				cwd,
+				patch(
+					"--- a.txt",
+					"+++ a.txt",
+					"@@ -1,4 +1,4 @@",
+					" header",
+					" keep",
+					"-old",
+					"+new",
+					" keep2",
+				),
+			);
+
+			expect(result.success).toBe(true);
+			expect(result.changes[0]!.notes).toContain("hunk 1 applied with fuzz 1");
+			expect(read("a.txt")).toBe("header changed\nkeep\nnew\nkeep2\n");
+		});
+
+		it("should preserve CRLF line endings", () => {
+			write("win.txt", "a\r\nb\r\nc\r\n");
+
+			const result = applyPatch(
+				cwd,
+				patch(
+					"--- win.txt",
+					"+++ win.txt",
+					"@@ -1,3 +1,4 @@",
+					" a",
+					"-b",
+					"+B",
+					"+B2",
+					" c",
+				),
+			);
+
+			expect(result.success).toBe(true);
+			expect(read("win.txt")).toBe("a\r\nB\r\nB2\r\nc\r\n");
+		});
+
+		it("should preserve encoding and BOM", () => {
+			write(
+				"gbk.txt",
+				iconv.encode("第一行中文内容\n第二行中文内容\n第三行中文内容\n", "gbk"),
+			);
+			write(
+				"bom.txt",
+				Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from("x\ny\n")]),
+			);
+
+			const result = applyPatch(
+				cwd,
+				patch(
+					"--- gbk.txt",
+					"+++ gbk.txt",
+					"@@ -1,3 +1,3 @@",
+					" 第一行中文内容",
+					"-第二行中文内容",
+					"+第二行已经修改",
+					" 第三行中文内容",
+					"--- bom.txt",
+					"+++ bom.txt",
+					"@@ -1,2 +1,2 @@",
+					" x",
+					"-y",
+					"+z",
+				),
+			);
+
+			expect(result.success).toBe(true);
+			expect(iconv.decode(readFileSync(join(cwd, "gbk.txt")), "gbk")).toBe(
+				"第一行中文内容\n第二行已经修改\n第三行中文内容\n",
+			);
+			expect([...readFileSync(join(cwd, "bom.txt")).subarray(0, 3)]).toEqual([
+				0xef, 0xbb, 0xbf,
+			]);
+			expect(read("bom.txt")).toBe("﻿x\nz\n");
+		});
+
+		it("should respect missing newline at end of file", () => {
+			write("a.txt", "x\ny");
+
+			const result = applyPatch(
+				cwd,
+				patch(
+					"--- a.txt",
+					"+++ a.txt",
+					"@@ -1,2 +1,3 @@",
+					" x",
+					"-y",
+					"\\ No newline at end of file",
+					"+y",
+					"+z",
+				),
+			);
+
+			expect(result.success).toBe(true);
+			expect(read("a.txt")).toBe("x\ny\nz\n");
+		});
+
+		it("should create, delete and rename files", () => {
+			write("old.txt", "bye\n");
+			write("x.txt", "one\ntwo\n");
+
+			const result = applyPatch(
+				cwd,
+				patch(
+					"diff --git a/dir/new.txt b/dir/new.txt",
+					"new file mode 100644",
+					"--- /dev/null",
+					"+++ b/dir/new.txt",
+					"@@ -0,0 +1,2 @@",
+					"+hello",
+					"+world",
+					"diff --git a/old.txt b/old.txt",
+					"deleted file mode 100644",
+					"--- a/old.txt",
+					"+++ /dev/null",
+					"@@ -1 +0,0 @@",
+					"-bye",
+					"diff --git a/x.txt b/y.txt",
+					"rename from x.txt",
+					"rename to y.txt",
+					"--- a/x.txt",
+					"+++ b/y.txt",
+					"@@ -1,2 +1,2 @@",
+					" one",
+					"-two",
+					"+TWO",
+				),
+			);
+
+			expect(result.success).toBe(true);
+			expect(result.changes.map((c) => [c.operation, c.path])).toEqual([
+				["create", "dir/new.txt"],
+				["delete", "old.txt"],
+				["rename", "y.txt"],
+			]);
+			expect(read("dir/new.txt")).toBe("hello\nworld\n");
+			expect(existsSync(join(cwd, "old.txt"))).toBe(false);
+			expect(existsSync(join(cwd, "x.txt"))).toBe(false);
+			expect(read("y.txt")).toBe("one\nTWO\n");
+		});
+
+		it("should change nothing when any hunk fails", () => {
+			write("a.txt", "1\n2\n3\n");
+			write("b.txt", "x\ny\nz\n");
+
+			const result = applyPatch(
+				cwd,
+				patch(
+					"--- a.txt",
+					"+++ a.txt",
+					"@@ -1,3 +1,3 @@",
+					" 1",
+					"-2",
+					"+two",
+					" 3",
+					"--- b.txt",
+					"+++ b.txt",
+					"@@ -1,3 +1,3 @@",
+					" x",
+					"-nope",
+					"+yes",
+					" z",
+				),
+			);
+
+			expect(result.success).toBe(false);
+			expect(result.failures).toHaveLength(1);
+			expect(result.failures[0]).toMatchObject({ path: "b.txt", hunk: 1 });
+			expect(result.failures[0]!.reason).toContain(
+				'expected "nope", found "y"',
+			);
+			expect(read("a.txt")).toBe("1\n2\n3\n");
+			expect(read("b.txt")).toBe("x\ny\nz\n");
+		});
+
+		it("should report file-level problems", () => {
+			write("exists.txt", "x\n");
+
+			const result = applyPatch(
+				cwd,
+				patch(
+					"--- /dev/null",
+					"+++ exists.txt",
+					"@@ -0,0 +1 @@",
+					"+y",
+					"--- missing.txt",
+					"+++ missing.txt",
+					"@@ -1 +1 @@",
+					"-a",
+					"+b",
+				),
+			);
+
+			expect(result.success).toBe(false);
+			expect(result.failures).toEqual([
+				{ path: "exists.txt", hunk: null, reason: "File already exists" },
+				{ path: "missing.txt", hunk: null, reason: "File not found" },
+			]);
+		});
+
+		it("should refuse to delete a file with unrelated content", () => {
+			write("old.txt", "bye\nkeep me\n");
+
+			const result = applyPatch(
+				cwd,
+				patch("--- a/old.txt", "+++ /dev/null", "@@ -1 +0,0 @@", "-bye"),
+			);
+
+			expect(result.success).toBe(false);
+			expect(existsSync(join(cwd, "old.txt"))).toBe(true);
+		});
+
+		it("should let later file patches build on earlier ones", () => {
+			write("a.txt", "version one\n");
+
+			const result = applyPatch(
+				cwd,
+				patch(
+					"--- a.txt",
+					"+++ a.txt",
+					"@@ -1 +1 @@",
+					"-version one",
+					"+version two",
+					"--- a.txt",
+					"+++ a.txt",
+					"@@ -1 +1 @@",
+					"-version two",
+					"+version three",
+				),
+			);
+
+			expect(result.success).toBe(true);
+			expect(read("a.txt")).toBe("version three\n");
+		});
+
+		it("should return an error for unparseable input", () => {
+			const result = applyPatch(cwd, "not a patch");
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("No file headers");
+		});
+	});
+});
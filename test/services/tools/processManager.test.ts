@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from "vitest";
+import { EventEmitter } from "node:events";
+import type { ChildProcess } from "node:child_process";
+import {
+	ProcessManager,
+	PROCESS_OUTPUT_BUFFER_SIZE,
+	getProcessManager,
+} from "../../../source/services/tools/processManager.js";
+
+/**
+ * Minimal child process stand-in (no pid, so stopping never signals anything)
+ */
+function createFakeChild() {
+	const child = new EventEmitter() as EventEmitter & {
+		stdout: EventEmitter;
+		stderr: EventEmitter;
+		exitCode: number | null;
+	};
+	child.stdout = new EventEmitter();
+	child.stderr = new EventEmitter();
+	child.exitCode = null;
+	return child;
+}
+
+describe("ProcessManager", () => {
+	it("should adopt processes with increasing ids", () => {
+		const processes = new ProcessManager();
+
+		const first = processes.adopt(
+			createFakeChild() as unknown as ChildProcess,
+			"npm run dev",
+		);
+		const second = processes.adopt(
+			createFakeChild() as unknown as ChildProcess,
+			"npm test",
+		);
+
+		expect([first, second]).toEqual(["p1", "p2"]);
+		expect(processes.list().map((info) => info.command)).toEqual([
+			"npm run dev",
+			"npm test",
+		]);
+		expect(processes.get("p1")).toMatchObject({
+			status: "running",
+			exitCode: null,
+		});
+	});
+
+	it("should collect output and read it from an offset", () => {
+		const processes = new ProcessManager();
+		const child = createFakeChild();
+		const id = processes.adopt(
+			child as unknown as ChildProcess,
+			"build",
+			"start\n",
+		);
+
+		child.stdout.emit("data", Buffer.from("out\n"));
+		child.stderr.emit("data", Buffer.from("err\n"));
+
+		expect(processes.readOutput(id)).toEqual({
+			output: "start\nout\nerr\n",
+			offset: 14,
+			truncated: false,
+		});
+		expect(processes.readOutput(id, 10)?.output).toBe("err\n");
+		expect(processes.readOutput("p9")).toBeUndefined();
+	});
+
+	it("should drop the oldest output when the buffer is full", () => {
+		const processes = new ProcessManager();
+		const child = createFakeChild();
+		const id = processes.adopt(child as unknown as ChildProcess, "logs");
+
+		child.stdout.emit("data", Buffer.from("a".repeat(100)));
+		child.stdout.emit(
+			"data",
+			Buffer.from("b".repeat(PROCESS_OUTPUT_BUFFER_SIZE)),
+		);
+
+		const result = processes.readOutput(id, 0)!;
+		expect(result.truncated).toBe(true);
+		expect(result.offset).toBe(PROCESS_OUTPUT_BUFFER_SIZE + 100);
+		expect(result.output).toBe("b".repeat(PROCESS_OUTPUT_BUFFER_SIZE));
+	});
+
+	it("should record the exit code", () => {
+		const processes = new ProcessManager();
+		const child = createFakeChild();
+		const id = processes.adopt(child as unknown as ChildProcess, "build");
+
+		child.emit("close", 2);
+
+		expect(processes.get(id)).toMatchObject({
+			status: "exited",
+			exitCode: 2,
+			endedAt: expect.any(Number),
+		});
+	});
+
+	it("should mark stopped processes as killed", () => {
+		const processes = new ProcessManager();
+		const child = createFakeChild();
+		const id = processes.adopt(child as unknown as ChildProcess, "server");
+
+		expect(processes.stop(id)).toBe(true);
+		child.emit("close", null);
+
+		expect(processes.get(id)?.status).toBe("killed");
+		expect(processes.stop("p9")).toBe(false);
+	});
+
+	it("should run the stop cleanup only while running", () => {
+		const processes = new ProcessManager();
+		const onStop = vi.fn();
+		const child = createFakeChild();
+		const id = processes.adopt(
+			child as unknown as ChildProcess,
+			"server",
+			"",
+			onStop,
+		);
+
+		processes.stop(id);
+		child.emit("close", null);
+		processes.stop(id);
+
+		expect(onStop).toHaveBeenCalledTimes(1);
+	});
+
+	it("should notify listeners about started and finished processes", () => {
+		const processes = new ProcessManager();
+		const counts: number[] = [];
+		const unsubscribe = processes.onChange(() =>
+			counts.push(processes.getRunningCount()),
+		);
+		const child = createFakeChild();
+
+		processes.adopt(child as unknown as ChildProcess, "server");
+		child.emit("close", 0);
+		unsubscribe();
+		processes.adopt(createFakeChild() as unknown as ChildProcess, "other");
+
+		expect(counts).toEqual([1, 0]);
+		expect(processes.getRunningCount()).toBe(1);
+	});
+
+	it("should start commands and forward input", async () => {
+		const processes = new ProcessManager();
+		const script =
+			"process.stdin.once('data', (d) => { process.stdout.write('got ' + d); process.exit(0); })";
+		const id = processes.start(
+			`"${process.execPath}" -e "${script.replace(/"/g, '\\"')}"`,
+		);
+		const closed = new Promise<void>((resolve) => {
+			processes.onChange(() => {
+				if (processes.get(id)?.status === "exited") resolve();
+			});
+		});
+
+		expect(processes.sendInput(id, "ping\n")).toBe(true);
+		await closed;
+
+		expect(processes.get(id)?.exitCode).toBe(0);
+		expect(processes.readOutput(id)?.output).toBe("got ping\n");
+		expect(processes.sendInput(id, "again\n")).toBe(false);
+	});
+
+	it("should share one manager across callers", () => {
+		expect(getProcessManager()).toBe(getProcessManager());
+	});
+});
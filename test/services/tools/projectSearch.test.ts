@@ -0,0 +1,336 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { tmpdir } from "node:os";
+import iconv from "iconv-lite";
+import {
+	MAX_CONTEXT_LINES,
+	findFiles,
+	globToRegExp,
+	grepFiles,
+	isIgnored,
+	matchGlob,
+	parseIgnoreFile,
+	walkProjectFiles,
+} from "../../../source/services/tools/projectSearch.js";
+
+describe("projectSearch", () => {
+	describe("globToRegExp", () => {
+		it("should match a single segment with *", () => {
+			expect(globToRegExp("*.ts").test("index.ts")).toBe(true);
+			expect(globToRegExp("*.ts").test("src/index.ts")).toBe(false);
+		});
+
+		it("should match any depth with **", () => {
+			const regex = globToRegExp("src/**/*.ts");
+			expect(regex.test("src/index.ts")).toBe(true);
+			expect(regex.test("src/a/b/index.ts")).toBe(true);
+			expect(regex.test("lib/index.ts")).toBe(false);
+		});
+
+		it("should support ?, character classes and braces", () => {
+			expect(globToRegExp("file?.md").test("file1.md")).toBe(true);
+			expect(globToRegExp("[ab].txt").test("b.txt")).toBe(true);
+			expect(globToRegExp("[!ab].txt").test("b.txt")).toBe(false);
+			expect(globToRegExp("*.{ts,tsx}").test("app.tsx")).toBe(true);
+			expect(globToRegExp("*.{ts,tsx}").test("app.js")).toBe(false);
+		});
+
+		it("should escape regex characters", () => {
+			expect(globToRegExp("a+b.(x)").test("a+b.(x)")).toBe(true);
+			expect(globToRegExp("a.b").test("axb")).toBe(false);
+		});
+	});
+
+	describe("matchGlob", () => {
+		it("should match globs without a slash against the basename", () => {
+			expect(matchGlob("*.md", "docs/guide/readme.md")).toBe(true);
+		});
+
+		it("should match globs with a slash against the full path", () => {
+			expect(matchGlob("docs/*.md", "docs/readme.md")).toBe(true);
+			expect(matchGlob("docs/*.md", "other/docs/readme.md")).toBe(false);
+			expect(matchGlob("./docs/*.md", "docs/readme.md")).toBe(true);
+		});
+	});
+
+	describe("parseIgnoreFile / isIgnored", () => {
+		it("should skip comments and blank lines", () => {
+			const rules = parseIgnoreFile("# comment\n\nnode_modules\n", "");
+			expect(rules).toHaveLength(1);
+		});
+
+		it("should ignore basename patterns at any depth", () => {
+			const rules = parseIgnoreFile("*.log", "");
+			expect(isIgnored("a/b/debug.log", false, rules)).toBe(true);
+			expect(isIgnored("a/b/debug.txt", false, rules)).toBe(false);
+		});
+
+		it("should anchor patterns with a leading slash", () => {
+			const rules = parseIgnoreFile("/build", "");
+			expect(isIgnored("build", true, rules)).toBe(true);
+			expect(isIgnored("src/build", true, rules)).toBe(false);
+		});
+
+		it("should only apply directory patterns to directories", () => {
+			const rules = parseIgnoreFile("out/", "");
+			expect(isIgnored("out", true, rules)).toBe(true);
+			expect(isIgnored("out", false, rules)).toBe(false);
+		});
+
+		it("should let later negations re-include files", () => {
+			const rules = parseIgnoreFile("*.env\n!example.env", "");
+			expect(isIgnored("prod.env", false, rules)).toBe(true);
+			expect(isIgnored("example.env", false, rules)).toBe(false);
+		});
+
+		it("should scope rules to the ignore file directory", () => {
+			const rules = parseIgnoreFile("tmp", "packages/app");
+			expect(isIgnored("packages/app/tmp", true, rules)).toBe(true);
+			expect(isIgnored("tmp", true, rules)).toBe(false);
+		});
+	});
+
+	describe("file system search", () => {
+		let cwd: string;
+
+		beforeEach(() => {
+			cwd = mkdtempSync(join(tmpdir(), "axiomate-search-"));
+		});
+
+		afterEach(() => {
+			rmSync(cwd, { recursive: true, force: true });
+		});
+
+		const write = (name: string, content: string | Buffer) => {
+			const filePath = join(cwd, name);
+			mkdirSync(dirname(filePath), { recursive: true });
+			writeFileSync(filePath, content);
+		};
+
+		const walk = async (startDir?: string) => {
+			const files: string[] = [];
+			for await (const file of walkProjectFiles(
+				cwd,
+				startDir ? join(cwd, startDir) : cwd,
+			)) {
+				files.push(file);
+			}
+			return files;
+		};
+
+		describe("walkProjectFiles", () => {
+			it("should yield sorted relative paths and skip .git", async () => {
+				write("b.txt", "");
+				write("a/c.txt", "");
+				write(".git/config", "");
+
+				expect(await walk()).toEqual(["a/c.txt", "b.txt"]);
+			});
+
+			it("should honour nested .gitignore and .axiomateignore files", async () => {
+				write(".gitignore", "node_modules/\n*.log\n");
+				write("node_modules/pkg/index.js", "");
+				write("app.log", "");
+				write("src/.gitignore", "generated\n");
+				write("src/generated/a.ts", "");
+				write("src/index.ts", "");
+				write(".axiomateignore", "!keep.log\nsecret.txt\n");
+				write("keep.log", "");
+				write("secret.txt", "");
+
+				expect(await walk()).toEqual([
+					".axiomateignore",
+					".gitignore",
+					"keep.log",
+					"src/.gitignore",
+					"src/index.ts",
+				]);
+			});
+
+			it("should apply ancestor ignore files when starting in a subdirectory", async () => {
+				write(".gitignore", "*.tmp\n");
+				write("src/a.tmp", "");
+				write("src/a.ts", "");
+
+				expect(await walk("src")).toEqual(["src/a.ts"]);
+			});
+		});
+
+		describe("findFiles", () => {
+			beforeEach(() => {
+				write("readme.md", "");
+				write("docs/guide.md", "");
+				write("docs/api.md", "");
+				write("src/index.ts", "");
+				write("dist/index.md", "");
+			});
+
+			it("should find files by glob", async () => {
+				const result = await findFiles(cwd, "*.md");
+
+				expect(result.success).toBe(true);
+				expect(result.files).toEqual([
+					"dist/index.md",
+					"docs/api.md",
+					"docs/guide.md",
+					"readme.md",
+				]);
+				expect(result.hasMore).toBe(false);
+			});
+
+			it("should apply exclude globs", async () => {
+				const result = await findFiles(cwd, "**/*.md", {
+					exclude: ["dist/**"],
+				});
+
+				expect(result.files).not.toContain("dist/index.md");
+				expect(result.files).toContain("readme.md");
+			});
+
+			it("should match relative to the search path", async () => {
+				const result = await findFiles(cwd, "*.md", { path: "docs" });
+
+				expect(result.files).toEqual(["docs/api.md", "docs/guide.md"]);
+			});
+
+			it("should paginate results", async () => {
+				const first = await findFiles(cwd, "*.md", { maxResults: 3 });
+				expect(first.files).toHaveLength(3);
+				expect(first.hasMore).toBe(true);
+
+				const second = await findFiles(cwd, "*.md", {
+					maxResults: 3,
+					offset: 3,
+				});
+				expect(second.files).toEqual(["readme.md"]);
+				expect(second.offset).toBe(3);
+				expect(second.hasMore).toBe(false);
+			});
+
+			it("should fail for a missing directory", async () => {
+				const result = await findFiles(cwd, "*", { path: "missing" });
+
+				expect(result.success).toBe(false);
+				expect(result.error).toContain("Directory not found: missing");
+			});
+		});
+
+		describe("grepFiles", () => {
+			it("should find matches with line and column", async () => {
+				write("a.ts", "const x = 1;\nfoo(x);\n");
+				write("b.ts", "nothing\n");
+
+				const result = await grepFiles(cwd, "x");
+
+				expect(result.success).toBe(true);
+				expect(result.filesSearched).toBe(2);
+				expect(result.matches.map((m) => [m.path, m.line, m.column])).toEqual([
+					["a.ts", 1, 7],
+					["a.ts", 2, 5],
+				]);
+			});
+
+			it("should treat string patterns literally", async () => {
+				write("a.txt", "a.b\naxb\n");
+
+				const result = await grepFiles(cwd, "a.b");
+
+				expect(result.matches).toHaveLength(1);
+				expect(result.matches[0]!.line).toBe(1);
+			});
+
+			it("should support regex patterns", async () => {
+				write("a.txt", "foo1\nbar\nFOO2\n");
+
+				const result = await grepFiles(cwd, /foo\d/i);
+
+				expect(result.matches.map((m) => m.match)).toEqual(["foo1", "FOO2"]);
+			});
+
+			it("should include context lines", async () => {
+				write("a.txt", "1\n2\nmatch\n4\n5\n");
+
+				const result = await grepFiles(cwd, "match", { contextLines: 1 });
+
+				expect(result.matches[0]!.before).toEqual(["2"]);
+				expect(result.matches[0]!.after).toEqual(["4"]);
+			});
+
+			it("should cap context lines", async () => {
+				write("a.txt", Array(30).fill("x").join("\n") + "\nmatch\n");
+
+				const result = await grepFiles(cwd, "match", { contextLines: 50 });
+
+				expect(result.matches[0]!.before).toHaveLength(MAX_CONTEXT_LINES);
+			});
+
+			it("should apply include and exclude globs", async () => {
+				write("a.ts", "hit");
+				write("a.js", "hit");
+				write("a.test.ts", "hit");
+
+				const result = await grepFiles(cwd, "hit", {
+					include: ["*.ts"],
+					exclude: ["*.test.ts"],
+				});
+
+				expect(result.matches.map((m) => m.path)).toEqual(["a.ts"]);
+			});
+
+			it("should paginate matches across files", async () => {
+				write("a.txt", "hit\nhit\n");
+				write("b.txt", "hit\n");
+
+				const first = await grepFiles(cwd, "hit", { maxResults: 2 });
+				expect(first.matches).toHaveLength(2);
+				expect(first.hasMore).toBe(true);
+
+				const second = await grepFiles(cwd, "hit", {
+					maxResults: 2,
+					offset: 2,
+				});
+				expect(second.matches.map((m) => m.path)).toEqual(["b.txt"]);
+				expect(second.hasMore).toBe(false);
+			});
+
+			it("should skip ignored and binary files", async () => {
+				write(".gitignore", "ignored.txt\n");
+				write("ignored.txt", "hit");
+				write("image.bin", Buffer.from([0x68, 0x69, 0x74, 0x00, 0x01]));
+				write("a.txt", "hit");
+
+				const result = await grepFiles(cwd, "hit");
+
+				expect(result.matches.map((m) => m.path)).toEqual(["a.txt"]);
+			});
+
+			it("should decode files in their detected encoding", async () => {
+				write(
+					"utf16.txt",
+					Buffer.concat([
+						Buffer.from([0xff, 0xfe]),
+						Buffer.from("你好 world", "utf16le"),
+					]),
+				);
+				write(
+					"gbk.txt",
+					iconv.encode(
+						"这是一个中文文件，包含你好两个字，用于测试编码检测。",
+						"gbk",
+					),
+				);
+
+				const result = await grepFiles(cwd, "你好");
+
+				expect(result.matches.map((m) => m.path)).toEqual([
+					"gbk.txt",
+					"utf16.txt",
+				]);
+				expect(
+					result.matches.find((m) => m.path === "utf16.txt")?.encoding,
+				).toMatch(/utf-?16/i);
+			});
+		});
+	});
+});
@@ -54,6 +54,7 @@ vi.mock("../../../source/services/tools/discoverers/index.js", () => ({
 }));
 
 import { ToolRegistry } from "../../../source/services/tools/registry.js";
+import { discoverExternalTools } from "../../../source/services/tools/discoverers/index.js";
 
 describe("ToolRegistry", () => {
 	let registry: ToolRegistry;
@@ -95,6 +96,18 @@ describe("ToolRegistry", () => {
 		});
 	});
 
+	describe("discoverExternalAsync", () => {
+		it("should notify discovery callbacks when discovery fails", async () => {
+			vi.mocked(discoverExternalTools).mockRejectedValueOnce(new Error("boom"));
+			const callback = vi.fn();
+			registry.onDiscoveryComplete(callback);
+
+			registry.discoverExternalAsync();
+			await vi.waitFor(() => expect(callback).toHaveBeenCalledWith([]));
+			expect(registry.discoveryStatus).toBe("completed");
+		});
+	});
+
 	describe("isDiscovered", () => {
 		it("should return false initially", () => {
 			expect(registry.isDiscovered).toBe(false);
@@ -374,4 +387,42 @@ describe("Tool Freezing", () => {
 			expect(frozenTools).toEqual([]);
 		});
 	});
+
+	describe("setMcpTools", () => {
+		const createMcpTool = (id: string) =>
+			({
+				id,
+				name: id,
+				description: `${id} server`,
+				category: "mcp",
+				capabilities: ["execute"],
+				executablePath: "",
+				actions: [],
+				installed: true,
+			}) as const;
+
+		it("should replace MCP tools and refresh frozen sets", async () => {
+			await registry.loadBuiltinTools();
+			registry.freezeAllTools();
+			registry.freezeProjectTools("node");
+
+			registry.setMcpTools([
+				createMcpTool("mcp-docs"),
+				createMcpTool("mcp-db"),
+			]);
+
+			expect(registry.getAllTools().map((t) => t.id)).toContain("mcp-docs");
+			// MCP tools are always part of the project tool set
+			expect(registry.getProjectTools().map((t) => t.id)).toEqual([
+				"mcp-db",
+				"mcp-docs",
+			]);
+
+			registry.setMcpTools([createMcpTool("mcp-db")]);
+
+			expect(registry.getTool("mcp-docs")).toBeUndefined();
+			expect(registry.getProjectTools().map((t) => t.id)).toEqual(["mcp-db"]);
+			expect(registry.getTool("git")).toBeDefined();
+		});
+	});
 });
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock container runtime detection
+vi.mock("../../../source/services/tools/discoverers/docker.js", () => ({
+	detectContainerRuntime: vi.fn(),
+}));
+
+// Mock localsettings module
+vi.mock("../../../source/utils/localsettings.js", () => ({
+	getLocalSettings: vi.fn(),
+}));
+
+import { detectContainerRuntime } from "../../../source/services/tools/discoverers/docker.js";
+import type { SandboxPolicy } from "../../../source/utils/localsettings.js";
+import type { RiskAssessment } from "../../../source/services/permissions/types.js";
+import {
+	SANDBOX_WORKDIR,
+	buildSandboxArgs,
+	getContainerRuntime,
+	getSandboxInterpreter,
+	resetContainerRuntime,
+	resolveSandbox,
+	shouldUseSandbox,
+	toContainerCommand,
+} from "../../../source/services/tools/sandbox.js";
+
+const policy = (overrides: Partial<SandboxPolicy> = {}): SandboxPolicy => ({
+	mode: "always",
+	image: "",
+	network: false,
+	memory: "1g",
+	cpus: "1",
+	...overrides,
+});
+
+const dangerous: RiskAssessment = {
+	level: "dangerous",
+	reasons: ["recursive forced delete"],
+	blocked: false,
+};
+
+const safe: RiskAssessment = { level: "safe", reasons: [], blocked: false };
+
+describe("sandbox", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		resetContainerRuntime();
+	});
+
+	describe("getSandboxInterpreter", () => {
+		it("should map shell tools to interpreters", () => {
+			expect(getSandboxInterpreter("a-c-bash")).toBe("bash");
+			expect(getSandboxInterpreter("a-python")).toBe("python");
+			expect(getSandboxInterpreter("a-node")).toBe("node");
+		});
+
+		it("should return null for other tools", () => {
+			expect(getSandboxInterpreter("a-c-git")).toBeNull();
+		});
+	});
+
+	describe("shouldUseSandbox", () => {
+		it("should never sandbox when mode is off", () => {
+			expect(shouldUseSandbox("bash", dangerous, policy({ mode: "off" }))).toBe(
+				false,
+			);
+		});
+
+		it("should sandbox only dangerous commands in dangerous mode", () => {
+			const dangerousMode = policy({ mode: "dangerous" });
+			expect(shouldUseSandbox("bash", dangerous, dangerousMode)).toBe(true);
+			expect(shouldUseSandbox("bash", safe, dangerousMode)).toBe(false);
+			expect(shouldUseSandbox("bash", undefined, dangerousMode)).toBe(false);
+		});
+
+		it("should always sandbox in always mode", () => {
+			expect(shouldUseSandbox("python", safe, policy())).toBe(true);
+		});
+
+		it("should not sandbox tools without an interpreter", () => {
+			expect(shouldUseSandbox(null, dangerous, policy())).toBe(false);
+		});
+	});
+
+	describe("resolveSandbox", () => {
+		it("should return nothing when the sandbox is not requested", async () => {
+			const result = await resolveSandbox(
+				"bash",
+				safe,
+				policy({ mode: "off" }),
+			);
+
+			expect(result).toEqual({});
+			expect(detectContainerRuntime).not.toHaveBeenCalled();
+		});
+
+		it("should resolve config with the default interpreter image", async () => {
+			vi.mocked(detectContainerRuntime).mockResolvedValue("docker");
+
+			const result = await resolveSandbox("python", safe, policy());
+
+			expect(result.config).toEqual({
+				runtime: "docker",
+				image: "python:3-slim",
+				network: false,
+				memory: "1g",
+				cpus: "1",
+			});
+			expect(result.info).toEqual({
+				runtime: "docker",
+				image: "python:3-slim",
+			});
+		});
+
+		it("should use the image from the policy", async () => {
+			vi.mocked(detectContainerRuntime).mockResolvedValue("podman");
+
+			const result = await resolveSandbox(
+				"bash",
+				safe,
+				policy({ image: "ubuntu:24.04" }),
+			);
+
+			expect(result.config?.runtime).toBe("podman");
+			expect(result.config?.image).toBe("ubuntu:24.04");
+		});
+
+		it("should fall back to the host with a warning when no runtime exists", async () => {
+			vi.mocked(detectContainerRuntime).mockResolvedValue(null);
+
+			const result = await resolveSandbox("bash", dangerous, policy());
+
+			expect(result.config).toBeUndefined();
+			expect(result.info?.runtime).toBeNull();
+			expect(result.info?.warning).toContain("ran on the host");
+		});
+	});
+
+	describe("getContainerRuntime", () => {
+		it("should detect the runtime only once", async () => {
+			vi.mocked(detectContainerRuntime).mockResolvedValue("docker");
+
+			await getContainerRuntime();
+			await getContainerRuntime();
+
+			expect(detectContainerRuntime).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("toContainerCommand", () => {
+		it("should rewrite project paths to the mount point", () => {
+			expect(
+				toContainerCommand(
+					'bash "/home/me/proj/.axiomate/scripts/a.sh"',
+					"/home/me/proj",
+				),
+			).toBe(`bash "${SANDBOX_WORKDIR}/.axiomate/scripts/a.sh"`);
+		});
+
+		it("should rewrite Windows paths with forward slashes", () => {
+			expect(
+				toContainerCommand(
+					'python "C:/proj/.axiomate/scripts/a.py"',
+					"C:\\proj",
+				),
+			).toBe(`python "${SANDBOX_WORKDIR}/.axiomate/scripts/a.py"`);
+		});
+
+		it("should leave the command unchanged for a root directory", () => {
+			expect(toContainerCommand("ls /etc", "/")).toBe("ls /etc");
+		});
+	});
+
+	describe("buildSandboxArgs", () => {
+		const config = {
+			runtime: "docker" as const,
+			image: "bash:5",
+			network: false,
+			memory: "512m",
+			cpus: "2",
+		};
+
+		it("should mount the project and apply limits", () => {
+			const args = buildSandboxArgs(config, "echo hi", {
+				cwd: "/proj",
+				name: "axiomate-sandbox-test",
+			});
+
+			expect(args.slice(0, 3)).toEqual(["run", "--rm", "-i"]);
+			expect(args).toContain("axiomate-sandbox-test");
+			expect(args).toContain(`/proj:${SANDBOX_WORKDIR}`);
+			expect(args).toContain("512m");
+			expect(args).toContain("2");
+			expect(args).toContain("--pids-limit");
+			expect(args.slice(-4)).toEqual(["bash:5", "sh", "-c", "echo hi"]);
+		});
+
+		it("should disable network by default", () => {
+			const args = buildSandboxArgs(config, "echo hi", {
+				cwd: "/proj",
+				name: "n",
+			});
+			expect(args.join(" ")).toContain("--network none");
+
+			const withNetwork = buildSandboxArgs(
+				{ ...config, network: true },
+				"echo hi",
+				{
+					cwd: "/proj",
+					name: "n",
+				},
+			);
+			expect(withNetwork).not.toContain("--network");
+		});
+
+		it("should pass tool environment into the container", () => {
+			const args = buildSandboxArgs(config, "python a.py", {
+				cwd: "/proj",
+				name: "n",
+				env: { PYTHONIOENCODING: "utf-8" },
+			});
+
+			expect(args.join(" ")).toContain("-e PYTHONIOENCODING=utf-8");
+		});
+	});
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+	mkdtempSync,
+	rmSync,
+	writeFileSync,
+	readFileSync,
+	existsSync,
+	unlinkSync,
+} from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+	UndoManager,
+	MAX_BACKUP_TURNS,
+	getBackupsDir,
+	getUndoManager,
+	resetUndoManager,
+} from "../../../source/services/undo/undoManager.js";
+
+describe("UndoManager", () => {
+	let cwd: string;
+	let manager: UndoManager;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "axiomate-undo-"));
+		manager = new UndoManager();
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	const file = (name: string) => join(cwd, name);
+
+	/**
+	 * 模拟一个 AI 回合：先快照再写入
+	 */
+	const runTurn = (id: string, edits: Record<string, string | null>) => {
+		manager.beginTurn(id, cwd, `turn ${id}`);
+		for (const [name, content] of Object.entries(edits)) {
+			manager.snapshot(file(name));
+			if (content === null) {
+				unlinkSync(file(name));
+			} else {
+				writeFileSync(file(name), content);
+			}
+		}
+		manager.endTurn();
+	};
+
+	describe("snapshot", () => {
+		it("should do nothing without an active turn", () => {
+			writeFileSync(file("a.txt"), "original");
+
+			manager.snapshot(file("a.txt"));
+
+			expect(existsSync(getBackupsDir(cwd))).toBe(false);
+			expect(manager.list(cwd)).toEqual([]);
+		});
+
+		it("should record only the first state of a file in a turn", () => {
+			writeFileSync(file("a.txt"), "v1");
+
+			manager.beginTurn("t1", cwd, "edit twice");
+			manager.snapshot(file("a.txt"));
+			writeFileSync(file("a.txt"), "v2");
+			manager.snapshot(file("a.txt"));
+			writeFileSync(file("a.txt"), "v3");
+			manager.endTurn();
+
+			const turns = manager.list(cwd);
+			expect(turns).toHaveLength(1);
+			expect(turns[0]!.files).toHaveLength(1);
+
+			manager.undo(cwd);
+			expect(readFileSync(file("a.txt"), "utf-8")).toBe("v1");
+		});
+
+		it("should truncate long labels to the first line", () => {
+			manager.beginTurn("t1", cwd, `${"x".repeat(60)}\nsecond line`);
+			manager.snapshot(file("a.txt"));
+			manager.endTurn();
+
+			expect(manager.list(cwd)[0]!.label).toBe(`${"x".repeat(50)}…`);
+		});
+
+		it("should ignore files inside the backups directory", () => {
+			manager.beginTurn("t1", cwd, "label");
+			manager.snapshot(join(getBackupsDir(cwd), "journal.json"));
+			manager.endTurn();
+
+			expect(manager.list(cwd)).toEqual([]);
+		});
+	});
+
+	describe("undo", () => {
+		it("should restore edited files", () => {
+			writeFileSync(file("a.txt"), "before");
+			runTurn("t1", { "a.txt": "after" });
+
+			const result = manager.undo(cwd);
+
+			expect(result.success).toBe(true);
+			expect(result.restored).toEqual([file("a.txt")]);
+			expect(result.turn?.label).toBe("turn t1");
+			expect(readFileSync(file("a.txt"), "utf-8")).toBe("before");
+		});
+
+		it("should delete files created during the turn", () => {
+			runTurn("t1", { "new.txt": "created" });
+
+			manager.undo(cwd);
+
+			expect(existsSync(file("new.txt"))).toBe(false);
+		});
+
+		it("should recreate files deleted during the turn", () => {
+			writeFileSync(file("gone.txt"), "keep me");
+			runTurn("t1", { "gone.txt": null });
+
+			manager.undo(cwd);
+
+			expect(readFileSync(file("gone.txt"), "utf-8")).toBe("keep me");
+		});
+
+		it("should preserve raw bytes including BOM", () => {
+			const original = Buffer.from([0xef, 0xbb, 0xbf, 0x68, 0x69, 0x0d, 0x0a]);
+			writeFileSync(file("bom.txt"), original);
+			runTurn("t1", { "bom.txt": "rewritten" });
+
+			manager.undo(cwd);
+
+			expect(readFileSync(file("bom.txt")).equals(original)).toBe(true);
+			expect(manager.list(cwd)[0]!.files[0]!.hasBOM).toBe(true);
+		});
+
+		it("should undo turns from newest to oldest", () => {
+			writeFileSync(file("a.txt"), "v1");
+			runTurn("t1", { "a.txt": "v2" });
+			runTurn("t2", { "a.txt": "v3" });
+
+			manager.undo(cwd);
+			expect(readFileSync(file("a.txt"), "utf-8")).toBe("v2");
+
+			manager.undo(cwd);
+			expect(readFileSync(file("a.txt"), "utf-8")).toBe("v1");
+		});
+
+		it("should report empty when there is nothing to undo", () => {
+			const result = manager.undo(cwd);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("empty");
+		});
+
+		it("should refuse while a turn is active", () => {
+			writeFileSync(file("a.txt"), "before");
+			runTurn("t1", { "a.txt": "after" });
+			manager.beginTurn("t2", cwd, "running");
+
+			const result = manager.undo(cwd);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("busy");
+			expect(readFileSync(file("a.txt"), "utf-8")).toBe("after");
+		});
+	});
+
+	describe("redo", () => {
+		it("should re-apply an undone turn", () => {
+			writeFileSync(file("a.txt"), "before");
+			runTurn("t1", { "a.txt": "after", "b.txt": "created" });
+
+			manager.undo(cwd);
+			const result = manager.redo(cwd);
+
+			expect(result.success).toBe(true);
+			expect(result.restored).toHaveLength(2);
+			expect(readFileSync(file("a.txt"), "utf-8")).toBe("after");
+			expect(readFileSync(file("b.txt"), "utf-8")).toBe("created");
+			expect(manager.list(cwd)[0]!.undone).toBe(false);
+		});
+
+		it("should redo turns in the order they were undone", () => {
+			writeFileSync(file("a.txt"), "v1");
+			runTurn("t1", { "a.txt": "v2" });
+			runTurn("t2", { "a.txt": "v3" });
+			manager.undo(cwd);
+			manager.undo(cwd);
+
+			manager.redo(cwd);
+			expect(readFileSync(file("a.txt"), "utf-8")).toBe("v2");
+
+			manager.redo(cwd);
+			expect(readFileSync(file("a.txt"), "utf-8")).toBe("v3");
+		});
+
+		it("should report empty when there is nothing to redo", () => {
+			runTurn("t1", { "a.txt": "content" });
+
+			const result = manager.redo(cwd);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("empty");
+		});
+
+		it("should discard undone turns once a new turn makes changes", () => {
+			writeFileSync(file("a.txt"), "v1");
+			runTurn("t1", { "a.txt": "v2" });
+			manager.undo(cwd);
+
+			runTurn("t2", { "b.txt": "new" });
+
+			expect(manager.list(cwd).map((t) => t.id)).toEqual(["t2"]);
+			expect(existsSync(join(getBackupsDir(cwd), "t1"))).toBe(false);
+			expect(manager.redo(cwd).error).toBe("empty");
+		});
+	});
+
+	describe("pruning", () => {
+		it("should keep at most MAX_BACKUP_TURNS turns", () => {
+			for (let i = 0; i <= MAX_BACKUP_TURNS; i++) {
+				runTurn(`t${i}`, { "a.txt": `v${i}` });
+			}
+
+			const turns = manager.list(cwd);
+			expect(turns).toHaveLength(MAX_BACKUP_TURNS);
+			expect(turns[0]!.id).toBe("t1");
+			expect(existsSync(join(getBackupsDir(cwd), "t0"))).toBe(false);
+		});
+	});
+});
+
+describe("getUndoManager", () => {
+	beforeEach(() => {
+		resetUndoManager();
+	});
+
+	it("should return a singleton", () => {
+		expect(getUndoManager()).toBe(getUndoManager());
+	});
+
+	it("should create a new instance after reset", () => {
+		const first = getUndoManager();
+		resetUndoManager();
+		expect(getUndoManager()).not.toBe(first);
+	});
+});
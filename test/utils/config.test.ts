@@ -282,6 +282,24 @@ describe("config", () => {
 			expect(getCurrentModelId()).toBe("new-model");
 		});
 
+		it("should prefer the runtime model override without saving it", async () => {
+			vi.mocked(fs.existsSync).mockReturnValue(false);
+			vi.mocked(fs.writeFileSync).mockReturnValue(undefined);
+
+			const { getCurrentModelId, setCurrentModelId, setModelOverride } =
+				await resetConfigModule();
+
+			setCurrentModelId("saved-model");
+			vi.mocked(fs.writeFileSync).mockClear();
+
+			setModelOverride("override-model");
+			expect(getCurrentModelId()).toBe("override-model");
+			expect(fs.writeFileSync).not.toHaveBeenCalled();
+
+			setModelOverride(null);
+			expect(getCurrentModelId()).toBe("saved-model");
+		});
+
 		it("should get all models", async () => {
 			const models = {
 				model1: { model: "model1", name: "Model 1" },
@@ -659,4 +677,34 @@ describe("config", () => {
 			expect(getSuggestionThinkingParams("non-existent-model")).toBeNull();
 		});
 	});
+
+	describe("getCostBudget", () => {
+		it("should return null when no budget is configured", async () => {
+			vi.mocked(fs.existsSync).mockReturnValue(false);
+			vi.mocked(fs.writeFileSync).mockReturnValue(undefined);
+
+			const { getCostBudget } = await resetConfigModule();
+			expect(getCostBudget()).toBeNull();
+		});
+
+		it("should ignore budgets without a positive limit", async () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({ costBudget: { limit: 0, action: "stop" } }),
+			);
+
+			const { getCostBudget } = await resetConfigModule();
+			expect(getCostBudget()).toBeNull();
+		});
+
+		it("should return the configured budget", async () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({ costBudget: { limit: 10, action: "stop" } }),
+			);
+
+			const { getCostBudget } = await resetConfigModule();
+			expect(getCostBudget()).toEqual({ limit: 10, action: "stop" });
+		});
+	});
 });
@@ -10,6 +10,13 @@ const mockRegistry = {
 		callback([]);
 	}),
 	freezeTools: vi.fn(),
+	setMcpTools: vi.fn(),
+};
+
+// Mock MCP client manager shared across calls
+const mockMcpManager = {
+	onToolsChanged: vi.fn(),
+	connectAll: vi.fn().mockResolvedValue(undefined),
 };
 
 // Mock dependencies
@@ -27,6 +34,10 @@ vi.mock("../../source/services/ai/index.js", () => ({
 	})),
 }));
 
+vi.mock("../../source/services/tools/mcp/client.js", () => ({
+	getMcpClientManager: vi.fn(() => mockMcpManager),
+}));
+
 vi.mock("../../source/i18n/index.js", () => ({
 	t: vi.fn((key: string) => key),
 }));
@@ -104,6 +115,48 @@ describe("init", () => {
 			expect(result.currentModel).toBeDefined();
 		});
 
+		it("should connect MCP servers once and sync their tools", async () => {
+			vi.resetModules();
+			const { initApp: freshInitApp } =
+				await import("../../source/utils/init.js");
+
+			await freshInitApp();
+			await freshInitApp();
+
+			expect(mockMcpManager.connectAll).toHaveBeenCalledTimes(1);
+			expect(mockMcpManager.onToolsChanged).toHaveBeenCalledTimes(1);
+
+			const listener = mockMcpManager.onToolsChanged.mock.calls[0]![0];
+			listener([{ id: "mcp-docs" }]);
+			expect(mockRegistry.setMcpTools).toHaveBeenCalledWith([
+				{ id: "mcp-docs" },
+			]);
+		});
+
+		it("should wait for MCP servers and pass max rounds when requested", async () => {
+			vi.resetModules();
+			const { initApp: freshInitApp } =
+				await import("../../source/utils/init.js");
+			let connected = false;
+			mockMcpManager.connectAll.mockImplementationOnce(async () => {
+				await new Promise((resolve) => setTimeout(resolve, 10));
+				connected = true;
+			});
+
+			await freshInitApp(undefined, {
+				waitForTools: true,
+				maxToolCallRounds: 5,
+			});
+
+			expect(connected).toBe(true);
+			expect(mockRegistry.freezeTools).toHaveBeenCalled();
+			expect(createAIServiceFromConfig).toHaveBeenCalledWith(
+				mockRegistry,
+				undefined,
+				{ maxToolCallRounds: 5 },
+			);
+		});
+
 		it("should handle null current model", async () => {
 			vi.mocked(getCurrentModel).mockReturnValue(null);
 
@@ -45,7 +45,26 @@ describe("localsettings", () => {
 			expect(settings).toEqual({
 				permissions: {
 					allow: [],
+					deny: [],
+					ask: [],
 				},
+				risk: {
+					forbiddenPatterns: [],
+					blockDangerous: false,
+				},
+				sandbox: {
+					mode: "off",
+					image: "",
+					network: false,
+					memory: "1g",
+					cpus: "1",
+				},
+				tools: {
+					timeouts: {},
+					detachAfter: 0,
+					maxParallel: 4,
+				},
+				mcpServers: {},
 			});
 			expect(getLocalSettings()).toEqual(settings);
 		});
@@ -84,6 +103,90 @@ describe("localsettings", () => {
 			expect(settings.permissions.allow).toEqual(["npm:*"]);
 		});
 
+		it("should merge risk policy with defaults", async () => {
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({
+					risk: {
+						forbiddenPatterns: ["terraform destroy"],
+					},
+				}),
+			);
+
+			const { initLocalSettings } =
+				await import("../../source/utils/localsettings.js");
+
+			const settings = initLocalSettings();
+
+			expect(settings.risk).toEqual({
+				forbiddenPatterns: ["terraform destroy"],
+				blockDangerous: false,
+			});
+		});
+
+		it("should merge sandbox policy with defaults", async () => {
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({
+					sandbox: {
+						mode: "dangerous",
+						network: true,
+					},
+				}),
+			);
+
+			const { initLocalSettings } =
+				await import("../../source/utils/localsettings.js");
+
+			const settings = initLocalSettings();
+
+			expect(settings.sandbox).toEqual({
+				mode: "dangerous",
+				image: "",
+				network: true,
+				memory: "1g",
+				cpus: "1",
+			});
+		});
+
+		it("should merge tool execution policy with defaults", async () => {
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({
+					tools: {
+						timeouts: { "a-c-bash_run": 600000 },
+					},
+				}),
+			);
+
+			const { initLocalSettings } =
+				await import("../../source/utils/localsettings.js");
+
+			const settings = initLocalSettings();
+
+			expect(settings.tools).toEqual({
+				timeouts: { "a-c-bash_run": 600000 },
+				detachAfter: 0,
+				maxParallel: 4,
+			});
+		});
+
+		it("should load project MCP servers", async () => {
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({
+					mcpServers: {
+						docs: { url: "http://127.0.0.1:3000/mcp" },
+					},
+				}),
+			);
+
+			const { initLocalSettings } =
+				await import("../../source/utils/localsettings.js");
+
+			const settings = initLocalSettings();
+
+			expect(settings.mcpServers).toEqual({
+				docs: { url: "http://127.0.0.1:3000/mcp" },
+			});
+		});
+
 		it("should return defaults for invalid JSON", async () => {
 			vi.mocked(fs.readFileSync).mockReturnValue("invalid json");
 
@@ -95,7 +198,26 @@ describe("localsettings", () => {
 			expect(settings).toEqual({
 				permissions: {
 					allow: [],
+					deny: [],
+					ask: [],
 				},
+				risk: {
+					forbiddenPatterns: [],
+					blockDangerous: false,
+				},
+				sandbox: {
+					mode: "off",
+					image: "",
+					network: false,
+					memory: "1g",
+					cpus: "1",
+				},
+				tools: {
+					timeouts: {},
+					detachAfter: 0,
+					maxParallel: 4,
+				},
+				mcpServers: {},
 			});
 		});
 
@@ -200,6 +322,30 @@ describe("localsettings", () => {
 			expect(updated.permissions.allow).toEqual(["new-permission"]);
 		});
 
+		it("should replace MCP servers as a whole", async () => {
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({
+					mcpServers: {
+						docs: { url: "http://127.0.0.1:3000/mcp" },
+						db: { command: "db-mcp" },
+					},
+				}),
+			);
+
+			const { initLocalSettings, updateLocalSettings } =
+				await import("../../source/utils/localsettings.js");
+
+			initLocalSettings();
+			const updated = updateLocalSettings({
+				mcpServers: { db: { command: "db-mcp", enabled: false } },
+			});
+
+			expect(updated.mcpServers).toEqual({
+				db: { command: "db-mcp", enabled: false },
+			});
+			expect(updated.permissions.allow).toEqual([]);
+		});
+
 		it("should create directory before saving", async () => {
 			vi.mocked(fs.readFileSync).mockImplementation(() => {
 				throw new Error("ENOENT");
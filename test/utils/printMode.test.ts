@@ -0,0 +1,341 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { StreamCallbacks } from "../../source/services/ai/types.js";
+import type { PermissionCallback } from "../../source/services/permissions/types.js";
+
+const mocks = vi.hoisted(() => ({
+	piped: "",
+	aiService: null as unknown,
+}));
+
+vi.mock("../../source/utils/init.js", () => ({
+	initApp: vi.fn(async () => ({
+		aiService: mocks.aiService,
+		currentModel: mocks.aiService ? { model: "test-model" } : null,
+	})),
+}));
+
+vi.mock("../../source/utils/stdin.js", () => ({
+	readPipedInput: vi.fn(async () => mocks.piped),
+}));
+
+vi.mock("../../source/utils/config.js", () => ({
+	getModelById: vi.fn((id: string) =>
+		id === "other-model" ? { model: "other-model" } : undefined,
+	),
+	getAllModels: vi.fn(() => [
+		{ model: "test-model" },
+		{ model: "other-model" },
+	]),
+	setModelOverride: vi.fn(),
+}));
+
+vi.mock("../../source/services/ai/contentBuilder.js", () => ({
+	extractFileReferences: vi.fn(() => [
+		{ path: "src/app.ts", isDirectory: false },
+	]),
+	buildMessageContent: vi.fn(async ({ userMessage }) => ({
+		content: `[with files] ${userMessage}`,
+		wasTruncated: false,
+		truncationNotice: "",
+		fileSummary: "",
+		estimatedTokens: 10,
+		exceedsAvailable: false,
+	})),
+}));
+
+vi.mock("../../source/i18n/index.js", () => ({
+	t: vi.fn((key: string, params?: Record<string, unknown>) =>
+		params ? `${key}: ${JSON.stringify(params)}` : key,
+	),
+}));
+
+import {
+	createPrintPermissionCallback,
+	parseAllowedTools,
+	runPrintMode,
+} from "../../source/utils/printMode.js";
+import { initApp } from "../../source/utils/init.js";
+import { setModelOverride } from "../../source/utils/config.js";
+
+type StreamImpl = (
+	callbacks: StreamCallbacks,
+	onPermission: PermissionCallback,
+	signal: AbortSignal,
+) => Promise<string>;
+
+function createAIService(stream: StreamImpl) {
+	const processManager = { stopAll: vi.fn() };
+	return {
+		getProcessManager: vi.fn(() => processManager),
+		getAvailableTokens: vi.fn(() => 10000),
+		shouldCompact: vi.fn(() => ({ isContextFull: false })),
+		streamMessage: vi.fn(
+			(
+				_message: string,
+				_context: unknown,
+				callbacks: StreamCallbacks,
+				options: { signal: AbortSignal },
+				_onAskUser: unknown,
+				_display: string,
+				onPermission: PermissionCallback,
+			) => stream(callbacks, onPermission, options.signal),
+		),
+	};
+}
+
+// Streams "Hello world" in two chunks, like the real cumulative callbacks
+const helloStream: StreamImpl = async (callbacks) => {
+	callbacks.onChunk?.({ reasoning: "think", content: "Hello" });
+	callbacks.onChunk?.({ reasoning: "thinking", content: "Hello world" });
+	return "Hello world";
+};
+
+describe("runPrintMode", () => {
+	let stdout: string;
+	let stderr: string;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.piped = "";
+		mocks.aiService = createAIService(helloStream);
+		stdout = "";
+		stderr = "";
+		vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+			stdout += String(chunk);
+			return true;
+		});
+		vi.spyOn(process.stderr, "write").mockImplementation((chunk) => {
+			stderr += String(chunk);
+			return true;
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should stream text to stdout and exit with 0", async () => {
+		const code = await runPrintMode({ prompt: "Say hello @src/app.ts" });
+
+		expect(code).toBe(0);
+		expect(stdout).toBe("Hello world\n");
+		expect(initApp).toHaveBeenCalledWith(undefined, {
+			waitForTools: true,
+			maxToolCallRounds: undefined,
+		});
+
+		const service = mocks.aiService as ReturnType<typeof createAIService>;
+		const [message, context, , options, , display] =
+			service.streamMessage.mock.calls[0]!;
+		expect(message).toBe("[with files] Say hello @src/app.ts");
+		expect(context).toMatchObject({ selectedFiles: ["src/app.ts"] });
+		expect(options).toMatchObject({ planMode: false });
+		expect(display).toBe("Say hello @src/app.ts");
+	});
+
+	it("should append piped stdin after the prompt", async () => {
+		mocks.piped = "diff --git a/x b/x\n";
+
+		await runPrintMode({ prompt: "Review this", planMode: true });
+
+		const service = mocks.aiService as ReturnType<typeof createAIService>;
+		const [message, , , options] = service.streamMessage.mock.calls[0]!;
+		expect(message).toBe("[with files] Review this\n\ndiff --git a/x b/x");
+		expect(options).toMatchObject({ planMode: true });
+	});
+
+	it("should emit newline-delimited events for stream-json", async () => {
+		const code = await runPrintMode({
+			prompt: "hi",
+			outputFormat: "stream-json",
+		});
+
+		expect(code).toBe(0);
+		const events = stdout
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line));
+		expect(events.map((e) => e.type)).toEqual([
+			"init",
+			"reasoning",
+			"text",
+			"reasoning",
+			"text",
+			"result",
+		]);
+		expect(events[0]).toMatchObject({ model: "test-model", planMode: false });
+		expect(events[4]).toEqual({ type: "text", delta: " world" });
+		expect(events[5]).toMatchObject({
+			success: true,
+			result: "Hello world",
+			deniedTools: [],
+		});
+	});
+
+	it("should emit tool call events for stream-json", async () => {
+		mocks.aiService = createAIService(async (callbacks) => {
+			callbacks.onToolStart?.({
+				id: "call_1",
+				toolId: "a-c-git",
+				action: "status",
+				argsSummary: "",
+			});
+			callbacks.onToolEnd?.({
+				id: "call_1",
+				success: true,
+				durationMs: 5,
+				outputPreview: "clean",
+			});
+			return "done";
+		});
+
+		await runPrintMode({ prompt: "hi", outputFormat: "stream-json" });
+
+		const events = stdout
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line));
+		expect(events[1]).toEqual({
+			type: "tool_start",
+			id: "call_1",
+			toolId: "a-c-git",
+			action: "status",
+			argsSummary: "",
+		});
+		expect(events[2]).toMatchObject({
+			type: "tool_end",
+			success: true,
+			outputPreview: "clean",
+		});
+	});
+
+	it("should print a single result object for json", async () => {
+		await runPrintMode({ prompt: "hi", outputFormat: "json" });
+
+		expect(JSON.parse(stdout)).toMatchObject({
+			type: "result",
+			success: true,
+			result: "Hello world",
+			model: "test-model",
+		});
+	});
+
+	it("should only allow tool calls on the allow-list", async () => {
+		const decisions: string[] = [];
+		mocks.aiService = createAIService(async (_callbacks, onPermission) => {
+			for (const callName of ["a-c-git_commit", "a-c-file_write"]) {
+				decisions.push(
+					await onPermission({
+						callName,
+						toolId: callName.split("_")[0]!,
+						actionName: callName.split("_")[1]!,
+						toolName: "tool",
+						args: {},
+					}),
+				);
+			}
+			return "done";
+		});
+
+		const code = await runPrintMode({
+			prompt: "commit",
+			allowedTools: ["a-c-git_*"],
+		});
+
+		expect(code).toBe(0);
+		expect(decisions).toEqual(["allow_once", "deny"]);
+		expect(stderr).toContain('print.toolDenied: {"name":"a-c-file_write"}');
+	});
+
+	it("should exit with 1 when the request fails", async () => {
+		mocks.aiService = createAIService(async () => {
+			throw new Error("API error: 500");
+		});
+
+		const code = await runPrintMode({ prompt: "hi" });
+
+		expect(code).toBe(1);
+		expect(stderr).toContain("API error: 500");
+	});
+
+	it("should exit with 130 when interrupted", async () => {
+		mocks.aiService = createAIService(
+			(_callbacks, _onPermission, signal) =>
+				new Promise((_resolve, reject) => {
+					signal.addEventListener("abort", () =>
+						reject(new DOMException("aborted", "AbortError")),
+					);
+					process.emit("SIGINT");
+				}),
+		);
+
+		const code = await runPrintMode({ prompt: "hi", outputFormat: "json" });
+
+		expect(code).toBe(130);
+		expect(JSON.parse(stdout)).toMatchObject({
+			success: false,
+			error: "print.interrupted",
+		});
+	});
+
+	it("should stop background processes before returning", async () => {
+		const aiService = createAIService(helloStream);
+		mocks.aiService = aiService;
+
+		await runPrintMode({ prompt: "hi" });
+
+		expect(aiService.getProcessManager().stopAll).toHaveBeenCalledTimes(1);
+	});
+
+	it("should exit with 2 for usage and configuration errors", async () => {
+		expect(await runPrintMode({ prompt: "" })).toBe(2);
+		expect(stderr).toContain("print.noPrompt");
+
+		expect(await runPrintMode({ prompt: "hi", outputFormat: "xml" })).toBe(2);
+		expect(await runPrintMode({ prompt: "hi", maxRounds: 0 })).toBe(2);
+		expect(await runPrintMode({ prompt: "hi", model: "missing" })).toBe(2);
+		expect(stderr).toContain("test-model, other-model");
+
+		mocks.aiService = null;
+		expect(await runPrintMode({ prompt: "hi" })).toBe(2);
+		expect(stderr).toContain("ai.notConfigured");
+	});
+
+	it("should override the model and max rounds for this run", async () => {
+		await runPrintMode({ prompt: "hi", model: "other-model", maxRounds: 5 });
+
+		expect(setModelOverride).toHaveBeenCalledWith("other-model");
+		expect(initApp).toHaveBeenCalledWith(undefined, {
+			waitForTools: true,
+			maxToolCallRounds: 5,
+		});
+	});
+});
+
+describe("parseAllowedTools", () => {
+	it("should split comma-separated and repeated values", () => {
+		expect(
+			parseAllowedTools(["a-c-git_*, a-c-file_write", "a-c-web_fetch"]),
+		).toEqual(["a-c-git_*", "a-c-file_write", "a-c-web_fetch"]);
+		expect(parseAllowedTools()).toEqual([]);
+	});
+});
+
+describe("createPrintPermissionCallback", () => {
+	it("should record each denied call once", async () => {
+		const denied: string[] = [];
+		const callback = createPrintPermissionCallback([], denied);
+		const request = {
+			callName: "a-c-file_write",
+			toolId: "a-c-file",
+			actionName: "write",
+			toolName: "File",
+			args: {},
+		};
+
+		await callback(request);
+		await callback(request);
+
+		expect(denied).toEqual(["a-c-file_write"]);
+	});
+});
@@ -0,0 +1,331 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as path from "node:path";
+import type {
+	SessionInfo,
+	SessionStore,
+} from "../../source/services/ai/sessionStore.js";
+
+const mocks = vi.hoisted(() => ({
+	reload: vi.fn(async () => {}),
+	listSessions: vi.fn(),
+	findSession: vi.fn(),
+	readSession: vi.fn(),
+	importSession: vi.fn(),
+	writeTranscript: vi.fn(),
+	readSessionExport: vi.fn(),
+}));
+
+vi.mock("../../source/services/ai/sessionStore.js", () => ({
+	SessionStore: class {
+		reload = mocks.reload;
+		listSessions = mocks.listSessions;
+		findSession = mocks.findSession;
+		readSession = mocks.readSession;
+		importSession = mocks.importSession;
+		getActiveSessionId = () => "s1";
+	},
+}));
+
+vi.mock("../../source/services/ai/sessionTranscript.js", () => ({
+	TRANSCRIPT_FORMATS: ["md", "json", "html"],
+	getDefaultExportPath: vi.fn(
+		(cwd: string, _info: unknown, format: string) =>
+			`${cwd}/.axiomate/exports/session.${format}`,
+	),
+	renderTranscript: vi.fn((_data: unknown, format: string) => `<${format}>`),
+	writeTranscript: mocks.writeTranscript,
+	readSessionExport: mocks.readSessionExport,
+}));
+
+vi.mock("../../source/i18n/index.js", () => ({
+	t: vi.fn((key: string, params?: Record<string, unknown>) =>
+		params ? `${key}: ${JSON.stringify(params)}` : key,
+	),
+}));
+
+import {
+	applySessionStartup,
+	formatSessionList,
+	parseSessionStartup,
+	runSessionsCommand,
+} from "../../source/utils/sessionArgs.js";
+
+const makeInfo = (id: string, cwd?: string): SessionInfo => ({
+	id,
+	name: `Session ${id}`,
+	createdAt: 1000,
+	updatedAt: 2000,
+	tokenUsage: 10,
+	messageCount: 3,
+	isActive: false,
+	cwd,
+});
+
+function createMockStore(overrides: Partial<SessionStore> = {}) {
+	return {
+		getLatestSession: vi.fn(() => null),
+		findSession: vi.fn(() => null),
+		createSession: vi.fn((name?: string, cwd?: string) =>
+			makeInfo("new", cwd ?? name),
+		),
+		setActiveSessionId: vi.fn(),
+		...overrides,
+	} as unknown as SessionStore;
+}
+
+describe("parseSessionStartup", () => {
+	it("should return null when no session flag is given", () => {
+		expect(parseSessionStartup({})).toEqual({ success: true, startup: null });
+	});
+
+	it("should parse each session flag", () => {
+		expect(parseSessionStartup({ continue: true })).toEqual({
+			success: true,
+			startup: { type: "continue" },
+		});
+		expect(parseSessionStartup({ resume: " abc " })).toEqual({
+			success: true,
+			startup: { type: "resume", query: "abc" },
+		});
+		expect(parseSessionStartup({ newSession: "" })).toEqual({
+			success: true,
+			startup: { type: "new", name: undefined },
+		});
+		expect(parseSessionStartup({ newSession: "Refactor" })).toEqual({
+			success: true,
+			startup: { type: "new", name: "Refactor" },
+		});
+	});
+
+	it("should reject conflicting or empty flags", () => {
+		expect(parseSessionStartup({ continue: true, resume: "abc" })).toEqual({
+			success: false,
+			error: "session.conflictingFlags",
+		});
+		expect(parseSessionStartup({ resume: "" })).toEqual({
+			success: false,
+			error: "session.resumeMissing",
+		});
+	});
+});
+
+describe("applySessionStartup", () => {
+	it("should continue the latest session of the directory", () => {
+		const latest = makeInfo("latest", "/work/app");
+		const store = createMockStore({ getLatestSession: vi.fn(() => latest) });
+
+		const result = applySessionStartup(
+			store,
+			{ type: "continue" },
+			"/work/app",
+		);
+
+		expect(result).toEqual({ success: true, session: latest });
+		expect(store.getLatestSession).toHaveBeenCalledWith("/work/app");
+		expect(store.setActiveSessionId).toHaveBeenCalledWith("latest");
+		expect(store.createSession).not.toHaveBeenCalled();
+	});
+
+	it("should start a new session when the directory has none", () => {
+		const store = createMockStore();
+
+		applySessionStartup(store, { type: "continue" }, "/work/app");
+
+		expect(store.createSession).toHaveBeenCalledWith(undefined, "/work/app");
+		expect(store.setActiveSessionId).toHaveBeenCalledWith("new");
+	});
+
+	it("should resume a session by query", () => {
+		const found = makeInfo("found");
+		const store = createMockStore({ findSession: vi.fn(() => found) });
+
+		const result = applySessionStartup(
+			store,
+			{ type: "resume", query: "fou" },
+			"/work/app",
+		);
+
+		expect(result).toEqual({ success: true, session: found });
+		expect(store.findSession).toHaveBeenCalledWith("fou");
+	});
+
+	it("should fail when the resumed session does not exist", () => {
+		const store = createMockStore();
+
+		const result = applySessionStartup(
+			store,
+			{ type: "resume", query: "nope" },
+			"/work/app",
+		);
+
+		expect(result).toEqual({
+			success: false,
+			error: 'session.resumeNotFound: {"query":"nope"}',
+		});
+		expect(store.setActiveSessionId).not.toHaveBeenCalled();
+	});
+
+	it("should create a named session", () => {
+		const store = createMockStore();
+
+		applySessionStartup(store, { type: "new", name: "Docs" }, "/work/app");
+
+		expect(store.createSession).toHaveBeenCalledWith("Docs", "/work/app");
+	});
+});
+
+describe("formatSessionList", () => {
+	it("should mark the active session and optionally show the project", () => {
+		const text = formatSessionList(
+			[makeInfo("s1-abcdefgh", "/work/app"), makeInfo("s2-abcdefgh")],
+			"s1-abcdefgh",
+			true,
+		);
+		const lines = text.split("\n");
+
+		expect(lines[0]).toMatch(
+			/^▸ s1-abcde {2}Session s1-abcdefgh {2}\(3 msgs, /,
+		);
+		expect(lines[1]).toBe("  /work/app");
+		expect(lines[2]).toMatch(/^○ s2-abcde/);
+		expect(lines[3]).toBe("  -");
+	});
+});
+
+describe("runSessionsCommand", () => {
+	let stdout: string;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		stdout = "";
+		mocks.listSessions.mockReturnValue([makeInfo("s1", "/work/app")]);
+		vi.spyOn(console, "log").mockImplementation((text: string) => {
+			stdout += text + "\n";
+		});
+		vi.spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should list sessions of the current directory as JSON", async () => {
+		const code = await runSessionsCommand(["list"], {
+			json: true,
+			cwd: "/work/app",
+		});
+
+		expect(code).toBe(0);
+		expect(mocks.reload).toHaveBeenCalled();
+		expect(mocks.listSessions).toHaveBeenCalledWith({ cwd: "/work/app" });
+		expect(JSON.parse(stdout)).toEqual([makeInfo("s1", "/work/app")]);
+	});
+
+	it("should list all projects sorted by project", async () => {
+		await runSessionsCommand(["list"], { all: true, cwd: "/work/app" });
+
+		expect(mocks.listSessions).toHaveBeenCalledWith({ sortBy: "project" });
+		expect(stdout).toContain("/work/app");
+	});
+
+	it("should report an empty list", async () => {
+		mocks.listSessions.mockReturnValue([]);
+
+		await runSessionsCommand(["list"], { cwd: "/work/app" });
+
+		expect(stdout).toBe("session.listEmpty\n");
+	});
+
+	it("should export a session to the default path", async () => {
+		const data = { info: makeInfo("s1"), messages: [] };
+		mocks.findSession.mockReturnValue(makeInfo("s1"));
+		mocks.readSession.mockReturnValue(data);
+
+		const code = await runSessionsCommand(["export", "s1"], {
+			cwd: "/work/app",
+		});
+
+		expect(code).toBe(0);
+		expect(mocks.writeTranscript).toHaveBeenCalledWith(
+			data,
+			"md",
+			"/work/app/.axiomate/exports/session.md",
+		);
+	});
+
+	it("should export to an explicit path or stdout", async () => {
+		mocks.findSession.mockReturnValue(makeInfo("s1"));
+		mocks.readSession.mockReturnValue({ info: makeInfo("s1") });
+		const write = vi
+			.spyOn(process.stdout, "write")
+			.mockImplementation(() => true);
+
+		await runSessionsCommand(["export", "s1"], {
+			format: "html",
+			output: "out/chat.html",
+			cwd: "/work/app",
+		});
+		expect(mocks.writeTranscript).toHaveBeenCalledWith(
+			expect.anything(),
+			"html",
+			path.resolve("/work/app", "out/chat.html"),
+		);
+
+		await runSessionsCommand(["export", "s1"], {
+			format: "json",
+			output: "-",
+			cwd: "/work/app",
+		});
+		expect(write).toHaveBeenCalledWith("<json>");
+	});
+
+	it("should fail to export unknown sessions or formats", async () => {
+		mocks.findSession.mockReturnValue(null);
+
+		expect(
+			await runSessionsCommand(["export", "nope"], { cwd: "/work/app" }),
+		).toBe(1);
+		expect(
+			await runSessionsCommand(["export", "s1"], {
+				format: "pdf",
+				cwd: "/work/app",
+			}),
+		).toBe(2);
+		expect(await runSessionsCommand(["export"], { cwd: "/work/app" })).toBe(2);
+		expect(mocks.writeTranscript).not.toHaveBeenCalled();
+	});
+
+	it("should import a validated export into the current directory", async () => {
+		const data = { info: makeInfo("old") };
+		mocks.readSessionExport.mockReturnValue({ success: true, data });
+		mocks.importSession.mockReturnValue(makeInfo("new-id"));
+
+		const code = await runSessionsCommand(["import", "chat.json"], {
+			cwd: "/work/app",
+		});
+
+		expect(code).toBe(0);
+		expect(mocks.readSessionExport).toHaveBeenCalledWith(
+			path.resolve("/work/app", "chat.json"),
+		);
+		expect(mocks.importSession).toHaveBeenCalledWith(data, "/work/app");
+		expect(stdout).toContain('session.importedResume: {"id":"new-id"}');
+	});
+
+	it("should report invalid imports", async () => {
+		mocks.readSessionExport.mockReturnValue({
+			success: false,
+			error: "messages.0: bad",
+		});
+
+		expect(
+			await runSessionsCommand(["import", "bad.json"], { cwd: "/work/app" }),
+		).toBe(1);
+		expect(mocks.importSession).not.toHaveBeenCalled();
+	});
+
+	it("should exit with 2 for unknown commands", async () => {
+		expect(await runSessionsCommand(["purge"], { cwd: "/work/app" })).toBe(2);
+		expect(await runSessionsCommand([], { cwd: "/work/app" })).toBe(2);
+	});
+});